@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+// Converts an Overpass API JSON export into the compact graph format read by
+// src/lib/routing/graph.ts. Example query (run it on overpass-turbo and save
+// the JSON):
+//
+//   [out:json];
+//   way["highway"](4.66,-74.07,4.72,-74.01);
+//   out body; >; out skel qt;
+//
+// Usage: node scripts/osm-to-graph.mjs <overpass.json> <out.json> "<name>"
+import { readFile, writeFile } from "node:fs/promises";
+
+const KEPT_TAGS = [
+  "highway",
+  "name",
+  "surface",
+  "lit",
+  "sidewalk",
+  "foot",
+  "access",
+  "cycleway",
+  "bicycle",
+  "step_count",
+  "sac_scale",
+  "tracktype",
+  "leisure",
+];
+
+const WALKABLE = new Set([
+  "trunk",
+  "primary",
+  "secondary",
+  "tertiary",
+  "unclassified",
+  "residential",
+  "living_street",
+  "service",
+  "pedestrian",
+  "footway",
+  "path",
+  "track",
+  "steps",
+  "cycleway",
+]);
+
+const [input, output, name = "Extract"] = process.argv.slice(2);
+if (!input || !output) {
+  console.error(
+    "Usage: node scripts/osm-to-graph.mjs <overpass.json> <out.json> [name]",
+  );
+  process.exit(1);
+}
+
+const { elements, osm3s } = JSON.parse(await readFile(input, "utf8"));
+const nodes = new Map();
+const ways = [];
+
+for (const el of elements) {
+  if (el.type === "node") nodes.set(el.id, el);
+}
+for (const el of elements) {
+  if (el.type !== "way" || !WALKABLE.has(el.tags?.highway)) continue;
+  if (el.tags.access === "private" || el.tags.foot === "no") continue;
+  const tags = Object.fromEntries(
+    KEPT_TAGS.filter((key) => el.tags[key] !== undefined).map((key) => [
+      key,
+      el.tags[key],
+    ]),
+  );
+  ways.push({ id: el.id, nodes: el.nodes.filter((id) => nodes.has(id)), tags });
+}
+
+const used = new Set(ways.flatMap((way) => way.nodes));
+// Where and when the extract is from, so the graph says what it covers.
+const lats = [...used].map((id) => nodes.get(id).lat);
+const lons = [...used].map((id) => nodes.get(id).lon);
+const bbox = [
+  Math.min(...lats),
+  Math.min(...lons),
+  Math.max(...lats),
+  Math.max(...lons),
+].map((deg) => deg.toFixed(4));
+const extractedAt = osm3s?.timestamp_osm_base ?? "an unknown date";
+const graph = {
+  name,
+  source: `OpenStreetMap data as of ${extractedAt}, bbox (${bbox.join(",")}) in Overpass order, converted by scripts/osm-to-graph.mjs. © OpenStreetMap contributors, ODbL.`,
+  nodes: [...used].map((id) => {
+    const node = nodes.get(id);
+    const ele = Number.parseFloat(node.tags?.ele ?? "");
+    return [id, node.lon, node.lat, Number.isFinite(ele) ? ele : null];
+  }),
+  ways,
+};
+
+await writeFile(output, `${JSON.stringify(graph)}\n`);
+console.log(`${output}: ${graph.nodes.length} nodes, ${ways.length} ways`);
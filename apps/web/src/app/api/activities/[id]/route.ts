@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { activitySchema } from "@/lib/api/schemas";
+import { ApiError, handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { deleteActivity, findActivity, saveActivity } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const activity = findActivity(requestUserId(request), id);
+  if (!activity) throw notFound("La actividad");
+  return NextResponse.json({ activity });
+});
+
+/** Creates or replaces the activity stored under `id`. */
+export const PUT = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const activity = await readBody(request, activitySchema);
+  if (activity.id !== id) {
+    throw new ApiError(
+      400,
+      "bad_request",
+      "El id de la actividad no coincide con la URL.",
+    );
+  }
+  const created = saveActivity(userId, activity);
+  return NextResponse.json({ activity }, { status: created ? 201 : 200 });
+});
+
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  if (!deleteActivity(requestUserId(request), id))
+    throw notFound("La actividad");
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { activitySchema } from "@/lib/api/schemas";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findActivity, listActivities, saveActivity } from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  return NextResponse.json({ activities: listActivities(userId) });
+});
+
+export const POST = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const activity = await readBody(request, activitySchema);
+  if (findActivity(userId, activity.id)) {
+    throw new ApiError(409, "conflict", "Esa actividad ya está guardada.");
+  }
+  saveActivity(userId, activity);
+  return NextResponse.json({ activity }, { status: 201 });
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { magicLinkSchema } from "@/lib/api/schemas";
+import { handler, readBody } from "@/lib/server/http";
+import { sendMagicLink } from "@/lib/server/magic-link";
+import { appOrigin } from "@/lib/server/origin";
+import { clientAddress, createRateLimiter } from "@/lib/server/rate-limit";
+
+// Every request writes a mail, so neither an inbox nor a caller can be flooded.
+const perEmail = createRateLimiter("magic-link:email", {
+  limit: 3,
+  windowMs: 15 * 60 * 1000,
+});
+const perAddress = createRateLimiter("magic-link:ip", {
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+});
+
+/** Emails a sign-in link; it also creates the account on first use. */
+export const POST = handler(async (request: Request) => {
+  perAddress.hit(clientAddress(request));
+  const { email } = await readBody(request, magicLinkSchema);
+  perEmail.hit(email.toLowerCase());
+  await sendMagicLink(email, appOrigin());
+  return NextResponse.json({ sent: true }, { status: 202 });
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { handler } from "@/lib/server/http";
+import { consumeMagicLink } from "@/lib/server/magic-link";
+import { startSession } from "@/lib/server/session";
+import { createUser, findUserByEmail } from "@/lib/server/store";
+
+// The link is opened from an email, so this answers with redirects, not JSON.
+export const GET = handler(async (request: Request) => {
+  const url = new URL(request.url);
+  const email = consumeMagicLink(url.searchParams.get("token") ?? "");
+  if (!email) {
+    return NextResponse.redirect(new URL("/login?error=link", url.origin));
+  }
+  const user =
+    findUserByEmail(email)?.profile ??
+    createUser({ email, displayName: email.split("@")[0] });
+  const response = NextResponse.redirect(new URL("/plan", url.origin));
+  startSession(response, user.id);
+  return response;
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { handler } from "@/lib/server/http";
+import { sessionUserId } from "@/lib/server/session";
+import { findUser } from "@/lib/server/store";
+
+/** Who is signed in; `user` is null for visitors. */
+export const GET = handler(async (request: Request) => {
+  const userId = sessionUserId(request);
+  return NextResponse.json({ user: userId ? findUser(userId) : null });
+});
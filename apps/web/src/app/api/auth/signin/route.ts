@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { signInSchema } from "@/lib/api/schemas";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { verifyPassword } from "@/lib/server/password";
+import { clientAddress, createRateLimiter } from "@/lib/server/rate-limit";
+import { startSession } from "@/lib/server/session";
+import { findUserByEmail } from "@/lib/server/store";
+
+// Caps password guessing, for one account and from one caller.
+const perEmail = createRateLimiter("signin:email", {
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+});
+const perAddress = createRateLimiter("signin:ip", {
+  limit: 30,
+  windowMs: 15 * 60 * 1000,
+});
+
+export const POST = handler(async (request: Request) => {
+  perAddress.hit(clientAddress(request));
+  const { email, password } = await readBody(request, signInSchema);
+  perEmail.hit(email.toLowerCase());
+  const found = findUserByEmail(email);
+  // Same answer, after the same scrypt work, for unknown emails and wrong
+  // passwords, so the form does not reveal who has an account.
+  const valid = await verifyPassword(password, found?.passwordHash);
+  if (!found || !valid) {
+    throw new ApiError(401, "unauthorized", "Correo o contraseña incorrectos.");
+  }
+  const response = NextResponse.json({ user: found.profile });
+  startSession(response, found.profile.id);
+  return response;
+});
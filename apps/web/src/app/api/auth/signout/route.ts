@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { handler } from "@/lib/server/http";
+import { endSession } from "@/lib/server/session";
+
+export const POST = handler(async (request: Request) => {
+  const response = new NextResponse(null, { status: 204 });
+  endSession(request, response);
+  return response;
+});
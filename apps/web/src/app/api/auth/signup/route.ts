@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { signUpSchema } from "@/lib/api/schemas";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { hashPassword } from "@/lib/server/password";
+import { startSession } from "@/lib/server/session";
+import { createUser, findUserByEmail } from "@/lib/server/store";
+
+export const POST = handler(async (request: Request) => {
+  const { email, password, displayName } = await readBody(
+    request,
+    signUpSchema,
+  );
+  if (findUserByEmail(email)) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Ya existe una cuenta con ese correo. Entra con tu contraseña o pide un enlace.",
+    );
+  }
+  const user = createUser({
+    email,
+    passwordHash: await hashPassword(password),
+    displayName: displayName ?? email.split("@")[0],
+  });
+  const response = NextResponse.json({ user }, { status: 201 });
+  startSession(response, user.id);
+  return response;
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { handler, notFound } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { conversationDevices, conversationMemberIds } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** The members' public keys, for the key exchange when the conversation opens. */
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  if (!conversationMemberIds(requestUserId(request), id)) {
+    throw notFound("La conversación");
+  }
+  return NextResponse.json({ devices: conversationDevices(id) });
+});
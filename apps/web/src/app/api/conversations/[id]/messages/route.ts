@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { messageInputSchema } from "@/lib/api/schemas";
+import { chatEvents } from "@/lib/server/events";
+import { ApiError, handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import {
+  addMessage,
+  conversationDevices,
+  conversationMemberIds,
+  listMessages,
+} from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+const PAGE_SIZE = 50;
+
+/** A page of messages; `?before=<sentAt>` goes further back. */
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  if (!conversationMemberIds(requestUserId(request), id)) {
+    throw notFound("La conversación");
+  }
+  const before = Number(new URL(request.url).searchParams.get("before"));
+  const messages = listMessages(id, {
+    before: before > 0 ? before : undefined,
+    limit: PAGE_SIZE,
+  });
+  return NextResponse.json({ messages, more: messages.length === PAGE_SIZE });
+});
+
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const memberIds = conversationMemberIds(userId, id);
+  if (!memberIds) throw notFound("La conversación");
+  const input = await readBody(request, messageInputSchema);
+  const active = conversationDevices(id).filter((d) => d.revokedAt === null);
+  if (
+    !active.some((d) => d.id === input.senderDeviceId && d.userId === userId)
+  ) {
+    throw new ApiError(
+      403,
+      "forbidden",
+      "Este dispositivo ya no tiene claves válidas. Recarga la página.",
+    );
+  }
+  // Sealed for exactly the active devices, so nobody silently misses it.
+  const addressed = Object.keys(input.envelope.keys);
+  if (
+    addressed.length !== active.length ||
+    !active.every((d) => addressed.includes(d.id))
+  ) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Las claves de la conversación cambiaron. Vuelve a enviar el mensaje.",
+    );
+  }
+  const message = addMessage(userId, id, input);
+  chatEvents.publish(memberIds, { type: "message", message });
+  return NextResponse.json({ message }, { status: 201 });
+});
@@ -0,0 +1,26 @@
+import { chatEvents } from "@/lib/server/events";
+import { handler, notFound } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import {
+  conversationMemberIds,
+  markConversationRead,
+} from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Marks everything so far as read, on every device of the user. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const memberIds = conversationMemberIds(userId, id);
+  if (!memberIds) throw notFound("La conversación");
+  const readAt = Date.now();
+  markConversationRead(userId, id, readAt);
+  chatEvents.publish(memberIds, {
+    type: "read",
+    conversationId: id,
+    userId,
+    readAt,
+  });
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,19 @@
+import { chatEvents } from "@/lib/server/events";
+import { handler, notFound } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { conversationMemberIds } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Tells the other members the user is typing. Nothing is stored. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const memberIds = conversationMemberIds(userId, id);
+  if (!memberIds) throw notFound("La conversación");
+  chatEvents.publish(
+    memberIds.filter((memberId) => memberId !== userId),
+    { type: "typing", conversationId: id, userId },
+  );
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,11 @@
+import { chatEvents } from "@/lib/server/events";
+import { handler } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+
+// A long-lived stream; never cached or prerendered.
+export const dynamic = "force-dynamic";
+
+/** Server-sent events for the signed-in user's conversations. */
+export const GET = handler(async (request: Request) =>
+  chatEvents.stream(request, requestUserId(request)),
+);
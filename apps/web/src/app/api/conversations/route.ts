@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { conversationInputSchema } from "@/lib/api/schemas";
+import { chatEvents } from "@/lib/server/events";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import {
+  createConversation,
+  findUserByEmail,
+  listConversations,
+} from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  const conversations = listConversations(requestUserId(request));
+  return NextResponse.json({ conversations });
+});
+
+/** Starts a conversation with the accounts behind `emails`. */
+export const POST = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const { emails, title } = await readBody(request, conversationInputSchema);
+  const memberIds = emails
+    .map((email) => findUserByEmail(email)?.profile.id)
+    .filter((id): id is string => id !== undefined);
+  // One answer for unknown addresses and for only the sender's own, so the
+  // form does not reveal who has an account.
+  if (
+    memberIds.length < emails.length ||
+    memberIds.every((id) => id === userId)
+  ) {
+    throw new ApiError(
+      400,
+      "bad_request",
+      "No se puede empezar una conversación con esos correos. Revisa que sean de otras personas.",
+    );
+  }
+  const { id, created } = createConversation(userId, memberIds, title ?? null);
+  if (created) {
+    chatEvents.publish(memberIds, { type: "conversation", conversationId: id });
+  }
+  const conversation = listConversations(userId).find((c) => c.id === id);
+  return NextResponse.json({ conversation }, { status: created ? 201 : 200 });
+});
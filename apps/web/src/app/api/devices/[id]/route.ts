@@ -0,0 +1,20 @@
+import { deviceRevokeSchema } from "@/lib/api/schemas";
+import { chatEvents } from "@/lib/server/events";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { contactIds, revokeDevice } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * Revokes a device, lost or replaced by a rotation. It stays listed so
+ * contacts can be warned and its old messages still name their sender.
+ */
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const { reason } = await readBody(request, deviceRevokeSchema);
+  if (!revokeDevice(userId, id, reason)) throw notFound("El dispositivo");
+  chatEvents.publish(contactIds(userId), { type: "devices", userId });
+  return new Response(null, { status: 204 });
+});
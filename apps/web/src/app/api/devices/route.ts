@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { deviceInputSchema } from "@/lib/api/schemas";
+import { chatEvents } from "@/lib/server/events";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { addDevice, contactIds, listDevices } from "@/lib/server/store";
+
+// Each one is another key every message is wrapped for.
+const MAX_ACTIVE_DEVICES = 10;
+
+export const GET = handler(async (request: Request) => {
+  const devices = listDevices(requestUserId(request));
+  return NextResponse.json({ devices });
+});
+
+/** Registers the public key of a new browser. */
+export const POST = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const input = await readBody(request, deviceInputSchema);
+  const active = listDevices(userId).filter((d) => d.revokedAt === null);
+  if (active.length >= MAX_ACTIVE_DEVICES) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Tienes demasiados dispositivos. Retira alguno que ya no uses.",
+    );
+  }
+  const device = addDevice(userId, input);
+  chatEvents.publish(contactIds(userId), { type: "devices", userId });
+  return NextResponse.json({ device }, { status: 201 });
+});
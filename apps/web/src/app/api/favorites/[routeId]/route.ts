@@ -0,0 +1,19 @@
+import { handler } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { setFavorite } from "@/lib/server/store";
+
+type Context = { params: Promise<{ routeId: string }> };
+
+// Favourites may point at preset routes, so the id is not checked against
+// saved routes.
+export const PUT = handler(async (request: Request, { params }: Context) => {
+  const { routeId } = await params;
+  setFavorite(requestUserId(request), routeId, true);
+  return new Response(null, { status: 204 });
+});
+
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { routeId } = await params;
+  setFavorite(requestUserId(request), routeId, false);
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { handler } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { listFavorites } from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  return NextResponse.json({ routeIds: listFavorites(requestUserId(request)) });
+});
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { reactionSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestViewer } from "@/lib/server/session";
+import { findPost, toggleReaction } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Adds the reaction, or takes it back; answers with the updated post. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestViewer(request);
+  if (!findPost(viewer, id)) throw notFound("La publicación");
+  const { reaction } = await readBody(request, reactionSchema);
+  toggleReaction(viewer.id, id, reaction);
+  return NextResponse.json({ post: findPost(viewer, id) });
+});
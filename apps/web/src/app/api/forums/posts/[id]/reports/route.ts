@@ -0,0 +1,25 @@
+import { reportSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestModerator, requestViewer } from "@/lib/server/session";
+import { dismissReports, findPost, reportPost } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Flags the post for the moderators. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestViewer(request);
+  if (!findPost(viewer, id)) throw notFound("La publicación");
+  const { reason } = await readBody(request, reportSchema);
+  reportPost(viewer.id, id, reason);
+  return new Response(null, { status: 204 });
+});
+
+/** Dismisses the post's open reports, leaving it as it is. */
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestModerator(request);
+  if (!findPost(viewer, id)) throw notFound("La publicación");
+  dismissReports(id);
+  return new Response(null, { status: 204 });
+});
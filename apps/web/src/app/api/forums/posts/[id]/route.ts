@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { postPatchSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestModerator } from "@/lib/server/session";
+import { findPost, setPostHidden } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Hides the post, which also settles its reports, or shows it again. */
+export const PATCH = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestModerator(request);
+  const { hidden } = await readBody(request, postPatchSchema);
+  if (!setPostHidden(id, hidden)) throw notFound("La publicación");
+  return NextResponse.json({ post: findPost(viewer, id) });
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { handler } from "@/lib/server/http";
+import { requestModerator } from "@/lib/server/session";
+import { listReports } from "@/lib/server/store";
+
+/** The moderators' queue: posts with open reports. */
+export const GET = handler(async (request: Request) => {
+  const reports = listReports(requestModerator(request));
+  return NextResponse.json({ reports });
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { postInputSchema } from "@/lib/api/schemas";
+import { ApiError, handler, notFound, readBody } from "@/lib/server/http";
+import { requestViewer } from "@/lib/server/session";
+import { addPost, findThread } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Replies to the thread. Moderators can still answer in a locked one. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestViewer(request);
+  const thread = findThread(viewer, id);
+  if (!thread) throw notFound("El hilo");
+  if (thread.locked && !viewer.moderator) {
+    throw new ApiError(403, "forbidden", "Este hilo está cerrado.");
+  }
+  const input = await readBody(request, postInputSchema);
+  const post = addPost(viewer, id, input);
+  return NextResponse.json({ post }, { status: 201 });
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { threadPatchSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestModerator, requestViewer } from "@/lib/server/session";
+import { findThread, listPosts, updateThread } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+const PAGE_SIZE = 20;
+
+/** The thread and a page of its posts; `?page=last` for the newest. */
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestViewer(request);
+  const thread = findThread(viewer, id);
+  if (!thread) throw notFound("El hilo");
+  const page = new URL(request.url).searchParams.get("page");
+  const posts = listPosts(
+    viewer,
+    id,
+    page === "last" ? Number.POSITIVE_INFINITY : Number(page) || 1,
+    PAGE_SIZE,
+  );
+  return NextResponse.json({ thread, ...posts });
+});
+
+/** Pins, locks or hides the thread. */
+export const PATCH = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const viewer = requestModerator(request);
+  const patch = await readBody(request, threadPatchSchema);
+  if (!updateThread(id, patch)) throw notFound("El hilo");
+  return NextResponse.json({ thread: findThread(viewer, id) });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import {
+  citySchema,
+  forumLevelSchema,
+  threadInputSchema,
+} from "@/lib/api/schemas";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestViewer } from "@/lib/server/session";
+import { createThread, listThreads } from "@/lib/server/store";
+
+const PAGE_SIZE = 20;
+
+/** A page of a city's threads: `?city=&level=&q=&page=`. */
+export const GET = handler(async (request: Request) => {
+  const viewer = requestViewer(request);
+  const params = new URL(request.url).searchParams;
+  const city = citySchema.safeParse(params.get("city"));
+  if (!city.success) {
+    throw new ApiError(400, "bad_request", "Esa ciudad no tiene foro.");
+  }
+  const level = forumLevelSchema.safeParse(params.get("level"));
+  const page = listThreads(
+    viewer,
+    {
+      city: city.data,
+      level: level.success ? level.data : undefined,
+      search: params.get("q") ?? "",
+      page: Number(params.get("page")) || 1,
+    },
+    PAGE_SIZE,
+  );
+  return NextResponse.json(page);
+});
+
+export const POST = handler(async (request: Request) => {
+  const viewer = requestViewer(request);
+  const input = await readBody(request, threadInputSchema);
+  const thread = createThread(viewer.id, input);
+  return NextResponse.json({ thread }, { status: 201 });
+});
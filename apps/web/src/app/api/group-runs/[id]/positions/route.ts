@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { positionSchema } from "@/lib/api/schemas";
+import { isLive } from "@/lib/group-runs/group-runs";
+import type { GroupRunEvent } from "@/lib/group-runs/types";
+import { groupRunEvents } from "@/lib/server/events";
+import { attendedRun } from "@/lib/server/group-runs";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import {
+  clearCrewPosition,
+  listCrewPositions,
+  saveCrewPosition,
+} from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Where the attendees sharing their location were last seen. */
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  attendedRun(id, requestUserId(request));
+  return NextResponse.json({ positions: listCrewPositions(id) });
+});
+
+/** Shares the user's position with the group, only around the start. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const run = attendedRun(id, userId);
+  if (!isLive(run, Date.now())) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Solo puedes compartir tu ubicación el día de la salida, cerca de la hora.",
+    );
+  }
+  const input = await readBody(request, positionSchema);
+  const position = saveCrewPosition(id, userId, input);
+  const event: GroupRunEvent = {
+    type: "position",
+    runId: id,
+    userId,
+    position,
+  };
+  groupRunEvents.publish(
+    run.attendees.map((attendee) => attendee.id),
+    event,
+  );
+  return new Response(null, { status: 204 });
+});
+
+/** Stops sharing; the group sees the user leave the map. */
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const run = attendedRun(id, userId);
+  clearCrewPosition(id, userId);
+  groupRunEvents.publish(
+    run.attendees.map((attendee) => attendee.id),
+    { type: "position", runId: id, userId, position: null },
+  );
+  return new Response(null, { status: 204 });
+});
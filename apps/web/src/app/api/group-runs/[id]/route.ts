@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { groupRunChangeSchema } from "@/lib/api/schemas";
+import type { GroupRun } from "@/lib/group-runs/types";
+import {
+  assertUpcoming,
+  notifyGroupRun,
+  organizedRun,
+} from "@/lib/server/group-runs";
+import { handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { cancelGroupRun, findGroupRun, moveGroupRun } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+/** Moves the start time or the meeting point, and tells everyone. */
+export const PATCH = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const before = organizedRun(id, requestUserId(request));
+  const change = await readBody(request, groupRunChangeSchema);
+  if (change.startsAt !== undefined) assertUpcoming(change.startsAt);
+  moveGroupRun(id, change);
+  const run = findGroupRun(id) as GroupRun;
+  notifyGroupRun(run, { kind: "moved", before });
+  return NextResponse.json({ run });
+});
+
+/** Cancels the run, and tells everyone. */
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  organizedRun(id, requestUserId(request));
+  cancelGroupRun(id);
+  notifyGroupRun(findGroupRun(id) as GroupRun, { kind: "cancelled" });
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { rsvpSchema } from "@/lib/api/schemas";
+import { isAttending } from "@/lib/group-runs/group-runs";
+import type { GroupRun } from "@/lib/group-runs/types";
+import { groupRunEvents } from "@/lib/server/events";
+import { attendedRun } from "@/lib/server/group-runs";
+import { ApiError, handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findGroupRun, joinGroupRun, leaveGroupRun } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Attendees see the list change, and the one who left sees it too.
+const announce = (run: GroupRun, also: string) =>
+  groupRunEvents.publish(
+    [...new Set([also, ...run.attendees.map((attendee) => attendee.id)])],
+    { type: "updated", run },
+  );
+
+/** RSVPs with the invite code; it is what makes someone invited. */
+export const POST = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const { inviteCode } = await readBody(request, rsvpSchema);
+  const run = findGroupRun(id);
+  if (!run || run.inviteCode !== inviteCode) throw notFound("La salida");
+  if (!isAttending(run, userId)) {
+    if (run.cancelledAt !== null) {
+      throw new ApiError(409, "conflict", "La salida está cancelada.");
+    }
+    if (run.startsAt <= Date.now()) {
+      throw new ApiError(409, "conflict", "La salida ya empezó.");
+    }
+    if (!joinGroupRun(id, userId)) {
+      throw new ApiError(409, "conflict", "La salida ya está completa.");
+    }
+  }
+  const joined = findGroupRun(id) as GroupRun;
+  announce(joined, userId);
+  return NextResponse.json({ run: joined });
+});
+
+/** Takes back the RSVP. The organiser cancels instead. */
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const run = attendedRun(id, userId);
+  if (run.organizer.id === userId) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Organizas esta salida: cancélala si no vas a ir.",
+    );
+  }
+  leaveGroupRun(id, userId);
+  const left = findGroupRun(id) as GroupRun;
+  announce(left, userId);
+  return NextResponse.json({ run: left });
+});
@@ -0,0 +1,11 @@
+import { groupRunEvents } from "@/lib/server/events";
+import { handler } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+
+// A long-lived stream; never cached or prerendered.
+export const dynamic = "force-dynamic";
+
+/** Server-sent events for the signed-in user's group runs. */
+export const GET = handler(async (request: Request) =>
+  groupRunEvents.stream(request, requestUserId(request)),
+);
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { handler, notFound } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findGroupRunByInvite } from "@/lib/server/store";
+
+type Context = { params: Promise<{ code: string }> };
+
+/** The run behind an invite link, for anyone signed in who has it. */
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { code } = await params;
+  requestUserId(request);
+  const run = findGroupRunByInvite(code);
+  if (!run) throw notFound("La invitación");
+  return NextResponse.json({ run });
+});
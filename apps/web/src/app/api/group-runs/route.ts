@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { groupRunInputSchema } from "@/lib/api/schemas";
+import { assertUpcoming } from "@/lib/server/group-runs";
+import { handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { createGroupRun, listGroupRuns } from "@/lib/server/store";
+
+// Yesterday's runs stay listed, for whoever wants to look back at them.
+const LISTED_FOR_MS = 24 * 60 * 60 * 1000;
+
+/** Runs the user organises or RSVP'd to. */
+export const GET = handler(async (request: Request) => {
+  const runs = listGroupRuns(
+    requestUserId(request),
+    Date.now() - LISTED_FOR_MS,
+  );
+  return NextResponse.json({ runs });
+});
+
+export const POST = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const input = await readBody(request, groupRunInputSchema);
+  assertUpcoming(input.startsAt);
+  const run = createGroupRun(userId, input);
+  return NextResponse.json({ run }, { status: 201 });
+});
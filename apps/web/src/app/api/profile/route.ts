@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { profilePatchSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findUser, updateProfile } from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  const profile = findUser(requestUserId(request));
+  if (!profile) throw notFound("El perfil");
+  return NextResponse.json({ profile });
+});
+
+export const PATCH = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const patch = await readBody(request, profilePatchSchema);
+  const profile = updateProfile(userId, patch);
+  if (!profile) throw notFound("El perfil");
+  return NextResponse.json({ profile });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { routeInputSchema } from "@/lib/api/schemas";
+import { ApiError, handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { deleteRoute, findRoute, saveRoute } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const route = findRoute(requestUserId(request), id);
+  if (!route) throw notFound("La ruta");
+  return NextResponse.json({ route });
+});
+
+/** Creates or replaces the route stored under `id`. */
+export const PUT = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const input = await readBody(request, routeInputSchema);
+  if (input.id !== id) {
+    throw new ApiError(
+      400,
+      "bad_request",
+      "El id de la ruta no coincide con la URL.",
+    );
+  }
+  const route = {
+    ...input,
+    savedAt: findRoute(userId, id)?.savedAt ?? Date.now(),
+  };
+  const created = saveRoute(userId, route);
+  return NextResponse.json({ route }, { status: created ? 201 : 200 });
+});
+
+export const DELETE = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  if (!deleteRoute(requestUserId(request), id)) throw notFound("La ruta");
+  return new Response(null, { status: 204 });
+});
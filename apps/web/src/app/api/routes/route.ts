@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { routeInputSchema } from "@/lib/api/schemas";
+import { ApiError, handler, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findRoute, listRoutes, saveRoute } from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  return NextResponse.json({ routes: listRoutes(userId) });
+});
+
+export const POST = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const input = await readBody(request, routeInputSchema);
+  if (findRoute(userId, input.id)) {
+    throw new ApiError(
+      409,
+      "conflict",
+      "Ya tienes una ruta guardada con ese id.",
+    );
+  }
+  const route = { ...input, savedAt: Date.now() };
+  saveRoute(userId, route);
+  return NextResponse.json({ route }, { status: 201 });
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { routineSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import { findRoutine, saveRoutine } from "@/lib/server/store";
+
+type Context = { params: Promise<{ id: string }> };
+
+export const GET = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const items = findRoutine(requestUserId(request), id);
+  if (!items) throw notFound("La rutina");
+  return NextResponse.json({ routine: { id, items } });
+});
+
+export const PUT = handler(async (request: Request, { params }: Context) => {
+  const { id } = await params;
+  const userId = requestUserId(request);
+  const { items } = await readBody(request, routineSchema);
+  saveRoutine(userId, id, items);
+  return NextResponse.json({ routine: { id, items } });
+});
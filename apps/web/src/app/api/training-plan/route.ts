@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { trainingPlanSchema } from "@/lib/api/schemas";
+import { handler, notFound, readBody } from "@/lib/server/http";
+import { requestUserId } from "@/lib/server/session";
+import {
+  deleteTrainingPlan,
+  findTrainingPlan,
+  saveTrainingPlan,
+} from "@/lib/server/store";
+
+export const GET = handler(async (request: Request) => {
+  const plan = findTrainingPlan(requestUserId(request));
+  if (!plan) throw notFound("El plan de entrenamiento");
+  return NextResponse.json({ plan });
+});
+
+/** Replaces the user's plan. */
+export const PUT = handler(async (request: Request) => {
+  const userId = requestUserId(request);
+  const plan = await readBody(request, trainingPlanSchema);
+  saveTrainingPlan(userId, plan);
+  return NextResponse.json({ plan });
+});
+
+export const DELETE = handler(async (request: Request) => {
+  if (!deleteTrainingPlan(requestUserId(request)))
+    throw notFound("El plan de entrenamiento");
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,809 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useState } from "react";
+import { RouteCard } from "@/components/route-card";
+import { ApiRequestError } from "@/lib/api/client";
+import {
+  MAX_POST_LENGTH,
+  MAX_REPORT_REASON_LENGTH,
+  MAX_THREAD_TITLE_LENGTH,
+} from "@/lib/api/schemas";
+import { fetchSession } from "@/lib/auth/client";
+import {
+  dismissReports,
+  fetchReports,
+  fetchThread,
+  fetchThreads,
+  moderateThread,
+  replyToThread,
+  reportPost,
+  setPostHidden,
+  startThread,
+  toggleReaction,
+} from "@/lib/forums/client";
+import { forumLevels, reactionMeta } from "@/lib/forums/forums";
+import type {
+  ForumLevel,
+  ForumPost,
+  ForumReport,
+  PostPage,
+  Reaction,
+  ThreadPage,
+  ThreadPatch,
+} from "@/lib/forums/types";
+import { type CityId, cities } from "@/lib/geocoding/cities";
+import type { RouteInput, RouteOption } from "@/lib/route/model";
+import { StorageError } from "@/lib/storage/errors";
+import { createHttpRepository } from "@/lib/storage/http";
+import { toSavedRoute } from "@/lib/storage/repository";
+import type { UserProfile } from "@/lib/storage/types";
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-orange-400/60";
+const chipClass = (active: boolean) =>
+  `rounded-full px-3 py-1 text-xs font-semibold transition ${
+    active
+      ? "bg-orange-400/90 text-[#0b0f1a]"
+      : "bg-white/5 text-slate-300 hover:bg-white/10"
+  }`;
+const smallButton =
+  "text-[11px] text-slate-400 transition hover:text-slate-200 disabled:opacity-50";
+
+const repository = createHttpRepository();
+
+const postedAt = (at: number) =>
+  new Date(at).toLocaleString("es", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// What travels with a post: the route's input, as it would be saved.
+const shareable = (route: RouteOption): RouteInput => {
+  const { savedAt: _, ...input } = toSavedRoute(route);
+  return input;
+};
+
+export default function ForumsPage() {
+  const router = useRouter();
+  const [me, setMe] = useState<UserProfile | null>(null);
+  const [city, setCity] = useState<CityId>("bogota");
+  const [level, setLevel] = useState<ForumLevel | null>(null);
+  const [searchDraft, setSearchDraft] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [threads, setThreads] = useState<ThreadPage | null>(null);
+  const [open, setOpen] = useState<PostPage | null>(null);
+  const [routes, setRoutes] = useState<RouteOption[]>([]);
+  const [composing, setComposing] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [levelDraft, setLevelDraft] = useState<ForumLevel>("beginner");
+  const [bodyDraft, setBodyDraft] = useState("");
+  const [attachId, setAttachId] = useState("");
+  const [reporting, setReporting] = useState<string | null>(null);
+  const [reasonDraft, setReasonDraft] = useState("");
+  const [reports, setReports] = useState<ForumReport[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(async (user) => {
+        if (!user) {
+          router.replace("/login");
+          return;
+        }
+        setMe(user);
+        if (user.city) setCity(user.city);
+        setRoutes(await repository.routes.list());
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+  }, [router]);
+
+  useEffect(() => {
+    if (!me) return;
+    let cancelled = false;
+    fetchThreads({ city, level: level ?? undefined, search, page })
+      .then((found) => {
+        if (!cancelled) setThreads(found);
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [me, city, level, search, page]);
+
+  if (!me) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando los foros…"}
+      </main>
+    );
+  }
+
+  const moderator = me.role === "moderator";
+  const attached = (id: string) => {
+    const route = routes.find((r) => r.id === id);
+    return route ? { route: shareable(route) } : {};
+  };
+
+  // Every filter change starts from the first page of the list.
+  const pickForum = (next: { city?: CityId; level?: ForumLevel | null }) => {
+    if (next.city) setCity(next.city);
+    if (next.level !== undefined) setLevel(next.level);
+    setPage(1);
+    setOpen(null);
+  };
+
+  const refreshThreads = async () => {
+    setThreads(
+      await fetchThreads({ city, level: level ?? undefined, search, page }),
+    );
+  };
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setSearch(searchDraft.trim());
+    setPage(1);
+  };
+
+  const openThread = async (threadId: string, at: number | "last" = 1) => {
+    try {
+      setOpen(await fetchThread(threadId, at));
+      setReporting(null);
+      window.scrollTo({ top: 0 });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleStart = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!titleDraft.trim() || !bodyDraft.trim()) return;
+    setBusy(true);
+    try {
+      const thread = await startThread({
+        city,
+        level: levelDraft,
+        title: titleDraft.trim(),
+        body: bodyDraft.trim(),
+        ...attached(attachId),
+      });
+      setComposing(false);
+      setTitleDraft("");
+      setBodyDraft("");
+      setAttachId("");
+      setStatus(null);
+      await openThread(thread.id);
+      await refreshThreads();
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReply = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!open || !bodyDraft.trim()) return;
+    setBusy(true);
+    try {
+      await replyToThread(open.thread.id, {
+        body: bodyDraft.trim(),
+        ...attached(attachId),
+      });
+      setBodyDraft("");
+      setAttachId("");
+      await openThread(open.thread.id, "last");
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replacePost = (post: ForumPost) =>
+    setOpen((prev) =>
+      prev
+        ? {
+            ...prev,
+            posts: prev.posts.map((p) => (p.id === post.id ? post : p)),
+          }
+        : prev,
+    );
+
+  const handleReact = async (postId: string, reaction: Reaction) => {
+    try {
+      replacePost(await toggleReaction(postId, reaction));
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleReport = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!reporting || !reasonDraft.trim()) return;
+    setBusy(true);
+    try {
+      await reportPost(reporting, reasonDraft.trim());
+      setReporting(null);
+      setReasonDraft("");
+      setStatus({
+        tone: "ok",
+        text: "Gracias. Los moderadores revisarán la publicación.",
+      });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleModerateThread = async (patch: ThreadPatch) => {
+    if (!open) return;
+    try {
+      const thread = await moderateThread(open.thread.id, patch);
+      setOpen((prev) => (prev ? { ...prev, thread } : prev));
+      await refreshThreads();
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleHidePost = async (postId: string, hidden: boolean) => {
+    try {
+      replacePost(await setPostHidden(postId, hidden));
+      setReports((prev) => prev?.filter((r) => r.post.id !== postId) ?? prev);
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleDismiss = async (postId: string) => {
+    try {
+      await dismissReports(postId);
+      setReports((prev) => prev?.filter((r) => r.post.id !== postId) ?? prev);
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const toggleReports = async () => {
+    if (reports) {
+      setReports(null);
+      return;
+    }
+    try {
+      setReports(await fetchReports());
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const routePicker = routes.length ? (
+    <label className="flex items-center gap-2 text-[11px] text-slate-400">
+      Adjuntar ruta
+      <select
+        value={attachId}
+        onChange={(e) => setAttachId(e.target.value)}
+        className="rounded-lg border border-white/10 bg-[#0b1222] px-2 py-1 text-[11px] text-slate-100"
+      >
+        <option value="">Ninguna</option>
+        {routes.map((route) => (
+          <option key={route.id} value={route.id}>
+            {`${route.title} · ${route.distanceKm.toFixed(1)} km`}
+          </option>
+        ))}
+      </select>
+    </label>
+  ) : null;
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-3xl">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <div className="mt-3 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Foros</h1>
+          <div className="flex items-center gap-3">
+            {moderator ? (
+              <button
+                type="button"
+                onClick={toggleReports}
+                className="text-xs font-semibold text-amber-200 transition hover:text-amber-100"
+              >
+                {reports ? "Cerrar reportes" : "Reportes"}
+              </button>
+            ) : null}
+            <Link
+              href="/runs"
+              className="text-xs font-semibold text-orange-200 transition hover:text-orange-100"
+            >
+              Salidas en grupo →
+            </Link>
+            <Link
+              href="/messages"
+              className="text-xs font-semibold text-orange-200 transition hover:text-orange-100"
+            >
+              Mensajes →
+            </Link>
+          </div>
+        </div>
+        {status ? (
+          <p
+            className={`mt-2 text-xs ${status.tone === "ok" ? "text-emerald-200" : "text-red-200"}`}
+          >
+            {status.text}
+          </p>
+        ) : null}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(Object.keys(cities) as CityId[]).map((id) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => pickForum({ city: id })}
+              className={chipClass(id === city)}
+            >
+              {cities[id].name}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => pickForum({ level: null })}
+            className={chipClass(level === null)}
+          >
+            Todos los niveles
+          </button>
+          {Object.entries(forumLevels).map(([id, meta]) => (
+            <button
+              key={id}
+              type="button"
+              title={meta.description}
+              onClick={() => pickForum({ level: id as ForumLevel })}
+              className={chipClass(id === level)}
+            >
+              {meta.label}
+            </button>
+          ))}
+        </div>
+
+        {reports ? (
+          <section className="mt-6 flex flex-col gap-3 rounded-3xl border border-amber-300/20 bg-[#0a0f1f]/95 p-5">
+            <h2 className="text-sm font-semibold text-amber-100">
+              Publicaciones reportadas
+            </h2>
+            {reports.length ? (
+              reports.map((report) => (
+                <div
+                  key={report.post.id}
+                  className="flex flex-col gap-1 rounded-2xl border border-white/10 px-3 py-2 text-xs"
+                >
+                  <button
+                    type="button"
+                    onClick={() => openThread(report.thread.id)}
+                    className="self-start font-semibold text-slate-100 hover:underline"
+                  >
+                    {`${report.thread.title} · ${cities[report.thread.city].name}`}
+                  </button>
+                  <p className="line-clamp-3 whitespace-pre-wrap text-slate-300">
+                    {`${report.post.author.displayName}: ${report.post.body}`}
+                  </p>
+                  <ul className="list-disc pl-4 text-amber-100">
+                    {report.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => handleHidePost(report.post.id, true)}
+                      className="text-red-200 transition hover:text-red-100"
+                    >
+                      Ocultar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDismiss(report.post.id)}
+                      className={smallButton}
+                    >
+                      Descartar
+                    </button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-xs text-slate-400">
+                No hay reportes abiertos.
+              </p>
+            )}
+          </section>
+        ) : null}
+
+        {open ? (
+          <section className="mt-6 flex flex-col gap-4 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-5">
+            <button
+              type="button"
+              onClick={() => setOpen(null)}
+              className="self-start text-xs text-slate-400 transition hover:text-slate-200"
+            >
+              ← Hilos de {cities[open.thread.city].name}
+            </button>
+            <div>
+              <h2 className="text-lg font-semibold">{open.thread.title}</h2>
+              <p className="text-[11px] text-slate-400">
+                {[
+                  forumLevels[open.thread.level].label,
+                  open.thread.pinned ? "Fijado" : null,
+                  open.thread.locked ? "Cerrado" : null,
+                  open.thread.hidden ? "Oculto" : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </div>
+            {moderator ? (
+              <div className="flex flex-wrap gap-3 text-[11px]">
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleModerateThread({ pinned: !open.thread.pinned })
+                  }
+                  className="text-amber-200 transition hover:text-amber-100"
+                >
+                  {open.thread.pinned ? "Desfijar" : "Fijar"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleModerateThread({ locked: !open.thread.locked })
+                  }
+                  className="text-amber-200 transition hover:text-amber-100"
+                >
+                  {open.thread.locked ? "Reabrir" : "Cerrar hilo"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleModerateThread({ hidden: !open.thread.hidden })
+                  }
+                  className="text-red-200 transition hover:text-red-100"
+                >
+                  {open.thread.hidden ? "Mostrar hilo" : "Ocultar hilo"}
+                </button>
+              </div>
+            ) : null}
+
+            <ol className="flex flex-col gap-3">
+              {open.posts.map((post) => (
+                <li
+                  key={post.id}
+                  className={`flex flex-col gap-2 rounded-2xl border px-4 py-3 ${
+                    post.hidden
+                      ? "border-red-300/20 bg-red-500/5"
+                      : "border-white/10"
+                  }`}
+                >
+                  <p className="text-[11px] text-slate-400">
+                    <span className="font-semibold text-slate-200">
+                      {post.author.displayName}
+                    </span>
+                    {` · ${postedAt(post.createdAt)}`}
+                    {post.hidden ? " · oculta" : ""}
+                    {post.reports ? ` · ${post.reports} reportes` : ""}
+                  </p>
+                  {post.hidden && !moderator ? (
+                    <p className="text-xs italic text-slate-500">
+                      Publicación oculta por moderación.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="whitespace-pre-wrap text-sm text-slate-100">
+                        {post.body}
+                      </p>
+                      {post.route ? (
+                        <RouteCard
+                          route={post.route}
+                          onError={(error) =>
+                            setStatus({ tone: "error", text: failure(error) })
+                          }
+                        />
+                      ) : null}
+                      <div className="flex flex-wrap items-center gap-2">
+                        {Object.entries(reactionMeta).map(([id, meta]) => {
+                          const reaction = id as Reaction;
+                          const mine = post.reacted.includes(reaction);
+                          return (
+                            <button
+                              key={id}
+                              type="button"
+                              title={meta.label}
+                              onClick={() => handleReact(post.id, reaction)}
+                              className={`rounded-full px-2 py-0.5 text-xs transition ${
+                                mine
+                                  ? "bg-orange-400/20 ring-1 ring-orange-400/40"
+                                  : "bg-white/5 hover:bg-white/10"
+                              }`}
+                            >
+                              {`${meta.emoji} ${post.reactions[reaction] || ""}`}
+                            </button>
+                          );
+                        })}
+                        {post.author.id !== me.id ? (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setReporting(
+                                reporting === post.id ? null : post.id,
+                              );
+                              setReasonDraft("");
+                            }}
+                            className={`ml-auto ${smallButton}`}
+                          >
+                            Reportar
+                          </button>
+                        ) : null}
+                        {moderator ? (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleHidePost(post.id, !post.hidden)
+                            }
+                            className="text-[11px] text-red-200 transition hover:text-red-100"
+                          >
+                            {post.hidden ? "Mostrar" : "Ocultar"}
+                          </button>
+                        ) : null}
+                      </div>
+                      {reporting === post.id ? (
+                        <form onSubmit={handleReport} className="flex gap-2">
+                          <input
+                            required
+                            value={reasonDraft}
+                            onChange={(e) => setReasonDraft(e.target.value)}
+                            placeholder="¿Qué pasa con esta publicación?"
+                            maxLength={MAX_REPORT_REASON_LENGTH}
+                            className={fieldClass}
+                          />
+                          <button
+                            type="submit"
+                            disabled={busy}
+                            className="rounded-full bg-white/10 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-white/15 disabled:opacity-50"
+                          >
+                            Enviar
+                          </button>
+                        </form>
+                      ) : null}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ol>
+            <Pager
+              page={open.page}
+              pageCount={open.pageCount}
+              onPage={(next) => openThread(open.thread.id, next)}
+            />
+
+            {open.thread.locked && !moderator ? (
+              <p className="text-xs text-slate-400">
+                Este hilo está cerrado a nuevas respuestas.
+              </p>
+            ) : (
+              <form onSubmit={handleReply} className="flex flex-col gap-2">
+                <textarea
+                  value={bodyDraft}
+                  onChange={(e) => setBodyDraft(e.target.value)}
+                  placeholder="Escribe una respuesta"
+                  rows={3}
+                  maxLength={MAX_POST_LENGTH}
+                  className={fieldClass}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {routePicker ?? <span />}
+                  <button
+                    type="submit"
+                    disabled={busy || !bodyDraft.trim()}
+                    className="rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50"
+                  >
+                    Responder
+                  </button>
+                </div>
+              </form>
+            )}
+          </section>
+        ) : (
+          <section className="mt-6 flex flex-col gap-4 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-5">
+            <div className="flex flex-wrap items-center gap-2">
+              <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+                <input
+                  type="search"
+                  value={searchDraft}
+                  onChange={(e) => setSearchDraft(e.target.value)}
+                  placeholder={`Buscar en ${cities[city].name}`}
+                  className={fieldClass}
+                />
+                <button
+                  type="submit"
+                  className="rounded-full bg-white/10 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-white/15"
+                >
+                  Buscar
+                </button>
+              </form>
+              <button
+                type="button"
+                onClick={() => {
+                  setComposing((prev) => !prev);
+                  if (level) setLevelDraft(level);
+                }}
+                className="rounded-full bg-orange-400/90 px-3 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110"
+              >
+                {composing ? "Cancelar" : "Nuevo hilo"}
+              </button>
+            </div>
+
+            {composing ? (
+              <form
+                onSubmit={handleStart}
+                className="flex flex-col gap-2 rounded-2xl border border-white/10 p-4"
+              >
+                <input
+                  required
+                  value={titleDraft}
+                  onChange={(e) => setTitleDraft(e.target.value)}
+                  placeholder="Título"
+                  maxLength={MAX_THREAD_TITLE_LENGTH}
+                  className={fieldClass}
+                />
+                <label className="flex items-center gap-2 text-[11px] text-slate-400">
+                  Nivel
+                  <select
+                    value={levelDraft}
+                    onChange={(e) =>
+                      setLevelDraft(e.target.value as ForumLevel)
+                    }
+                    className="rounded-lg border border-white/10 bg-[#0b1222] px-2 py-1 text-[11px] text-slate-100"
+                  >
+                    {Object.entries(forumLevels).map(([id, meta]) => (
+                      <option key={id} value={id}>
+                        {meta.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <textarea
+                  required
+                  value={bodyDraft}
+                  onChange={(e) => setBodyDraft(e.target.value)}
+                  placeholder="¿Qué quieres contar o preguntar?"
+                  rows={4}
+                  maxLength={MAX_POST_LENGTH}
+                  className={fieldClass}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {routePicker ?? <span />}
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50"
+                  >
+                    Publicar
+                  </button>
+                </div>
+              </form>
+            ) : null}
+
+            {search ? (
+              <p className="text-[11px] text-slate-400">
+                {`Resultados para «${search}». `}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSearch("");
+                    setSearchDraft("");
+                    setPage(1);
+                  }}
+                  className="text-orange-200 hover:text-orange-100"
+                >
+                  Quitar búsqueda
+                </button>
+              </p>
+            ) : null}
+
+            {!threads ? (
+              <p className="text-xs text-slate-400">Cargando hilos…</p>
+            ) : threads.threads.length ? (
+              <ul className="flex flex-col gap-1">
+                {threads.threads.map((thread) => (
+                  <li key={thread.id}>
+                    <button
+                      type="button"
+                      onClick={() => openThread(thread.id)}
+                      className="flex w-full flex-col rounded-2xl px-3 py-2 text-left transition hover:bg-white/5"
+                    >
+                      <span className="text-sm font-semibold text-slate-100">
+                        {thread.pinned ? "📌 " : ""}
+                        {thread.locked ? "🔒 " : ""}
+                        {thread.title}
+                        {thread.hidden ? " (oculto)" : ""}
+                      </span>
+                      <span className="text-[11px] text-slate-400">
+                        {`${thread.author.displayName} · ${forumLevels[thread.level].label} · ${thread.replies} ${thread.replies === 1 ? "respuesta" : "respuestas"} · ${postedAt(thread.lastPostAt)}`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">
+                {search
+                  ? "Ningún hilo coincide con la búsqueda."
+                  : "Todavía no hay hilos aquí. Abre el primero."}
+              </p>
+            )}
+            {threads ? (
+              <Pager
+                page={threads.page}
+                pageCount={threads.pageCount}
+                onPage={setPage}
+              />
+            ) : null}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function Pager({
+  page,
+  pageCount,
+  onPage,
+}: {
+  page: number;
+  pageCount: number;
+  onPage: (page: number) => void;
+}) {
+  if (pageCount <= 1) return null;
+  return (
+    <div className="flex items-center justify-center gap-3 text-[11px] text-slate-400">
+      <button
+        type="button"
+        disabled={page <= 1}
+        onClick={() => onPage(page - 1)}
+        className={smallButton}
+      >
+        ← Anterior
+      </button>
+      <span>{`Página ${page} de ${pageCount}`}</span>
+      <button
+        type="button"
+        disabled={page >= pageCount}
+        onClick={() => onPage(page + 1)}
+        className={smallButton}
+      >
+        Siguiente →
+      </button>
+    </div>
+  );
+}
+
+function failure(error: unknown): string {
+  if (error instanceof ApiRequestError || error instanceof StorageError) {
+    return error.message;
+  }
+  console.error("Forums failed", error);
+  return "No se pudo completar la acción.";
+}
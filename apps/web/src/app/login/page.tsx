@@ -0,0 +1,203 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useState } from "react";
+import { ApiRequestError } from "@/lib/api/client";
+import { MIN_PASSWORD_LENGTH } from "@/lib/api/schemas";
+import { requestMagicLink, signIn, signUp } from "@/lib/auth/client";
+
+type Method = "password" | "link";
+type Intent = "signin" | "signup";
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition placeholder:text-slate-500 focus:border-orange-400/60";
+
+// `?next=/runs/…` returns to the page that asked for a sign-in; only paths
+// on this site, so the parameter cannot send anyone elsewhere.
+const nextPath = () => {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next?.startsWith("/") && !next.startsWith("//") ? next : "/plan";
+};
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [method, setMethod] = useState<Method>("password");
+  const [intent, setIntent] = useState<Intent>("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get("error") === "link") {
+      setError("El enlace caducó o ya se usó. Pide uno nuevo.");
+      setMethod("link");
+    }
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (method === "link") {
+        await requestMagicLink(email);
+        setLinkSent(true);
+      } else if (intent === "signup") {
+        await signUp({
+          email,
+          password,
+          displayName: displayName.trim() || undefined,
+        });
+        router.push(nextPath());
+      } else {
+        await signIn({ email, password });
+        router.push(nextPath());
+      }
+    } catch (err) {
+      if (!(err instanceof ApiRequestError))
+        console.error("Sign-in failed", err);
+      setError(
+        err instanceof ApiRequestError
+          ? err.message
+          : "No se pudo completar el acceso.",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-[#050915] px-4 text-slate-100">
+      <div className="w-full max-w-sm rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-6 shadow-2xl shadow-black/50">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <h1 className="mt-3 text-xl font-semibold">
+          {method === "password" && intent === "signup"
+            ? "Crea tu cuenta"
+            : "Entra a HikeUp"}
+        </h1>
+        <p className="mt-1 text-xs text-slate-400">
+          Guarda tus rutas y actividades en todos tus dispositivos.
+        </p>
+
+        <div
+          className="mt-4 grid grid-cols-2 gap-1 rounded-full bg-white/5 p-1 text-xs font-semibold"
+          role="tablist"
+        >
+          {(
+            [
+              ["password", "Contraseña"],
+              ["link", "Enlace por correo"],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={method === value}
+              onClick={() => {
+                setMethod(value);
+                setError(null);
+                setLinkSent(false);
+              }}
+              className={`rounded-full px-3 py-1.5 transition ${
+                method === value
+                  ? "bg-orange-500 text-[#0b0f1a]"
+                  : "text-slate-300 hover:text-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {linkSent ? (
+          <p className="mt-5 rounded-2xl bg-emerald-500/10 px-4 py-3 text-sm text-emerald-50 ring-1 ring-emerald-400/30">
+            {`Te enviamos un enlace a ${email}. Ábrelo en este dispositivo en los próximos 15 minutos.`}
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-5 flex flex-col gap-3">
+            {method === "password" && intent === "signup" ? (
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Nombre
+                <input
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  autoComplete="name"
+                  className={inputClass}
+                />
+              </label>
+            ) : null}
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Correo
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                className={inputClass}
+              />
+            </label>
+            {method === "password" ? (
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Contraseña
+                <input
+                  type="password"
+                  required
+                  minLength={
+                    intent === "signup" ? MIN_PASSWORD_LENGTH : undefined
+                  }
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={
+                    intent === "signup" ? "new-password" : "current-password"
+                  }
+                  className={inputClass}
+                />
+              </label>
+            ) : null}
+            {error ? (
+              <p role="alert" className="text-xs text-red-300">
+                {error}
+              </p>
+            ) : null}
+            <button
+              type="submit"
+              disabled={busy}
+              className="mt-1 rounded-full bg-orange-500 px-4 py-2 text-sm font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-60"
+            >
+              {method === "link"
+                ? "Enviarme un enlace"
+                : intent === "signup"
+                  ? "Crear cuenta"
+                  : "Entrar"}
+            </button>
+            {method === "password" ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setIntent(intent === "signin" ? "signup" : "signin");
+                  setError(null);
+                }}
+                className="text-xs text-slate-400 transition hover:text-slate-200"
+              >
+                {intent === "signin"
+                  ? "¿No tienes cuenta? Regístrate"
+                  : "¿Ya tienes cuenta? Entra"}
+              </button>
+            ) : null}
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,1034 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useRef, useState } from "react";
+import { RouteCard } from "@/components/route-card";
+import { ApiRequestError } from "@/lib/api/client";
+import {
+  MAX_CONVERSATION_MEMBERS,
+  MAX_MESSAGE_LENGTH,
+} from "@/lib/api/schemas";
+import { fetchSession } from "@/lib/auth/client";
+import {
+  fetchConversationDevices,
+  fetchConversations,
+  fetchMessages,
+  markRead,
+  revokeDevice,
+  sendMessage,
+  sendTyping,
+  startConversation,
+  subscribeToChat,
+} from "@/lib/messaging/client";
+import {
+  type ConversationCipher,
+  openConversation,
+  safetyNumber,
+} from "@/lib/messaging/crypto";
+import {
+  type DeviceKeys,
+  deviceWarnings,
+  type KeyWarning,
+  rotateDeviceKey,
+  setUpDevice,
+} from "@/lib/messaging/devices";
+import { MessagingError } from "@/lib/messaging/errors";
+import { createKeyStore, type Verification } from "@/lib/messaging/keystore";
+import type {
+  ChatEvent,
+  ChatMessage,
+  ConversationSummary,
+  Device,
+  OpenedMessage,
+} from "@/lib/messaging/types";
+import type { RouteInput, RouteOption } from "@/lib/route/model";
+import { StorageError } from "@/lib/storage/errors";
+import { createHttpRepository } from "@/lib/storage/http";
+import { toSavedRoute } from "@/lib/storage/repository";
+import type { UserProfile } from "@/lib/storage/types";
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-orange-400/60";
+
+// Others see "escribiendo…" this long after the last keystroke signal, and
+// the signal is sent at most this often.
+const TYPING_SHOWN_MS = 5_000;
+const TYPING_SIGNAL_MS = 3_000;
+
+const repository = createHttpRepository();
+const keyStore = createKeyStore();
+
+const conversationTitle = (conversation: ConversationSummary, meId: string) =>
+  conversation.title ??
+  (conversation.members
+    .filter((member) => member.id !== meId)
+    .map((member) => member.displayName)
+    .join(", ") ||
+    "Solo tú");
+
+const shortDate = (at: number) =>
+  new Date(at).toLocaleDateString("es", { day: "numeric", month: "short" });
+
+const sentAtText = (sentAt: number) => {
+  const date = new Date(sentAt);
+  const time = date.toLocaleTimeString("es", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString("es", { day: "numeric", month: "short" })} ${time}`;
+};
+
+// What travels with a message: the route's input, as it would be saved.
+const shareable = (route: RouteOption): RouteInput => {
+  const { savedAt: _, ...input } = toSavedRoute(route);
+  return input;
+};
+
+const preview = (message: OpenedMessage): string =>
+  message.payload
+    ? message.payload.body ||
+      (message.payload.route ? `Ruta: ${message.payload.route.title}` : "")
+    : "Mensaje cifrado";
+
+const activeDevices = (devices: Device[], userId?: string) =>
+  devices.filter(
+    (device) =>
+      device.revokedAt === null && (!userId || device.userId === userId),
+  );
+
+// A conversation's key exchange, with the member devices it was done with.
+type Sealed = { cipher: ConversationCipher; devices: Device[] };
+
+/** The exchange for a conversation, done once per key and reused. */
+function sealedFor(
+  cache: Map<string, Promise<Sealed>>,
+  keys: DeviceKeys,
+  conversationId: string,
+): Promise<Sealed> {
+  const cacheKey = `${keys.current.deviceId}:${conversationId}`;
+  let sealed = cache.get(cacheKey);
+  if (!sealed) {
+    sealed = fetchConversationDevices(conversationId).then(async (devices) => ({
+      devices,
+      cipher: await openConversation(conversationId, { ...keys, devices }),
+    }));
+    sealed.catch(() => cache.delete(cacheKey));
+    cache.set(cacheKey, sealed);
+  }
+  return sealed;
+}
+
+/** Decrypts a message, redoing the exchange once for a sender not seen yet. */
+async function openMessage(
+  cache: Map<string, Promise<Sealed>>,
+  keys: DeviceKeys,
+  message: ChatMessage,
+): Promise<OpenedMessage> {
+  let sealed = await sealedFor(cache, keys, message.conversationId);
+  if (!sealed.devices.some((device) => device.id === message.senderDeviceId)) {
+    cache.delete(`${keys.current.deviceId}:${message.conversationId}`);
+    sealed = await sealedFor(cache, keys, message.conversationId);
+  }
+  return sealed.cipher.decrypt(message);
+}
+
+// The open conversation's member devices and, per contact, the safety
+// number with them: empty while the contact has no keys.
+type Security = {
+  conversationId: string;
+  devices: Device[];
+  safety: Record<string, string>;
+};
+
+async function conversationSecurity(
+  cache: Map<string, Promise<Sealed>>,
+  keys: DeviceKeys,
+  meId: string,
+  conversationId: string,
+): Promise<Security> {
+  const { devices } = await sealedFor(cache, keys, conversationId);
+  const mine = activeDevices(devices, meId).map((d) => d.publicKey);
+  const contacts = new Set(
+    devices.filter((d) => d.userId !== meId).map((d) => d.userId),
+  );
+  const numbers = await Promise.all(
+    [...contacts].map(async (userId) => {
+      const theirs = activeDevices(devices, userId).map((d) => d.publicKey);
+      const number = theirs.length
+        ? await safetyNumber(
+            { userId: meId, keys: mine },
+            { userId, keys: theirs },
+          )
+        : "";
+      return [userId, number] as const;
+    }),
+  );
+  return { conversationId, devices, safety: Object.fromEntries(numbers) };
+}
+
+const lockedText: Record<NonNullable<OpenedMessage["locked"]>, string> = {
+  "no-key":
+    "Este mensaje se cifró para otros dispositivos: este aún no tenía claves o no estaba incluido.",
+  unreadable:
+    "No se pudo descifrar este mensaje. Puede que el remitente haya cambiado sus claves.",
+};
+
+export default function MessagesPage() {
+  const router = useRouter();
+  const [me, setMe] = useState<UserProfile | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<OpenedMessage[]>([]);
+  const [more, setMore] = useState(false);
+  // List previews, by message id, once decrypted.
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  // Who is typing where, until when: `${conversationId}:${userId}`.
+  const [typing, setTyping] = useState<Record<string, number>>({});
+  const [connected, setConnected] = useState(true);
+  const [keys, setKeys] = useState<DeviceKeys | null>(null);
+  // The user's devices, and the open conversation's member devices.
+  const [myDevices, setMyDevices] = useState<Device[]>([]);
+  const [security, setSecurity] = useState<Security | null>(null);
+  const [renewed, setRenewed] = useState(false);
+  const [verifications, setVerifications] = useState<Verification[]>([]);
+  const [panel, setPanel] = useState<"security" | "devices" | null>(null);
+  const [routes, setRoutes] = useState<RouteOption[]>([]);
+  const [draft, setDraft] = useState("");
+  const [attachId, setAttachId] = useState("");
+  const [emailsDraft, setEmailsDraft] = useState("");
+  const [titleDraft, setTitleDraft] = useState("");
+  const [composing, setComposing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+  const openIdRef = useRef<string | null>(null);
+  const keysRef = useRef<DeviceKeys | null>(null);
+  const ciphers = useRef(new Map<string, Promise<Sealed>>());
+  const previewing = useRef(new Set<string>());
+  const lastTypingSent = useRef(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(async (user) => {
+        if (!user) {
+          router.replace("/login");
+          return;
+        }
+        setMe(user);
+        const [list, saved] = await Promise.all([
+          fetchConversations(),
+          repository.routes.list(),
+        ]);
+        setConversations(list);
+        setRoutes(saved);
+        const [setup, verified] = await Promise.all([
+          setUpDevice(keyStore, user.id),
+          keyStore.verifications(user.id),
+        ]);
+        setKeys(setup.keys);
+        setMyDevices(setup.devices);
+        setRenewed(setup.renewed);
+        setVerifications(verified);
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+  }, [router]);
+
+  useEffect(() => {
+    openIdRef.current = openId;
+  }, [openId]);
+
+  useEffect(() => {
+    keysRef.current = keys;
+  }, [keys]);
+
+  useEffect(() => {
+    if (!me) return;
+    const meId = me.id;
+    const refresh = () =>
+      fetchConversations()
+        .then(setConversations)
+        .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+    const onEvent = (event: ChatEvent) => {
+      if (event.type === "conversation") {
+        refresh();
+        return;
+      }
+      if (event.type === "devices") {
+        ciphers.current.clear();
+        const keys = keysRef.current;
+        const conversationId = openIdRef.current;
+        if (keys && conversationId) {
+          conversationSecurity(ciphers.current, keys, meId, conversationId)
+            .then((found) => {
+              if (found.conversationId === openIdRef.current) {
+                setSecurity(found);
+              }
+            })
+            .catch((error) =>
+              setStatus({ tone: "error", text: failure(error) }),
+            );
+        }
+        if (event.userId !== meId) return;
+        // Another of the user's devices may have revoked this one.
+        setUpDevice(keyStore, meId)
+          .then((setup) => {
+            setMyDevices(setup.devices);
+            if (!setup.renewed) return;
+            setKeys(setup.keys);
+            setRenewed(true);
+          })
+          .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+        return;
+      }
+      if (event.type === "typing") {
+        const key = `${event.conversationId}:${event.userId}`;
+        setTyping((prev) => ({ ...prev, [key]: Date.now() + TYPING_SHOWN_MS }));
+        setTimeout(
+          () =>
+            setTyping((prev) => {
+              if ((prev[key] ?? 0) > Date.now()) return prev;
+              const { [key]: _, ...rest } = prev;
+              return rest;
+            }),
+          TYPING_SHOWN_MS,
+        );
+        return;
+      }
+      if (event.type === "read") {
+        if (event.userId !== meId) return;
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === event.conversationId ? { ...c, unread: 0 } : c,
+          ),
+        );
+        return;
+      }
+      const { message } = event;
+      const isOpen = message.conversationId === openIdRef.current;
+      const incoming = message.senderId !== meId;
+      const keys = keysRef.current;
+      if (keys) {
+        previewing.current.add(message.id);
+        openMessage(ciphers.current, keys, message)
+          .then((opened) => {
+            setPreviews((prev) => ({ ...prev, [message.id]: preview(opened) }));
+            if (message.conversationId !== openIdRef.current) return;
+            setMessages((prev) =>
+              prev.some((m) => m.id === message.id) ? prev : [...prev, opened],
+            );
+          })
+          .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+      }
+      if (isOpen && incoming) {
+        markRead(message.conversationId).catch(() => undefined);
+      }
+      setTyping((prev) => {
+        const {
+          [`${message.conversationId}:${message.senderId}`]: _,
+          ...rest
+        } = prev;
+        return rest;
+      });
+      setConversations((prev) => {
+        const current = prev.find((c) => c.id === message.conversationId);
+        if (!current) {
+          refresh();
+          return prev;
+        }
+        const updated = {
+          ...current,
+          lastMessage: message,
+          updatedAt: message.sentAt,
+          unread: current.unread + (incoming && !isOpen ? 1 : 0),
+        };
+        return [
+          updated,
+          ...prev.filter((c) => c.id !== message.conversationId),
+        ];
+      });
+    };
+    return subscribeToChat(onEvent, setConnected);
+  }, [me]);
+
+  useEffect(() => {
+    if (!openId || !keys) return;
+    let cancelled = false;
+    setMessages([]);
+    setMore(false);
+    fetchMessages(openId)
+      .then(async (page) => {
+        const opened = await Promise.all(
+          page.messages.map((m) => openMessage(ciphers.current, keys, m)),
+        );
+        if (cancelled) return;
+        setMessages(opened);
+        setMore(page.more);
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+    markRead(openId).catch(() => undefined);
+    setConversations((prev) =>
+      prev.map((c) => (c.id === openId ? { ...c, unread: 0 } : c)),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [openId, keys]);
+
+  useEffect(() => {
+    if (!openId || !keys || !me) return;
+    let cancelled = false;
+    conversationSecurity(ciphers.current, keys, me.id, openId)
+      .then((found) => {
+        if (!cancelled) setSecurity(found);
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [openId, keys, me]);
+
+  useEffect(() => {
+    if (!keys) return;
+    for (const { lastMessage } of conversations) {
+      if (!lastMessage || previewing.current.has(lastMessage.id)) continue;
+      previewing.current.add(lastMessage.id);
+      openMessage(ciphers.current, keys, lastMessage)
+        .then((opened) =>
+          setPreviews((prev) => ({ ...prev, [opened.id]: preview(opened) })),
+        )
+        .catch(() => previewing.current.delete(lastMessage.id));
+    }
+  }, [conversations, keys]);
+
+  const lastMessageId = messages.at(-1)?.id;
+  useEffect(() => {
+    if (lastMessageId)
+      listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [lastMessageId]);
+
+  if (!me) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando tus mensajes…"}
+      </main>
+    );
+  }
+
+  const open = conversations.find((c) => c.id === openId) ?? null;
+  const nameOf = (userId: string) =>
+    open?.members.find((member) => member.id === userId)?.displayName ??
+    "Alguien";
+  const typingNames = open
+    ? Object.keys(typing)
+        .filter((key) => key.startsWith(`${open.id}:`))
+        .map((key) => nameOf(key.slice(open.id.length + 1)))
+    : [];
+  const contacts = open?.members.filter((member) => member.id !== me.id) ?? [];
+  const verificationOf = (contactId: string) =>
+    verifications.find((v) => v.contactId === contactId) ?? null;
+  const safety =
+    security && security.conversationId === open?.id ? security.safety : {};
+  const warnings: KeyWarning[] = open
+    ? [
+        ...contacts.flatMap((member): KeyWarning[] => {
+          const verified = verificationOf(member.id);
+          const current = safety[member.id];
+          return verified && current && verified.safetyNumber !== current
+            ? [
+                {
+                  tone: "danger",
+                  text: `El número de seguridad con ${member.displayName} cambió desde que lo verificaste. Compruébalo de nuevo antes de enviar nada delicado.`,
+                },
+              ]
+            : [];
+        }),
+        ...(security?.conversationId === open.id
+          ? deviceWarnings({
+              meId: me.id,
+              members: open.members,
+              devices: security.devices,
+              since: open.createdAt,
+            })
+          : []),
+      ]
+    : [];
+
+  const handleStart = async (event: FormEvent) => {
+    event.preventDefault();
+    const emails = emailsDraft
+      .split(/[,;\s]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    if (!emails.length) return;
+    if (emails.length >= MAX_CONVERSATION_MEMBERS) {
+      setStatus({
+        tone: "error",
+        text: `Los grupos son de hasta ${MAX_CONVERSATION_MEMBERS} personas.`,
+      });
+      return;
+    }
+    setBusy(true);
+    try {
+      const conversation = await startConversation({
+        emails,
+        title:
+          emails.length > 1 && titleDraft.trim()
+            ? titleDraft.trim()
+            : undefined,
+      });
+      setConversations((prev) => [
+        conversation,
+        ...prev.filter((c) => c.id !== conversation.id),
+      ]);
+      setOpenId(conversation.id);
+      setComposing(false);
+      setEmailsDraft("");
+      setTitleDraft("");
+      setStatus(null);
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSend = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!open || !keys) return;
+    const route = routes.find((r) => r.id === attachId);
+    const body = draft.trim();
+    if (!body && !route) return;
+    const payload = { body, route: route ? shareable(route) : null };
+    // Sealed for every active member device; when those changed meanwhile,
+    // the server refuses it and the exchange is redone once.
+    const seal = async (retry: boolean): Promise<ChatMessage> => {
+      const { cipher, devices } = await sealedFor(
+        ciphers.current,
+        keys,
+        open.id,
+      );
+      try {
+        return await sendMessage(open.id, {
+          senderDeviceId: keys.current.deviceId,
+          envelope: await cipher.encrypt(payload, activeDevices(devices)),
+        });
+      } catch (error) {
+        if (!retry || !(error instanceof ApiRequestError)) throw error;
+        if (error.status !== 409) throw error;
+        ciphers.current.delete(`${keys.current.deviceId}:${open.id}`);
+        return seal(false);
+      }
+    };
+    setBusy(true);
+    try {
+      const { envelope: _, ...message } = await seal(true);
+      const opened: OpenedMessage = { ...message, payload, locked: null };
+      setMessages((prev) =>
+        prev.some((m) => m.id === opened.id) ? prev : [...prev, opened],
+      );
+      setPreviews((prev) => ({ ...prev, [opened.id]: preview(opened) }));
+      setDraft("");
+      setAttachId("");
+      lastTypingSent.current = 0;
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDraft = (value: string) => {
+    setDraft(value);
+    const now = Date.now();
+    if (!open || !value || now - lastTypingSent.current < TYPING_SIGNAL_MS)
+      return;
+    lastTypingSent.current = now;
+    sendTyping(open.id).catch(() => undefined);
+  };
+
+  const handleOlder = async () => {
+    if (!open || !keys || !messages.length) return;
+    try {
+      const page = await fetchMessages(open.id, messages[0].sentAt);
+      const opened = await Promise.all(
+        page.messages.map((m) => openMessage(ciphers.current, keys, m)),
+      );
+      setMessages((prev) => [...opened, ...prev]);
+      setMore(page.more);
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleVerify = async (contactId: string, verified: boolean) => {
+    try {
+      if (verified) {
+        const verification = {
+          userId: me.id,
+          contactId,
+          safetyNumber: safety[contactId],
+          verifiedAt: Date.now(),
+        };
+        await keyStore.saveVerification(verification);
+        setVerifications((prev) => [
+          ...prev.filter((v) => v.contactId !== contactId),
+          verification,
+        ]);
+      } else {
+        await keyStore.removeVerification(me.id, contactId);
+        setVerifications((prev) =>
+          prev.filter((v) => v.contactId !== contactId),
+        );
+      }
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!keys) return;
+    setBusy(true);
+    try {
+      const setup = await rotateDeviceKey(keyStore, keys);
+      setKeys(setup.keys);
+      setMyDevices(setup.devices);
+      setRenewed(false);
+      setStatus({
+        tone: "ok",
+        text: "Claves renovadas. Tus contactos verán el aviso en sus conversaciones.",
+      });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The list refreshes from the devices event the server sends back.
+  const handleLost = async (deviceId: string) => {
+    setBusy(true);
+    try {
+      await revokeDevice(deviceId, "lost");
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-5xl">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <div className="mt-3 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Mensajes</h1>
+          {!connected ? (
+            <span className="text-[11px] text-amber-200">Reconectando…</span>
+          ) : (
+            <div className="flex items-center gap-3">
+              <Link
+                href="/runs"
+                className="text-xs font-semibold text-orange-200 transition hover:text-orange-100"
+              >
+                Salidas en grupo →
+              </Link>
+              <Link
+                href="/forums"
+                className="text-xs font-semibold text-orange-200 transition hover:text-orange-100"
+              >
+                Foros de tu ciudad →
+              </Link>
+            </div>
+          )}
+        </div>
+        {status ? (
+          <p
+            className={`mt-2 text-xs ${status.tone === "ok" ? "text-emerald-200" : "text-red-200"}`}
+          >
+            {status.text}
+          </p>
+        ) : null}
+        {renewed ? (
+          <p className="mt-2 rounded-2xl border border-amber-300/30 bg-amber-400/10 px-3 py-2 text-xs text-amber-100">
+            Este dispositivo se retiró desde otro de tus dispositivos, así que
+            tiene claves nuevas. Los mensajes enviados entretanto no se pueden
+            leer aquí.
+          </p>
+        ) : null}
+
+        <div className="mt-6 grid gap-4 md:grid-cols-[280px_1fr]">
+          <aside
+            className={`flex flex-col gap-3 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-4 ${open ? "hidden md:flex" : ""}`}
+          >
+            <button
+              type="button"
+              onClick={() => setComposing((prev) => !prev)}
+              className="rounded-full bg-orange-400/90 px-3 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110"
+            >
+              {composing ? "Cancelar" : "Nueva conversación"}
+            </button>
+            {composing ? (
+              <form onSubmit={handleStart} className="flex flex-col gap-2">
+                <label className="flex flex-col gap-1 text-xs text-slate-300">
+                  Correos, separados por comas
+                  <input
+                    required
+                    value={emailsDraft}
+                    onChange={(e) => setEmailsDraft(e.target.value)}
+                    placeholder="ana@ejemplo.com, luis@ejemplo.com"
+                    className={fieldClass}
+                  />
+                </label>
+                {emailsDraft.includes(",") ? (
+                  <label className="flex flex-col gap-1 text-xs text-slate-300">
+                    Nombre del grupo
+                    <input
+                      value={titleDraft}
+                      onChange={(e) => setTitleDraft(e.target.value)}
+                      placeholder="Fondo del domingo"
+                      maxLength={80}
+                      className={fieldClass}
+                    />
+                  </label>
+                ) : null}
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="rounded-full bg-white/10 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-white/15 disabled:opacity-50"
+                >
+                  Empezar
+                </button>
+              </form>
+            ) : null}
+            {conversations.length ? (
+              <ul className="flex flex-col gap-1">
+                {conversations.map((conversation) => (
+                  <li key={conversation.id}>
+                    <button
+                      type="button"
+                      onClick={() => setOpenId(conversation.id)}
+                      className={`flex w-full items-center gap-2 rounded-2xl px-3 py-2 text-left transition ${
+                        conversation.id === openId
+                          ? "bg-orange-400/15 ring-1 ring-orange-400/30"
+                          : "hover:bg-white/5"
+                      }`}
+                    >
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate text-sm font-semibold text-slate-100">
+                          {conversationTitle(conversation, me.id)}
+                        </span>
+                        <span className="block truncate text-[11px] text-slate-400">
+                          {conversation.lastMessage
+                            ? (previews[conversation.lastMessage.id] ??
+                              "Mensaje cifrado")
+                            : "Sin mensajes todavía"}
+                        </span>
+                      </span>
+                      {conversation.unread ? (
+                        <span className="rounded-full bg-orange-400 px-2 py-0.5 text-[10px] font-bold text-[#0b0f1a]">
+                          {conversation.unread}
+                        </span>
+                      ) : null}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">
+                Todavía no tienes conversaciones.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                setPanel((prev) => (prev === "devices" ? null : "devices"))
+              }
+              className="mt-auto text-left text-[11px] text-slate-400 transition hover:text-slate-200"
+            >
+              {panel === "devices"
+                ? "Ocultar dispositivos"
+                : "Tus dispositivos"}
+            </button>
+            {panel === "devices" && keys ? (
+              <ul className="flex flex-col gap-2">
+                {myDevices.map((device) => (
+                  <li
+                    key={device.id}
+                    className="rounded-2xl border border-white/10 px-3 py-2 text-[11px]"
+                  >
+                    <p className="font-semibold text-slate-100">
+                      {device.label}
+                      {device.id === keys.current.deviceId
+                        ? " · este dispositivo"
+                        : ""}
+                    </p>
+                    <p className="text-slate-400">
+                      {device.revokedAt === null
+                        ? `Desde el ${shortDate(device.createdAt)}`
+                        : `${device.revokeReason === "lost" ? "Perdido" : "Claves renovadas"} el ${shortDate(device.revokedAt)}`}
+                    </p>
+                    {device.revokedAt !== null ? null : device.id ===
+                      keys.current.deviceId ? (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={handleRotate}
+                        className="mt-1 text-orange-200 transition hover:text-orange-100 disabled:opacity-50"
+                      >
+                        Renovar claves
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => handleLost(device.id)}
+                        className="mt-1 text-red-200 transition hover:text-red-100 disabled:opacity-50"
+                      >
+                        Marcar como perdido
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </aside>
+
+          <section
+            className={`flex min-h-[60vh] flex-col rounded-3xl border border-white/10 bg-[#0a0f1f]/95 ${open ? "" : "hidden md:flex"}`}
+          >
+            {open ? (
+              <>
+                <header className="flex items-center gap-3 border-b border-white/10 px-5 py-3">
+                  <button
+                    type="button"
+                    onClick={() => setOpenId(null)}
+                    className="text-xs text-slate-400 transition hover:text-slate-200 md:hidden"
+                  >
+                    ←
+                  </button>
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold">
+                      {conversationTitle(open, me.id)}
+                    </p>
+                    <p className="truncate text-[11px] text-slate-400">
+                      {open.members
+                        .map((member) =>
+                          member.id === me.id ? "Tú" : member.displayName,
+                        )
+                        .join(", ")}
+                    </p>
+                  </div>
+                  {contacts.length ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setPanel((prev) =>
+                          prev === "security" ? null : "security",
+                        )
+                      }
+                      className="ml-auto shrink-0 rounded-full bg-white/5 px-3 py-1 text-[11px] text-slate-300 transition hover:bg-white/10"
+                    >
+                      {panel === "security" ? "Cerrar" : "Cifrado"}
+                    </button>
+                  ) : null}
+                </header>
+                {warnings.length ? (
+                  <ul className="flex flex-col gap-1 border-b border-white/10 px-5 py-2">
+                    {warnings.map((warning) => (
+                      <li
+                        key={warning.text}
+                        className={`text-[11px] ${warning.tone === "danger" ? "text-red-200" : "text-amber-100"}`}
+                      >
+                        {warning.text}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+                {panel === "security" ? (
+                  <div className="flex flex-col gap-3 border-b border-white/10 px-5 py-3 text-[11px] text-slate-300">
+                    <p>
+                      Los mensajes se cifran en tus dispositivos; el servidor
+                      solo guarda texto cifrado. Comparad el número de seguridad
+                      en persona o en una llamada: si coincide, nadie se
+                      interpone entre vosotros.
+                    </p>
+                    {contacts.map((member) => {
+                      const number =
+                        security?.conversationId === open.id
+                          ? (safety[member.id] ?? "")
+                          : undefined;
+                      const verified = verificationOf(member.id);
+                      const matches = verified?.safetyNumber === number;
+                      return (
+                        <div key={member.id} className="flex flex-col gap-1">
+                          <p className="font-semibold text-slate-100">
+                            {member.displayName}
+                            {verified && matches ? " · verificado" : ""}
+                          </p>
+                          {number ? (
+                            <p className="font-mono text-xs tracking-wider text-slate-100">
+                              {number}
+                            </p>
+                          ) : (
+                            <p className="text-slate-400">
+                              {number === ""
+                                ? "Todavía no tiene claves."
+                                : "Calculando…"}
+                            </p>
+                          )}
+                          {number ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                handleVerify(member.id, !(verified && matches))
+                              }
+                              className="self-start text-orange-200 transition hover:text-orange-100"
+                            >
+                              {verified && matches
+                                ? "Quitar verificación"
+                                : "Marcar como verificado"}
+                            </button>
+                          ) : null}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : null}
+                <div
+                  ref={listRef}
+                  className="flex flex-1 flex-col gap-2 overflow-y-auto px-5 py-4"
+                >
+                  {more ? (
+                    <button
+                      type="button"
+                      onClick={handleOlder}
+                      className="self-center rounded-full bg-white/5 px-3 py-1 text-[11px] text-slate-300 transition hover:bg-white/10"
+                    >
+                      Cargar anteriores
+                    </button>
+                  ) : null}
+                  {messages.map((message) => {
+                    const mine = message.senderId === me.id;
+                    return (
+                      <div
+                        key={message.id}
+                        className={`flex max-w-[80%] flex-col gap-1 ${mine ? "self-end items-end" : "self-start"}`}
+                      >
+                        {!mine && open.members.length > 2 ? (
+                          <span className="text-[10px] text-slate-400">
+                            {nameOf(message.senderId)}
+                          </span>
+                        ) : null}
+                        {message.locked ? (
+                          <p className="rounded-2xl border border-white/10 px-3 py-2 text-xs italic text-slate-400">
+                            {lockedText[message.locked]}
+                          </p>
+                        ) : null}
+                        {message.payload?.body ? (
+                          <p
+                            className={`whitespace-pre-wrap rounded-2xl px-3 py-2 text-sm ${
+                              mine
+                                ? "bg-orange-400/20 text-orange-50"
+                                : "bg-white/5 text-slate-100"
+                            }`}
+                          >
+                            {message.payload.body}
+                          </p>
+                        ) : null}
+                        {message.payload?.route ? (
+                          <RouteCard
+                            route={message.payload.route}
+                            onError={(error) =>
+                              setStatus({ tone: "error", text: failure(error) })
+                            }
+                          />
+                        ) : null}
+                        <span className="text-[10px] text-slate-500">
+                          {sentAtText(message.sentAt)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="h-5 px-5 text-[11px] text-slate-400">
+                  {typingNames.length
+                    ? `${typingNames.join(", ")} ${typingNames.length > 1 ? "están" : "está"} escribiendo…`
+                    : ""}
+                </p>
+                <form
+                  onSubmit={handleSend}
+                  className="flex flex-col gap-2 border-t border-white/10 px-5 py-3"
+                >
+                  <div className="flex gap-2">
+                    <input
+                      value={draft}
+                      onChange={(e) => handleDraft(e.target.value)}
+                      placeholder="Escribe un mensaje"
+                      maxLength={MAX_MESSAGE_LENGTH}
+                      className={fieldClass}
+                    />
+                    <button
+                      type="submit"
+                      disabled={busy || !keys || (!draft.trim() && !attachId)}
+                      className="rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50"
+                    >
+                      Enviar
+                    </button>
+                  </div>
+                  {routes.length ? (
+                    <label className="flex items-center gap-2 text-[11px] text-slate-400">
+                      Adjuntar ruta
+                      <select
+                        value={attachId}
+                        onChange={(e) => setAttachId(e.target.value)}
+                        className="rounded-lg border border-white/10 bg-[#0b1222] px-2 py-1 text-[11px] text-slate-100"
+                      >
+                        <option value="">Ninguna</option>
+                        {routes.map((route) => (
+                          <option key={route.id} value={route.id}>
+                            {`${route.title} · ${route.distanceKm.toFixed(1)} km`}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : (
+                    <p className="text-[11px] text-slate-500">
+                      Guarda una ruta en el mapa para poder compartirla.
+                    </p>
+                  )}
+                </form>
+              </>
+            ) : (
+              <p className="m-auto text-sm text-slate-400">
+                Elige una conversación o empieza una nueva.
+              </p>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function failure(error: unknown): string {
+  if (
+    error instanceof ApiRequestError ||
+    error instanceof StorageError ||
+    error instanceof MessagingError
+  ) {
+    return error.message;
+  }
+  console.error("Messaging failed", error);
+  return "No se pudo completar la acción.";
+}
@@ -0,0 +1,3558 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type ReactNode, useEffect, useId, useMemo, useRef, useState } from "react";
+import type { GeoJSONSource, Map as MapLibreMap, StyleSpecification } from "maplibre-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import Image from "next/image";
+import homeIcon from "../../../assets/home.png";
+import infoIcon from "../../../assets/info.png";
+import accountIcon from "../../../assets/account.png";
+import searchIcon from "../../../assets/search.svg";
+import mapIcon from "../../../assets/map.png";
+import routeIcon from "../../../assets/route.png";
+import botIcon from "../../../assets/bot.png";
+import chatIcon from "../../../assets/chat.png";
+import { fetchSession } from "@/lib/auth/client";
+import { createCoach } from "@/lib/coach/coach";
+import { respond, startConversation } from "@/lib/coach/pipeline";
+import { suggestDistance } from "@/lib/coach/routines";
+import type { CoachAction, CoachConversation, CoachMessage, CoachTools } from "@/lib/coach/types";
+import { type ActivityExportFormat, activityExporters } from "@/lib/activity/export";
+import {
+  type Activity,
+  addFix,
+  finishRecording,
+  pauseRecording,
+  type Recording,
+  type RecordingStatus,
+  recordingStats,
+  resumeRecording,
+  startRecording,
+  type TrackPoint,
+} from "@/lib/activity/recorder";
+import { loadRecording, saveRecording } from "@/lib/activity/storage";
+import { downloadFile, slugify } from "@/lib/download";
+import { fillElevations, loadDemTiles } from "@/lib/elevation/dem";
+import { type ClimbStats, elevationProfile } from "@/lib/elevation/profile";
+import { defaultPaceMinPerKm, type Eta, estimateEta, formatPace, parsePace } from "@/lib/eta";
+import { type CityId, cities } from "@/lib/geocoding/cities";
+import { GeocodingError } from "@/lib/geocoding/errors";
+import { createGeocoder } from "@/lib/geocoding/geocoder";
+import type { Place, PlaceKind } from "@/lib/geocoding/types";
+import {
+  fetchCrewPositions,
+  fetchGroupRuns,
+  shareCrewPosition,
+  stopSharingPosition,
+  subscribeToGroupRuns,
+} from "@/lib/group-runs/client";
+import { formatStart, isAttending, isLive } from "@/lib/group-runs/group-runs";
+import type { CrewPosition, GroupRun, GroupRunEvent, MeetingPoint } from "@/lib/group-runs/types";
+import { cityFallback, type LocatedPosition, locateUser } from "@/lib/location/locate";
+import { fixesAlongPath } from "@/lib/location/replay";
+import {
+  createBrowserPositionSource,
+  createMockPositionSource,
+  mockPositionSourceFromUrl,
+} from "@/lib/location/source";
+import type { ManeuverKind } from "@/lib/navigation/maneuvers";
+import type { NavigationSnapshot } from "@/lib/navigation/navigator";
+import type { NavigationLang } from "@/lib/navigation/phrases";
+import { browserOutputs, type NavigationSession, startNavigation } from "@/lib/navigation/session";
+import { fetchConversations } from "@/lib/messaging/client";
+import { type Mode, modeMeta } from "@/lib/modes";
+import {
+  hasPlanLink,
+  type PlanLink,
+  readPlanLink,
+  sameViewBesidesStep,
+  sharedRouteId,
+  writePlanLink,
+} from "@/lib/plan-link";
+import { RouteImportError } from "@/lib/route/errors";
+import { type RouteExportFormat, routeExporters } from "@/lib/route/export";
+import { circleRing, cumulativeDistancesKm, type GeoPoint, pointAlongPath, projectToViewBox } from "@/lib/route/geo";
+import { importAccept, importRouteFile } from "@/lib/route/import";
+import { buildRouteGeo, createRoute, type RouteOption, routeStops } from "@/lib/route/model";
+import { baseRoutes } from "@/lib/route/presets";
+import { loadBundledGraph } from "@/lib/routing/bundled";
+import { RoutingError } from "@/lib/routing/errors";
+import { generateRoute, type RouteShape } from "@/lib/routing/generate";
+import {
+  avoidingProfile,
+  describeSafety,
+  describeSurface,
+  type RouteAvoid,
+  routingProfiles,
+} from "@/lib/routing/profiles";
+import { StorageError } from "@/lib/storage/errors";
+import { createHttpRepository } from "@/lib/storage/http";
+import { ACTIVE_ROUTINE_ID, createBrowserRepository } from "@/lib/storage/repository";
+import type { MapType, RoutineItem, Units, UserProfile } from "@/lib/storage/types";
+import type { PaceTargets } from "@/lib/training/types";
+import { zonesFromRace } from "@/lib/training/zones";
+import { type WorkoutExportFormat, workoutExporters } from "@/lib/workout/export";
+import {
+  createWorkoutPlayer,
+  type WorkoutEvent,
+  type WorkoutPlayer,
+  type WorkoutProgress,
+  type WorkoutSnapshot,
+  workoutVibration,
+} from "@/lib/workout/player";
+import { describeStep, workoutFromRoutine } from "@/lib/workout/workout";
+
+const iconFilterStyle = {
+  // Slightly lighter orange tint for asset icons
+  filter:
+    "brightness(0) saturate(100%) invert(78%) sepia(68%) saturate(2100%) hue-rotate(338deg) brightness(104%) contrast(107%)",
+};
+
+// Neutral filter for the account icon (dark gray, like the reference avatar)
+const accountFilterStyle = {
+  filter: "brightness(0) saturate(0%) invert(12%) sepia(5%) saturate(400%) hue-rotate(200deg) brightness(96%) contrast(92%)",
+};
+
+
+type CoachNote = { title: string; desc: string };
+type Notice = { tone: "ok" | "error"; text: string };
+type AnchorRole = "start" | "via" | "destination";
+type RouteAnchors = { start: Place | null; via: Place[]; destination: Place | null };
+
+const defaultRoutine: RoutineItem[] = [
+  { step: "Calentamiento", detail: "8 min movilidad + 5 min trote suave" },
+  { step: "Bloque", detail: "4 x 1 km a ritmo de 10K (rec 2 min)" },
+  { step: "Enfriar", detail: "8 min trote suave + estiramientos" },
+];
+
+const DEFAULT_CITY: CityId = "bogota";
+const MAP_CENTER: [number, number] = [cities[DEFAULT_CITY].center.lng, cities[DEFAULT_CITY].center.lat];
+const MAX_VIA_POINTS = 3;
+// "Simular" replays the route at this speed, one fix every half second.
+const SIMULATION_SPEED_MPS = 12;
+const SIMULATION_INTERVAL_MS = 500;
+// How often a shared location goes to the group: fresh enough to find each other.
+const CREW_SHARE_INTERVAL_MS = 15_000;
+const cleanEnvValue = (value?: string) => (value ?? "").replace(/['"]/g, "").trim();
+
+// With a recent race on the profile, the coach writes routines with real paces.
+const userPaces = (user: UserProfile | null): PaceTargets | undefined => {
+  const zones = user?.recentRace ? zonesFromRace(user.recentRace) : null;
+  return user && zones ? { zones, units: user.units } : undefined;
+};
+
+// Without a recent race, Zwift efforts are scaled against a typical threshold.
+const FALLBACK_THRESHOLD_MIN_PER_KM = defaultPaceMinPerKm.run * 0.9;
+
+/**
+ * A workout being played: how far it has got, and the clock and recording
+ * readings it was last moved on from.
+ */
+type WorkoutRun = {
+  progress: WorkoutProgress;
+  at: number;
+  recorded: { movingMs: number; distanceKm: number } | null;
+};
+
+type WorkoutControls = {
+  snapshot: WorkoutSnapshot | null;
+  units: Units;
+  onStart: () => void;
+  onStop: () => void;
+  onSkip: () => void;
+  onBack: () => void;
+  onExport: (format: WorkoutExportFormat) => void;
+};
+
+// While recording, a workout moves on by moving time and distance, so
+// auto-pause holds the step too. Without a recording it runs on the clock,
+// covering ground at `minPerKm`; one started later takes over from there.
+const advanceWorkout = (run: WorkoutRun, recording: Recording | null, now: number, minPerKm: number): WorkoutRun => {
+  const recorded = recording && { movingMs: recording.movingMs, distanceKm: recording.distanceKm };
+  const { seconds, distanceKm } = run.progress;
+  if (recorded) {
+    const since = run.recorded ?? recorded;
+    return {
+      progress: {
+        seconds: seconds + (recorded.movingMs - since.movingMs) / 1000,
+        distanceKm: distanceKm + recorded.distanceKm - since.distanceKm,
+      },
+      at: now,
+      recorded,
+    };
+  }
+  const elapsed = Math.max(0, now - run.at) / 1000;
+  return { progress: { seconds: seconds + elapsed, distanceKm: distanceKm + elapsed / 60 / minPerKm }, at: now, recorded: null };
+};
+
+const stepPace = (player: WorkoutPlayer) => {
+  const target = player.snapshot().step?.target;
+  return target?.kind === "pace" ? target.minPerKm : null;
+};
+
+const signalWorkout = (events: WorkoutEvent[], voice: boolean, lang: NavigationLang) => {
+  for (const event of events) {
+    if (voice) browserOutputs.speak(event.text, lang, true);
+    browserOutputs.vibrate(workoutVibration[event.type]);
+  }
+};
+
+/** The group on the map: where to meet and where everyone sharing is. */
+type Crew = { meetingPoint: MeetingPoint; positions: CrewPosition[] };
+
+// Live runs only: a cancelled run or one the user left drops off the map.
+const applyGroupRunEvent = (
+  event: GroupRunEvent,
+  meId: string,
+  setRuns: (update: (runs: GroupRun[]) => GroupRun[]) => void,
+  setPositions: (update: (positions: Record<string, CrewPosition[]>) => Record<string, CrewPosition[]>) => void,
+) => {
+  if (event.type === "updated") {
+    const { run } = event;
+    setRuns((runs) => {
+      const rest = runs.filter((r) => r.id !== run.id);
+      return isAttending(run, meId) && isLive(run, Date.now()) ? [...rest, run] : rest;
+    });
+    return;
+  }
+  setPositions((positions) => {
+    const rest = (positions[event.runId] ?? []).filter((p) => p.userId !== event.userId);
+    return { ...positions, [event.runId]: event.position ? [...rest, event.position] : rest };
+  });
+};
+
+/** The view in the URL, so it can be shared and the back button walks through it. */
+type PlanView = { mode: Mode; mapType: MapType; route: RouteOption; step: number };
+
+// A link's route is only shown, until the user saves it; what the link
+// leaves out stays as it was.
+const showPlanLink = (
+  link: PlanLink,
+  set: {
+    mode: (mode: Mode) => void;
+    mapType: (mapType: MapType) => void;
+    linkedRoute: (route: RouteOption) => void;
+    activeRouteId: (id: string) => void;
+    step: (index: number) => void;
+  },
+) => {
+  if (link.route) set.linkedRoute(link.route);
+  if (link.mode) set.mode(link.mode);
+  if (link.mapType) set.mapType(link.mapType);
+  if (link.routeId) set.activeRouteId(link.routeId);
+  set.step(link.step ?? 0);
+};
+
+// Each new view is a history entry; moving through the routine, or showing
+// an entry the user went back to, only rewrites the current one.
+const syncPlanUrl = (view: PlanView, restoring: { current: boolean }) => {
+  const current = new URLSearchParams(window.location.search);
+  const next = writePlanLink(current, view);
+  const replace = restoring.current || !hasPlanLink(current) || sameViewBesidesStep(current, next);
+  restoring.current = false;
+  if (next.toString() === current.toString()) return;
+  const url = `${window.location.pathname}?${next}${window.location.hash}`;
+  if (replace) window.history.replaceState(null, "", url);
+  else window.history.pushState(null, "", url);
+};
+
+// `?mock-location=lng,lat` or `?mock-location=denied` stands in for the GPS
+// outside production. It is read as the page loads, before the synced URL
+// drops it.
+const mockLocation = typeof window === "undefined" ? null : mockPositionSourceFromUrl(window.location.search);
+const positionSource = () => mockLocation ?? createBrowserPositionSource();
+
+const storageNotice = (error: unknown): Notice => {
+  if (!(error instanceof StorageError)) console.error("Storage failed", error);
+  return {
+    tone: "error",
+    text: error instanceof StorageError ? error.message : "No se pudieron guardar tus datos.",
+  };
+};
+
+const geocoder = createGeocoder({
+  nominatimUrl: cleanEnvValue(process.env.NEXT_PUBLIC_NOMINATIM_URL) || undefined,
+});
+
+const coach = createCoach({
+  provider: cleanEnvValue(process.env.NEXT_PUBLIC_COACH_PROVIDER),
+  baseUrl: cleanEnvValue(process.env.NEXT_PUBLIC_COACH_BASE_URL),
+  model: cleanEnvValue(process.env.NEXT_PUBLIC_COACH_MODEL),
+});
+
+const routeFailure = (error: unknown): string => {
+  if (!(error instanceof RoutingError)) console.error("Route generation failed", error);
+  return error instanceof RoutingError ? error.message : "No se pudo generar la ruta.";
+};
+
+const placeKindLabel: Record<PlaceKind, string> = {
+  park: "Parque",
+  trailhead: "Sendero",
+  landmark: "Referencia",
+  address: "Dirección",
+};
+
+const maneuverGlyph: Record<ManeuverKind, string> = {
+  depart: "↑",
+  "slight-left": "↖",
+  left: "←",
+  "sharp-left": "↙",
+  "slight-right": "↗",
+  right: "→",
+  "sharp-right": "↘",
+  "u-turn": "↶",
+  waypoint: "↑",
+  arrive: "⚑",
+};
+
+const coachActionLabel: Record<CoachAction["type"], string> = {
+  "create-route": "Ruta en el mapa",
+  "set-mode": "Modo cambiado",
+  "set-routine": "Rutina actualizada",
+};
+
+const recordingStatusLabel: Record<RecordingStatus, string> = {
+  recording: "Grabando",
+  paused: "En pausa",
+  "auto-paused": "Pausa automática",
+};
+
+const anchorRoleLabel: Record<AnchorRole, string> = {
+  start: "Inicio",
+  via: "Paso",
+  destination: "Destino",
+};
+
+export default function PlanPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>("run");
+  const [mapType, setMapType] = useState<MapType>("map");
+  const [customRoutes, setCustomRoutes] = useState<Record<Mode, RouteOption[]>>({
+    run: [],
+    jog: [],
+    walk: [],
+    hike: [],
+  });
+  const [activeRouteId, setActiveRouteId] = useState(baseRoutes.run[0].id);
+  const [coachPrompt, setCoachPrompt] = useState("");
+  const [conversation, setConversation] = useState<CoachConversation>(startConversation);
+  const [coachBusy, setCoachBusy] = useState(false);
+  const [routine, setRoutine] = useState<RoutineItem[]>(defaultRoutine);
+  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [coachNote, setCoachNote] = useState<CoachNote>({
+    title: "Listo para salir",
+    desc: "Selecciona una ruta o pide al coach que la adapte.",
+  });
+  const [showCoachPanel, setShowCoachPanel] = useState(false);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [infoOpen, setInfoOpen] = useState(false);
+  const [isMobile, setIsMobile] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [profileHoverKm, setProfileHoverKm] = useState<number | null>(null);
+  const [anchors, setAnchors] = useState<RouteAnchors>({ start: null, via: [], destination: null });
+  const [focusPlace, setFocusPlace] = useState<Place | null>(null);
+  const [userLocation, setUserLocation] = useState<LocatedPosition | null>(null);
+  const [fallbackCity, setFallbackCity] = useState<CityId>(DEFAULT_CITY);
+  const [locating, setLocating] = useState(false);
+  const [navigation, setNavigation] = useState<NavigationSnapshot | null>(null);
+  const [navLang, setNavLang] = useState<NavigationLang>("es");
+  const [navVoice, setNavVoice] = useState(true);
+  const navSession = useRef<NavigationSession | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const workoutPlayer = useRef<WorkoutPlayer | null>(null);
+  const workoutRun = useRef<WorkoutRun | null>(null);
+  const [workoutActive, setWorkoutActive] = useState(false);
+  const [workoutSnapshot, setWorkoutSnapshot] = useState<WorkoutSnapshot | null>(null);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [storageLoaded, setStorageLoaded] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [clock, setClock] = useState(() => Date.now());
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(() => new Set());
+  const [account, setAccount] = useState<UserProfile | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [groupRuns, setGroupRuns] = useState<GroupRun[]>([]);
+  const [crewRunId, setCrewRunId] = useState<string | null>(null);
+  const [crewPositions, setCrewPositions] = useState<Record<string, CrewPosition[]>>({});
+  const [sharingLocation, setSharingLocation] = useState(false);
+  const restoringView = useRef(false);
+  const [linkedRoute, setLinkedRoute] = useState<RouteOption | null>(null);
+  // Signed-in users save to their account; visitors keep data in this browser.
+  const repository = useMemo(() => (account ? createHttpRepository() : createBrowserRepository()), [account]);
+  const [targetPaces, setTargetPaces] = useState<Record<Mode, number | null>>({
+    run: null,
+    jog: null,
+    walk: null,
+    hike: null,
+  });
+
+  useEffect(() => {
+    const mq = typeof window !== "undefined" ? window.matchMedia("(max-width: 1024px)") : null;
+    const update = () => setIsMobile(Boolean(mq?.matches));
+    update();
+    mq?.addEventListener("change", update);
+    return () => mq?.removeEventListener("change", update);
+  }, []);
+  const unsavedRoute =
+    linkedRoute && !customRoutes[linkedRoute.mode].some((r) => r.id === linkedRoute.id) ? linkedRoute : null;
+  const routes = useMemo(
+    () => [
+      ...baseRoutes[mode],
+      ...(customRoutes[mode] ?? []),
+      ...(unsavedRoute?.mode === mode ? [unsavedRoute] : []),
+    ],
+    [mode, customRoutes, unsavedRoute],
+  );
+
+  const activeRoute = useMemo(
+    () => routes.find((r) => r.id === activeRouteId) ?? routes[0],
+    [routes, activeRouteId],
+  );
+
+  const activeEta = useMemo(
+    () =>
+      estimateEta(activeRoute.path, activeRoute.mode, {
+        targetPaceMinPerKm: targetPaces[activeRoute.mode] ?? undefined,
+      }),
+    [activeRoute, targetPaces],
+  );
+
+  // Routes start from a chosen place, else from the user, else the city.
+  const origin = useMemo<GeoPoint>(
+    () => anchors.start ?? userLocation ?? { lng: MAP_CENTER[0], lat: MAP_CENTER[1] },
+    [anchors.start, userLocation],
+  );
+
+  const handleLocate = async () => {
+    setLocating(true);
+    const source = positionSource();
+    const { position, error } = await locateUser(source, fallbackCity);
+    setLocating(false);
+    setUserLocation(position);
+    setNotice(
+      error
+        ? { tone: "error", text: `${error.message} Usamos el centro de ${cities[fallbackCity].name}.` }
+        : { tone: "ok", text: `Ubicación encontrada (±${Math.round(position.accuracyM ?? 0)} m).` },
+    );
+  };
+
+  const stopNavigation = () => {
+    navSession.current?.stop();
+    navSession.current = null;
+    setNavigation(null);
+  };
+
+  const handleStartNavigation = (route: RouteOption, simulate: boolean) => {
+    navSession.current?.stop();
+    setActiveRouteId(route.id);
+    setSheetOpen(false);
+    const source = simulate
+      ? createMockPositionSource(fixesAlongPath(route.path, { speedMps: SIMULATION_SPEED_MPS }), {
+          intervalMs: SIMULATION_INTERVAL_MS,
+        })
+      : positionSource();
+    navSession.current = startNavigation({
+      route,
+      source,
+      lang: navLang,
+      voice: navVoice,
+      onUpdate: setNavigation,
+      onError: (error) => {
+        setNotice({ tone: "error", text: error.message });
+        stopNavigation();
+      },
+    });
+  };
+
+  useEffect(() => () => navSession.current?.stop(), []);
+
+  useEffect(() => {
+    fetchSession()
+      .then((user) => {
+        setAccount(user);
+        if (!user) return;
+        setNavLang(user.language);
+        fetchConversations()
+          .then((list) => setUnreadMessages(list.reduce((sum, c) => sum + c.unread, 0)))
+          .catch(() => undefined);
+        fetchGroupRuns()
+          .then((runs) => setGroupRuns(runs.filter((run) => isLive(run, Date.now()))))
+          .catch(() => undefined);
+        if (user.targetPaceMinPerKm) {
+          const pace = user.targetPaceMinPerKm;
+          setTargetPaces((prev) => ({ ...prev, [user.defaultMode]: pace }));
+        }
+      })
+      .catch(() => setAccount(null))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  // Saved routes, preferences and history come back on every visit, and an
+  // activity left running before a reload picks up where it was. A shared
+  // link then wins over the saved view.
+  useEffect(() => {
+    if (!sessionChecked) return;
+    setRecording(loadRecording());
+    let routineLength = defaultRoutine.length;
+    Promise.all([
+      repository.preferences.get(),
+      repository.routes.list(),
+      repository.favorites.list(),
+      repository.routines.get(ACTIVE_ROUTINE_ID),
+      repository.activities.list(),
+    ])
+      .then(([preferences, saved, favorites, savedRoutine, history]) => {
+        setMode(preferences.mode);
+        setMapType(preferences.mapType);
+        if (preferences.activeRouteId) setActiveRouteId(preferences.activeRouteId);
+        setCustomRoutes((prev) => {
+          const next = { ...prev };
+          for (const route of saved) {
+            next[route.mode] = [...next[route.mode].filter((r) => r.id !== route.id), route];
+          }
+          return next;
+        });
+        setFavoriteIds(new Set(favorites));
+        if (savedRoutine) {
+          setRoutine(savedRoutine);
+          routineLength = savedRoutine.length;
+        }
+        setActivities(history);
+      })
+      .catch((error) => setNotice(storageNotice(error)))
+      .finally(() => {
+        const link = readPlanLink(new URLSearchParams(window.location.search));
+        if (link.step !== undefined && link.step >= routineLength) delete link.step;
+        restoringView.current = true;
+        showPlanLink(link, {
+          mode: setMode,
+          mapType: setMapType,
+          linkedRoute: setLinkedRoute,
+          activeRouteId: setActiveRouteId,
+          step: setCurrentStepIndex,
+        });
+        setStorageLoaded(true);
+      });
+  }, [repository, sessionChecked]);
+
+  useEffect(() => {
+    if (storageLoaded) saveRecording(recording);
+  }, [recording, storageLoaded]);
+
+  useEffect(() => {
+    if (!storageLoaded) return;
+    repository.preferences
+      .update({ mode, mapType, activeRouteId })
+      .catch((error) => setNotice(storageNotice(error)));
+  }, [mode, mapType, activeRouteId, storageLoaded, repository]);
+
+  useEffect(() => {
+    if (!storageLoaded) return;
+    repository.routines.save(ACTIVE_ROUTINE_ID, routine).catch((error) => setNotice(storageNotice(error)));
+  }, [routine, storageLoaded, repository]);
+
+  // A link to a route the user already has, like their own in the address
+  // bar after a reload, shows their copy.
+  useEffect(() => {
+    if (!linkedRoute) return;
+    const own = customRoutes[linkedRoute.mode].find(
+      (r) => r.id !== linkedRoute.id && sharedRouteId(r) === linkedRoute.id,
+    );
+    if (!own) return;
+    restoringView.current = true;
+    setLinkedRoute(null);
+    setActiveRouteId((id) => (id === linkedRoute.id ? own.id : id));
+  }, [linkedRoute, customRoutes]);
+
+  useEffect(() => {
+    if (!storageLoaded) return;
+    syncPlanUrl({ mode, mapType, route: activeRoute, step: currentStepIndex }, restoringView);
+  }, [storageLoaded, mode, mapType, activeRoute, currentStepIndex]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      restoringView.current = true;
+      showPlanLink(readPlanLink(new URLSearchParams(window.location.search)), {
+        mode: setMode,
+        mapType: setMapType,
+        linkedRoute: setLinkedRoute,
+        activeRouteId: setActiveRouteId,
+        step: setCurrentStepIndex,
+      });
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  // On the day of a group run, the group shows on the map.
+  const meId = account?.id;
+  useEffect(() => {
+    if (!meId) return;
+    return subscribeToGroupRuns((event) => applyGroupRunEvent(event, meId, setGroupRuns, setCrewPositions));
+  }, [meId]);
+
+  const crewRun = groupRuns.find((run) => run.id === crewRunId) ?? groupRuns[0] ?? null;
+  const crewRunLiveId = crewRun?.id ?? null;
+  useEffect(() => {
+    if (!crewRunLiveId) return;
+    fetchCrewPositions(crewRunLiveId)
+      .then((positions) => setCrewPositions((prev) => ({ ...prev, [crewRunLiveId]: positions })))
+      .catch((error) => setNotice({ tone: "error", text: error.message }));
+  }, [crewRunLiveId]);
+
+  const sharingRunId = sharingLocation ? crewRunLiveId : null;
+  useEffect(() => {
+    if (!sharingRunId) return;
+    const source = positionSource();
+    let sentAt = 0;
+    const stop = source.watch(
+      (fix) => {
+        if (fix.timestamp - sentAt < CREW_SHARE_INTERVAL_MS) return;
+        sentAt = fix.timestamp;
+        shareCrewPosition(sharingRunId, { lng: fix.lng, lat: fix.lat, accuracyM: fix.accuracyM }).catch((error) => {
+          setNotice({ tone: "error", text: error.message });
+          setSharingLocation(false);
+        });
+      },
+      (error) => {
+        setNotice({ tone: "error", text: error.message });
+        setSharingLocation(false);
+      },
+    );
+    return () => {
+      stop();
+      stopSharingPosition(sharingRunId).catch(() => undefined);
+    };
+  }, [sharingRunId]);
+
+  const crew = useMemo<Crew | null>(
+    () =>
+      crewRun
+        ? {
+            meetingPoint: crewRun.meetingPoint,
+            positions: (crewPositions[crewRun.id] ?? []).filter((p) => p.userId !== meId),
+          }
+        : null,
+    [crewRun, crewPositions, meId],
+  );
+
+  const recordingLive = recording !== null && recording.status !== "paused";
+  useEffect(() => {
+    if (!recordingLive) return;
+    const source = positionSource();
+    return source.watch(
+      (fix) => setRecording((current) => (current ? addFix(current, fix) : current)),
+      (error) => setNotice({ tone: "error", text: error.message }),
+      { maximumAgeMs: 0 },
+    );
+  }, [recordingLive]);
+
+  const recordingActive = recording !== null;
+  useEffect(() => {
+    if (!recordingActive && !workoutActive) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recordingActive, workoutActive]);
+
+  const units = account?.units ?? "metric";
+  const workoutName = `Rutina de ${modeMeta[mode].label}`;
+
+  // The clock's stand-in for distance when a step sets no pace.
+  const easyMinPerKm = userPaces(account)?.zones.easy ?? targetPaces[mode] ?? defaultPaceMinPerKm[mode];
+
+  const showWorkout = (player: WorkoutPlayer) => {
+    const snapshot = player.snapshot();
+    setWorkoutSnapshot(snapshot);
+    if (snapshot.step) setCurrentStepIndex(snapshot.step.itemIndex);
+    if (snapshot.finished) setWorkoutActive(false);
+  };
+
+  useEffect(() => {
+    const player = workoutPlayer.current;
+    const run = workoutRun.current;
+    if (!workoutActive || !player || !run) return;
+    workoutRun.current = advanceWorkout(run, recording, clock, stepPace(player) ?? easyMinPerKm);
+    signalWorkout(player.update(workoutRun.current.progress), navVoice, navLang);
+    const snapshot = player.snapshot();
+    setWorkoutSnapshot(snapshot);
+    if (snapshot.step) setCurrentStepIndex(snapshot.step.itemIndex);
+    if (snapshot.finished) setWorkoutActive(false);
+  }, [clock, recording, workoutActive, navVoice, navLang, easyMinPerKm]);
+
+  useEffect(() => {
+    workoutPlayer.current?.setLang(navLang);
+  }, [navLang]);
+
+  const handleStartWorkout = () => {
+    const player = createWorkoutPlayer(workoutFromRoutine(workoutName, routine), { units, lang: navLang });
+    if (!player.steps.length) return;
+    // From nothing done, and from the recording's current reading if one runs.
+    const now = Date.now();
+    const run = advanceWorkout({ progress: { seconds: 0, distanceKm: 0 }, at: now, recorded: null }, recording, now, easyMinPerKm);
+    workoutPlayer.current = player;
+    workoutRun.current = run;
+    setWorkoutActive(true);
+    signalWorkout(player.start(run.progress), navVoice, navLang);
+    showWorkout(player);
+  };
+
+  const handleStopWorkout = () => {
+    workoutPlayer.current = null;
+    workoutRun.current = null;
+    setWorkoutActive(false);
+    setWorkoutSnapshot(null);
+  };
+
+  const moveWorkout = (direction: "skip" | "back") => {
+    const player = workoutPlayer.current;
+    const run = workoutRun.current;
+    if (!workoutActive || !player || !run) return;
+    workoutRun.current = advanceWorkout(run, recording, Date.now(), stepPace(player) ?? easyMinPerKm);
+    signalWorkout(player[direction](workoutRun.current.progress), navVoice, navLang);
+    showWorkout(player);
+  };
+
+  const handleExportWorkout = (format: WorkoutExportFormat) => {
+    const exporter = workoutExporters[format];
+    const workout = workoutFromRoutine(workoutName, routine);
+    const thresholdMinPerKm = userPaces(account)?.zones.threshold ?? FALLBACK_THRESHOLD_MIN_PER_KM;
+    downloadFile(
+      `${slugify(workout.name)}.${exporter.extension}`,
+      exporter.serialize(workout, { thresholdMinPerKm }),
+      exporter.mime,
+    );
+  };
+
+  const handleFinishRecording = async () => {
+    if (!recording) return;
+    const dem = await loadDemTiles().catch(() => []);
+    const activity = finishRecording(recording, {
+      title: `${capitalize(modeMeta[recording.mode].label)} · ${new Date(recording.startedAt).toLocaleDateString("es-CO", {
+        day: "numeric",
+        month: "short",
+      })}`,
+      fill: (path) => fillElevations(path, dem) as TrackPoint[],
+    });
+    setRecording(null);
+    if (!activity) {
+      setNotice({ tone: "error", text: "La actividad fue demasiado corta para guardarla." });
+      return;
+    }
+    setActivities((prev) => [activity, ...prev]);
+    repository.activities.save(activity).catch((error) => setNotice(storageNotice(error)));
+    setNotice({ tone: "ok", text: `Actividad guardada: ${formatDistance(activity.distanceKm)}` });
+  };
+
+  const handleDeleteActivity = (id: string) => {
+    setActivities((prev) => prev.filter((activity) => activity.id !== id));
+    repository.activities.remove(id).catch((error) => setNotice(storageNotice(error)));
+  };
+
+  const handleExportActivity = (activity: Activity, format: ActivityExportFormat) => {
+    const exporter = activityExporters[format];
+    downloadFile(`${slugify(activity.title)}.${exporter.extension}`, exporter.serialize(activity), exporter.mime);
+  };
+
+  const handleFallbackCity = (city: CityId) => {
+    setFallbackCity(city);
+    setUserLocation(cityFallback(city));
+  };
+
+  const setAnchor = (place: Place, role: AnchorRole) => {
+    setAnchors((prev) =>
+      role === "via"
+        ? { ...prev, via: [...prev.via.filter((p) => p.id !== place.id), place].slice(-MAX_VIA_POINTS) }
+        : { ...prev, [role]: place },
+    );
+  };
+
+  const removeAnchor = (role: AnchorRole, id: string) => {
+    setAnchors((prev) =>
+      role === "via" ? { ...prev, via: prev.via.filter((p) => p.id !== id) } : { ...prev, [role]: null },
+    );
+  };
+
+  const addCustomRoute = (route: RouteOption) => {
+    setCustomRoutes((prev) => {
+      const list = prev[route.mode] ?? [];
+      return { ...prev, [route.mode]: [...list.filter((r) => r.id !== route.id), route] };
+    });
+    setActiveRouteId(route.id);
+    repository.routes.save(route).catch((error) => setNotice(storageNotice(error)));
+  };
+
+  const toggleFavorite = (routeId: string) => {
+    const favorite = !favoriteIds.has(routeId);
+    setFavoriteIds((prev) => {
+      const next = new Set(prev);
+      if (favorite) next.add(routeId);
+      else next.delete(routeId);
+      return next;
+    });
+    repository.favorites.set(routeId, favorite).catch((error) => setNotice(storageNotice(error)));
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = await importRouteFile(file, mode);
+      addCustomRoute(imported);
+      setCurrentStepIndex(0);
+      setNotice({
+        tone: "ok",
+        text: `Ruta importada: ${imported.title} · ${formatDistance(imported.distanceKm)}`,
+      });
+    } catch (error) {
+      if (!(error instanceof RouteImportError)) console.error("Route import failed", error);
+      setNotice({
+        tone: "error",
+        text: error instanceof RouteImportError ? error.message : "No se pudo leer el archivo.",
+      });
+    }
+  };
+
+  const handleExportRoute = (route: RouteOption, format: RouteExportFormat) => {
+    const exporter = routeExporters[format];
+    downloadFile(`${slugify(route.title)}.${exporter.extension}`, exporter.serialize(route), exporter.mime);
+  };
+
+  const handleSaveLinkedRoute = (route: RouteOption) => {
+    addCustomRoute(route);
+    setNotice({ tone: "ok", text: `Ruta guardada: ${route.title}` });
+  };
+
+  const handleShareRoute = async (route: RouteOption) => {
+    const step = route.id === activeRoute.id ? currentStepIndex : 0;
+    const params = writePlanLink(new URLSearchParams(), { mode: route.mode, mapType, route, step });
+    const link = `${window.location.origin}/plan?${params}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice({ tone: "ok", text: "Enlace de la ruta copiado." });
+    } catch {
+      setNotice({ tone: "ok", text: `Enlace de la ruta: ${link}` });
+    }
+  };
+
+  const planRoute = async (
+    distanceKm: number,
+    routeMode: Mode,
+    focus: string,
+    shape: RouteShape,
+  ): Promise<RouteOption | null> => {
+    try {
+      const route = await buildRouteFromPrompt(distanceKm, routeMode, focus, shape, origin, anchors);
+      addCustomRoute(route);
+      return route;
+    } catch (error) {
+      setCoachNote({ title: "Sin ruta", desc: routeFailure(error) });
+      return null;
+    }
+  };
+
+  const handleAnchorRoute = async () => {
+    const newRoute = await planRoute(suggestDistance(mode), mode, "Tus puntos", "loop");
+    if (!newRoute) return;
+    setCurrentStepIndex(0);
+    setCoachNote({
+      title: "Ruta con tus puntos",
+      desc: `${capitalize(modeMeta[mode].label)} · ${formatDistance(newRoute.distanceKm)}`,
+    });
+  };
+
+  const selectMode = (next: Mode) => {
+    setMode(next);
+    const first = [...baseRoutes[next], ...(customRoutes[next] ?? [])][0]?.id;
+    if (first) setActiveRouteId(first);
+  };
+
+  const coachTools: CoachTools = {
+    createRoute: async (plan) => {
+      setMode(plan.mode);
+      try {
+        const newRoute = await buildRouteFromPrompt(
+          plan.distanceKm,
+          plan.mode,
+          plan.focus,
+          plan.shape,
+          origin,
+          anchors,
+          plan.avoid,
+        );
+        addCustomRoute(newRoute);
+        setCurrentStepIndex(0);
+        setCoachNote({
+          title: "Coach generó ruta",
+          desc: `${capitalize(modeMeta[plan.mode].label)} · ${formatDistance(newRoute.distanceKm)} · ${plan.focus}`,
+        });
+        return {
+          ok: true,
+          note: `Ruta de ${formatDistance(newRoute.distanceKm)} en el mapa, trazada sobre una red de calles de muestra: revísala antes de salir.`,
+        };
+      } catch (error) {
+        const reason = routeFailure(error);
+        setCoachNote({ title: "Sin ruta", desc: reason });
+        return { ok: false, error: reason };
+      }
+    },
+    setRoutine: async (_intent, items) => {
+      setRoutine(items);
+      setCurrentStepIndex(0);
+      return { ok: true, note: `Rutina de ${items.length} pasos activa.` };
+    },
+    setMode: async (next) => {
+      selectMode(next);
+      setCoachNote({ title: "Coach cambió el modo", desc: capitalize(modeMeta[next].label) });
+      return { ok: true, note: `Modo ${modeMeta[next].label}.` };
+    },
+  };
+
+  const handleCoachSend = async () => {
+    const text = coachPrompt.trim();
+    if (!text || coachBusy) return;
+
+    setCoachPrompt("");
+    setCoachBusy(true);
+    const next = await respond(conversation, text, {
+      provider: coach,
+      context: { mode, targetPaceMinPerKm: targetPaces[mode] ?? undefined, paces: userPaces(account) },
+      tools: coachTools,
+      onUpdate: setConversation,
+    });
+    setConversation(next);
+    setCoachBusy(false);
+  };
+
+  const toggleRoutes = () => setSheetOpen((prev) => !prev);
+  const closeRoutes = () => setSheetOpen(false);
+  const toggleCoachPanel = () => {
+    setShowCoachPanel((prev) => {
+      const next = !prev;
+      if (next) {
+        closeRoutes();
+      }
+      return next;
+    });
+  };
+  const closeCoachPanel = () => setShowCoachPanel(false);
+
+  return (
+    <div className="fixed inset-0 flex bg-[#050915] text-slate-100 overflow-hidden">
+      <SideRail
+        onToggleRoutes={toggleRoutes}
+        onToggleCoach={toggleCoachPanel}
+        onClosePanels={() => {
+          closeRoutes();
+          closeCoachPanel();
+        }}
+        onOpenMessages={() => router.push("/messages")}
+        routesOpen={sheetOpen}
+        coachOpen={showCoachPanel}
+        infoOpen={infoOpen}
+        unreadMessages={unreadMessages}
+      />
+
+      <div className="flex h-full flex-1 flex-col md:pl-[64px]">
+        <TopControls
+          account={account}
+          mapType={mapType}
+          setMapType={setMapType}
+          route={activeRoute}
+          eta={activeEta}
+          searchNear={origin}
+          userLocation={userLocation}
+          locating={locating}
+          onLocate={handleLocate}
+          onFallbackCity={handleFallbackCity}
+          anchors={anchors}
+          onFocusPlace={setFocusPlace}
+          onSetAnchor={setAnchor}
+          onRemoveAnchor={removeAnchor}
+          onClearAnchors={() => setAnchors({ start: null, via: [], destination: null })}
+          onGenerateFromAnchors={handleAnchorRoute}
+          mode={mode}
+          coachNote={coachNote}
+          coachOpen={showCoachPanel}
+          infoOpen={infoOpen}
+          onToggleInfo={() => setInfoOpen((p) => !p)}
+          isMobile={isMobile}
+        />
+
+        <section
+          className="relative flex-1 overflow-hidden"
+          aria-label="Mapa de ruta"
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={(e) => {
+            if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+            setDragActive(false);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragActive(false);
+            const file = e.dataTransfer.files?.[0];
+            if (file) handleImportFile(file);
+          }}
+        >
+          <MapView
+            mapType={mapType}
+            route={activeRoute}
+            routine={routine}
+            currentStepIndex={currentStepIndex}
+            onStepChange={setCurrentStepIndex}
+            workout={{
+              snapshot: workoutSnapshot,
+              units,
+              onStart: handleStartWorkout,
+              onStop: handleStopWorkout,
+              onSkip: () => moveWorkout("skip"),
+              onBack: () => moveWorkout("back"),
+              onExport: handleExportWorkout,
+            }}
+            isMobile={isMobile}
+            showCoachPanel={showCoachPanel}
+            highlightKm={profileHoverKm}
+            focusPlace={focusPlace}
+            userLocation={userLocation}
+            navigation={navigation}
+            recordedTrack={recording?.segments ?? null}
+            crew={crew}
+          />
+
+          {crewRun && account ? (
+            <GroupRunPanel
+              runs={groupRuns}
+              run={crewRun}
+              positions={crewPositions[crewRun.id] ?? []}
+              meId={account.id}
+              sharing={sharingLocation}
+              onToggleSharing={() => setSharingLocation((prev) => !prev)}
+              onSelectRun={(id) => {
+                setSharingLocation(false);
+                setCrewRunId(id);
+              }}
+              belowRecorder={recording !== null}
+            />
+          ) : null}
+
+          <ActivityRecorder
+            recording={recording}
+            now={clock}
+            historyCount={activities.length}
+            onStart={() => setRecording(startRecording(mode))}
+            onPause={() => setRecording((current) => current && pauseRecording(current))}
+            onResume={() => setRecording((current) => current && resumeRecording(current))}
+            onFinish={handleFinishRecording}
+            onOpenHistory={() => setHistoryOpen(true)}
+          />
+
+          {historyOpen ? (
+            <ActivityHistory
+              activities={activities}
+              onExport={handleExportActivity}
+              onDelete={handleDeleteActivity}
+              onClose={() => setHistoryOpen(false)}
+            />
+          ) : null}
+
+          {navigation ? (
+            <NavigationPanel
+              snapshot={navigation}
+              paceMinPerKm={activeEta.paceMinPerKm}
+              lang={navLang}
+              voice={navVoice}
+              onLangChange={(lang) => {
+                setNavLang(lang);
+                navSession.current?.setLang(lang);
+              }}
+              onVoiceChange={(voice) => {
+                setNavVoice(voice);
+                navSession.current?.setVoice(voice);
+              }}
+              onStop={stopNavigation}
+            />
+          ) : null}
+
+          {dragActive ? (
+            <div className="pointer-events-none absolute inset-3 z-30 flex items-center justify-center rounded-3xl border-2 border-dashed border-orange-400/70 bg-[#050915]/70 text-sm font-semibold text-orange-50 backdrop-blur">
+              Suelta un archivo GPX, GeoJSON o KML para importarlo como ruta
+            </div>
+          ) : null}
+
+          {notice ? (
+            <NoticeToast notice={notice} onDismiss={() => setNotice(null)} />
+          ) : null}
+
+          <BottomSheet
+            mode={mode}
+            setMode={selectMode}
+            routes={routes}
+            activeRouteId={activeRouteId}
+            setActiveRouteId={(id) => {
+              setActiveRouteId(id);
+              setCurrentStepIndex(0);
+            }}
+            onImportFile={handleImportFile}
+            onExportRoute={handleExportRoute}
+            onShareRoute={handleShareRoute}
+            unsavedRouteId={unsavedRoute?.id ?? null}
+            onSaveRoute={handleSaveLinkedRoute}
+            onNavigate={handleStartNavigation}
+            favoriteIds={favoriteIds}
+            onToggleFavorite={toggleFavorite}
+            profileHoverKm={profileHoverKm}
+            onProfileHover={setProfileHoverKm}
+            targetPace={targetPaces[mode]}
+            onTargetPaceChange={(pace) => setTargetPaces((prev) => ({ ...prev, [mode]: pace }))}
+            activeEta={activeEta}
+            open={sheetOpen}
+            onToggle={() => {
+              const next = !sheetOpen;
+              if (next) closeCoachPanel();
+              toggleRoutes();
+            }}
+            isMobile={isMobile}
+          />
+
+          <BottomNav
+            routesOpen={sheetOpen}
+            coachOpen={showCoachPanel}
+            onToggleRoutes={toggleRoutes}
+            onToggleCoach={toggleCoachPanel}
+            onShowMap={() => {
+              closeRoutes();
+              closeCoachPanel();
+            }}
+            onOpenMessages={() => router.push("/messages")}
+            unreadMessages={unreadMessages}
+          />
+
+          <CoachPanel
+            open={showCoachPanel}
+            messages={conversation.messages}
+            prompt={coachPrompt}
+            onPromptChange={setCoachPrompt}
+            onSend={handleCoachSend}
+            busy={coachBusy}
+            providerName={coach.name}
+            onClose={closeCoachPanel}
+            isMobile={isMobile}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function StatPill({ label, value, mutedDesc }: { label: string; value: string; mutedDesc?: string }) {
+  return (
+    <div className="rounded-full border border-white/10 bg-white/5 px-3 py-2">
+      <span className="text-[11px] uppercase tracking-[0.18em] text-orange-100/80">{label}</span>
+      <span className="ml-2 text-sm font-semibold text-slate-50">{value}</span>
+      {mutedDesc ? <span className="ml-2 text-xs text-slate-300">{mutedDesc}</span> : null}
+    </div>
+  );
+}
+
+function NoticeToast({ notice, onDismiss }: { notice: Notice; onDismiss: () => void }) {
+  return (
+    <div
+      role={notice.tone === "error" ? "alert" : "status"}
+      className={`absolute left-1/2 top-16 z-30 flex w-[92%] max-w-md -translate-x-1/2 items-start gap-3 rounded-2xl border px-4 py-3 text-sm shadow-2xl shadow-black/40 backdrop-blur ${
+        notice.tone === "error"
+          ? "border-red-400/40 bg-red-950/85 text-red-50"
+          : "border-emerald-400/40 bg-emerald-950/85 text-emerald-50"
+      }`}
+    >
+      <p className="flex-1">{notice.text}</p>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="rounded-full bg-white/10 px-2 text-xs font-semibold transition hover:bg-white/20"
+        aria-label="Cerrar aviso"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+function MapView({
+  mapType,
+  route,
+  routine,
+  currentStepIndex,
+  onStepChange,
+  workout,
+  isMobile,
+  showCoachPanel,
+  highlightKm,
+  focusPlace,
+  userLocation,
+  navigation,
+  recordedTrack,
+  crew,
+}: {
+  mapType: MapType;
+  route: RouteOption;
+  routine: RoutineItem[];
+  currentStepIndex: number;
+  onStepChange: (idx: number) => void;
+  workout: WorkoutControls;
+  isMobile: boolean;
+  showCoachPanel: boolean;
+  /** Distance along the route hovered in the elevation chart. */
+  highlightKm: number | null;
+  /** Search result to center on and mark. */
+  focusPlace: Place | null;
+  userLocation: LocatedPosition | null;
+  navigation: NavigationSnapshot | null;
+  recordedTrack: TrackPoint[][] | null;
+  crew: Crew | null;
+}) {
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const mapInstance = useRef<any>(null);
+  const [mapReady, setMapReady] = useState(false);
+  const [showRoutineMobile, setShowRoutineMobile] = useState(false);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    let cancelled = false;
+
+    const boot = async () => {
+      if (mapInstance.current && typeof mapInstance.current.remove === "function") {
+        mapInstance.current.remove();
+        mapInstance.current = null;
+      }
+      setMapReady(false);
+
+      try {
+        const maplibregl = (await import("maplibre-gl")).default;
+        const satStyle = {
+          version: 8 as const,
+          sources: {
+            esri: {
+              type: "raster",
+              tiles: [
+                "https://services.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+              ],
+              tileSize: 256,
+              attribution: "© Esri & contributors",
+            },
+          },
+          layers: [
+            {
+              id: "esri-sat",
+              type: "raster",
+              source: "esri",
+              paint: {
+                "raster-opacity": 0.95,
+                "raster-saturation": 0,
+                "raster-brightness-max": 0.92,
+              },
+            },
+          ],
+        } satisfies StyleSpecification;
+        const style: string | StyleSpecification =
+          mapType === "sat"
+            ? satStyle
+            : "https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json";
+
+        const map = new maplibregl.Map({
+          container: mapRef.current!,
+          style,
+          center: MAP_CENTER,
+          zoom: 13,
+          pitch: mapType === "sat" ? 52 : 42,
+          bearing: -12,
+          attributionControl: false,
+          antialias: true,
+        });
+        map.addControl(new maplibregl.NavigationControl({ showCompass: true }), "bottom-right");
+        map.on("load", () => {
+          if (cancelled) return;
+          if (mapType === "map") {
+            applyPastelTheme(map);
+          }
+          syncRouteLayers(map, route);
+          setMapReady(true);
+        });
+        map.on("error", (evt: any) => {
+          console.error("Maplibre error", evt?.error || evt);
+        });
+        mapInstance.current = map;
+      } catch (error) {
+        console.error("Map init failed", error);
+      }
+    };
+
+    boot();
+
+    return () => {
+      cancelled = true;
+      setMapReady(false);
+      if (mapInstance.current && typeof mapInstance.current.remove === "function") {
+        mapInstance.current.remove();
+      }
+      mapInstance.current = null;
+    };
+  }, [mapType]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map) return;
+    if (mapReady && map.isStyleLoaded?.()) {
+      syncRouteLayers(map, route);
+      return;
+    }
+    map.once("load", () => {
+      syncRouteLayers(map, route);
+      setMapReady(true);
+    });
+  }, [route, mapReady]);
+
+  const svgPath = useMemo(
+    () => projectToViewBox(route.path, route.bounds, { width: 100, height: 130, padding: 12 }),
+    [route],
+  );
+
+  const pathDistances = useMemo(() => cumulativeDistancesKm(route.path), [route]);
+  const highlight = useMemo(
+    () => (highlightKm === null ? null : pointAlongPath(route.path, highlightKm, pathDistances)),
+    [route, highlightKm, pathDistances],
+  );
+  const svgHighlight = highlight
+    ? projectToViewBox([highlight], route.bounds, { width: 100, height: 130, padding: 12 })[0]
+    : null;
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncHoverMarker(map, highlight);
+  }, [highlight, mapReady]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncPlaceMarker(map, focusPlace);
+    if (focusPlace) map.flyTo({ center: [focusPlace.lng, focusPlace.lat], zoom: 15, duration: 900 });
+  }, [focusPlace, mapReady]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncUserLocation(map, userLocation);
+    if (userLocation) {
+      map.flyTo({ center: [userLocation.lng, userLocation.lat], zoom: userLocation.fallbackCity ? 13 : 15, duration: 900 });
+    }
+  }, [userLocation, mapReady]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncNavigation(map, navigation);
+    const position = navigation?.position;
+    if (position) map.easeTo({ center: [position.lng, position.lat], zoom: 16.5, duration: 400 });
+  }, [navigation, mapReady]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncRecordedTrack(map, recordedTrack);
+  }, [recordedTrack, mapReady]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !mapReady) return;
+    syncCrew(map, crew);
+  }, [crew, mapReady]);
+
+const mapBg =
+  mapType === "map"
+    ? "bg-[radial-gradient(circle_at_20%_20%,rgba(255,138,26,0.08),transparent_40%),radial-gradient(circle_at_80%_20%,rgba(16,185,129,0.08),transparent_38%),#0b1222]"
+    : "bg-[radial-gradient(circle_at_20%_20%,rgba(0,150,255,0.16),transparent_40%),radial-gradient(circle_at_80%_20%,rgba(0,120,220,0.14),transparent_38%),#0b1020]";
+
+  return (
+    <div className={`relative min-h-[calc(100vh-140px)] md:min-h-[calc(100vh-64px)] overflow-hidden ${mapBg}`}>
+      <div ref={mapRef} className="absolute inset-0 h-full w-full" />
+
+      {!mapReady ? (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center bg-[#0b1222]">
+          <svg viewBox="0 0 100 130" className="h-full w-full max-w-4xl opacity-70">
+            <defs>
+              <linearGradient id="routeLinePlan" x1="0%" x2="100%" y1="0%" y2="100%">
+                <stop offset="0%" stopColor="#2dd4bf" />
+                <stop offset="100%" stopColor="#22c55e" />
+              </linearGradient>
+            </defs>
+            <rect x="0" y="0" width="100" height="130" fill="none" />
+            <path
+              d={svgPath.map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`).join(" ")}
+              fill="none"
+              stroke="url(#routeLinePlan)"
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+            {routeStops(route).map(({ index, label }) => {
+              const p = svgPath[index];
+              return (
+                <g key={`${route.id}-${index}`}>
+                  <circle
+                    cx={p.x}
+                    cy={p.y}
+                    r="3.8"
+                    fill={index === route.path.length - 1 ? "#22c55e" : "#38bdf8"}
+                    stroke="#0b0f1c"
+                    strokeWidth="1.2"
+                  />
+                  <g transform={`translate(${p.x + 2} ${p.y - 5})`}>
+                    <rect
+                      x="0"
+                      y="-6"
+                      rx="3"
+                      ry="3"
+                      width="26"
+                      height="14"
+                      fill="rgba(6,16,36,0.92)"
+                      stroke="rgba(255,255,255,0.28)"
+                      strokeWidth="0.5"
+                    />
+                    <text
+                      x="13"
+                      y="3"
+                      fill="#e2e8f0"
+                      fontSize="3.6"
+                      fontFamily="sans-serif"
+                      textAnchor="middle"
+                    >
+                      {label}
+                    </text>
+                  </g>
+                </g>
+              );
+            })}
+            {svgHighlight ? (
+              <circle cx={svgHighlight.x} cy={svgHighlight.y} r="3" fill="#f97316" stroke="#fff7ed" strokeWidth="1" />
+            ) : null}
+          </svg>
+        </div>
+      ) : null}
+
+      <div
+        className={`absolute left-3 right-3 top-3 flex flex-wrap items-center gap-2 text-xs ${
+          showCoachPanel && !isMobile ? "md:left-[372px] md:right-3" : ""
+        }`}
+      >
+        <div className="flex items-center gap-2 rounded-full bg-[#0a0f1f]/85 px-3 py-2 text-slate-100 ring-1 ring-white/10 backdrop-blur">
+          <span className="h-2 w-2 rounded-full bg-emerald-400" />
+          Ruta óptima
+        </div>
+        <div className="flex items-center gap-2 rounded-full bg-[#0a0f1f]/85 px-3 py-2 text-slate-100 ring-1 ring-white/10 backdrop-blur">
+          <span className="h-2 w-2 rounded-full bg-sky-400" />
+          Inicio
+        </div>
+        <div className="flex items-center gap-2 rounded-full bg-[#0a0f1f]/85 px-3 py-2 text-slate-100 ring-1 ring-white/10 backdrop-blur">
+          <span className="h-2 w-2 rounded-full bg-orange-400" />
+          Waypoints
+        </div>
+        {isMobile ? (
+          <button
+            type="button"
+            onClick={() => setShowRoutineMobile(true)}
+            className={`ml-auto rounded-full border border-white/15 bg-gradient-to-r from-[#0a1224] via-[#0c1a30] to-[#0d223b] px-4 py-2 text-[11px] font-semibold uppercase tracking-[0.14em] text-orange-100 shadow-lg shadow-black/40 backdrop-blur transition hover:brightness-110 active:scale-95 ${
+              showRoutineMobile ? "opacity-40" : "opacity-100"
+            }`}
+          >
+            Rutina
+          </button>
+        ) : null}
+      </div>
+
+      {(!isMobile || showRoutineMobile) && (
+        <div
+          className={`absolute right-3 top-16 md:top-4 transition-all duration-250 ${
+            isMobile ? (showRoutineMobile ? "translate-y-0 opacity-100" : "pointer-events-none -translate-y-2 opacity-0") : ""
+          }`}
+        >
+          <div className="relative">
+            {isMobile ? (
+              <button
+                type="button"
+                onClick={() => setShowRoutineMobile(false)}
+                className="absolute right-2 top-2 z-10 flex h-7 w-7 items-center justify-center rounded-full bg-[#0b0f1a]/90 text-sm font-semibold text-orange-200 shadow-lg shadow-black/30 transition hover:brightness-110 active:scale-95"
+              >
+                ×
+              </button>
+            ) : null}
+            <RoutinePeek
+              routine={routine}
+              currentIndex={currentStepIndex}
+              onStepChange={onStepChange}
+              workout={workout}
+              alignBadgeLeft={isMobile}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function syncRouteLayers(map: any, route: RouteOption) {
+  if (!route?.path?.length) return;
+
+  const { line, points, bounds } = buildRouteGeo(route);
+
+  const lineSource = map.getSource("route-line");
+  if (lineSource?.setData) {
+    lineSource.setData(line);
+  } else {
+    map.addSource("route-line", { type: "geojson", data: line, lineMetrics: true });
+    map.addLayer({
+      id: "route-line",
+      type: "line",
+      source: "route-line",
+      paint: {
+        "line-width": ["interpolate", ["linear"], ["zoom"], 11, 4, 15, 7],
+        "line-opacity": 0.9,
+        "line-gradient": [
+          "interpolate",
+          ["linear"],
+          ["line-progress"],
+          0,
+          "#38bdf8",
+          1,
+          "#22c55e",
+        ],
+      },
+    });
+  }
+
+  const pointSource = map.getSource("route-points");
+  if (pointSource?.setData) {
+    pointSource.setData(points);
+  } else {
+    map.addSource("route-points", { type: "geojson", data: points });
+    map.addLayer({
+      id: "route-points",
+      type: "circle",
+      source: "route-points",
+      paint: {
+        "circle-radius": 6,
+        "circle-stroke-width": 2,
+        "circle-stroke-color": "#050915",
+        "circle-color": [
+          "case",
+          ["==", ["get", "kind"], "end"],
+          "#22c55e",
+          ["==", ["get", "kind"], "start"],
+          "#38bdf8",
+          "#fb923c",
+        ],
+      },
+    });
+    const style = map.getStyle?.();
+    if (style && "glyphs" in style && style.glyphs) {
+      map.addLayer({
+        id: "route-point-labels",
+        type: "symbol",
+        source: "route-points",
+        layout: {
+          "text-field": ["get", "label"],
+          "text-size": 11,
+          "text-offset": [0, 1.4],
+          "text-anchor": "top",
+        },
+        paint: {
+          "text-color": "#e2e8f0",
+          "text-halo-color": "#0b0f1c",
+          "text-halo-width": 1.2,
+        },
+      });
+    }
+  }
+
+  const isNarrow = map.getContainer ? map.getContainer().clientWidth < 768 : false;
+  if (map.fitBounds && bounds) {
+    map.fitBounds([bounds.sw, bounds.ne], {
+      padding: isNarrow ? 32 : 80,
+      duration: 750,
+      maxZoom: 15.5,
+    });
+  }
+}
+
+function syncHoverMarker(map: MapLibreMap, point: GeoPoint | null) {
+  const data: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: point
+      ? [{ type: "Feature", geometry: { type: "Point", coordinates: [point.lng, point.lat] }, properties: {} }]
+      : [],
+  };
+  const source = map.getSource("route-hover") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("route-hover", { type: "geojson", data });
+  map.addLayer({
+    id: "route-hover",
+    type: "circle",
+    source: "route-hover",
+    paint: {
+      "circle-radius": 7,
+      "circle-color": "#f97316",
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#fff7ed",
+    },
+  });
+}
+
+function syncNavigation(map: MapLibreMap, navigation: NavigationSnapshot | null) {
+  const features: GeoJSON.Feature[] = [];
+  const position = navigation?.position;
+  if (position) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [position.lng, position.lat] },
+      properties: { kind: navigation.offRoute ? "off" : "on" },
+    });
+    if (navigation.offRoute) {
+      const { rejoin } = navigation.offRoute;
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [position.lng, position.lat],
+            [rejoin.lng, rejoin.lat],
+          ],
+        },
+        properties: { kind: "rejoin" },
+      });
+    }
+  }
+  const data: GeoJSON.FeatureCollection = { type: "FeatureCollection", features };
+  const source = map.getSource("navigation") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("navigation", { type: "geojson", data });
+  map.addLayer({
+    id: "navigation-rejoin",
+    type: "line",
+    source: "navigation",
+    filter: ["==", ["get", "kind"], "rejoin"],
+    paint: { "line-color": "#f87171", "line-width": 3, "line-dasharray": [2, 1.5] },
+  });
+  map.addLayer({
+    id: "navigation-position",
+    type: "circle",
+    source: "navigation",
+    filter: ["!=", ["get", "kind"], "rejoin"],
+    paint: {
+      "circle-radius": 9,
+      "circle-color": ["case", ["==", ["get", "kind"], "off"], "#ef4444", "#0ea5e9"],
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#f0f9ff",
+    },
+  });
+}
+
+function syncRecordedTrack(map: MapLibreMap, segments: TrackPoint[][] | null) {
+  const data: GeoJSON.Feature = {
+    type: "Feature",
+    geometry: {
+      type: "MultiLineString",
+      coordinates: (segments ?? []).map((segment) => segment.map((point) => [point.lng, point.lat])),
+    },
+    properties: {},
+  };
+  const source = map.getSource("recorded-track") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("recorded-track", { type: "geojson", data });
+  map.addLayer({
+    id: "recorded-track",
+    type: "line",
+    source: "recorded-track",
+    layout: { "line-cap": "round", "line-join": "round" },
+    paint: { "line-color": "#34d399", "line-width": 4, "line-opacity": 0.9 },
+  });
+}
+
+function syncUserLocation(map: MapLibreMap, location: LocatedPosition | null) {
+  const features: GeoJSON.Feature[] = [];
+  if (location) {
+    if (location.accuracyM) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [circleRing(location, location.accuracyM / 1000)] },
+        properties: { kind: "accuracy" },
+      });
+    }
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [location.lng, location.lat] },
+      properties: { kind: location.fallbackCity ? "fallback" : "fix" },
+    });
+  }
+  const data: GeoJSON.FeatureCollection = { type: "FeatureCollection", features };
+  const source = map.getSource("user-location") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("user-location", { type: "geojson", data });
+  map.addLayer({
+    id: "user-location-accuracy",
+    type: "fill",
+    source: "user-location",
+    filter: ["==", ["get", "kind"], "accuracy"],
+    paint: { "fill-color": "#38bdf8", "fill-opacity": 0.15, "fill-outline-color": "#38bdf8" },
+  });
+  map.addLayer({
+    id: "user-location",
+    type: "circle",
+    source: "user-location",
+    filter: ["!=", ["get", "kind"], "accuracy"],
+    paint: {
+      "circle-radius": 7,
+      "circle-color": ["case", ["==", ["get", "kind"], "fallback"], "#94a3b8", "#0ea5e9"],
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#f0f9ff",
+    },
+  });
+}
+
+function syncCrew(map: MapLibreMap, crew: Crew | null) {
+  const features: GeoJSON.Feature[] = [];
+  if (crew) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [crew.meetingPoint.lng, crew.meetingPoint.lat] },
+      properties: { kind: "meeting", label: crew.meetingPoint.label },
+    });
+    for (const position of crew.positions) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [position.lng, position.lat] },
+        properties: { kind: "runner", label: position.displayName },
+      });
+    }
+  }
+  const data: GeoJSON.FeatureCollection = { type: "FeatureCollection", features };
+  const source = map.getSource("crew") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("crew", { type: "geojson", data });
+  map.addLayer({
+    id: "crew",
+    type: "circle",
+    source: "crew",
+    paint: {
+      "circle-radius": ["case", ["==", ["get", "kind"], "meeting"], 9, 6],
+      "circle-color": ["case", ["==", ["get", "kind"], "meeting"], "#f472b6", "#facc15"],
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#0b0f1a",
+    },
+  });
+}
+
+function syncPlaceMarker(map: MapLibreMap, place: Place | null) {
+  const data: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: place
+      ? [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [place.lng, place.lat] },
+            properties: { label: place.name },
+          },
+        ]
+      : [],
+  };
+  const source = map.getSource("search-place") as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  map.addSource("search-place", { type: "geojson", data });
+  map.addLayer({
+    id: "search-place",
+    type: "circle",
+    source: "search-place",
+    paint: {
+      "circle-radius": 8,
+      "circle-color": "#a855f7",
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#f5f3ff",
+    },
+  });
+}
+
+function applyPastelTheme(map: any) {
+  const tweaks: Array<{ layers: string[]; paint: Record<string, any> }> = [
+    {
+      layers: ["landuse", "land", "background"],
+      paint: {
+        "background-color": "#0b0f1d",
+      },
+    },
+    {
+      layers: ["water", "waterway", "river", "canal"],
+      paint: {
+        "fill-color": "#1b2c48",
+        "line-color": "#2d4f79",
+      },
+    },
+    {
+      layers: ["road", "road-street", "road-primary", "road-secondary", "bridge-primary", "bridge-secondary"],
+      paint: {
+        "line-color": "#4fb4ff",
+        "line-width": 1.2,
+        "line-opacity": 0.9,
+      },
+    },
+    {
+      layers: ["tunnel-secondary", "tunnel-primary"],
+      paint: {
+        "line-color": "#6ed0ff",
+        "line-dasharray": [2, 2],
+      },
+    },
+    {
+      layers: ["road-major", "road-trunk"],
+      paint: {
+        "line-color": "#84ffe0",
+        "line-width": 2.2,
+      },
+    },
+    {
+      layers: ["park", "landuse-park", "landuse-park-outline", "landuse-park"],
+      paint: {
+        "fill-color": "#164d3a",
+        "fill-opacity": 0.8,
+      },
+    },
+    {
+      layers: ["building"],
+      paint: {
+        "fill-color": "#1a2336",
+        "fill-outline-color": "#22314a",
+        "fill-opacity": 0.85,
+      },
+    },
+    {
+      layers: ["aeroway", "airport-label"],
+      paint: {
+        "line-color": "#7dd3fc",
+      },
+    },
+  ];
+
+  const style = map.getStyle?.();
+  if (!style?.layers) return;
+
+  tweaks.forEach(({ layers, paint }) => {
+    layers.forEach((id) => {
+      if (style.layers.find((l: any) => l.id === id)) {
+        Object.entries(paint).forEach(([key, val]) => {
+          try {
+            map.setPaintProperty(id, key, val);
+          } catch {
+            // ignore if layer/paint not supported
+          }
+        });
+      }
+    });
+  });
+
+  const textTweaks: Array<{ layers: string[]; paint: Record<string, any>; layout?: Record<string, any> }> = [
+    {
+      layers: ["place-city", "place-town", "place-village", "road-label", "water-label", "poi-label"],
+      paint: {
+        "text-color": "#dce7ff",
+        "text-halo-color": "#0b0f1d",
+        "text-halo-width": 1.2,
+      },
+      layout: {
+        "text-size": 12,
+      },
+    },
+  ];
+
+  textTweaks.forEach(({ layers, paint, layout }) => {
+    layers.forEach((id) => {
+      if (style.layers.find((l: any) => l.id === id)) {
+        Object.entries(paint).forEach(([key, val]) => {
+          try {
+            map.setPaintProperty(id, key, val);
+          } catch {
+            //
+          }
+        });
+        if (layout) {
+          Object.entries(layout).forEach(([key, val]) => {
+            try {
+              map.setLayoutProperty(id, key, val);
+            } catch {
+              //
+            }
+          });
+        }
+      }
+    });
+  });
+}
+
+function TopControls({
+  account,
+  mapType,
+  setMapType,
+  route,
+  eta,
+  searchNear,
+  userLocation,
+  locating,
+  onLocate,
+  onFallbackCity,
+  anchors,
+  onFocusPlace,
+  onSetAnchor,
+  onRemoveAnchor,
+  onClearAnchors,
+  onGenerateFromAnchors,
+  mode,
+  coachNote,
+  coachOpen,
+  infoOpen,
+  onToggleInfo,
+  isMobile,
+}: {
+  account: UserProfile | null;
+  mapType: MapType;
+  setMapType: (m: MapType) => void;
+  route: RouteOption;
+  eta: Eta;
+  searchNear: GeoPoint;
+  userLocation: LocatedPosition | null;
+  locating: boolean;
+  onLocate: () => void;
+  onFallbackCity: (city: CityId) => void;
+  anchors: RouteAnchors;
+  onFocusPlace: (place: Place) => void;
+  onSetAnchor: (place: Place, role: AnchorRole) => void;
+  onRemoveAnchor: (role: AnchorRole, id: string) => void;
+  onClearAnchors: () => void;
+  onGenerateFromAnchors: () => void;
+  mode: Mode;
+  coachNote: CoachNote;
+  coachOpen: boolean;
+  infoOpen: boolean;
+  onToggleInfo: () => void;
+  isMobile: boolean;
+}) {
+  const showInfo = infoOpen || !isMobile;
+  return (
+    <div
+      className={`sticky top-0 z-40 flex flex-col gap-3 bg-[#050915]/95 px-4 py-3 backdrop-blur ${
+        isMobile ? "pb-3 pt-3" : ""
+      } ${coachOpen && !isMobile ? "md:ml-[360px] md:w-[calc(100%-360px)]" : ""}`}
+    >
+      <div className="flex flex-col gap-2">
+        <div className="group flex w-full items-center gap-2">
+          <Link
+            href="/"
+            aria-label="Home"
+            className="flex items-center justify-center rounded-full border border-white/10 bg-white/5 p-2 text-xs font-semibold text-slate-100 transition hover:border-white/25 hover:bg-white/10"
+          >
+            <Image src={homeIcon} alt="Home" width={16} height={16} className="opacity-90" style={iconFilterStyle} />
+          </Link>
+          {isMobile ? (
+            <button
+              type="button"
+              aria-label="Info"
+              onClick={onToggleInfo}
+              className={`flex items-center justify-center rounded-full border p-2 text-[11px] font-semibold transition ${
+                infoOpen
+                  ? "border-orange-400/60 bg-orange-500/15 text-orange-50 ring-1 ring-orange-400/40 shadow-[0_0_0_1px_rgba(255,138,26,0.25)]"
+                  : "border-white/10 bg-[#0b1222]/90 text-slate-100 ring-1 ring-white/10 hover:bg-[#111a2e]"
+              }`}
+            >
+              <Image src={infoIcon} alt="Info" width={16} height={16} className="opacity-90" style={iconFilterStyle} />
+            </button>
+          ) : null}
+          <PlaceSearch
+            near={searchNear}
+            onFocusPlace={onFocusPlace}
+            onSetAnchor={onSetAnchor}
+            trailing={
+              <LocationControl
+                location={userLocation}
+                locating={locating}
+                onLocate={onLocate}
+                onFallbackCity={onFallbackCity}
+              />
+            }
+          />
+          <Link
+            href={account ? "/profile" : "/login"}
+            aria-label={account ? `Perfil de ${account.displayName}` : "Entrar"}
+            title={account ? account.displayName : "Entrar"}
+            className="relative ml-auto flex h-[44px] w-[44px] shrink-0 items-center justify-center overflow-visible rounded-full bg-transparent text-xs font-semibold text-slate-100 transition hover:opacity-90"
+          >
+            <Image
+              src={accountIcon}
+              alt="Perfil"
+              width={36}
+              height={36}
+              className="opacity-90"
+              style={accountFilterStyle}
+            />
+            {account ? (
+              <span
+                className="pointer-events-none absolute bottom-0 right-0 z-20 h-2.5 w-2.5 rounded-full bg-emerald-400 shadow-[0_0_8px_rgba(16,185,129,0.85)]"
+                aria-label="Activo"
+              />
+            ) : null}
+          </Link>
+        </div>
+
+        <RouteAnchorsBar
+          anchors={anchors}
+          onRemove={onRemoveAnchor}
+          onClear={onClearAnchors}
+          onGenerate={onGenerateFromAnchors}
+        />
+
+        <div
+          className={`group flex w-full flex-wrap items-center gap-2 text-xs transition-all duration-300 ${
+            showInfo ? "max-h-[200px] opacity-100" : "max-h-0 opacity-0 -translate-y-2 pointer-events-none"
+          }`}
+        >
+          {showInfo ? (
+            <>
+              <StatPill label="ETA" value={formatEta(eta.minutes)} mutedDesc={`${formatPace(eta.paceMinPerKm)}/km`} />
+              <StatPill label="Distancia" value={formatDistance(route.distanceKm)} />
+              <StatPill label="Seguridad" value={route.safety} />
+              <StatPill label="Superficie" value={route.surface} />
+              <StatPill label="Coach" value={coachNote.title} mutedDesc={coachNote.desc} />
+            </>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PlaceSearch({
+  near,
+  onFocusPlace,
+  onSetAnchor,
+  trailing,
+}: {
+  near: GeoPoint;
+  onFocusPlace: (place: Place) => void;
+  onSetAnchor: (place: Place, role: AnchorRole) => void;
+  trailing?: ReactNode;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Place[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [focused, setFocused] = useState(false);
+  const [picked, setPicked] = useState<Place | null>(null);
+  const listId = useId();
+
+  useEffect(() => {
+    const text = query.trim();
+    if (text.length < 2 || picked) {
+      setResults([]);
+      setSearchError(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      geocoder
+        .search(text, { near, limit: 6, signal: controller.signal })
+        .then((found) => {
+          setResults(found);
+          setActiveIndex(found.length ? 0 : -1);
+          setSearchError(found.length ? null : "Sin resultados para esa búsqueda.");
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          if (!(error instanceof GeocodingError)) console.error("Place search failed", error);
+          setResults([]);
+          setSearchError(error instanceof GeocodingError ? error.message : "No se pudo buscar el lugar.");
+        });
+    }, 200);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, near, picked]);
+
+  const pick = (place: Place) => {
+    setPicked(place);
+    setQuery(place.name);
+    onFocusPlace(place);
+  };
+
+  const showList = focused && !picked && results.length > 0;
+
+  return (
+    <div className="relative flex min-w-0 flex-1 items-center gap-2 rounded-full border border-white/10 bg-[#0a0f1f]/85 px-3 py-2 shadow-inner shadow-black/40">
+      <Image
+        src={searchIcon}
+        alt="Buscar"
+        width={16}
+        height={16}
+        className="mr-2 opacity-90 shrink-0"
+        style={iconFilterStyle}
+      />
+      <input
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setPicked(null);
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" && results.length) {
+            e.preventDefault();
+            setActiveIndex((idx) => (idx + 1) % results.length);
+          } else if (e.key === "ArrowUp" && results.length) {
+            e.preventDefault();
+            setActiveIndex((idx) => (idx <= 0 ? results.length - 1 : idx - 1));
+          } else if (e.key === "Enter" && showList && results[activeIndex]) {
+            e.preventDefault();
+            pick(results[activeIndex]);
+          } else if (e.key === "Escape") {
+            setResults([]);
+            setPicked(null);
+          }
+        }}
+        className="w-full bg-transparent text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none"
+        placeholder="Buscar destino o punto de encuentro"
+      />
+      {trailing}
+
+      {showList ? (
+        <div
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-2xl border border-white/10 bg-[#0a0f1f]/95 py-1 shadow-2xl shadow-black/50 backdrop-blur"
+        >
+          {results.map((place, idx) => (
+            <div
+              key={place.id}
+              id={`${listId}-${idx}`}
+              role="option"
+              aria-selected={idx === activeIndex}
+              tabIndex={-1}
+              onMouseDown={(e) => {
+                // Keep focus in the input so the list does not close first.
+                e.preventDefault();
+                pick(place);
+              }}
+              className={`cursor-pointer px-4 py-2 text-sm ${
+                idx === activeIndex ? "bg-orange-400/15 text-orange-50" : "text-slate-100"
+              }`}
+            >
+              <p className="font-semibold">{place.name}</p>
+              <p className="text-xs text-slate-400">
+                {[placeKindLabel[place.kind], place.detail, place.city ? cities[place.city].name : null]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {focused && searchError && !picked ? (
+        <p className="absolute left-0 right-0 top-full z-50 mt-2 rounded-2xl border border-white/10 bg-[#0a0f1f]/95 px-4 py-2 text-xs text-slate-300">
+          {searchError}
+        </p>
+      ) : null}
+
+      {picked ? (
+        <div className="absolute left-0 right-0 top-full z-50 mt-2 flex flex-wrap items-center gap-2 rounded-2xl border border-white/10 bg-[#0a0f1f]/95 px-4 py-2 text-xs text-slate-200 shadow-2xl shadow-black/50 backdrop-blur">
+          <span className="mr-auto">Usar como</span>
+          {(["start", "via", "destination"] as const).map((role) => (
+            <button
+              key={role}
+              type="button"
+              onClick={() => {
+                onSetAnchor(picked, role);
+                setPicked(null);
+                setQuery("");
+              }}
+              className="rounded-full bg-white/5 px-3 py-1 font-semibold ring-1 ring-white/10 transition hover:bg-orange-400/15 hover:text-orange-50"
+            >
+              {anchorRoleLabel[role]}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setPicked(null)}
+            className="rounded-full bg-white/10 px-2 font-semibold transition hover:bg-white/20"
+            aria-label="Cerrar"
+          >
+            ×
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function LocationControl({
+  location,
+  locating,
+  onLocate,
+  onFallbackCity,
+}: {
+  location: LocatedPosition | null;
+  locating: boolean;
+  onLocate: () => void;
+  onFallbackCity: (city: CityId) => void;
+}) {
+  return (
+    <div className="ml-2 flex shrink-0 items-center gap-1">
+      {location?.fallbackCity ? (
+        <select
+          value={location.fallbackCity}
+          onChange={(e) => onFallbackCity(e.target.value as CityId)}
+          aria-label="Ciudad de respaldo"
+          className="rounded-full bg-white/10 px-2 py-1 text-[11px] text-slate-200 outline-none"
+        >
+          {Object.entries(cities).map(([id, city]) => (
+            <option key={id} value={id} className="bg-[#0a0f1f]">
+              {city.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      <button
+        type="button"
+        onClick={onLocate}
+        disabled={locating}
+        aria-label="Usar mi ubicación"
+        className={`flex items-center gap-1 rounded-full px-3 py-1 text-[11px] transition ${
+          location && !location.fallbackCity
+            ? "bg-sky-500/20 text-sky-100 ring-1 ring-sky-400/40"
+            : "bg-white/10 text-slate-200 hover:bg-white/20"
+        } ${locating ? "animate-pulse" : ""}`}
+      >
+        {location && !location.fallbackCity ? <span className="h-1.5 w-1.5 rounded-full bg-sky-300" /> : null}
+        GPS
+      </button>
+    </div>
+  );
+}
+
+function RouteAnchorsBar({
+  anchors,
+  onRemove,
+  onClear,
+  onGenerate,
+}: {
+  anchors: RouteAnchors;
+  onRemove: (role: AnchorRole, id: string) => void;
+  onClear: () => void;
+  onGenerate: () => void;
+}) {
+  const chips: { role: AnchorRole; place: Place }[] = [
+    ...(anchors.start ? [{ role: "start" as const, place: anchors.start }] : []),
+    ...anchors.via.map((place) => ({ role: "via" as const, place })),
+    ...(anchors.destination ? [{ role: "destination" as const, place: anchors.destination }] : []),
+  ];
+  if (!chips.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {chips.map(({ role, place }) => (
+        <span
+          key={`${role}-${place.id}`}
+          className="flex items-center gap-2 rounded-full border border-white/10 bg-white/5 py-1 pl-3 pr-1 text-slate-100"
+        >
+          <span className="text-[11px] uppercase tracking-[0.14em] text-orange-100/80">{anchorRoleLabel[role]}</span>
+          {place.name}
+          <button
+            type="button"
+            onClick={() => onRemove(role, place.id)}
+            className="rounded-full bg-white/10 px-2 font-semibold transition hover:bg-white/20"
+            aria-label={`Quitar ${place.name}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <button
+        type="button"
+        onClick={onGenerate}
+        className="rounded-full bg-orange-500 px-3 py-1.5 font-semibold text-[#0b0f1a] transition hover:brightness-110"
+      >
+        Generar ruta
+      </button>
+      <button type="button" onClick={onClear} className="px-2 py-1 text-slate-400 transition hover:text-slate-200">
+        Limpiar
+      </button>
+    </div>
+  );
+}
+
+function BottomSheet({
+  mode,
+  setMode,
+  routes,
+  activeRouteId,
+  setActiveRouteId,
+  onImportFile,
+  onExportRoute,
+  onShareRoute,
+  unsavedRouteId,
+  onSaveRoute,
+  onNavigate,
+  favoriteIds,
+  onToggleFavorite,
+  profileHoverKm,
+  onProfileHover,
+  targetPace,
+  onTargetPaceChange,
+  activeEta,
+  open,
+  onToggle,
+  isMobile,
+}: {
+  mode: Mode;
+  setMode: (m: Mode) => void;
+  routes: RouteOption[];
+  activeRouteId: string;
+  setActiveRouteId: (id: string) => void;
+  onImportFile: (file: File) => void;
+  onExportRoute: (route: RouteOption, format: RouteExportFormat) => void;
+  /** Copies a link that opens the route as it is shown. */
+  onShareRoute: (route: RouteOption) => void;
+  /** A route opened from a link, shown but not yet in the user's routes. */
+  unsavedRouteId: string | null;
+  onSaveRoute: (route: RouteOption) => void;
+  onNavigate: (route: RouteOption, simulate: boolean) => void;
+  favoriteIds: Set<string>;
+  onToggleFavorite: (routeId: string) => void;
+  profileHoverKm: number | null;
+  onProfileHover: (km: number | null) => void;
+  /** The user's flat pace for this mode (min/km); null uses the default. */
+  targetPace: number | null;
+  onTargetPaceChange: (pace: number | null) => void;
+  activeEta: Eta;
+  open: boolean;
+  onToggle: () => void;
+  isMobile: boolean;
+}) {
+  const isHiddenMobile = isMobile && !open;
+  const wrapperClass = isHiddenMobile
+    ? "hidden"
+    : !isMobile
+      ? "pointer-events-none fixed inset-x-0 bottom-8 z-20 flex justify-center"
+      : "fixed inset-x-0 bottom-0 z-50";
+
+  const containerClass =
+    isMobile && open
+      ? "pointer-events-auto w-full rounded-t-3xl border-t border-white/10 bg-[#050915]/95 p-4 pb-6 shadow-2xl shadow-black/50"
+      : "pointer-events-auto w-[92%] max-w-4xl rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-4 shadow-2xl shadow-orange-900/30 backdrop-blur transition-all duration-300 ease-in-out";
+
+  const collapsedDesktop = !isMobile && !open;
+  const activeRoute = routes.find((r) => r.id === activeRouteId) ?? routes[0];
+  const etaMinutes = (route: RouteOption) =>
+    estimateEta(route.path, route.mode, { targetPaceMinPerKm: targetPace ?? undefined }).minutes;
+
+  return (
+    <div
+      className={`${wrapperClass} transition-transform duration-300 ease-in-out ${
+        open ? "translate-y-0 opacity-100" : "translate-y-[70%] opacity-80"
+      }`}
+    >
+      <div
+        className={`${containerClass} ${collapsedDesktop ? "cursor-pointer" : ""}`}
+        onClick={() => {
+          if (collapsedDesktop) onToggle();
+        }}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-1.5 w-12 rounded-full bg-white/20" />
+            <div>
+              <p className="text-xs uppercase tracking-[0.2em] text-orange-100/80">Rutas</p>
+              <p className="text-sm text-slate-200">Elige modo y variante</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer rounded-full bg-[#111a2e] px-3 py-2 text-xs font-semibold text-slate-100 ring-1 ring-white/10 transition hover:bg-[#16223a]">
+              Importar ruta
+              <input
+                type="file"
+                accept={importAccept}
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={onToggle}
+              className="rounded-full bg-[#111a2e] px-3 py-2 text-xs font-semibold text-slate-100 ring-1 ring-white/10 transition hover:bg-[#16223a]"
+              aria-expanded={open}
+              aria-label="Mostrar/ocultar rutas"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-wrap gap-2">
+          {Object.entries(modeMeta).map(([key, value]) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setMode(key as Mode)}
+              className={`rounded-full border px-3 py-2 text-xs font-semibold transition ${
+                mode === key
+                  ? "border-orange-400/70 bg-orange-400/15 text-orange-50"
+                  : "border-white/10 bg-white/5 text-slate-200 hover:border-white/25"
+              }`}
+            >
+              {value.label}
+            </button>
+          ))}
+          <PaceInput key={mode} mode={mode} value={targetPace} onChange={onTargetPaceChange} />
+        </div>
+
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          {routes.map((route) => (
+            <div
+              key={route.id}
+              className={`flex flex-col gap-2 rounded-2xl border p-4 transition hover:border-white/30 ${
+                route.id === activeRouteId
+                  ? "border-orange-400/70 bg-orange-400/10 text-orange-50"
+                  : "border-white/10 bg-white/5 text-slate-100"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => setActiveRouteId(route.id)}
+                className="flex flex-col items-start gap-2 text-left"
+              >
+                <div className="group flex w-full items-center justify-between">
+                  <p className="text-sm font-semibold">{route.title}</p>
+                  <span className="text-xs rounded-full bg-black/30 px-2 py-1">{route.surface}</span>
+                </div>
+                <p className="text-lg font-semibold">{formatDistance(route.distanceKm)}</p>
+                <p className="text-xs text-slate-200">{route.safety}</p>
+                <p className="text-xs text-slate-300">
+                  ETA {formatEta(etaMinutes(route))} · Desnivel {formatClimb(route.climb)}
+                </p>
+              </button>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onToggleFavorite(route.id)}
+                  aria-pressed={favoriteIds.has(route.id)}
+                  aria-label="Favorita"
+                  className={`rounded-full px-2 py-1 text-sm leading-none transition hover:bg-white/10 ${
+                    favoriteIds.has(route.id) ? "text-amber-300" : "text-slate-400"
+                  }`}
+                >
+                  {favoriteIds.has(route.id) ? "★" : "☆"}
+                </button>
+                <span className="text-[11px] text-slate-400">Exportar</span>
+                {Object.entries(routeExporters).map(([format, exporter]) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => onExportRoute(route, format as RouteExportFormat)}
+                    className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 ring-1 ring-white/10 transition hover:bg-white/10"
+                  >
+                    {exporter.label}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => onShareRoute(route)}
+                  className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 ring-1 ring-white/10 transition hover:bg-white/10"
+                >
+                  Compartir
+                </button>
+                {route.id === unsavedRouteId ? (
+                  <button
+                    type="button"
+                    onClick={() => onSaveRoute(route)}
+                    className="rounded-full bg-orange-500/15 px-3 py-1 text-[11px] font-semibold text-orange-100 ring-1 ring-orange-400/40 transition hover:bg-orange-500/25"
+                  >
+                    Guardar
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => onNavigate(route, false)}
+                  className="ml-auto rounded-full bg-orange-500 px-3 py-1 text-[11px] font-semibold text-[#0b0f1a] transition hover:brightness-110"
+                >
+                  Navegar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onNavigate(route, true)}
+                  className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 ring-1 ring-white/10 transition hover:bg-white/10"
+                >
+                  Simular
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {activeRoute ? (
+          <>
+            <ElevationChart route={activeRoute} hoverKm={profileHoverKm} onHover={onProfileHover} />
+            <SplitTable eta={activeEta} />
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function NavigationPanel({
+  snapshot,
+  paceMinPerKm,
+  lang,
+  voice,
+  onLangChange,
+  onVoiceChange,
+  onStop,
+}: {
+  snapshot: NavigationSnapshot;
+  paceMinPerKm: number;
+  lang: NavigationLang;
+  voice: boolean;
+  onLangChange: (lang: NavigationLang) => void;
+  onVoiceChange: (voice: boolean) => void;
+  onStop: () => void;
+}) {
+  const { next, offRoute, arrived, position } = snapshot;
+  const waiting = !position && !arrived;
+
+  return (
+    <div className="absolute left-1/2 top-3 z-30 w-[92%] max-w-md -translate-x-1/2 overflow-hidden rounded-3xl border border-white/10 bg-[#0a0f1f]/95 shadow-2xl shadow-black/50 backdrop-blur">
+      <div className="flex items-center gap-4 p-4" aria-live="polite">
+        <span className="flex h-14 w-14 shrink-0 items-center justify-center rounded-2xl bg-orange-500 text-3xl font-bold text-[#0b0f1a]">
+          {arrived ? "⚑" : maneuverGlyph[next?.kind ?? "depart"]}
+        </span>
+        <div className="min-w-0 flex-1">
+          <p className="text-base font-semibold text-slate-50">
+            {waiting ? "Esperando señal GPS…" : snapshot.instruction}
+          </p>
+          <p className="text-xs text-slate-300">
+            {arrived
+              ? "Ruta completada"
+              : `Faltan ${formatDistance(snapshot.remainingKm)} · ${formatEta(
+                  Math.round(snapshot.remainingKm * paceMinPerKm),
+                )}`}
+          </p>
+        </div>
+      </div>
+      {offRoute ? (
+        <p role="alert" className="border-t border-red-400/30 bg-red-950/80 px-4 py-2 text-sm text-red-50">
+          {offRoute.text}
+        </p>
+      ) : null}
+      <div className="flex items-center gap-2 border-t border-white/10 px-4 py-2 text-xs">
+        <button
+          type="button"
+          onClick={() => onVoiceChange(!voice)}
+          aria-pressed={voice}
+          className={`rounded-full px-3 py-1 font-semibold ring-1 ring-white/10 transition ${
+            voice ? "bg-orange-400/15 text-orange-50" : "bg-white/5 text-slate-300"
+          }`}
+        >
+          {voice ? "Voz activada" : "Voz apagada"}
+        </button>
+        {(["es", "en"] as const).map((code) => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => onLangChange(code)}
+            aria-pressed={lang === code}
+            className={`rounded-full px-2 py-1 font-semibold uppercase transition ${
+              lang === code ? "bg-white/15 text-slate-50" : "text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {code}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onStop}
+          className="ml-auto rounded-full bg-white/10 px-3 py-1 font-semibold text-slate-100 transition hover:bg-white/20"
+        >
+          {arrived ? "Cerrar" : "Salir"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ActivityRecorder({
+  recording,
+  now,
+  historyCount,
+  onStart,
+  onPause,
+  onResume,
+  onFinish,
+  onOpenHistory,
+}: {
+  recording: Recording | null;
+  now: number;
+  historyCount: number;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onFinish: () => void;
+  onOpenHistory: () => void;
+}) {
+  const buttonClass =
+    "rounded-full px-3 py-1 text-[11px] font-semibold ring-1 ring-white/10 transition hover:bg-white/10";
+
+  if (!recording) {
+    return (
+      <div className="absolute left-3 top-14 z-20 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onStart}
+          className="flex items-center gap-2 rounded-full bg-[#0a0f1f]/90 px-3 py-2 text-xs font-semibold text-slate-50 ring-1 ring-white/10 backdrop-blur transition hover:bg-[#111a2e]"
+        >
+          <span className="h-2.5 w-2.5 rounded-full bg-red-500" aria-hidden />
+          Grabar actividad
+        </button>
+        {historyCount ? (
+          <button
+            type="button"
+            onClick={onOpenHistory}
+            className="rounded-full bg-[#0a0f1f]/90 px-3 py-2 text-xs font-semibold text-slate-200 ring-1 ring-white/10 backdrop-blur transition hover:bg-[#111a2e]"
+          >
+            {`Historial (${historyCount})`}
+          </button>
+        ) : null}
+      </div>
+    );
+  }
+
+  const stats = recordingStats(recording, now);
+  const live = recording.status === "recording";
+  return (
+    <div className="absolute left-3 top-14 z-20 w-64 rounded-2xl border border-white/10 bg-[#0a0f1f]/95 p-3 text-xs text-slate-100 shadow-2xl shadow-black/40 backdrop-blur">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 font-semibold">
+          <span className={`h-2.5 w-2.5 rounded-full ${live ? "animate-pulse bg-red-500" : "bg-amber-400"}`} aria-hidden />
+          {recordingStatusLabel[recording.status]}
+        </span>
+        <span className="text-slate-400">{formatDuration(stats.elapsedMs)}</span>
+      </div>
+      <dl className="mt-3 grid grid-cols-2 gap-2">
+        {[
+          ["Distancia", formatDistance(stats.distanceKm)],
+          ["En movimiento", formatDuration(stats.movingMs)],
+          ["Ritmo actual", stats.currentPaceMinPerKm ? `${formatPace(stats.currentPaceMinPerKm)}/km` : "—"],
+          ["Ritmo medio", stats.averagePaceMinPerKm ? `${formatPace(stats.averagePaceMinPerKm)}/km` : "—"],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-xl bg-white/5 px-2 py-1.5">
+            <dt className="text-[10px] uppercase tracking-wide text-slate-400">{label}</dt>
+            <dd className="text-sm font-semibold text-slate-50">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="mt-3 flex items-center gap-2">
+        {recording.status === "paused" ? (
+          <button type="button" onClick={onResume} className={`${buttonClass} bg-emerald-500/15 text-emerald-50`}>
+            Reanudar
+          </button>
+        ) : (
+          <button type="button" onClick={onPause} className={`${buttonClass} bg-white/5 text-slate-100`}>
+            Pausar
+          </button>
+        )}
+        <button type="button" onClick={onFinish} className={`${buttonClass} ml-auto bg-red-500/20 text-red-50`}>
+          Terminar
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const sharedAgo = (at: number, now: number) => {
+  const minutes = Math.floor((now - at) / 60_000);
+  return minutes < 1 ? "ahora" : `hace ${minutes} min`;
+};
+
+function GroupRunPanel({
+  runs,
+  run,
+  positions,
+  meId,
+  sharing,
+  onToggleSharing,
+  onSelectRun,
+  belowRecorder,
+}: {
+  runs: GroupRun[];
+  run: GroupRun;
+  positions: CrewPosition[];
+  meId: string;
+  sharing: boolean;
+  onToggleSharing: () => void;
+  onSelectRun: (id: string) => void;
+  /** Leaves room for the recorder card above it. */
+  belowRecorder: boolean;
+}) {
+  const sharingNames = new Map(positions.map((p) => [p.userId, p]));
+  return (
+    <div
+      className={`absolute left-3 z-20 w-64 rounded-2xl border border-white/10 bg-[#0a0f1f]/95 p-3 text-xs text-slate-100 shadow-2xl shadow-black/40 backdrop-blur ${
+        belowRecorder ? "top-[17rem]" : "top-28"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-semibold">
+          <span className="h-2.5 w-2.5 rounded-full bg-yellow-400" aria-hidden />
+          Salida en grupo
+        </span>
+        <Link href="/runs" className="text-[11px] text-slate-400 transition hover:text-slate-200">
+          Detalles
+        </Link>
+      </div>
+      {runs.length > 1 ? (
+        <select
+          value={run.id}
+          onChange={(e) => onSelectRun(e.target.value)}
+          aria-label="Salida"
+          className="mt-2 w-full rounded-lg border border-white/10 bg-[#0b1222] px-2 py-1 text-[11px] text-slate-100"
+        >
+          {runs.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.title}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <p className="mt-2 truncate text-sm font-semibold text-slate-50">{run.title}</p>
+      )}
+      <p className="text-slate-400">{`${capitalize(formatStart(run))} · ${run.meetingPoint.label}`}</p>
+      <ul className="mt-2 space-y-1">
+        {run.attendees.map((attendee) => {
+          const shared = sharingNames.get(attendee.id);
+          const self = attendee.id === meId;
+          return (
+            <li key={attendee.id} className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-2">
+                <span
+                  className={`h-2 w-2 shrink-0 rounded-full ${
+                    (self ? sharing : shared) ? "bg-yellow-400" : "bg-slate-600"
+                  }`}
+                  aria-hidden
+                />
+                <span className="truncate">{self ? "Tú" : attendee.displayName}</span>
+              </span>
+              <span className="shrink-0 text-[10px] text-slate-400">
+                {self ? (sharing ? "compartiendo" : "") : shared ? sharedAgo(shared.at, Date.now()) : ""}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={onToggleSharing}
+        aria-pressed={sharing}
+        className={`mt-3 w-full rounded-full px-3 py-1.5 text-[11px] font-semibold ring-1 ring-white/10 transition hover:bg-white/10 ${
+          sharing ? "bg-yellow-400/20 text-yellow-50" : "bg-white/5 text-slate-100"
+        }`}
+      >
+        {sharing ? "Dejar de compartir mi ubicación" : "Compartir mi ubicación"}
+      </button>
+      <p className="mt-1 text-[10px] text-slate-500">Solo la ve tu grupo, y solo hoy.</p>
+    </div>
+  );
+}
+
+function ActivityHistory({
+  activities,
+  onExport,
+  onDelete,
+  onClose,
+}: {
+  activities: Activity[];
+  onExport: (activity: Activity, format: ActivityExportFormat) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="absolute inset-x-3 top-3 bottom-24 z-40 mx-auto flex max-w-lg flex-col overflow-hidden rounded-3xl border border-white/10 bg-[#0a0f1f]/95 text-slate-100 shadow-2xl shadow-black/50 backdrop-blur">
+      <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+        <p className="text-sm font-semibold">Historial de actividades</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full bg-white/10 px-3 py-1 text-xs font-semibold transition hover:bg-white/20"
+        >
+          Cerrar
+        </button>
+      </div>
+      <ul className="flex-1 space-y-3 overflow-y-auto p-4">
+        {activities.length ? null : <li className="text-xs text-slate-400">Aún no has grabado ninguna actividad.</li>}
+        {activities.map((activity) => (
+          <li key={activity.id} className="rounded-2xl bg-white/5 p-3 ring-1 ring-white/10">
+            <div className="flex gap-3">
+              <ActivityThumbnail activity={activity} />
+              <div className="min-w-0 flex-1 text-xs">
+                <p className="truncate text-sm font-semibold text-slate-50">{activity.title}</p>
+                <p className="text-slate-400">
+                  {new Date(activity.startedAt).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" })}
+                </p>
+                <p className="mt-1 text-slate-200">
+                  {`${formatDistance(activity.distanceKm)} · ${formatDuration(activity.movingMs)}`}
+                  {activity.distanceKm > 0
+                    ? ` · ${formatPace(activity.movingMs / 60_000 / activity.distanceKm)}/km`
+                    : ""}
+                </p>
+                {activity.climb ? <p className="text-slate-400">{formatClimb(activity.climb)}</p> : null}
+              </div>
+            </div>
+            {activity.splits.length ? (
+              <details className="mt-2 text-xs">
+                <summary className="cursor-pointer text-slate-300">Parciales</summary>
+                <table className="mt-1 w-full text-left">
+                  <thead className="text-[10px] uppercase text-slate-400">
+                    <tr>
+                      <th className="py-1 font-medium">Km</th>
+                      <th className="py-1 font-medium">Tiempo</th>
+                      <th className="py-1 font-medium">Ritmo</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {activity.splits.map((split) => (
+                      <tr key={split.km} className="border-t border-white/5">
+                        <td className="py-1">
+                          {split.distanceKm < 0.99 ? `${split.km} (${formatDistance(split.distanceKm)})` : split.km}
+                        </td>
+                        <td className="py-1">{formatDuration(split.minutes * 60_000)}</td>
+                        <td className="py-1">{`${formatPace(split.paceMinPerKm)}/km`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            ) : null}
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <span className="text-[11px] text-slate-400">Exportar</span>
+              {Object.entries(activityExporters).map(([format, exporter]) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => onExport(activity, format as ActivityExportFormat)}
+                  className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 ring-1 ring-white/10 transition hover:bg-white/10"
+                >
+                  {exporter.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => onDelete(activity.id)}
+                className="ml-auto rounded-full px-3 py-1 text-[11px] font-semibold text-red-200 transition hover:bg-red-500/15"
+              >
+                Borrar
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ActivityThumbnail({ activity }: { activity: Activity }) {
+  const lines = useMemo(
+    () =>
+      activity.segments.map((segment) => ({
+        key: segment[0].time,
+        points: projectToViewBox(segment, activity.bounds, { width: 80, height: 80, padding: 8 })
+          .map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`)
+          .join(" "),
+      })),
+    [activity],
+  );
+  return (
+    <svg viewBox="0 0 80 80" className="h-20 w-20 shrink-0 rounded-xl bg-[#0d1426]" role="img">
+      <title>{`Recorrido de ${activity.title}`}</title>
+      {lines.map(({ key, points }) => (
+        <polyline
+          key={key}
+          points={points}
+          fill="none"
+          stroke="#34d399"
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
+
+function PaceInput({
+  mode,
+  value,
+  onChange,
+}: {
+  mode: Mode;
+  value: number | null;
+  onChange: (pace: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value ? formatPace(value) : "");
+  const invalid = draft.trim() !== "" && parsePace(draft) === null;
+
+  return (
+    <label
+      className={`ml-auto flex items-center gap-2 rounded-full border px-3 py-1 text-xs text-slate-200 ${
+        invalid ? "border-red-400/60" : "border-white/10"
+      } bg-white/5`}
+    >
+      Tu ritmo
+      <input
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          if (!e.target.value.trim()) onChange(null);
+          else {
+            const pace = parsePace(e.target.value);
+            if (pace !== null) onChange(pace);
+          }
+        }}
+        placeholder={formatPace(defaultPaceMinPerKm[mode])}
+        inputMode="decimal"
+        aria-invalid={invalid}
+        aria-label="Ritmo objetivo en llano (min/km)"
+        className="w-12 bg-transparent text-right font-semibold text-slate-50 outline-none placeholder:text-slate-500"
+      />
+      <span className="text-slate-400">/km</span>
+    </label>
+  );
+}
+
+function SplitTable({ eta }: { eta: Eta }) {
+  if (!eta.splits.length) return null;
+  let elapsed = 0;
+
+  return (
+    <details className="mt-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-slate-200">
+      <summary className="cursor-pointer select-none">
+        Parciales por km · {formatEta(eta.minutes)} a {formatPace(eta.paceMinPerKm)}/km de media
+      </summary>
+      <table className="mt-2 w-full text-left tabular-nums">
+        <thead className="text-[11px] uppercase tracking-[0.14em] text-orange-100/70">
+          <tr>
+            <th className="py-1 font-medium">Km</th>
+            <th className="py-1 font-medium">Ritmo</th>
+            <th className="py-1 font-medium">Acumulado</th>
+            <th className="py-1 font-medium">Desnivel</th>
+          </tr>
+        </thead>
+        <tbody>
+          {eta.splits.map((split) => {
+            elapsed += split.minutes;
+            return (
+              <tr key={split.km} className="border-t border-white/5">
+                <td className="py-1">{split.distanceKm < 0.999 ? formatDistance(split.distanceKm) : split.km}</td>
+                <td className="py-1 font-semibold text-slate-50">{formatPace(split.paceMinPerKm)}/km</td>
+                <td className="py-1">{formatEta(Math.round(elapsed))}</td>
+                <td className="py-1 text-slate-300">
+                  +{split.ascentM} / −{split.descentM} m
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+function ElevationChart({
+  route,
+  hoverKm,
+  onHover,
+}: {
+  route: RouteOption;
+  hoverKm: number | null;
+  onHover: (km: number | null) => void;
+}) {
+  const profile = useMemo(() => elevationProfile(route.path), [route]);
+  const climb = route.climb;
+
+  if (!climb || profile.length < 2) {
+    return <p className="mt-3 text-xs text-slate-400">Esta ruta no tiene datos de elevación.</p>;
+  }
+
+  const totalKm = profile[profile.length - 1].distanceKm || 1;
+  // Keep at least 20 m of vertical range so flat routes do not look like cliffs.
+  const span = Math.max(climb.maxEleM - climb.minEleM, 20);
+  const toX = (km: number) => (km / totalKm) * CHART_WIDTH;
+  const toY = (ele: number) => CHART_HEIGHT - 6 - ((ele - climb.minEleM) / span) * (CHART_HEIGHT - 14);
+  const line = profile.map((p, i) => `${i === 0 ? "M" : "L"} ${toX(p.distanceKm)} ${toY(p.ele)}`).join(" ");
+  const area = `${line} L ${CHART_WIDTH} ${CHART_HEIGHT} L 0 ${CHART_HEIGHT} Z`;
+
+  const hovered =
+    hoverKm === null
+      ? null
+      : profile[Math.min(profile.length - 1, Math.round((hoverKm / totalKm) * (profile.length - 1)))];
+
+  const kmAt = (clientX: number, rect: DOMRect) =>
+    Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * totalKm;
+
+  return (
+    <div className="mt-3 rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-200">
+        <span className="uppercase tracking-[0.18em] text-orange-100/80">Perfil</span>
+        <span>Subida +{climb.ascentM} m</span>
+        <span>Bajada −{climb.descentM} m</span>
+        <span>Pendiente máx {formatGrade(climb.maxGradePct)}</span>
+        <span className="text-slate-400">
+          {climb.minEleM}–{climb.maxEleM} m
+        </span>
+        {hovered ? (
+          <span className="ml-auto font-semibold text-orange-50">
+            {formatDistance(hovered.distanceKm)} · {Math.round(hovered.ele)} m · {formatGrade(hovered.gradePct)}
+          </span>
+        ) : null}
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="mt-2 h-24 w-full touch-none"
+        role="img"
+        aria-label={`Perfil de elevación: subida ${climb.ascentM} m, bajada ${climb.descentM} m`}
+        onPointerMove={(e) => onHover(kmAt(e.clientX, e.currentTarget.getBoundingClientRect()))}
+        onPointerLeave={() => onHover(null)}
+      >
+        <defs>
+          <linearGradient id="elevationFill" x1="0" x2="0" y1="0" y2="1">
+            <stop offset="0%" stopColor="#fb923c" stopOpacity="0.45" />
+            <stop offset="100%" stopColor="#fb923c" stopOpacity="0.02" />
+          </linearGradient>
+        </defs>
+        <path d={area} fill="url(#elevationFill)" />
+        <path d={line} fill="none" stroke="#fb923c" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+        {hovered ? (
+          <line
+            x1={toX(hovered.distanceKm)}
+            x2={toX(hovered.distanceKm)}
+            y1="0"
+            y2={CHART_HEIGHT}
+            stroke="#fff7ed"
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : null}
+      </svg>
+      <div className="flex justify-between text-[11px] text-slate-400">
+        <span>0 km</span>
+        <span>{formatDistance(totalKm)}</span>
+      </div>
+    </div>
+  );
+}
+
+function BottomNav({
+  routesOpen,
+  coachOpen,
+  onToggleRoutes,
+  onToggleCoach,
+  onShowMap,
+  onOpenMessages,
+  unreadMessages,
+}: {
+  routesOpen: boolean;
+  coachOpen: boolean;
+  onToggleRoutes: () => void;
+  onToggleCoach: () => void;
+  onShowMap: () => void;
+  onOpenMessages: () => void;
+  unreadMessages: number;
+}) {
+  return (
+    <nav className="pointer-events-none fixed inset-x-0 bottom-3 z-40 flex justify-center md:hidden">
+      <div className="pointer-events-auto grid w-[92%] max-w-xl grid-cols-4 items-center justify-items-center gap-2 rounded-full border border-white/10 bg-[#0a0f1f]/95 px-4 py-2 text-slate-100 shadow-2xl shadow-orange-900/30 backdrop-blur">
+        <button
+          type="button"
+          onClick={onShowMap}
+          className="group flex w-full flex-col items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold text-slate-200 transition hover:text-white duration-200 active:scale-95"
+        >
+          <Image
+            src={mapIcon}
+            alt="Mapa"
+            width={22}
+            height={22}
+            className="opacity-90 brightness-0 invert transition-transform duration-200 group-hover:scale-110"
+          />
+          Mapa
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            onShowMap();
+            onToggleRoutes();
+          }}
+          className={`group flex w-full flex-col items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold transition duration-200 active:scale-95 ${
+            routesOpen ? "text-orange-50" : "text-slate-200 hover:text-white"
+          }`}
+        >
+          <Image
+            src={routeIcon}
+            alt="Ruta"
+            width={22}
+            height={22}
+            className="opacity-90 brightness-0 invert transition-transform duration-200 group-hover:scale-110"
+            aria-hidden
+          />
+          Ruta
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            onShowMap();
+            onToggleCoach();
+          }}
+          className={`group flex w-full flex-col items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold transition duration-200 active:scale-95 ${
+            coachOpen ? "text-orange-50" : "text-slate-200 hover:text-white"
+          }`}
+        >
+          <Image src={botIcon} alt="Coach" width={22} height={22} className="opacity-90 brightness-0 invert transition-transform duration-200 group-hover:scale-110" aria-hidden />
+          Coach
+        </button>
+        <button
+          type="button"
+          onClick={onOpenMessages}
+          className="group relative flex w-full flex-col items-center gap-1 rounded-full px-2 py-1 text-[11px] font-semibold text-slate-200 transition hover:text-white duration-200 active:scale-95"
+        >
+          <Image src={chatIcon} alt="Chat" width={22} height={22} className="opacity-90 brightness-0 invert transition-transform duration-200 group-hover:scale-110" aria-hidden />
+          Mensajes
+          <UnreadBadge count={unreadMessages} />
+        </button>
+      </div>
+    </nav>
+  );
+}
+
+function RoutinePeek({
+  routine,
+  currentIndex,
+  onStepChange,
+  workout,
+  alignBadgeLeft = false,
+}: {
+  routine: RoutineItem[];
+  currentIndex: number;
+  onStepChange: (idx: number) => void;
+  workout: WorkoutControls;
+  alignBadgeLeft?: boolean;
+}) {
+  const { snapshot } = workout;
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-black/55 px-3 py-3 text-xs text-slate-100 ring-1 ring-white/10 backdrop-blur">
+      <div className={`flex items-center gap-2 ${alignBadgeLeft ? "justify-start" : "justify-between"}`}>
+        <p className="font-semibold uppercase tracking-[0.2em] text-orange-100/80">Rutina</p>
+        <span className="text-[11px] text-slate-300">{`Paso ${currentIndex + 1} / ${routine.length}`}</span>
+        <Link href="/training" className="text-[11px] font-semibold text-orange-200 transition hover:text-orange-100">
+          Plan semanal →
+        </Link>
+      </div>
+      <div className="rounded-xl bg-white/5 px-3 py-2">
+        <p className="text-[11px] text-orange-100/90">{routine[currentIndex]?.step}</p>
+        <p className="text-[12px] text-slate-100">{routine[currentIndex]?.detail}</p>
+      </div>
+      {snapshot?.step ? (
+        <div className="flex flex-col gap-2 rounded-xl bg-orange-400/10 px-3 py-2 ring-1 ring-orange-300/30">
+          <div className="flex items-baseline justify-between gap-2">
+            <p className="text-[11px] text-orange-100/90">{`Entrenamiento · ${snapshot.index + 1} / ${snapshot.total}`}</p>
+            <p className="text-lg font-semibold tabular-nums text-orange-50">
+              {snapshot.remainingSeconds !== null
+                ? formatDuration(snapshot.remainingSeconds * 1000)
+                : snapshot.remainingMeters !== null
+                  ? `${Math.ceil(snapshot.remainingMeters)} m`
+                  : "Libre"}
+            </p>
+          </div>
+          <p className="text-[12px] text-slate-100">{describeStep(snapshot.step, workout.units)}</p>
+          {snapshot.next ? (
+            <p className="text-[11px] text-slate-300">{`Después: ${describeStep(snapshot.next, workout.units)}`}</p>
+          ) : null}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={workout.onBack}
+              className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              ← Anterior
+            </button>
+            <button
+              type="button"
+              onClick={workout.onSkip}
+              className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 transition hover:bg-white/10"
+            >
+              Siguiente →
+            </button>
+            <button
+              type="button"
+              onClick={workout.onStop}
+              className="ml-auto rounded-full bg-rose-500/20 px-3 py-1 text-[11px] font-semibold text-rose-100 transition hover:bg-rose-500/30"
+            >
+              Terminar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={workout.onStart}
+            className="rounded-full bg-orange-400/90 px-3 py-1 text-[11px] font-semibold text-[#0b0f1a] transition hover:brightness-110"
+          >
+            Iniciar entrenamiento
+          </button>
+          {Object.entries(workoutExporters).map(([format, exporter]) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => workout.onExport(format as WorkoutExportFormat)}
+              className="rounded-full bg-white/5 px-3 py-1 text-[11px] font-semibold text-slate-200 ring-1 ring-white/10 transition hover:bg-white/10"
+            >
+              {exporter.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {routine.map((item, idx) => (
+          <button
+            key={item.step}
+            type="button"
+            onClick={() => onStepChange(idx)}
+            className={`rounded-full px-3 py-1 text-[11px] font-semibold transition ${
+              idx === currentIndex
+                ? "bg-orange-400/20 text-orange-50"
+                : "bg-white/5 text-slate-200 hover:bg-white/10"
+            }`}
+          >
+            {item.step}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CoachPanel({
+  open,
+  messages,
+  prompt,
+  onPromptChange,
+  onSend,
+  busy,
+  providerName,
+  className,
+  onClose,
+  isMobile,
+}: {
+  open: boolean;
+  messages: CoachMessage[];
+  prompt: string;
+  onPromptChange: (v: string) => void;
+  onSend: () => void;
+  busy: boolean;
+  providerName: string;
+  className?: string;
+  onClose?: () => void;
+  isMobile?: boolean;
+}) {
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  // Keep the newest message in view as the conversation grows.
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && messages.length) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  if (isMobile && !open) return null;
+
+  const baseMobile =
+    "fixed inset-0 z-50 m-0 h-full w-full rounded-none bg-[#0c1527]/75 overflow-y-auto p-4 transition-all duration-300 ease-in-out";
+  const baseDesktop =
+    "fixed left-[64px] top-0 z-40 h-full w-[360px] max-w-[40vw] overflow-y-auto rounded-none bg-[#0c1527]/75 p-5 transition-all duration-300 ease-in-out";
+
+  const stateDesktop = open
+    ? "translate-x-0 opacity-100 pointer-events-auto"
+    : "-translate-x-[110%] opacity-0 pointer-events-none";
+
+  const containerClass = isMobile ? baseMobile : `${baseDesktop} ${stateDesktop}`;
+
+  return (
+    <aside className={`flex min-h-0 flex-col bg-[#0c1527]/25 p-4 ${className ?? ""} ${containerClass}`}>
+      <div className="flex items-center justify-between gap-2 pb-2 rounded-xl bg-[#0c1527]/20 px-3 py-2">
+        <div className="flex items-center gap-2">
+          <p className="text-sm uppercase tracking-[0.2em] text-orange-100/80">Coach</p>
+          <span className="rounded-full bg-emerald-500/15 px-3 py-2 text-[11px] font-semibold text-emerald-200 ring-1 ring-emerald-500/30">
+            {providerName}
+          </span>
+        </div>
+        {onClose ? (
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full bg-[#111a2e] px-3 py-2 text-xs font-semibold text-slate-100 ring-1 ring-white/10 transition hover:bg-[#16223a]"
+            aria-label="Cerrar panel Coach"
+          >
+            ×
+          </button>
+        ) : null}
+      </div>
+
+      <div className="flex min-h-0 flex-1 flex-col gap-3">
+        <div
+          ref={listRef}
+          aria-live="polite"
+          className="flex flex-1 flex-col gap-2 overflow-y-auto scrollbar-thin scrollbar-track-[#0a1220]/40 scrollbar-thumb-white/10"
+        >
+          {messages.map((msg) => {
+            // The reply bubble appears once the first words stream in.
+            if (!msg.text && !msg.actions) return null;
+            const isCoach = msg.role === "coach";
+            return (
+              <div key={msg.id} className={`flex ${isCoach ? "justify-start" : "justify-end"}`}>
+                <div
+                  className={`max-w-[75%] rounded-2xl px-3 py-2 text-sm shadow ${
+                    msg.tone === "error"
+                      ? "bg-red-500/15 text-red-100 shadow-black/15"
+                      : isCoach
+                        ? "bg-[#0a3b6f]/30 text-orange-50 shadow-sky-900/20"
+                        : "bg-white/8 text-slate-100 shadow-black/15"
+                  }`}
+                >
+                  {msg.text}
+                  {msg.actions?.length ? (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {msg.actions.map((action) => (
+                        <span
+                          key={action.type}
+                          className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] font-semibold text-slate-200"
+                        >
+                          {coachActionLabel[action.type]}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+          {busy && !messages.at(-1)?.text ? <p className="text-xs text-slate-400">El coach está pensando…</p> : null}
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSend();
+          }}
+          className="flex items-center gap-2 rounded-xl bg-white/4 px-3 py-2"
+        >
+          <input
+            value={prompt}
+            onChange={(e) => onPromptChange(e.target.value)}
+            className="w-full bg-transparent text-sm text-slate-100 placeholder:text-slate-500 focus:outline-none"
+            placeholder="Ej. 8 km suaves por el parque"
+            aria-label="Mensaje para el coach"
+          />
+          <button
+            type="submit"
+            disabled={busy || !prompt.trim()}
+            className="rounded-full bg-white/10 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-white/15 disabled:opacity-50"
+          >
+            Enviar
+          </button>
+        </form>
+      </div>
+    </aside>
+  );
+}
+
+function UnreadBadge({ count }: { count: number }) {
+  if (!count) return null;
+  return (
+    <span className="absolute right-1 top-0 min-w-4 rounded-full bg-orange-400 px-1 text-center text-[9px] font-bold leading-4 text-[#0b0f1a]">
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
+
+// Mapbox styles fallback handled via style URLs; no Google Maps styles needed.
+
+function SideRail({
+  onToggleRoutes,
+  onToggleCoach,
+  onClosePanels,
+  onOpenMessages,
+  routesOpen,
+  coachOpen,
+  infoOpen,
+  unreadMessages,
+}: {
+  onToggleRoutes: () => void;
+  onToggleCoach: () => void;
+  onClosePanels: () => void;
+  onOpenMessages: () => void;
+  routesOpen: boolean;
+  coachOpen: boolean;
+  infoOpen: boolean;
+  unreadMessages: number;
+}) {
+  const items = [
+    { label: "Mapa", icon: mapIcon, onClick: onClosePanels, active: !routesOpen && !coachOpen && !infoOpen },
+    { label: "Ruta", icon: routeIcon, onClick: onToggleRoutes, active: routesOpen },
+    {
+      label: "Coach",
+      icon: botIcon,
+      onClick: onToggleCoach,
+      active: coachOpen,
+    },
+    {
+      label: "Chat",
+      icon: chatIcon,
+      onClick: onOpenMessages,
+      active: false,
+      badge: unreadMessages,
+    },
+  ];
+  return (
+    <div className="fixed left-0 top-0 z-40 hidden h-full w-[64px] flex-col items-center gap-4 border-r border-white/10 bg-[#0a0f1f]/95 py-4 text-[11px] font-semibold text-slate-200 shadow-2xl shadow-black/30 backdrop-blur md:flex">
+      {items.map((item) => (
+        <button
+          key={item.label}
+          type="button"
+          onClick={item.onClick}
+          className={`relative flex flex-col items-center gap-1 rounded-2xl px-2 py-2 text-center transition ${
+            item.active ? "bg-orange-500/15 text-orange-50 ring-1 ring-orange-400/30" : "hover:bg-white/10"
+          }`}
+        >
+          <Image
+            src={item.icon}
+            alt={item.label}
+            width={22}
+            height={22}
+            className="opacity-90 brightness-0 invert transition-transform duration-200 hover:scale-110"
+          />
+          <span className="text-[10px]">{item.label}</span>
+          <UnreadBadge count={item.badge ?? 0} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+async function buildRouteFromPrompt(
+  distanceKm: number,
+  mode: Mode,
+  focus: string,
+  shape: RouteShape,
+  origin: GeoPoint,
+  anchors: RouteAnchors,
+  avoid: RouteAvoid[] = [],
+): Promise<RouteOption> {
+  const [graph, dem] = await Promise.all([loadBundledGraph(), loadDemTiles()]);
+  const generated = generateRoute(graph, {
+    start: origin,
+    distanceKm,
+    shape,
+    via: anchors.via.map((place) => ({ lng: place.lng, lat: place.lat, label: place.name })),
+    end: anchors.destination ?? undefined,
+    profile: avoidingProfile(routingProfiles[mode], avoid),
+  });
+  const anchorIds = [anchors.start, ...anchors.via, anchors.destination].flatMap((place) =>
+    place ? [place.id] : [],
+  );
+  return createRoute({
+    id: `coach-${mode}-${Math.round(distanceKm * 10)}-${shape}${anchorIds.length ? `-${anchorIds.join("-")}` : ""}${avoid.length ? `-no-${[...avoid].sort().join("-")}` : ""}`,
+    title: anchors.destination ? `Hasta ${anchors.destination.name}` : `Coach: ${focus}`,
+    mode,
+    safety: describeSafety(generated.breakdown),
+    surface: describeSurface(generated.breakdown),
+    // OSM extracts rarely tag `ele`; the DEM covers the gaps.
+    path: fillElevations(generated.path, dem),
+    waypoints: generated.waypoints,
+  });
+}
+
+function formatDistance(km: number): string {
+  return `${km.toFixed(1)} km`;
+}
+
+function formatEta(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m} min`;
+  return `${h}h ${m.toString().padStart(2, "0")}m`;
+}
+
+function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = (total % 60).toString().padStart(2, "0");
+  return hours ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function formatClimb(climb: ClimbStats | null): string {
+  return climb ? `+${climb.ascentM} m` : "—";
+}
+
+function formatGrade(pct: number): string {
+  return `${pct.toFixed(1).replace("-0.0", "0.0")} %`;
+}
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
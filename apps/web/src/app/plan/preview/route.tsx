@@ -0,0 +1,103 @@
+import { ImageResponse } from "next/og";
+import { modeMeta } from "@/lib/modes";
+import { linkedRoute, readPlanLink } from "@/lib/plan-link";
+import { projectToViewBox } from "@/lib/route/geo";
+
+// The Open Graph image for a shared /plan link: the route's shape with its
+// title and distance, drawn on the server from the same search params.
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const SHAPE = { width: 560, height: 530, padding: 30 };
+
+export function GET(request: Request) {
+  const route = linkedRoute(readPlanLink(new URL(request.url).searchParams));
+  if (!route) return new Response("Ruta no encontrada", { status: 404 });
+
+  const points = projectToViewBox(route.path, route.bounds, SHAPE);
+  const line = points
+    .map(({ x, y }, i) => `${i ? "L" : "M"}${x.toFixed(1)} ${y.toFixed(1)}`)
+    .join(" ");
+  const start = points[0];
+  const end = points[points.length - 1];
+  const climb = route.climb ? ` · +${route.climb.ascentM} m` : "";
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        alignItems: "center",
+        gap: 40,
+        padding: 50,
+        background: "#050915",
+        color: "#f8fafc",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          width: 500,
+          height: "100%",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 30, color: "#fb923c" }}>
+          HikeUp
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+          <div
+            style={{
+              display: "flex",
+              fontSize: route.title.length > 40 ? 44 : 56,
+              lineHeight: 1.1,
+            }}
+          >
+            {route.title.slice(0, 90)}
+          </div>
+          <div style={{ display: "flex", fontSize: 32, color: "#cbd5e1" }}>
+            {`${modeMeta[route.mode].label} · ${route.distanceKm.toFixed(1)} km${climb}`}
+          </div>
+        </div>
+        <div style={{ display: "flex", fontSize: 22, color: "#94a3b8" }}>
+          Ábrela en el mapa y navégala paso a paso
+        </div>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          width: SHAPE.width,
+          height: SHAPE.height,
+          borderRadius: 32,
+          background: "#0b1222",
+        }}
+      >
+        <svg
+          width={SHAPE.width}
+          height={SHAPE.height}
+          viewBox={`0 0 ${SHAPE.width} ${SHAPE.height}`}
+          role="img"
+          aria-label={route.title}
+        >
+          <path
+            d={line}
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={10}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          <circle cx={start.x} cy={start.y} r={14} fill="#22c55e" />
+          <circle cx={end.x} cy={end.y} r={14} fill="#f8fafc" />
+        </svg>
+      </div>
+    </div>,
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { "Cache-Control": "public, max-age=86400, immutable" },
+    },
+  );
+}
@@ -0,0 +1,403 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useState } from "react";
+import { ApiRequestError } from "@/lib/api/client";
+import { fetchSession, saveProfile, signOut } from "@/lib/auth/client";
+import { formatPace, parsePace } from "@/lib/eta";
+import { type CityId, cities } from "@/lib/geocoding/cities";
+import { type Mode, modeMeta } from "@/lib/modes";
+import type { Language, Units, UserProfile } from "@/lib/storage/types";
+import {
+  EQUIVALENT_DISTANCES,
+  equivalentRaces,
+  formatRaceTime,
+  heartRateZones,
+  paceText,
+  parseRaceTime,
+  vdotFromRace,
+  zonesFromVdot,
+} from "@/lib/training/zones";
+
+const unitLabel: Record<Units, string> = {
+  metric: "Kilómetros",
+  imperial: "Millas",
+};
+
+const languageLabel: Record<Language, string> = {
+  es: "Español",
+  en: "English",
+};
+
+const zoneLabel = {
+  easy: "Suave",
+  marathon: "Maratón",
+  threshold: "Umbral",
+  interval: "Series",
+  repetition: "Repeticiones",
+} as const;
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-orange-400/60";
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [paceDraft, setPaceDraft] = useState("");
+  const [raceKm, setRaceKm] = useState(5);
+  const [raceTimeDraft, setRaceTimeDraft] = useState("");
+  const [maxHrDraft, setMaxHrDraft] = useState("");
+  const [lthrDraft, setLthrDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then((user) => {
+        if (!user) {
+          router.replace("/login");
+          return;
+        }
+        setProfile(user);
+        setPaceDraft(
+          user.targetPaceMinPerKm ? formatPace(user.targetPaceMinPerKm) : "",
+        );
+        if (user.recentRace) {
+          setRaceKm(user.recentRace.distanceKm);
+          setRaceTimeDraft(formatRaceTime(user.recentRace.minutes));
+        }
+        setMaxHrDraft(user.maxHr ? String(user.maxHr) : "");
+        setLthrDraft(user.lthr ? String(user.lthr) : "");
+      })
+      .catch((error) => setStatus({ tone: "error", text: error.message }));
+  }, [router]);
+
+  if (!profile) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando tu perfil…"}
+      </main>
+    );
+  }
+
+  const update = (patch: Partial<UserProfile>) =>
+    setProfile({ ...profile, ...patch });
+
+  // Zones follow the drafts as the user types; saving stores the inputs.
+  const raceMinutes = parseRaceTime(raceTimeDraft);
+  const vdot = raceMinutes
+    ? vdotFromRace({ distanceKm: raceKm, minutes: raceMinutes })
+    : null;
+  const maxHr = readHeartRate(maxHrDraft);
+  const lthr = readHeartRate(lthrDraft);
+  const hrZones = heartRateZones({ maxHr, lthr });
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const pace = paceDraft.trim() ? parsePace(paceDraft) : null;
+    if (paceDraft.trim() && pace === null) {
+      setStatus({
+        tone: "error",
+        text: "Escribe el ritmo como 5:30 (minutos por km).",
+      });
+      return;
+    }
+    if (raceTimeDraft.trim() && vdot === null) {
+      setStatus({
+        tone: "error",
+        text: "Escribe el tiempo de la carrera como 24:30 o 1:52:10.",
+      });
+      return;
+    }
+    if (
+      (maxHrDraft.trim() && maxHr === null) ||
+      (lthrDraft.trim() && lthr === null)
+    ) {
+      setStatus({
+        tone: "error",
+        text: "La frecuencia cardiaca va en pulsaciones por minuto, entre 80 y 230.",
+      });
+      return;
+    }
+    setBusy(true);
+    try {
+      const saved = await saveProfile({
+        displayName: profile.displayName,
+        city: profile.city,
+        units: profile.units,
+        language: profile.language,
+        defaultMode: profile.defaultMode,
+        targetPaceMinPerKm: pace,
+        recentRace:
+          raceMinutes && vdot !== null
+            ? { distanceKm: raceKm, minutes: raceMinutes }
+            : null,
+        maxHr,
+        lthr,
+      });
+      setProfile(saved);
+      setStatus({ tone: "ok", text: "Perfil guardado." });
+    } catch (error) {
+      if (!(error instanceof ApiRequestError))
+        console.error("Profile save failed", error);
+      setStatus({
+        tone: "error",
+        text:
+          error instanceof ApiRequestError
+            ? error.message
+            : "No se pudo guardar el perfil.",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut().catch(() => undefined);
+    router.push("/plan");
+  };
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-md">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <h1 className="mt-3 text-xl font-semibold">Tu perfil</h1>
+        <p className="text-xs text-slate-400">{profile.email}</p>
+
+        <form
+          onSubmit={handleSubmit}
+          className="mt-6 flex flex-col gap-4 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-6"
+        >
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            Nombre
+            <input
+              required
+              maxLength={80}
+              value={profile.displayName}
+              onChange={(e) => update({ displayName: e.target.value })}
+              className={fieldClass}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Unidades
+              <select
+                value={profile.units}
+                onChange={(e) => update({ units: e.target.value as Units })}
+                className={fieldClass}
+              >
+                {Object.entries(unitLabel).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Idioma
+              <select
+                value={profile.language}
+                onChange={(e) =>
+                  update({ language: e.target.value as Language })
+                }
+                className={fieldClass}
+              >
+                {Object.entries(languageLabel).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Modo por defecto
+              <select
+                value={profile.defaultMode}
+                onChange={(e) =>
+                  update({ defaultMode: e.target.value as Mode })
+                }
+                className={fieldClass}
+              >
+                {Object.entries(modeMeta).map(([value, meta]) => (
+                  <option key={value} value={value}>
+                    {meta.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Ritmo objetivo (min/km)
+              <input
+                value={paceDraft}
+                onChange={(e) => setPaceDraft(e.target.value)}
+                placeholder="5:30"
+                inputMode="decimal"
+                className={fieldClass}
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            Ciudad
+            <select
+              value={profile.city ?? ""}
+              onChange={(e) =>
+                update({ city: (e.target.value || null) as CityId | null })
+              }
+              className={fieldClass}
+            >
+              <option value="">Sin elegir</option>
+              {Object.entries(cities).map(([id, city]) => (
+                <option key={id} value={id}>
+                  {city.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <fieldset className="flex flex-col gap-3 border-t border-white/10 pt-4">
+            <legend className="text-xs font-semibold uppercase tracking-[0.2em] text-orange-100/80">
+              Ritmos y zonas
+            </legend>
+            <p className="text-[11px] text-slate-400">
+              Una carrera o test reciente a tope. Tus rutinas y planes usarán
+              los ritmos que salen de ella.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Distancia
+                <select
+                  value={raceKm}
+                  onChange={(e) => setRaceKm(Number(e.target.value))}
+                  className={fieldClass}
+                >
+                  {EQUIVALENT_DISTANCES.map(({ label, distanceKm }) => (
+                    <option key={distanceKm} value={distanceKm}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Tiempo
+                <input
+                  value={raceTimeDraft}
+                  onChange={(e) => setRaceTimeDraft(e.target.value)}
+                  placeholder="24:30"
+                  inputMode="numeric"
+                  className={fieldClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                FC máxima
+                <input
+                  value={maxHrDraft}
+                  onChange={(e) => setMaxHrDraft(e.target.value)}
+                  placeholder="190"
+                  inputMode="numeric"
+                  className={fieldClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                FC umbral (LTHR)
+                <input
+                  value={lthrDraft}
+                  onChange={(e) => setLthrDraft(e.target.value)}
+                  placeholder="170"
+                  inputMode="numeric"
+                  className={fieldClass}
+                />
+              </label>
+            </div>
+            {vdot !== null ? (
+              <div className="grid grid-cols-2 gap-3 text-xs">
+                <div className="rounded-2xl bg-white/5 p-3">
+                  <p className="font-semibold text-slate-100">
+                    VDOT {vdot.toFixed(1)}
+                  </p>
+                  <ul className="mt-1 flex flex-col gap-0.5 text-slate-300">
+                    {equivalentRaces(vdot).map((race) => (
+                      <li key={race.label} className="flex justify-between">
+                        <span>{race.label}</span>
+                        <span>{formatRaceTime(race.minutes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="rounded-2xl bg-white/5 p-3">
+                  <p className="font-semibold text-slate-100">Ritmos</p>
+                  <ul className="mt-1 flex flex-col gap-0.5 text-slate-300">
+                    {Object.entries(zonesFromVdot(vdot)).map(([zone, pace]) => (
+                      <li key={zone} className="flex justify-between">
+                        <span>{zoneLabel[zone as keyof typeof zoneLabel]}</span>
+                        <span>{paceText(pace, profile.units)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            ) : null}
+            {hrZones ? (
+              <div className="rounded-2xl bg-white/5 p-3 text-xs">
+                <p className="font-semibold text-slate-100">
+                  Zonas de pulso{" "}
+                  {lthr ? "(desde tu umbral)" : "(desde tu FC máxima)"}
+                </p>
+                <ul className="mt-1 flex flex-col gap-0.5 text-slate-300">
+                  {hrZones.map((zone) => (
+                    <li key={zone.zone} className="flex justify-between">
+                      <span>
+                        Z{zone.zone} · {zone.label}
+                      </span>
+                      <span>
+                        {zone.minBpm}–{zone.maxBpm} ppm
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+          </fieldset>
+          {status ? (
+            <p
+              aria-live="polite"
+              className={`text-xs ${status.tone === "ok" ? "text-emerald-300" : "text-red-300"}`}
+            >
+              {status.text}
+            </p>
+          ) : null}
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-full bg-orange-500 px-4 py-2 text-sm font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-60"
+            >
+              Guardar
+            </button>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="ml-auto rounded-full px-4 py-2 text-sm font-semibold text-slate-300 transition hover:bg-white/10"
+            >
+              Cerrar sesión
+            </button>
+          </div>
+        </form>
+      </div>
+    </main>
+  );
+}
+
+function readHeartRate(text: string): number | null {
+  const value = Number(text.trim());
+  return text.trim() && Number.isInteger(value) && value >= 80 && value <= 230
+    ? value
+    : null;
+}
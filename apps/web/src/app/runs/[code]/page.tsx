@@ -0,0 +1,124 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { GroupRunSummary } from "@/components/group-run-summary";
+import { ApiRequestError } from "@/lib/api/client";
+import { fetchSession } from "@/lib/auth/client";
+import { fetchInvite, rsvp } from "@/lib/group-runs/client";
+import { isAttending, isFull } from "@/lib/group-runs/group-runs";
+import type { GroupRun } from "@/lib/group-runs/types";
+import { StorageError } from "@/lib/storage/errors";
+import type { UserProfile } from "@/lib/storage/types";
+
+/** An invite link: the run, and the button to say you are going. */
+export default function InvitePage() {
+  const router = useRouter();
+  const { code } = useParams<{ code: string }>();
+  const [me, setMe] = useState<UserProfile | null>(null);
+  const [run, setRun] = useState<GroupRun | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(async (user) => {
+        if (!user) {
+          router.replace(`/login?next=${encodeURIComponent(`/runs/${code}`)}`);
+          return;
+        }
+        setMe(user);
+        setRun(await fetchInvite(code));
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+  }, [router, code]);
+
+  if (!me || !run) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando la invitación…"}
+      </main>
+    );
+  }
+
+  const handleRsvp = async () => {
+    setBusy(true);
+    try {
+      setRun(await rsvp(run.id, run.inviteCode));
+      setStatus({ tone: "ok", text: "¡Apuntado! Te avisaremos si cambia." });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const going = isAttending(run, me.id);
+  const closed =
+    run.cancelledAt !== null
+      ? "Esta salida se canceló."
+      : run.startsAt <= Date.now()
+        ? "Esta salida ya empezó."
+        : isFull(run)
+          ? "No quedan plazas."
+          : null;
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-xl">
+        <Link
+          href="/runs"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Tus salidas
+        </Link>
+        <p className="mt-3 text-xs text-slate-400">
+          {`${run.organizer.displayName} te invita a correr en grupo.`}
+        </p>
+        {status ? (
+          <p
+            className={`mt-2 text-xs ${status.tone === "ok" ? "text-emerald-200" : "text-red-200"}`}
+          >
+            {status.text}
+          </p>
+        ) : null}
+        <div className="mt-4">
+          <GroupRunSummary
+            run={run}
+            units={me.units}
+            onError={(error) =>
+              setStatus({ tone: "error", text: failure(error) })
+            }
+          >
+            {going ? (
+              <span className="font-semibold text-emerald-200">Vas a ir</span>
+            ) : closed ? (
+              <span className="text-slate-400">{closed}</span>
+            ) : (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={handleRsvp}
+                className="rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50"
+              >
+                Me apunto
+              </button>
+            )}
+          </GroupRunSummary>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function failure(error: unknown): string {
+  if (error instanceof ApiRequestError || error instanceof StorageError) {
+    return error.message;
+  }
+  console.error("Invite failed", error);
+  return "No se pudo completar la acción.";
+}
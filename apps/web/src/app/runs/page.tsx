@@ -0,0 +1,569 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useState } from "react";
+import { GroupRunSummary } from "@/components/group-run-summary";
+import { ApiRequestError } from "@/lib/api/client";
+import {
+  MAX_GROUP_RUN_CAPACITY,
+  MAX_GROUP_RUN_TITLE_LENGTH,
+  MAX_MEETING_POINT_LENGTH,
+} from "@/lib/api/schemas";
+import { fetchSession } from "@/lib/auth/client";
+import { defaultPaceMinPerKm, formatPace, parsePace } from "@/lib/eta";
+import {
+  cancelGroupRun,
+  createGroupRun,
+  fetchGroupRuns,
+  leaveGroupRun,
+  moveGroupRun,
+  subscribeToGroupRuns,
+} from "@/lib/group-runs/client";
+import { inviteUrl, isAttending, isLive } from "@/lib/group-runs/group-runs";
+import type { GroupRun, MeetingPoint } from "@/lib/group-runs/types";
+import { createRoute, type RouteOption, routeStops } from "@/lib/route/model";
+import { StorageError } from "@/lib/storage/errors";
+import { createHttpRepository } from "@/lib/storage/http";
+import { toSavedRoute } from "@/lib/storage/repository";
+import type { Units, UserProfile } from "@/lib/storage/types";
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-orange-400/60";
+const labelClass = "flex flex-col gap-1 text-[11px] text-slate-400";
+const actionClass = "font-semibold transition disabled:opacity-50";
+
+const KM_PER_MILE = 1.609344;
+const DEFAULT_CAPACITY = 12;
+
+const repository = createHttpRepository();
+
+/** The value a `datetime-local` input shows for `at`, in the browser's zone. */
+const toLocalInput = (at: number) =>
+  new Date(at - new Date(at).getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 16);
+
+/** Tomorrow at 7:00, a usual time to meet for a run. */
+const defaultStart = () => {
+  const start = new Date();
+  start.setDate(start.getDate() + 1);
+  start.setHours(7, 0, 0, 0);
+  return toLocalInput(start.getTime());
+};
+
+// The pace field speaks the user's units; the server keeps min/km.
+const paceDraftOf = (minPerKm: number, units: Units) =>
+  formatPace(units === "imperial" ? minPerKm * KM_PER_MILE : minPerKm);
+const paceFromDraft = (draft: string, units: Units) => {
+  const pace = parsePace(draft);
+  if (pace === null) return null;
+  return units === "imperial" ? pace / KM_PER_MILE : pace;
+};
+
+const meetingPointAt = (
+  route: RouteOption,
+  index: number,
+  label: string,
+): MeetingPoint => ({
+  lng: route.path[index].lng,
+  lat: route.path[index].lat,
+  label: label.trim(),
+});
+
+type Move = { runId: string; start: string; stop: number; label: string };
+
+export default function RunsPage() {
+  const router = useRouter();
+  const [me, setMe] = useState<UserProfile | null>(null);
+  const [runs, setRuns] = useState<GroupRun[] | null>(null);
+  const [routes, setRoutes] = useState<RouteOption[]>([]);
+  const [composing, setComposing] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [routeId, setRouteId] = useState("");
+  const [stopDraft, setStopDraft] = useState(0);
+  const [meetingDraft, setMeetingDraft] = useState("");
+  const [startDraft, setStartDraft] = useState(defaultStart);
+  const [paceDraft, setPaceDraft] = useState("");
+  const [capacityDraft, setCapacityDraft] = useState(DEFAULT_CAPACITY);
+  const [moving, setMoving] = useState<Move | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(async (user) => {
+        if (!user) {
+          router.replace("/login");
+          return;
+        }
+        setMe(user);
+        const [saved, mine] = await Promise.all([
+          repository.routes.list(),
+          fetchGroupRuns(),
+        ]);
+        setRoutes(saved);
+        setRuns(mine);
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+  }, [router]);
+
+  // Changes made by the organiser or other attendees, as they happen.
+  const meId = me?.id;
+  useEffect(() => {
+    if (!meId) return;
+    return subscribeToGroupRuns((event) => {
+      if (event.type !== "updated") return;
+      const { run } = event;
+      setRuns((prev) => {
+        if (!prev) return prev;
+        const rest = prev.filter((r) => r.id !== run.id);
+        if (!isAttending(run, meId)) return rest;
+        return [...rest, run].sort((a, b) => a.startsAt - b.startsAt);
+      });
+    });
+  }, [meId]);
+
+  // Runs turn live, and stop being so, while the page is open.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!me) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando tus salidas…"}
+      </main>
+    );
+  }
+
+  const units = me.units;
+  const route = routes.find((r) => r.id === routeId) ?? null;
+  const replaceRun = (run: GroupRun) =>
+    setRuns((prev) => prev?.map((r) => (r.id === run.id ? run : r)) ?? prev);
+  const showError = (error: unknown) =>
+    setStatus({ tone: "error", text: failure(error) });
+
+  const pickRoute = (id: string) => {
+    setRouteId(id);
+    setStopDraft(0);
+    const picked = routes.find((r) => r.id === id);
+    if (!picked) return;
+    if (!titleDraft.trim()) setTitleDraft(picked.title);
+    if (!meetingDraft.trim()) setMeetingDraft(routeStops(picked)[0].label);
+    if (!paceDraft.trim()) {
+      setPaceDraft(
+        paceDraftOf(
+          me.targetPaceMinPerKm ?? defaultPaceMinPerKm[picked.mode],
+          units,
+        ),
+      );
+    }
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!route) return;
+    const pace = paceFromDraft(paceDraft, units);
+    if (pace === null) {
+      setStatus({
+        tone: "error",
+        text: "Escribe el ritmo del grupo como 5:30.",
+      });
+      return;
+    }
+    setBusy(true);
+    try {
+      const { savedAt: _, ...input } = toSavedRoute(route);
+      const run = await createGroupRun({
+        title: titleDraft.trim(),
+        route: input,
+        meetingPoint: meetingPointAt(route, stopDraft, meetingDraft),
+        startsAt: new Date(startDraft).getTime(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        paceMinPerKm: pace,
+        capacity: capacityDraft,
+      });
+      setRuns((prev) =>
+        [...(prev ?? []), run].sort((a, b) => a.startsAt - b.startsAt),
+      );
+      setComposing(false);
+      setTitleDraft("");
+      setRouteId("");
+      setMeetingDraft("");
+      setPaceDraft("");
+      setStartDraft(defaultStart());
+      setStatus({
+        tone: "ok",
+        text: "Salida creada. Copia el enlace de invitación y compártelo.",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startMove = (run: GroupRun) => {
+    const runRoute = createRoute(run.route);
+    const stop = routeStops(runRoute).find(
+      ({ index }) =>
+        runRoute.path[index].lng === run.meetingPoint.lng &&
+        runRoute.path[index].lat === run.meetingPoint.lat,
+    );
+    setMoving({
+      runId: run.id,
+      start: toLocalInput(run.startsAt),
+      stop: stop?.index ?? 0,
+      label: run.meetingPoint.label,
+    });
+  };
+
+  const handleMove = async (event: FormEvent, run: GroupRun) => {
+    event.preventDefault();
+    if (!moving) return;
+    setBusy(true);
+    try {
+      const startsAt = new Date(moving.start).getTime();
+      const meetingPoint = meetingPointAt(
+        createRoute(run.route),
+        moving.stop,
+        moving.label,
+      );
+      const moved = await moveGroupRun(run.id, {
+        ...(startsAt === run.startsAt ? {} : { startsAt }),
+        meetingPoint,
+      });
+      replaceRun(moved);
+      setMoving(null);
+      setStatus({
+        tone: "ok",
+        text: "Salida cambiada. Avisamos por correo a quienes van.",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (run: GroupRun) => {
+    if (
+      !window.confirm(`¿Cancelar «${run.title}»? Avisaremos a quienes van.`)
+    ) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await cancelGroupRun(run.id);
+      replaceRun({ ...run, cancelledAt: Date.now() });
+      setStatus({
+        tone: "ok",
+        text: "Salida cancelada. Avisamos por correo a quienes iban.",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLeave = async (run: GroupRun) => {
+    setBusy(true);
+    try {
+      await leaveGroupRun(run.id);
+      setRuns((prev) => prev?.filter((r) => r.id !== run.id) ?? prev);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyInvite = async (run: GroupRun) => {
+    const link = inviteUrl(window.location.origin, run.inviteCode);
+    try {
+      await navigator.clipboard.writeText(link);
+      setStatus({ tone: "ok", text: "Enlace de invitación copiado." });
+    } catch {
+      setStatus({ tone: "ok", text: `Enlace de invitación: ${link}` });
+    }
+  };
+
+  const stopPicker = (
+    stopsOf: RouteOption,
+    value: number,
+    onChange: (index: number) => void,
+  ) => (
+    <label className={labelClass}>
+      Dónde en la ruta
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={fieldClass}
+      >
+        {routeStops(stopsOf).map(({ index, label }) => (
+          <option key={index} value={index}>
+            {index === 0 ? `${label} (inicio)` : label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-3xl">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <div className="mt-3 flex items-center justify-between gap-3">
+          <h1 className="text-xl font-semibold">Salidas en grupo</h1>
+          <button
+            type="button"
+            onClick={() => setComposing((prev) => !prev)}
+            className="rounded-full bg-orange-400/90 px-3 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110"
+          >
+            {composing ? "Cancelar" : "Nueva salida"}
+          </button>
+        </div>
+        {status ? (
+          <p
+            className={`mt-2 text-xs ${status.tone === "ok" ? "text-emerald-200" : "text-red-200"}`}
+          >
+            {status.text}
+          </p>
+        ) : null}
+
+        {composing ? (
+          routes.length ? (
+            <form
+              onSubmit={handleCreate}
+              className="mt-4 flex flex-col gap-3 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-5"
+            >
+              <label className={labelClass}>
+                Ruta
+                <select
+                  required
+                  value={routeId}
+                  onChange={(e) => pickRoute(e.target.value)}
+                  className={fieldClass}
+                >
+                  <option value="">Elige una de tus rutas guardadas</option>
+                  {routes.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {`${r.title} · ${r.distanceKm.toFixed(1)} km`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={labelClass}>
+                Título
+                <input
+                  required
+                  value={titleDraft}
+                  onChange={(e) => setTitleDraft(e.target.value)}
+                  maxLength={MAX_GROUP_RUN_TITLE_LENGTH}
+                  className={fieldClass}
+                />
+              </label>
+              {route ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {stopPicker(route, stopDraft, setStopDraft)}
+                  <label className={labelClass}>
+                    Punto de encuentro
+                    <input
+                      required
+                      value={meetingDraft}
+                      onChange={(e) => setMeetingDraft(e.target.value)}
+                      placeholder="Entrada norte del parque"
+                      maxLength={MAX_MEETING_POINT_LENGTH}
+                      className={fieldClass}
+                    />
+                  </label>
+                </div>
+              ) : null}
+              <div className="grid gap-3 sm:grid-cols-3">
+                <label className={labelClass}>
+                  Salida
+                  <input
+                    required
+                    type="datetime-local"
+                    value={startDraft}
+                    onChange={(e) => setStartDraft(e.target.value)}
+                    className={fieldClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  {`Ritmo del grupo (min/${units === "imperial" ? "mi" : "km"})`}
+                  <input
+                    required
+                    value={paceDraft}
+                    onChange={(e) => setPaceDraft(e.target.value)}
+                    placeholder="5:30"
+                    inputMode="decimal"
+                    className={fieldClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  Plazas
+                  <input
+                    required
+                    type="number"
+                    min={2}
+                    max={MAX_GROUP_RUN_CAPACITY}
+                    value={capacityDraft}
+                    onChange={(e) => setCapacityDraft(Number(e.target.value))}
+                    className={fieldClass}
+                  />
+                </label>
+              </div>
+              <button
+                type="submit"
+                disabled={busy || !route}
+                className="self-end rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50"
+              >
+                Crear salida
+              </button>
+            </form>
+          ) : (
+            <p className="mt-4 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-5 text-xs text-slate-400">
+              Guarda primero una ruta en el mapa: cada salida sigue una de tus
+              rutas.
+            </p>
+          )
+        ) : null}
+
+        <div className="mt-6 flex flex-col gap-4">
+          {!runs ? (
+            <p className="text-xs text-slate-400">Cargando salidas…</p>
+          ) : runs.length ? (
+            runs.map((run) => {
+              const organizing = run.organizer.id === me.id;
+              const open = run.cancelledAt === null && run.startsAt > now;
+              return (
+                <GroupRunSummary
+                  key={run.id}
+                  run={run}
+                  units={units}
+                  onError={showError}
+                >
+                  {isLive(run, now) ? (
+                    <Link
+                      href="/plan"
+                      className="font-semibold text-emerald-200 transition hover:text-emerald-100"
+                    >
+                      Hoy: seguir al grupo en el mapa →
+                    </Link>
+                  ) : null}
+                  {organizing && open ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleCopyInvite(run)}
+                        className={`${actionClass} text-sky-200 hover:text-sky-100`}
+                      >
+                        Copiar invitación
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          moving?.runId === run.id
+                            ? setMoving(null)
+                            : startMove(run)
+                        }
+                        className={`${actionClass} text-slate-300 hover:text-slate-100`}
+                      >
+                        {moving?.runId === run.id ? "No cambiar" : "Cambiar"}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => handleCancel(run)}
+                        className={`${actionClass} text-red-200 hover:text-red-100`}
+                      >
+                        Cancelar salida
+                      </button>
+                    </>
+                  ) : null}
+                  {!organizing && open ? (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => handleLeave(run)}
+                      className={`${actionClass} text-slate-300 hover:text-slate-100`}
+                    >
+                      No voy a ir
+                    </button>
+                  ) : null}
+                  {moving?.runId === run.id ? (
+                    <form
+                      onSubmit={(e) => handleMove(e, run)}
+                      className="mt-1 grid w-full gap-3 rounded-2xl border border-white/10 p-4 sm:grid-cols-3"
+                    >
+                      <label className={labelClass}>
+                        Salida
+                        <input
+                          required
+                          type="datetime-local"
+                          value={moving.start}
+                          onChange={(e) =>
+                            setMoving({ ...moving, start: e.target.value })
+                          }
+                          className={fieldClass}
+                        />
+                      </label>
+                      {stopPicker(createRoute(run.route), moving.stop, (stop) =>
+                        setMoving({ ...moving, stop }),
+                      )}
+                      <label className={labelClass}>
+                        Punto de encuentro
+                        <input
+                          required
+                          value={moving.label}
+                          onChange={(e) =>
+                            setMoving({ ...moving, label: e.target.value })
+                          }
+                          maxLength={MAX_MEETING_POINT_LENGTH}
+                          className={fieldClass}
+                        />
+                      </label>
+                      <button
+                        type="submit"
+                        disabled={busy}
+                        className="rounded-full bg-orange-400/90 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-50 sm:col-span-3 sm:justify-self-end"
+                      >
+                        Guardar y avisar
+                      </button>
+                    </form>
+                  ) : null}
+                </GroupRunSummary>
+              );
+            })
+          ) : (
+            <p className="text-xs text-slate-400">
+              No tienes salidas. Crea una, o abre el enlace de invitación que te
+              hayan pasado.
+            </p>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function failure(error: unknown): string {
+  if (error instanceof ApiRequestError || error instanceof StorageError) {
+    return error.message;
+  }
+  console.error("Group runs failed", error);
+  return "No se pudo completar la acción.";
+}
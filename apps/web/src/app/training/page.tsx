@@ -0,0 +1,448 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useEffect, useState } from "react";
+import { fetchSession } from "@/lib/auth/client";
+import { defaultPaceMinPerKm, formatPace, parsePace } from "@/lib/eta";
+import { StorageError } from "@/lib/storage/errors";
+import { createHttpRepository } from "@/lib/storage/http";
+import {
+  ACTIVE_ROUTINE_ID,
+  createBrowserRepository,
+} from "@/lib/storage/repository";
+import type { PlanRepository, Units } from "@/lib/storage/types";
+import { TrainingPlanError } from "@/lib/training/errors";
+import {
+  generatePlan,
+  goalMeta,
+  phaseLabel,
+  sessionOn,
+  todayIso,
+  weekdayOfIso,
+} from "@/lib/training/plan";
+import type {
+  PaceZones,
+  PlannedSession,
+  RaceGoal,
+  SessionKind,
+  TrainingPlan,
+  Weekday,
+} from "@/lib/training/types";
+import {
+  paceText,
+  zonesFromEasyPace,
+  zonesFromRace,
+} from "@/lib/training/zones";
+
+const WEEKDAYS: { day: Weekday; short: string; name: string }[] = [
+  { day: 0, short: "L", name: "Lunes" },
+  { day: 1, short: "M", name: "Martes" },
+  { day: 2, short: "X", name: "Miércoles" },
+  { day: 3, short: "J", name: "Jueves" },
+  { day: 4, short: "V", name: "Viernes" },
+  { day: 5, short: "S", name: "Sábado" },
+  { day: 6, short: "D", name: "Domingo" },
+];
+
+const kindClass: Record<SessionKind, string> = {
+  rest: "bg-white/5 text-slate-400",
+  easy: "bg-emerald-400/15 text-emerald-100",
+  long: "bg-sky-400/15 text-sky-100",
+  tempo: "bg-orange-400/20 text-orange-50",
+  intervals: "bg-red-400/20 text-red-50",
+  hills: "bg-amber-400/20 text-amber-50",
+  race: "bg-orange-500 text-[#0b0f1a]",
+};
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0b1222] px-3 py-2 text-sm text-slate-50 outline-none transition focus:border-orange-400/60";
+
+// Twelve weeks out is a sensible first guess for most goals.
+const defaultRaceDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 12 * 7);
+  return todayIso(date);
+};
+
+const shortDate = (iso: string) =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString("es", {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+
+export default function TrainingPage() {
+  const router = useRouter();
+  const [repository, setRepository] = useState<PlanRepository | null>(null);
+  const [plan, setPlan] = useState<TrainingPlan | null>(null);
+  const [goal, setGoal] = useState<RaceGoal>("10k");
+  const [raceDate, setRaceDate] = useState(defaultRaceDate);
+  const [weeklyKm, setWeeklyKm] = useState("20");
+  const [days, setDays] = useState<Weekday[]>([1, 3, 5, 6]);
+  const [longRunDay, setLongRunDay] = useState<Weekday>(6);
+  const [paceDraft, setPaceDraft] = useState(
+    formatPace(defaultPaceMinPerKm.jog),
+  );
+  // A recent race on the profile beats the comfortable-pace estimate.
+  const [raceZones, setRaceZones] = useState<PaceZones | null>(null);
+  const [units, setUnits] = useState<Units>("metric");
+  const [selected, setSelected] = useState<PlannedSession | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{
+    tone: "ok" | "error";
+    text: string;
+  } | null>(null);
+  const today = todayIso();
+
+  // Signed-in users keep the plan in their account, like `/plan` does.
+  useEffect(() => {
+    fetchSession()
+      .catch(() => null)
+      .then(async (user) => {
+        const repo = user ? createHttpRepository() : createBrowserRepository();
+        if (user?.targetPaceMinPerKm) {
+          setPaceDraft(formatPace(user.targetPaceMinPerKm));
+        }
+        if (user) {
+          setUnits(user.units);
+          setRaceZones(user.recentRace ? zonesFromRace(user.recentRace) : null);
+        }
+        setRepository(repo);
+        const saved = await repo.training.get();
+        if (!saved) return;
+        setPlan(saved);
+        setGoal(saved.goal);
+        setRaceDate(saved.raceDate);
+        setWeeklyKm(String(saved.weeklyKm));
+        setDays(saved.days);
+        if (saved.longRunDay !== undefined) setLongRunDay(saved.longRunDay);
+        setPaceDraft(formatPace(saved.zones.easy));
+      })
+      .catch((error) => setStatus({ tone: "error", text: failure(error) }));
+  }, []);
+
+  if (!repository) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-[#050915] text-sm text-slate-400">
+        {status?.text ?? "Cargando tu plan…"}
+      </main>
+    );
+  }
+
+  const toggleDay = (day: Weekday) =>
+    setDays((prev) =>
+      prev.includes(day)
+        ? prev.filter((d) => d !== day)
+        : [...prev, day].sort((a, b) => a - b),
+    );
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const easy = parsePace(paceDraft);
+    if (!raceZones && easy === null) {
+      setStatus({
+        tone: "error",
+        text: "Escribe el ritmo como 6:30 (minutos por km).",
+      });
+      return;
+    }
+    setBusy(true);
+    try {
+      const next = generatePlan({
+        goal,
+        raceDate,
+        weeklyKm: Number(weeklyKm.replace(",", ".")),
+        days,
+        longRunDay: days.includes(longRunDay) ? longRunDay : undefined,
+        zones: raceZones ?? zonesFromEasyPace(easy ?? defaultPaceMinPerKm.jog),
+        units,
+      });
+      await repository.training.save(next);
+      setPlan(next);
+      setSelected(null);
+      setStatus({
+        tone: "ok",
+        text: `Plan de ${next.weeks.length} semanas guardado.`,
+      });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUse = async (session: PlannedSession) => {
+    try {
+      await repository.routines.save(ACTIVE_ROUTINE_ID, session.items);
+      router.push("/plan");
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await repository.training.clear();
+      setPlan(null);
+      setSelected(null);
+      setStatus({ tone: "ok", text: "Plan borrado." });
+    } catch (error) {
+      setStatus({ tone: "error", text: failure(error) });
+    }
+  };
+
+  const focus = selected ?? (plan ? sessionOn(plan, today) : null);
+
+  return (
+    <main className="flex min-h-screen justify-center bg-[#050915] px-4 py-10 text-slate-100">
+      <div className="w-full max-w-3xl">
+        <Link
+          href="/plan"
+          className="text-xs text-slate-400 transition hover:text-slate-200"
+        >
+          ← Volver al mapa
+        </Link>
+        <h1 className="mt-3 text-xl font-semibold">Plan de entrenamiento</h1>
+        <p className="text-xs text-slate-400">
+          Semanas de base, construcción, pico y descarga hasta el día de la
+          carrera, con ritmos sacados de tu última carrera o de tu ritmo cómodo.
+        </p>
+
+        <form
+          onSubmit={handleSubmit}
+          className="mt-6 flex flex-col gap-4 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-6"
+        >
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Objetivo
+              <select
+                value={goal}
+                onChange={(e) => setGoal(e.target.value as RaceGoal)}
+                className={fieldClass}
+              >
+                {Object.entries(goalMeta).map(([value, meta]) => (
+                  <option key={value} value={value}>
+                    {meta.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Fecha de la carrera
+              <input
+                type="date"
+                required
+                min={today}
+                value={raceDate}
+                onChange={(e) => setRaceDate(e.target.value)}
+                className={fieldClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Km por semana ahora
+              <input
+                required
+                inputMode="decimal"
+                value={weeklyKm}
+                onChange={(e) => setWeeklyKm(e.target.value)}
+                className={fieldClass}
+              />
+            </label>
+            {raceZones ? (
+              <div className="flex flex-col gap-1 text-xs text-slate-300">
+                Ritmos
+                <p className="py-2 text-sm text-slate-100">
+                  Suave {paceText(raceZones.easy, units)}
+                </p>
+                <Link
+                  href="/profile"
+                  className="text-[11px] text-orange-200 hover:text-orange-100"
+                >
+                  De tu carrera reciente →
+                </Link>
+              </div>
+            ) : (
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Ritmo cómodo (min/km)
+                <input
+                  required
+                  inputMode="decimal"
+                  value={paceDraft}
+                  onChange={(e) => setPaceDraft(e.target.value)}
+                  placeholder="6:30"
+                  className={fieldClass}
+                />
+              </label>
+            )}
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            <fieldset className="flex flex-col gap-1 text-xs text-slate-300">
+              <legend className="mb-1">Días que puedes entrenar</legend>
+              <div className="flex gap-1">
+                {WEEKDAYS.map(({ day, short, name }) => (
+                  <button
+                    key={day}
+                    type="button"
+                    title={name}
+                    aria-pressed={days.includes(day)}
+                    onClick={() => toggleDay(day)}
+                    className={`h-8 w-8 rounded-full text-xs font-semibold transition ${
+                      days.includes(day)
+                        ? "bg-orange-400/25 text-orange-50"
+                        : "bg-white/5 text-slate-400 hover:bg-white/10"
+                    }`}
+                  >
+                    {short}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              Tirada larga
+              <select
+                value={
+                  days.includes(longRunDay) ? longRunDay : days[days.length - 1]
+                }
+                onChange={(e) =>
+                  setLongRunDay(Number(e.target.value) as Weekday)
+                }
+                className={fieldClass}
+              >
+                {WEEKDAYS.filter(({ day }) => days.includes(day)).map(
+                  ({ day, name }) => (
+                    <option key={day} value={day}>
+                      {name}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+          </div>
+          {status ? (
+            <p
+              aria-live="polite"
+              className={`text-xs ${status.tone === "ok" ? "text-emerald-300" : "text-red-300"}`}
+            >
+              {status.text}
+            </p>
+          ) : null}
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-full bg-orange-500 px-4 py-2 text-sm font-semibold text-[#0b0f1a] transition hover:brightness-110 disabled:opacity-60"
+            >
+              {plan ? "Rehacer plan" : "Crear plan"}
+            </button>
+            {plan ? (
+              <button
+                type="button"
+                onClick={handleClear}
+                className="ml-auto rounded-full px-4 py-2 text-sm font-semibold text-slate-300 transition hover:bg-white/10"
+              >
+                Borrar plan
+              </button>
+            ) : null}
+          </div>
+        </form>
+
+        {plan ? (
+          <section className="mt-6 flex flex-col gap-4">
+            {focus ? (
+              <div className="rounded-3xl border border-orange-400/30 bg-[#0a0f1f]/95 p-5">
+                <div className="flex items-center gap-2">
+                  <p className="text-xs uppercase tracking-[0.2em] text-orange-100/80">
+                    {focus.date === today ? "Hoy" : shortDate(focus.date)}
+                  </p>
+                  <p className="text-sm font-semibold">{focus.title}</p>
+                  {focus.distanceKm ? (
+                    <span className="text-xs text-slate-400">
+                      {focus.distanceKm} km
+                    </span>
+                  ) : null}
+                </div>
+                <ul className="mt-2 flex flex-col gap-1 text-xs text-slate-200">
+                  {focus.items.map((item) => (
+                    <li key={item.step}>
+                      <span className="text-orange-100/90">{item.step}:</span>{" "}
+                      {item.detail}
+                    </li>
+                  ))}
+                </ul>
+                {focus.kind !== "rest" ? (
+                  <button
+                    type="button"
+                    onClick={() => handleUse(focus)}
+                    className="mt-3 rounded-full bg-orange-500 px-4 py-2 text-xs font-semibold text-[#0b0f1a] transition hover:brightness-110"
+                  >
+                    Usar en el mapa
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
+
+            {plan.weeks.map((week) => (
+              <div
+                key={week.index}
+                className="rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-4"
+              >
+                <div className="flex items-baseline gap-2 text-xs">
+                  <p className="font-semibold text-slate-100">
+                    Semana {week.index}
+                  </p>
+                  <p className="text-orange-100/80">{phaseLabel[week.phase]}</p>
+                  <p className="ml-auto text-slate-400">
+                    {shortDate(week.startDate)} · {week.distanceKm} km
+                  </p>
+                </div>
+                <div className="mt-3 grid grid-cols-7 gap-1">
+                  {WEEKDAYS.map(({ day, short }) => {
+                    const session = week.sessions.find(
+                      (s) => weekdayOfIso(s.date) === day,
+                    );
+                    if (!session) {
+                      return (
+                        <div
+                          key={day}
+                          className="rounded-xl px-1 py-2 text-center text-[11px] text-slate-600"
+                        >
+                          {short}
+                        </div>
+                      );
+                    }
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => setSelected(session)}
+                        aria-pressed={focus?.date === session.date}
+                        className={`flex flex-col items-center rounded-xl px-1 py-2 text-[11px] transition hover:brightness-125 ${kindClass[session.kind]} ${
+                          session.date === today ? "ring-1 ring-orange-300" : ""
+                        }`}
+                      >
+                        <span className="font-semibold">{short}</span>
+                        <span className="truncate">{session.title}</span>
+                        {session.distanceKm ? (
+                          <span>{session.distanceKm} km</span>
+                        ) : null}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
+
+function failure(error: unknown): string {
+  if (error instanceof TrainingPlanError || error instanceof StorageError) {
+    return error.message;
+  }
+  console.error("Training plan failed", error);
+  return "No se pudo guardar el plan.";
+}
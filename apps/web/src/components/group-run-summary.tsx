@@ -0,0 +1,83 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { RouteCard } from "@/components/route-card";
+import { downloadFile, slugify } from "@/lib/download";
+import { formatStart, inviteUrl } from "@/lib/group-runs/group-runs";
+import { groupRunIcs } from "@/lib/group-runs/ics";
+import type { GroupRun } from "@/lib/group-runs/types";
+import type { Units } from "@/lib/storage/types";
+import { paceText } from "@/lib/training/zones";
+
+/**
+ * A group run as attendees and invitees see it: when and where, the pace
+ * group, who is going, its route and a calendar file. `children` holds the
+ * actions the page offers.
+ */
+export function GroupRunSummary({
+  run,
+  units,
+  onError,
+  children,
+}: {
+  run: GroupRun;
+  units: Units;
+  onError: (error: unknown) => void;
+  children?: ReactNode;
+}) {
+  const handleCalendar = () =>
+    downloadFile(
+      `${slugify(run.title)}.ics`,
+      groupRunIcs(run, {
+        url: inviteUrl(window.location.origin, run.inviteCode),
+      }),
+      "text/calendar",
+    );
+
+  return (
+    <article className="flex flex-col gap-3 rounded-3xl border border-white/10 bg-[#0a0f1f]/95 p-5">
+      <div>
+        <h2
+          className={`text-lg font-semibold ${run.cancelledAt === null ? "" : "text-slate-400 line-through"}`}
+        >
+          {run.title}
+        </h2>
+        {run.cancelledAt === null ? null : (
+          <p className="text-xs font-semibold text-red-200">Cancelada</p>
+        )}
+        <p className="text-xs capitalize text-slate-300">{formatStart(run)}</p>
+      </div>
+      <dl className="grid grid-cols-2 gap-2 text-xs">
+        {[
+          ["Punto de encuentro", run.meetingPoint.label],
+          ["Grupo de ritmo", paceText(run.paceMinPerKm, units)],
+          ["Organiza", run.organizer.displayName],
+          ["Plazas", `${run.attendees.length} de ${run.capacity}`],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-xl bg-white/5 px-3 py-2">
+            <dt className="text-[10px] uppercase tracking-wide text-slate-400">
+              {label}
+            </dt>
+            <dd className="font-semibold text-slate-50">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-[11px] text-slate-400">
+        {`Van: ${run.attendees.map((attendee) => attendee.displayName).join(", ")}`}
+      </p>
+      <RouteCard route={run.route} onError={onError} />
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        {run.cancelledAt === null ? (
+          <button
+            type="button"
+            onClick={handleCalendar}
+            className="font-semibold text-orange-200 transition hover:text-orange-100"
+          >
+            Añadir al calendario (.ics)
+          </button>
+        ) : null}
+        {children}
+      </div>
+    </article>
+  );
+}
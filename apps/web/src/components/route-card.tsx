@@ -0,0 +1,55 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { modeMeta } from "@/lib/modes";
+import { createRoute, type RouteInput } from "@/lib/route/model";
+import { createHttpRepository } from "@/lib/storage/http";
+
+const repository = createHttpRepository();
+
+/**
+ * A route shared in a message or a post. Opening it adds it to the user's
+ * saved routes and makes it the active one on the map.
+ */
+export function RouteCard({
+  route,
+  onError,
+}: {
+  route: RouteInput;
+  onError: (error: unknown) => void;
+}) {
+  const router = useRouter();
+  const { distanceKm } = createRoute(route);
+
+  const handleOpen = async () => {
+    try {
+      const saved = createRoute(route);
+      await repository.routes.save(saved);
+      await repository.preferences.update({
+        mode: saved.mode,
+        activeRouteId: saved.id,
+      });
+      router.push("/plan");
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-2xl border border-white/10 bg-[#0b1222] px-3 py-2">
+      <div className="min-w-0">
+        <p className="truncate text-sm font-semibold text-slate-100">
+          {route.title}
+        </p>
+        <p className="text-[11px] text-slate-400">{`${modeMeta[route.mode].label} · ${distanceKm.toFixed(1)} km`}</p>
+      </div>
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="shrink-0 rounded-full bg-white/10 px-3 py-1 text-[11px] font-semibold text-orange-100 transition hover:bg-white/15"
+      >
+        Abrir en el mapa
+      </button>
+    </div>
+  );
+}
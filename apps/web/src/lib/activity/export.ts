@@ -0,0 +1,119 @@
+import { haversineKm } from "@/lib/route/geo";
+import { escapeXml } from "@/lib/route/xml";
+import type { Activity, TrackPoint } from "./recorder";
+
+export type ActivityExportFormat = "gpx" | "tcx";
+
+const iso = (time: number) => new Date(time).toISOString();
+
+const eleTag = (tag: string, ele?: number) =>
+  ele === undefined ? "" : `<${tag}>${ele.toFixed(1)}</${tag}>`;
+
+/** GPX 1.1 with timestamps; each recording segment becomes a <trkseg>. */
+export function activityToGpx(activity: Activity): string {
+  const name = escapeXml(activity.title);
+  const segments = activity.segments.flatMap((segment) => [
+    "    <trkseg>",
+    ...segment.map(
+      (point) =>
+        `      <trkpt lat="${point.lat.toFixed(6)}" lon="${point.lng.toFixed(6)}">${eleTag("ele", point.ele)}<time>${iso(point.time)}</time></trkpt>`,
+    ),
+    "    </trkseg>",
+  ]);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="HikeUp" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    `  <metadata><name>${name}</name><time>${iso(activity.startedAt)}</time></metadata>`,
+    "  <trk>",
+    `    <name>${name}</name>`,
+    `    <type>${activity.mode}</type>`,
+    ...segments,
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+// TCX only knows a few sports; everything on foot that is not a run is Other.
+const tcxSport = (activity: Activity) =>
+  activity.mode === "run" || activity.mode === "jog" ? "Running" : "Other";
+
+/**
+ * Garmin TCX v2: one lap per recording segment, with cumulative distance on
+ * every trackpoint so importers do not have to recompute it.
+ */
+export function activityToTcx(activity: Activity): string {
+  let distanceM = 0;
+  let previous: TrackPoint | undefined;
+  const laps = activity.segments.map((segment) => {
+    const lapStartM = distanceM;
+    const trackpoints = segment.map((point, idx) => {
+      if (previous && idx > 0) distanceM += haversineKm(previous, point) * 1000;
+      previous = point;
+      return [
+        "          <Trackpoint>",
+        `            <Time>${iso(point.time)}</Time>`,
+        `            <Position><LatitudeDegrees>${point.lat.toFixed(6)}</LatitudeDegrees><LongitudeDegrees>${point.lng.toFixed(6)}</LongitudeDegrees></Position>`,
+        point.ele === undefined
+          ? ""
+          : `            ${eleTag("AltitudeMeters", point.ele)}`,
+        `            <DistanceMeters>${distanceM.toFixed(1)}</DistanceMeters>`,
+        "          </Trackpoint>",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    });
+    const first = segment[0];
+    const last = segment[segment.length - 1];
+    return [
+      `      <Lap StartTime="${iso(first.time)}">`,
+      `        <TotalTimeSeconds>${((last.time - first.time) / 1000).toFixed(0)}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${(distanceM - lapStartM).toFixed(1)}</DistanceMeters>`,
+      "        <Calories>0</Calories>",
+      "        <Intensity>Active</Intensity>",
+      "        <TriggerMethod>Manual</TriggerMethod>",
+      "        <Track>",
+      ...trackpoints,
+      "        </Track>",
+      "      </Lap>",
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">`,
+    "  <Activities>",
+    `    <Activity Sport="${tcxSport(activity)}">`,
+    `      <Id>${iso(activity.startedAt)}</Id>`,
+    ...laps,
+    `      <Notes>${escapeXml(activity.title)}</Notes>`,
+    "    </Activity>",
+    "  </Activities>",
+    "</TrainingCenterDatabase>",
+    "",
+  ].join("\n");
+}
+
+export const activityExporters: Record<
+  ActivityExportFormat,
+  {
+    label: string;
+    extension: string;
+    mime: string;
+    serialize: (activity: Activity) => string;
+  }
+> = {
+  gpx: {
+    label: "GPX",
+    extension: "gpx",
+    mime: "application/gpx+xml",
+    serialize: activityToGpx,
+  },
+  tcx: {
+    label: "TCX",
+    extension: "tcx",
+    mime: "application/vnd.garmin.tcx+xml",
+    serialize: activityToTcx,
+  },
+};
@@ -0,0 +1,275 @@
+import { type ClimbStats, climbStats } from "@/lib/elevation/profile";
+import type { PositionFix } from "@/lib/location/source";
+import type { Mode } from "@/lib/modes";
+import { computeBounds, haversineKm, type RouteBounds } from "@/lib/route/geo";
+import type { RouteVertex } from "@/lib/route/model";
+
+export type TrackPoint = RouteVertex & { time: number; accuracyM: number };
+
+export type RecordingStatus = "recording" | "paused" | "auto-paused";
+
+/**
+ * An activity in progress. Plain data, so it can be written to storage after
+ * every fix and picked up again after a reload.
+ */
+export type Recording = {
+  id: string;
+  mode: Mode;
+  startedAt: number;
+  status: RecordingStatus;
+  /**
+   * Track pieces with no pause inside them. Every resume, manual or after an
+   * auto-pause, opens a new segment.
+   */
+  segments: TrackPoint[][];
+  distanceKm: number;
+  movingMs: number;
+  /** Time of the last fix that passed the accuracy filter. */
+  lastFixAt: number | null;
+};
+
+export type RecordingStats = {
+  distanceKm: number;
+  movingMs: number;
+  elapsedMs: number;
+  /** Over the last `CURRENT_PACE_WINDOW_MS`; null while stopped. */
+  currentPaceMinPerKm: number | null;
+  averagePaceMinPerKm: number | null;
+};
+
+export type ActivitySplit = {
+  /** 1-based kilometre number; the last split may be shorter than 1 km. */
+  km: number;
+  distanceKm: number;
+  minutes: number;
+  paceMinPerKm: number;
+};
+
+export type Activity = {
+  id: string;
+  title: string;
+  mode: Mode;
+  startedAt: number;
+  endedAt: number;
+  distanceKm: number;
+  movingMs: number;
+  elapsedMs: number;
+  climb: ClimbStats | null;
+  bounds: RouteBounds;
+  segments: TrackPoint[][];
+  splits: ActivitySplit[];
+};
+
+// Fixes vaguer than this are dropped outright.
+const MAX_ACCURACY_M = 35;
+// Anything faster is a GPS jump, not the user.
+const MAX_SPEED_MPS = 12;
+// A fix must move at least this far (or half its accuracy) to count.
+const MIN_STEP_M = 4;
+// Standing still this long pauses the clock.
+export const AUTO_PAUSE_MS = 10_000;
+// Slower than this over the whole wait counts as standing still; a steep
+// climb is slow, but not this slow.
+const STILL_SPEED_MPS = 0.25;
+const CURRENT_PACE_WINDOW_MS = 30_000;
+// Below this much track the activity is not worth keeping.
+const MIN_ACTIVITY_KM = 0.05;
+
+const lastOf = <T>(items: T[]): T | undefined => items[items.length - 1];
+
+export function startRecording(mode: Mode, now = Date.now()): Recording {
+  return {
+    id: `activity-${now}`,
+    mode,
+    startedAt: now,
+    status: "recording",
+    segments: [[]],
+    distanceKm: 0,
+    movingMs: 0,
+    lastFixAt: null,
+  };
+}
+
+export function pauseRecording(recording: Recording): Recording {
+  return { ...recording, status: "paused" };
+}
+
+export function resumeRecording(recording: Recording): Recording {
+  if (recording.status !== "paused") return recording;
+  return {
+    ...recording,
+    status: "recording",
+    segments: [...recording.segments, []],
+  };
+}
+
+const toPoint = (fix: PositionFix): TrackPoint => {
+  const point: TrackPoint = {
+    lng: fix.lng,
+    lat: fix.lat,
+    time: fix.timestamp,
+    accuracyM: fix.accuracyM,
+  };
+  if (fix.altitudeM !== undefined) point.ele = fix.altitudeM;
+  return point;
+};
+
+/**
+ * Folds one GPS fix into the recording. Inaccurate fixes and jumps are
+ * dropped; fixes that do not move past the noise floor add no distance.
+ * When the last point is at least `AUTO_PAUSE_MS` old and the user has not
+ * made `STILL_SPEED_MPS` since, they are standing still and the clock pauses
+ * until they move. Slow progress keeps recording: it passes the noise floor
+ * a few fixes later.
+ */
+export function addFix(recording: Recording, fix: PositionFix): Recording {
+  if (recording.status === "paused") return recording;
+  if (fix.accuracyM > MAX_ACCURACY_M) return recording;
+
+  const segments = recording.segments;
+  const segment = lastOf(segments) ?? [];
+  const prev = lastOf(segment);
+  if (!prev) {
+    return {
+      ...recording,
+      segments: [...segments.slice(0, -1), [toPoint(fix)]],
+      lastFixAt: fix.timestamp,
+    };
+  }
+
+  const dtMs = fix.timestamp - prev.time;
+  if (dtMs <= 0) return recording;
+  const stepM = haversineKm(prev, fix) * 1000;
+  if (stepM / (dtMs / 1000) > MAX_SPEED_MPS) return recording;
+
+  if (stepM < Math.max(MIN_STEP_M, fix.accuracyM / 2)) {
+    const still =
+      recording.status === "recording" &&
+      dtMs >= AUTO_PAUSE_MS &&
+      stepM / (dtMs / 1000) < STILL_SPEED_MPS
+        ? "auto-paused"
+        : recording.status;
+    return { ...recording, status: still, lastFixAt: fix.timestamp };
+  }
+
+  const point = toPoint(fix);
+  if (recording.status === "auto-paused") {
+    // Only the last interval was spent moving; restart the segment from
+    // where the user stood at the previous fix.
+    const since = recording.lastFixAt ?? prev.time;
+    return {
+      ...recording,
+      status: "recording",
+      segments: [...segments, [{ ...prev, time: since }, point]],
+      distanceKm: recording.distanceKm + stepM / 1000,
+      movingMs: recording.movingMs + (fix.timestamp - since),
+      lastFixAt: fix.timestamp,
+    };
+  }
+  return {
+    ...recording,
+    segments: [...segments.slice(0, -1), [...segment, point]],
+    distanceKm: recording.distanceKm + stepM / 1000,
+    movingMs: recording.movingMs + dtMs,
+    lastFixAt: fix.timestamp,
+  };
+}
+
+export function recordingStats(
+  recording: Recording,
+  now = Date.now(),
+): RecordingStats {
+  const { distanceKm, movingMs } = recording;
+  let currentPaceMinPerKm: number | null = null;
+  const segment = lastOf(recording.segments) ?? [];
+  const last = lastOf(segment);
+  if (recording.status === "recording" && last) {
+    let km = 0;
+    let first = last;
+    for (let i = segment.length - 1; i > 0; i -= 1) {
+      if (last.time - segment[i - 1].time > CURRENT_PACE_WINDOW_MS) break;
+      km += haversineKm(segment[i - 1], segment[i]);
+      first = segment[i - 1];
+    }
+    if (km > 0.01) currentPaceMinPerKm = (last.time - first.time) / 60_000 / km;
+  }
+  return {
+    distanceKm,
+    movingMs,
+    elapsedMs: Math.max(0, now - recording.startedAt),
+    currentPaceMinPerKm,
+    averagePaceMinPerKm:
+      distanceKm > 0.01 ? movingMs / 60_000 / distanceKm : null,
+  };
+}
+
+/** Per-kilometre moving time; pauses between segments are left out. */
+export function activitySplits(segments: TrackPoint[][]): ActivitySplit[] {
+  const splits: ActivitySplit[] = [];
+  let distanceKm = 0;
+  let minutes = 0;
+  const closeSplit = () => {
+    splits.push({
+      km: splits.length + 1,
+      distanceKm,
+      minutes,
+      paceMinPerKm: minutes / distanceKm,
+    });
+    distanceKm = 0;
+    minutes = 0;
+  };
+  for (const segment of segments) {
+    for (let i = 1; i < segment.length; i += 1) {
+      const km = haversineKm(segment[i - 1], segment[i]);
+      if (km <= 0) continue;
+      const min = (segment[i].time - segment[i - 1].time) / 60_000;
+      let remaining = km;
+      while (remaining > 1e-9) {
+        const take = Math.min(remaining, 1 - distanceKm);
+        distanceKm += take;
+        minutes += min * (take / km);
+        remaining -= take;
+        if (distanceKm >= 1 - 1e-9) closeSplit();
+      }
+    }
+  }
+  if (distanceKm >= 0.01) closeSplit();
+  return splits;
+}
+
+/**
+ * Closes the recording as an activity; null when the track is too short to
+ * be worth keeping. `fill` can add missing elevations (e.g. from the DEM).
+ */
+export function finishRecording(
+  recording: Recording,
+  {
+    title,
+    now = Date.now(),
+    fill = (path) => path,
+  }: {
+    title: string;
+    now?: number;
+    fill?: (path: TrackPoint[]) => TrackPoint[];
+  },
+): Activity | null {
+  const segments = recording.segments
+    .filter((segment) => segment.length >= 2)
+    .map(fill);
+  const points = segments.flat();
+  if (!points.length || recording.distanceKm < MIN_ACTIVITY_KM) return null;
+  return {
+    id: recording.id,
+    title,
+    mode: recording.mode,
+    startedAt: recording.startedAt,
+    endedAt: now,
+    distanceKm: recording.distanceKm,
+    movingMs: recording.movingMs,
+    elapsedMs: now - recording.startedAt,
+    climb: climbStats(points),
+    bounds: computeBounds(points) as RouteBounds,
+    segments,
+    splits: activitySplits(segments),
+  };
+}
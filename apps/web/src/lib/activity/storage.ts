@@ -0,0 +1,30 @@
+import type { Recording } from "./recorder";
+
+// The activity in progress stays in localStorage: it is rewritten on every
+// fix and has to be there synchronously if the tab is closed mid-write.
+// Finished activities go to the plan repository.
+const RECORDING_KEY = "hikeup:recording";
+
+const browserStorage = (): Storage | undefined =>
+  typeof window === "undefined" ? undefined : window.localStorage;
+
+/** The activity being recorded when the page was last open, if any. */
+export function loadRecording(storage = browserStorage()): Recording | null {
+  const raw = storage?.getItem(RECORDING_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as Recording;
+  } catch {
+    // A half-written or foreign value is not worth crashing the page over.
+    storage?.removeItem(RECORDING_KEY);
+    return null;
+  }
+}
+
+export function saveRecording(
+  recording: Recording | null,
+  storage = browserStorage(),
+) {
+  if (recording) storage?.setItem(RECORDING_KEY, JSON.stringify(recording));
+  else storage?.removeItem(RECORDING_KEY);
+}
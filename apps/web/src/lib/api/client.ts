@@ -0,0 +1,71 @@
+import type { ApiErrorBody, ApiErrorCode } from "./types";
+
+/** A failed call to the app's API. The message is user-facing. */
+export class ApiRequestError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode | "offline";
+
+  constructor(
+    status: number,
+    code: ApiErrorCode | "offline",
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export type ApiRequestOptions = {
+  method?: string;
+  body?: unknown;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+};
+
+/**
+ * Calls one of the app's route handlers and returns its JSON, or null for
+ * an empty (204) answer. Error bodies become `ApiRequestError`s.
+ */
+export async function apiRequest<T>(
+  path: string,
+  {
+    method = "GET",
+    body,
+    baseUrl = "/api",
+    fetchImpl = (input, init) => fetch(input, init),
+  }: ApiRequestOptions = {},
+): Promise<T | null> {
+  let response: Response;
+  try {
+    response = await fetchImpl(`${baseUrl}${path}`, {
+      method,
+      ...(body === undefined
+        ? {}
+        : {
+            body: JSON.stringify(body),
+            headers: { "Content-Type": "application/json" },
+          }),
+    });
+  } catch (error) {
+    throw new ApiRequestError(
+      0,
+      "offline",
+      "No hay conexión con el servidor.",
+      { cause: error },
+    );
+  }
+  if (!response.ok) {
+    const data = (await response
+      .json()
+      .catch(() => null)) as ApiErrorBody | null;
+    throw new ApiRequestError(
+      response.status,
+      data?.error.code ?? "internal",
+      data?.error.message ?? `El servidor respondió ${response.status}.`,
+    );
+  }
+  return response.status === 204 ? null : ((await response.json()) as T);
+}
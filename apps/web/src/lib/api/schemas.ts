@@ -0,0 +1,356 @@
+import { z } from "zod";
+import { forumLevels, reactionMeta } from "@/lib/forums/forums";
+import { cities } from "@/lib/geocoding/cities";
+import { modeMeta } from "@/lib/modes";
+
+// Shared with the sign-up form, which checks it before sending.
+export const MIN_PASSWORD_LENGTH = 8;
+// Small groups only, the sender included; shared with the new-chat form.
+export const MAX_CONVERSATION_MEMBERS = 8;
+// Checked by the composer alone: the server only ever sees ciphertext.
+export const MAX_MESSAGE_LENGTH = 2000;
+// Forum limits, shared with the thread and reply composers.
+export const MAX_THREAD_TITLE_LENGTH = 120;
+export const MAX_POST_LENGTH = 5000;
+export const MAX_REPORT_REASON_LENGTH = 300;
+// Group-run limits, shared with the form that creates one.
+export const MAX_GROUP_RUN_TITLE_LENGTH = 120;
+export const MAX_MEETING_POINT_LENGTH = 200;
+export const MAX_GROUP_RUN_CAPACITY = 50;
+
+export const modeSchema = z.enum(
+  Object.keys(modeMeta) as [
+    keyof typeof modeMeta,
+    ...(keyof typeof modeMeta)[],
+  ],
+);
+export const citySchema = z.enum(
+  Object.keys(cities) as [keyof typeof cities, ...(keyof typeof cities)[]],
+);
+
+const unitsSchema = z.enum(["metric", "imperial"]);
+const heartRateSchema = z.number().int().min(80).max(230);
+
+const id = z.string().trim().min(1).max(200);
+const text = (max: number) => z.string().trim().max(max);
+
+const vertexSchema = z.object({
+  lng: z.number().min(-180).max(180),
+  lat: z.number().min(-90).max(90),
+  ele: z.number().optional(),
+});
+
+const boundsSchema = z.object({
+  sw: z.tuple([z.number(), z.number()]),
+  ne: z.tuple([z.number(), z.number()]),
+});
+
+const climbSchema = z.object({
+  ascentM: z.number(),
+  descentM: z.number(),
+  maxGradePct: z.number(),
+  minEleM: z.number(),
+  maxEleM: z.number(),
+});
+
+/** A route as it is stored: its input, never the derived stats. */
+export const routeInputSchema = z.object({
+  id,
+  title: text(200).min(1),
+  mode: modeSchema,
+  safety: text(500),
+  surface: text(200),
+  path: z.array(vertexSchema).min(2).max(50_000),
+  waypoints: z
+    .array(z.object({ index: z.number().int().min(0), label: text(200) }))
+    .max(500)
+    .optional(),
+});
+
+const trackPointSchema = vertexSchema.extend({
+  time: z.number().int(),
+  accuracyM: z.number().min(0),
+});
+
+export const activitySchema = z.object({
+  id,
+  title: text(200).min(1),
+  mode: modeSchema,
+  startedAt: z.number().int(),
+  endedAt: z.number().int(),
+  distanceKm: z.number().min(0),
+  movingMs: z.number().min(0),
+  elapsedMs: z.number().min(0),
+  climb: climbSchema.nullable(),
+  bounds: boundsSchema,
+  segments: z.array(z.array(trackPointSchema)).max(1_000),
+  splits: z.array(
+    z.object({
+      km: z.number().int().min(1),
+      distanceKm: z.number(),
+      minutes: z.number(),
+      paceMinPerKm: z.number(),
+    }),
+  ),
+});
+
+export const preferencesSchema = z.object({
+  mode: modeSchema,
+  mapType: z.enum(["map", "sat"]),
+  activeRouteId: id.nullable(),
+});
+
+export const profilePatchSchema = z
+  .object({
+    displayName: text(80).min(1),
+    city: citySchema.nullable(),
+    units: unitsSchema,
+    language: z.enum(["es", "en"]),
+    defaultMode: modeSchema,
+    targetPaceMinPerKm: z.number().min(2).max(40).nullable(),
+    recentRace: z
+      .object({
+        distanceKm: z.number().min(0.4).max(100),
+        minutes: z.number().positive().max(1_500),
+      })
+      .nullable(),
+    maxHr: heartRateSchema.nullable(),
+    lthr: heartRateSchema.nullable(),
+    preferences: preferencesSchema.partial(),
+  })
+  .partial();
+
+const emailSchema = z.string().trim().toLowerCase().pipe(z.email());
+
+export const signUpSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200),
+  displayName: text(80).min(1).optional(),
+});
+
+export const signInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(200),
+});
+
+export const magicLinkSchema = z.object({ email: emailSchema });
+
+const workoutStepSchema = z.object({
+  type: z.literal("step"),
+  name: text(80).min(1),
+  intensity: z.enum(["warmup", "active", "recovery", "cooldown", "rest"]),
+  goal: z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("time"), seconds: z.number().int().min(1) }),
+    z.object({ kind: z.literal("distance"), meters: z.number().int().min(1) }),
+    z.object({ kind: z.literal("open") }),
+  ]),
+  target: z.discriminatedUnion("kind", [
+    z.object({ kind: z.literal("pace"), minPerKm: z.number().min(2).max(40) }),
+    z.object({
+      kind: z.literal("heart-rate"),
+      minBpm: z.number().int().min(40).max(230),
+      maxBpm: z.number().int().min(40).max(230),
+    }),
+    z.object({ kind: z.literal("open") }),
+  ]),
+});
+
+const routineItemSchema = z.object({
+  step: text(80).min(1),
+  detail: text(300),
+  block: z
+    .discriminatedUnion("type", [
+      workoutStepSchema,
+      z.object({
+        type: z.literal("repeat"),
+        times: z.number().int().min(1).max(50),
+        steps: z.array(workoutStepSchema).min(1).max(10),
+      }),
+    ])
+    .optional(),
+});
+
+export const routineSchema = z.object({
+  items: z.array(routineItemSchema).max(50),
+});
+
+const isoDate = z.iso.date();
+const paceSchema = z.number().min(2).max(40);
+const weekdaySchema = z.literal([0, 1, 2, 3, 4, 5, 6]);
+
+export const trainingPlanSchema = z.object({
+  id,
+  goal: z.enum(["5k", "10k", "half", "trail"]),
+  raceDate: isoDate,
+  startDate: isoDate,
+  weeklyKm: z.number().min(0).max(500),
+  days: z.array(weekdaySchema).min(1).max(7),
+  longRunDay: weekdaySchema.optional(),
+  zones: z.object({
+    easy: paceSchema,
+    marathon: paceSchema,
+    threshold: paceSchema,
+    interval: paceSchema,
+    repetition: paceSchema,
+  }),
+  // Plans saved before paces followed the user's units were metric.
+  units: unitsSchema.default("metric"),
+  weeks: z
+    .array(
+      z.object({
+        index: z.number().int().min(1),
+        phase: z.enum(["base", "build", "peak", "taper"]),
+        startDate: isoDate,
+        distanceKm: z.number().min(0),
+        sessions: z
+          .array(
+            z.object({
+              date: isoDate,
+              kind: z.enum([
+                "rest",
+                "easy",
+                "long",
+                "tempo",
+                "intervals",
+                "hills",
+                "race",
+              ]),
+              title: text(120).min(1),
+              distanceKm: z.number().min(0),
+              items: z.array(routineItemSchema).max(50),
+            }),
+          )
+          .max(7),
+      }),
+    )
+    .max(60),
+  createdAt: z.number().int(),
+});
+
+export const conversationInputSchema = z.object({
+  emails: z
+    .array(emailSchema)
+    .min(1)
+    .max(MAX_CONVERSATION_MEMBERS - 1),
+  title: text(80).min(1).optional(),
+});
+
+const base64 = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .regex(/^[A-Za-z0-9+/]*={0,2}$/);
+const base64url = z
+  .string()
+  .max(100)
+  .regex(/^[A-Za-z0-9_-]+$/);
+
+/** The public half of a device's ECDH P-256 key, as a JWK. */
+const publicKeySchema = z.object({
+  kty: z.literal("EC"),
+  crv: z.literal("P-256"),
+  x: base64url,
+  y: base64url,
+});
+
+export const deviceInputSchema = z.object({
+  label: text(80).min(1),
+  publicKey: publicKeySchema,
+});
+
+export const deviceRevokeSchema = z.object({
+  reason: z.enum(["lost", "rotated"]),
+});
+
+// Room for the longest text plus a long shared route, once encrypted.
+const MAX_CIPHERTEXT_LENGTH = 8_000_000;
+
+/** An end-to-end encrypted message; only its shape can be checked here. */
+export const messageInputSchema = z.object({
+  senderDeviceId: id,
+  envelope: z.object({
+    ciphertext: base64(MAX_CIPHERTEXT_LENGTH).min(1),
+    iv: base64(24).min(1),
+    keys: z.record(
+      id,
+      z.object({ wrapped: base64(200).min(1), iv: base64(24).min(1) }),
+    ),
+  }),
+});
+
+export const forumLevelSchema = z.enum(
+  Object.keys(forumLevels) as [
+    keyof typeof forumLevels,
+    ...(keyof typeof forumLevels)[],
+  ],
+);
+
+export const postInputSchema = z.object({
+  body: text(MAX_POST_LENGTH).min(1),
+  route: routeInputSchema.optional(),
+});
+
+export const threadInputSchema = postInputSchema.extend({
+  city: citySchema,
+  level: forumLevelSchema,
+  title: text(MAX_THREAD_TITLE_LENGTH).min(1),
+});
+
+export const threadPatchSchema = z
+  .object({ pinned: z.boolean(), locked: z.boolean(), hidden: z.boolean() })
+  .partial();
+
+export const postPatchSchema = z.object({ hidden: z.boolean() });
+
+export const reactionSchema = z.object({
+  reaction: z.enum(
+    Object.keys(reactionMeta) as [
+      keyof typeof reactionMeta,
+      ...(keyof typeof reactionMeta)[],
+    ],
+  ),
+});
+
+export const reportSchema = z.object({
+  reason: text(MAX_REPORT_REASON_LENGTH).min(1),
+});
+
+const meetingPointSchema = vertexSchema
+  .omit({ ele: true })
+  .extend({ label: text(MAX_MEETING_POINT_LENGTH).min(1) });
+
+const timeZoneSchema = z
+  .string()
+  .max(64)
+  .refine((zone) => {
+    try {
+      new Intl.DateTimeFormat("es", { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Zona horaria desconocida");
+
+export const groupRunInputSchema = z.object({
+  title: text(MAX_GROUP_RUN_TITLE_LENGTH).min(1),
+  route: routeInputSchema,
+  meetingPoint: meetingPointSchema,
+  startsAt: z.number().int(),
+  timeZone: timeZoneSchema,
+  paceMinPerKm: z.number().min(2).max(40),
+  capacity: z.number().int().min(2).max(MAX_GROUP_RUN_CAPACITY),
+});
+
+export const groupRunChangeSchema = z
+  .object({ startsAt: z.number().int(), meetingPoint: meetingPointSchema })
+  .partial()
+  .refine(
+    (change) => change.startsAt !== undefined || change.meetingPoint,
+    "Nada que cambiar",
+  );
+
+export const rsvpSchema = z.object({ inviteCode: id });
+
+export const positionSchema = vertexSchema
+  .omit({ ele: true })
+  .extend({ accuracyM: z.number().min(0).max(100_000) });
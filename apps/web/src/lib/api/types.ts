@@ -0,0 +1,19 @@
+export type ApiErrorCode =
+  | "bad_request"
+  | "invalid_body"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "internal";
+
+/** Every failed API request answers with this body. */
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Field-level problems, for `invalid_body`. */
+    issues?: { path: string; message: string }[];
+  };
+};
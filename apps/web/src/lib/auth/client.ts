@@ -0,0 +1,50 @@
+import { apiRequest } from "@/lib/api/client";
+import type { ProfilePatch, UserProfile } from "@/lib/storage/types";
+
+// Browser side of the account endpoints. Failures surface as
+// `ApiRequestError`s whose messages can be shown as they are.
+
+/** The signed-in user, or null for visitors. */
+export async function fetchSession(): Promise<UserProfile | null> {
+  const data = await apiRequest<{ user: UserProfile | null }>("/auth/session");
+  return data?.user ?? null;
+}
+
+export async function signUp(input: {
+  email: string;
+  password: string;
+  displayName?: string;
+}): Promise<UserProfile> {
+  const data = await apiRequest<{ user: UserProfile }>("/auth/signup", {
+    method: "POST",
+    body: input,
+  });
+  return (data as { user: UserProfile }).user;
+}
+
+export async function signIn(input: {
+  email: string;
+  password: string;
+}): Promise<UserProfile> {
+  const data = await apiRequest<{ user: UserProfile }>("/auth/signin", {
+    method: "POST",
+    body: input,
+  });
+  return (data as { user: UserProfile }).user;
+}
+
+export async function requestMagicLink(email: string): Promise<void> {
+  await apiRequest("/auth/magic-link", { method: "POST", body: { email } });
+}
+
+export async function signOut(): Promise<void> {
+  await apiRequest("/auth/signout", { method: "POST" });
+}
+
+export async function saveProfile(patch: ProfilePatch): Promise<UserProfile> {
+  const data = await apiRequest<{ profile: UserProfile }>("/profile", {
+    method: "PATCH",
+    body: patch,
+  });
+  return (data as { profile: UserProfile }).profile;
+}
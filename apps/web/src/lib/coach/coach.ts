@@ -0,0 +1,65 @@
+import { CoachError } from "./errors";
+import { createOpenAiProvider } from "./openai";
+import { createRulesProvider } from "./rules";
+import type { CoachProvider } from "./types";
+
+export type CoachConfig = {
+  /** "rules" (the default) or "openai" for an OpenAI-compatible server. */
+  provider?: string;
+  /** API root for "openai"; defaults to a local Ollama. */
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+};
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+
+/**
+ * Answers with `primary` and switches to `fallback` when it fails before
+ * saying anything, e.g. when the model server is down. A failure halfway
+ * through a reply surfaces, so actions are never applied twice.
+ */
+export function withFallback(
+  primary: CoachProvider,
+  fallback: CoachProvider,
+): CoachProvider {
+  return {
+    name: primary.name,
+    async *reply(input) {
+      let started = false;
+      try {
+        for await (const event of primary.reply(input)) {
+          started = true;
+          yield event;
+        }
+      } catch (error) {
+        if (started || !(error instanceof CoachError) || input.signal?.aborted)
+          throw error;
+        console.warn(
+          `${primary.name} unavailable, using ${fallback.name}`,
+          error,
+        );
+        yield* fallback.reply(input);
+      }
+    },
+  };
+}
+
+export function createCoach({
+  provider,
+  baseUrl,
+  model,
+  apiKey,
+}: CoachConfig = {}): CoachProvider {
+  const rules = createRulesProvider();
+  if (provider !== "openai") return rules;
+  return withFallback(
+    createOpenAiProvider({
+      baseUrl: baseUrl || DEFAULT_BASE_URL,
+      model: model || DEFAULT_MODEL,
+      apiKey,
+    }),
+    rules,
+  );
+}
@@ -0,0 +1,7 @@
+/** Raised when a coach provider cannot answer. The message is user-facing. */
+export class CoachError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "CoachError";
+  }
+}
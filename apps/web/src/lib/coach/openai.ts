@@ -0,0 +1,271 @@
+import { z } from "zod";
+import { modeSchema } from "@/lib/api/schemas";
+import { modeMeta } from "@/lib/modes";
+import type { PaceTargets } from "@/lib/training/types";
+import { paceText } from "@/lib/training/zones";
+import { CoachError } from "./errors";
+import { applyAction } from "./pipeline";
+import {
+  buildRoutine,
+  DEFAULT_FOCUS,
+  MAX_DISTANCE_KM,
+  MIN_DISTANCE_KM,
+  roundKm,
+  TRAIL_FOCUS,
+} from "./routines";
+import type { CoachAction, CoachContext, CoachProvider } from "./types";
+
+export type OpenAiOptions = {
+  /** API root of any OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token; leave empty for local servers. */
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+};
+
+type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+type ToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+type StreamChunk = {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+};
+
+// A model that keeps calling tools is cut off after this many rounds.
+const MAX_TOOL_ROUNDS = 3;
+
+const intentSchema = z.enum(["easy", "tempo", "intervals", "trail"]);
+
+const toolSchemas = {
+  createRoute: z.object({
+    mode: modeSchema,
+    distanceKm: z.number().min(MIN_DISTANCE_KM).max(MAX_DISTANCE_KM),
+    intent: intentSchema.optional(),
+    focus: z.string().max(60).optional(),
+    shape: z.enum(["loop", "out-and-back"]).optional(),
+    avoid: z
+      .array(z.enum(["steps", "traffic", "hills", "unlit", "unpaved"]))
+      .optional(),
+  }),
+  setRoutine: z.object({ intent: intentSchema }),
+  setMode: z.object({ mode: modeSchema }),
+};
+
+type ToolName = keyof typeof toolSchemas;
+
+const toolDescriptions: Record<ToolName, string> = {
+  createRoute:
+    "Genera una ruta desde el punto de inicio del usuario y la muestra en el mapa.",
+  setRoutine: "Reemplaza la rutina de entrenamiento del usuario.",
+  setMode: "Cambia el modo de actividad sin generar una ruta.",
+};
+
+const tools = (Object.keys(toolSchemas) as ToolName[]).map((name) => ({
+  type: "function" as const,
+  function: {
+    name,
+    description: toolDescriptions[name],
+    parameters: z.toJSONSchema(toolSchemas[name]),
+  },
+}));
+
+function systemPrompt({ mode, paces }: CoachContext): string {
+  const modes = Object.entries(modeMeta)
+    .map(([id, meta]) => `${id} (${meta.label})`)
+    .join(", ");
+  const lines = [
+    "Eres el coach de HikeUp, una app para planear rutas de carrera, trote, caminata y trail.",
+    "Responde en español, breve y concreto.",
+    `Modos: ${modes}. El usuario está en modo ${mode}.`,
+    "Usa las herramientas para crear rutas, cambiar la rutina o el modo en vez de describirlos.",
+  ];
+  if (paces) {
+    const zone = (pace: number) => paceText(pace, paces.units);
+    lines.push(
+      `Ritmos del usuario: suave ${zone(paces.zones.easy)}, maratón ${zone(paces.zones.marathon)}, umbral ${zone(paces.zones.threshold)}, series ${zone(paces.zones.interval)}, repeticiones ${zone(paces.zones.repetition)}.`,
+    );
+  }
+  return lines.join("\n");
+}
+
+const INVALID_ARGS = "Argumentos no válidos para la herramienta.";
+
+/** Turns validated tool arguments into the action the page applies. */
+function toAction(
+  name: string,
+  args: unknown,
+  paces?: PaceTargets,
+): CoachAction | string {
+  if (name === "createRoute") {
+    const parsed = toolSchemas.createRoute.safeParse(args);
+    if (!parsed.success) return INVALID_ARGS;
+    const { mode, distanceKm, focus, shape, avoid } = parsed.data;
+    const intent = parsed.data.intent ?? (mode === "hike" ? "trail" : "easy");
+    return {
+      type: "create-route",
+      plan: {
+        mode,
+        distanceKm: roundKm(distanceKm),
+        intent,
+        focus: focus || (intent === "trail" ? TRAIL_FOCUS : DEFAULT_FOCUS),
+        shape: shape ?? "loop",
+        avoid: avoid ?? [],
+      },
+    };
+  }
+  if (name === "setRoutine") {
+    const parsed = toolSchemas.setRoutine.safeParse(args);
+    if (!parsed.success) return INVALID_ARGS;
+    const { intent } = parsed.data;
+    return { type: "set-routine", intent, items: buildRoutine(intent, paces) };
+  }
+  if (name === "setMode") {
+    const parsed = toolSchemas.setMode.safeParse(args);
+    if (!parsed.success) return INVALID_ARGS;
+    return { type: "set-mode", mode: parsed.data.mode };
+  }
+  return `La herramienta ${name} no existe.`;
+}
+
+/** Reads an SSE body and yields each `data:` payload until `[DONE]`. */
+async function* sseData(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      if (data) yield data;
+    }
+  }
+}
+
+/**
+ * Provider for servers speaking the OpenAI chat completions API with
+ * streaming and tool calls (OpenAI itself, Ollama, llama.cpp, vLLM…).
+ */
+export function createOpenAiProvider({
+  baseUrl,
+  model,
+  apiKey,
+  fetchImpl = (input, init) => fetch(input, init),
+}: OpenAiOptions): CoachProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: model,
+    async *reply({ conversation, text, context, tools: hooks, signal }) {
+      const messages: ChatMessage[] = [
+        { role: "system", content: systemPrompt(context) },
+        ...conversation.messages.map(
+          (message): ChatMessage =>
+            message.role === "user"
+              ? { role: "user", content: message.text }
+              : { role: "assistant", content: message.text },
+        ),
+        { role: "user", content: text },
+      ];
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round += 1) {
+        let response: Response;
+        try {
+          response = await fetchImpl(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model, messages, tools, stream: true }),
+            signal,
+          });
+        } catch (error) {
+          throw new CoachError("No se pudo contactar al modelo del coach.", {
+            cause: error,
+          });
+        }
+        if (!response.ok || !response.body) {
+          throw new CoachError(
+            `El modelo del coach respondió con un error (${response.status}).`,
+          );
+        }
+
+        let content = "";
+        const calls: ToolCall[] = [];
+        for await (const data of sseData(response.body)) {
+          let chunk: StreamChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            yield { type: "text", delta: delta.content };
+          }
+          for (const part of delta?.tool_calls ?? []) {
+            calls[part.index] ??= {
+              id: part.id ?? `call-${part.index}`,
+              type: "function",
+              function: { name: "", arguments: "" },
+            };
+            const call = calls[part.index];
+            call.function.name += part.function?.name ?? "";
+            call.function.arguments += part.function?.arguments ?? "";
+          }
+        }
+        if (!calls.length) return;
+
+        messages.push({
+          role: "assistant",
+          content: content || null,
+          tool_calls: calls,
+        });
+        for (const call of calls) {
+          let args: unknown;
+          try {
+            args = JSON.parse(call.function.arguments || "{}");
+          } catch {
+            args = null;
+          }
+          const action = toAction(call.function.name, args, context.paces);
+          const result =
+            typeof action === "string"
+              ? { ok: false as const, error: action }
+              : await applyAction(hooks, action);
+          if (typeof action !== "string") {
+            yield { type: "action", action, result };
+          }
+          messages.push({
+            role: "tool",
+            tool_call_id: call.id,
+            content: JSON.stringify(result),
+          });
+        }
+      }
+    },
+  };
+}
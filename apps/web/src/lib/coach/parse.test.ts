@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { MIN_CONFIDENCE, parsePrompt } from "./parse";
+import type { CoachRequest, Scored } from "./types";
+
+type ScoredField = {
+  [K in keyof CoachRequest]-?: NonNullable<
+    CoachRequest[K]
+  > extends Scored<unknown>
+    ? K
+    : never;
+}[keyof CoachRequest];
+
+/** One prompt, one field: its value (undefined when left out) and confidence. */
+type Case = [
+  prompt: string,
+  field: ScoredField,
+  value: unknown,
+  confidence?: number,
+];
+
+const cases: Case[] = [
+  // Mode, with negation scoped to its clause.
+  ["quiero correr 10 km", "mode", "run", 0.9],
+  ["no quiero correr, mejor caminar", "mode", "walk", 0.9],
+  ["correr o caminar", "mode", "walk", 0.6],
+  ["trotar suave 30 minutos", "intent", "easy", 0.85],
+  // Distances, in km, miles, metres and ranges.
+  ["quiero correr 10 km", "distanceKm", 10, 0.95],
+  ["hike 5 miles with 300 m of climbing", "distanceKm", 8.05, 0.95],
+  ["loop of 8k avoiding traffic", "distanceKm", 8, 0.95],
+  ["de 5 a 8 km", "distanceKm", 6.5, 0.7],
+  ["media maraton", "distanceKm", 21.1, 0.6],
+  // Two distances close together are rivals, not one repeated.
+  ["5 km o 12 km", "distanceKm", 12, 0.65],
+  // Durations.
+  ["trotar suave 30 minutos", "durationMin", 30, 0.9],
+  ["una hora y media de trote", "durationMin", 90, 0.85],
+  // Paces, per km or per mile.
+  ["ritmo 5:30/km", "paceMinPerKm", 5.5, 0.95],
+  ["12 km a 4:45 el km", "paceMinPerKm", 4.75, 0.95],
+  ["at 8:00/mi for 5 miles", "paceMinPerKm", 8 / 1.609, 0.95],
+  // Climb and shape.
+  [
+    "hike 5 miles with 300 m of climbing",
+    "climb",
+    { preference: "hilly", gainM: 300 },
+    0.9,
+  ],
+  ["caminata sin escaleras ni cuestas", "climb", { preference: "flat" }, 0.8],
+  ["ruta de ida y vuelta por el parque", "shape", "out-and-back", 0.9],
+  ["loop of 8k avoiding traffic", "shape", "loop", 0.85],
+  // Time of day: words, clock times, and both together.
+  ["run tonight", "timeOfDay", "night", 0.9],
+  ["run at 7 am", "timeOfDay", "morning", 0.85],
+  ["trote a las 6 de la mañana", "timeOfDay", "dawn", 0.85],
+  ["correr mañana a las 7 pm", "timeOfDay", "evening", 0.85],
+  ["salir mañana", "timeOfDay", undefined],
+  // A pace after "at" or "a las" is not a clock time.
+  ["at 8:00/mi for 5 miles", "timeOfDay", undefined],
+  ["a las 5:30/km durante 10 km", "timeOfDay", undefined],
+  ["a las 5:30 min/km", "timeOfDay", undefined],
+];
+
+describe("parsePrompt", () => {
+  it.each(cases)("%s → %s", (prompt, field, value, confidence) => {
+    const scored = parsePrompt(prompt)[field];
+    if (value === undefined) {
+      expect(scored).toBeUndefined();
+      return;
+    }
+    expect(scored).toBeDefined();
+    if (typeof value === "number") {
+      expect(scored?.value).toBeCloseTo(value, 2);
+    } else {
+      expect(scored?.value).toEqual(value);
+    }
+    expect(scored?.confidence).toBeCloseTo(confidence ?? 0, 5);
+    expect(scored?.confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+  });
+
+  it("lists what the message rules out", () => {
+    const request = parsePrompt("no quiero correr, mejor caminar");
+    expect(request.rejected.modes).toEqual(["run"]);
+  });
+
+  it("reads negated terms as things to avoid", () => {
+    const request = parsePrompt("caminata sin escaleras ni cuestas");
+    expect(request.avoid.map((item) => item.value)).toEqual(["steps", "hills"]);
+  });
+});
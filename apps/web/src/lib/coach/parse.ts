@@ -0,0 +1,642 @@
+import { parsePace } from "@/lib/eta";
+import type { Mode } from "@/lib/modes";
+import type { RouteShape } from "@/lib/routing/generate";
+import type { RouteAvoid } from "@/lib/routing/profiles";
+import type {
+  ClimbGoal,
+  CoachRequest,
+  RouteFocus,
+  Scored,
+  TimeOfDay,
+  TrainingIntent,
+} from "./types";
+
+/** Below this the parser leaves a field out rather than guess. */
+export const MIN_CONFIDENCE = 0.5;
+
+// Rival readings (e.g. two modes) cost the winner this much confidence.
+const CONFLICT_PENALTY = 0.3;
+// A negator this many words before a term negates it.
+const NEGATION_WINDOW = 4;
+const KM_PER_MILE = 1.609;
+const M_PER_FOOT = 0.3048;
+
+/**
+ * One vocabulary entry. Patterns run on lower-cased text without accents,
+ * so "montaña" is matched as "montana".
+ */
+type Term<T> = { value: T; pattern: RegExp; confidence: number };
+
+const NEGATORS = new Set([
+  "no",
+  "sin",
+  "ni",
+  "nunca",
+  "evitar",
+  "evita",
+  "evitando",
+  "not",
+  "dont",
+  "don't",
+  "without",
+  "avoid",
+  "avoiding",
+  "never",
+  "nor",
+]);
+
+const modeTerms: Term<Mode>[] = [
+  {
+    value: "walk",
+    pattern:
+      /\b(caminar|caminata|camino|caminando|pasear|paseo|walk|walking|stroll)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "jog",
+    pattern: /\b(trotar|trote|troto|trotando|jog|jogging)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "hike",
+    pattern: /\b(trail|sendero|senderismo|hike|hiking|excursion)\b/,
+    confidence: 0.9,
+  },
+  { value: "hike", pattern: /\b(montana|cerro|mountain)\b/, confidence: 0.6 },
+  {
+    value: "run",
+    pattern: /\b(correr|corro|corriendo|carrera|run|running)\b/,
+    confidence: 0.9,
+  },
+  { value: "run", pattern: /\b(rapido|fast)\b/, confidence: 0.55 },
+];
+
+const intentTerms: Term<TrainingIntent>[] = [
+  {
+    value: "intervals",
+    pattern: /\b(series|intervalos?|intervals?|repeticiones|repeats|fartlek)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "tempo",
+    pattern:
+      /\b(tempo|umbral|threshold|ritmo (controlado|sostenido|fuerte)|steady)\b/,
+    confidence: 0.85,
+  },
+  { value: "tempo", pattern: /\b(fuerte|hard)\b/, confidence: 0.55 },
+  {
+    value: "easy",
+    pattern:
+      /\b(suaves?|tranquil[oa]|relajad[oa]|facil|easy|recovery|recuperacion|regenerativ[oa]|conversacional|gentle)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "trail",
+    pattern: /\b(desnivel|trail|montana|mountain)\b/,
+    confidence: 0.75,
+  },
+];
+
+const focusTerms: Term<RouteFocus>[] = [
+  {
+    value: "parks",
+    pattern: /\b(parques?|parks?|zonas? verdes?|green)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "lit",
+    pattern: /\b(iluminad[ao]s?|iluminacion|alumbrad[ao]s?|well[- ]lit)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "low-traffic",
+    pattern:
+      /\b(poco trafico|trafico bajo|bajo trafico|calles tranquilas|quiet streets|low traffic|little traffic)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "water",
+    pattern: /\b(rio|lago|laguna|malecon|playa|river|lake|waterfront|beach)\b/,
+    confidence: 0.8,
+  },
+  {
+    value: "views",
+    pattern: /\b(vistas?|miradore?s?|views?|viewpoints?)\b/,
+    confidence: 0.8,
+  },
+  {
+    value: "trail",
+    pattern: /\b(tierra|sendero|dirt|trail)\b/,
+    confidence: 0.6,
+  },
+];
+
+// Only negated mentions count: "sin escaleras", "avoid traffic".
+const avoidTerms: Term<RouteAvoid>[] = [
+  {
+    value: "steps",
+    pattern: /\b(escaleras?|escalones|stairs|steps)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "traffic",
+    pattern:
+      /\b(trafico|carros|coches|autos|avenidas|traffic|cars|busy roads|main roads)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "hills",
+    pattern:
+      /\b(cuestas?|subidas?|pendientes?|colinas?|lomas?|desnivel|hills?|climbs?|inclines?)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "unlit",
+    pattern: /\b(oscur[ao]s?|oscuridad|dark|unlit)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "unpaved",
+    pattern: /\b(tierra|barro|destapad[ao]s?|grava|unpaved|dirt|gravel|mud)\b/,
+    confidence: 0.8,
+  },
+];
+
+const shapeTerms: Term<RouteShape>[] = [
+  {
+    value: "out-and-back",
+    pattern:
+      /\b(ida y vuelta|ida\/vuelta|out and back|out-and-back|there and back)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "loop",
+    pattern: /\b(circular|circuito|loop|bucle)\b/,
+    confidence: 0.85,
+  },
+  { value: "loop", pattern: /(?<!ida y )\bvuelta\b/, confidence: 0.6 },
+];
+
+const timeTerms: Term<TimeOfDay>[] = [
+  {
+    value: "dawn",
+    pattern: /\b(madrugada|amanecer|al alba|dawn|sunrise)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "morning",
+    pattern:
+      /\b(por la manana|en la manana|esta manana|manana temprano|temprano|in the morning|this morning|morning|early)\b/,
+    confidence: 0.85,
+  },
+  // Bare "mañana" is as often "tomorrow".
+  { value: "morning", pattern: /\bmanana\b/, confidence: 0.4 },
+  {
+    value: "midday",
+    pattern: /\b(mediodia|hora de almuerzo|noon|midday|lunchtime)\b/,
+    confidence: 0.8,
+  },
+  {
+    value: "afternoon",
+    pattern: /\b(por la tarde|en la tarde|esta tarde|afternoon)\b/,
+    confidence: 0.85,
+  },
+  { value: "afternoon", pattern: /\btarde\b/, confidence: 0.45 },
+  {
+    value: "evening",
+    pattern:
+      /\b(atardecer|anochecer|despues del trabajo|al salir del trabajo|evening|sunset|after work)\b/,
+    confidence: 0.8,
+  },
+  {
+    value: "night",
+    pattern: /\b(noche|nocturn[oa]|night|tonight)\b/,
+    confidence: 0.9,
+  },
+];
+
+const climbTerms: Term<ClimbGoal["preference"]>[] = [
+  {
+    value: "flat",
+    pattern: /\b(plan[oa]s?|llan[oa]s?|flat|level)\b/,
+    confidence: 0.85,
+  },
+  {
+    value: "hilly",
+    pattern:
+      /\b(cuestas?|subidas?|colinas?|lomas?|cerros?|desnivel|hills?|hilly|climbs?)\b/,
+    confidence: 0.7,
+  },
+];
+
+const adjustTerms: Term<"longer" | "shorter">[] = [
+  {
+    value: "longer",
+    pattern: /\b(mas larg[oa]|mas distancia|mas km|longer|further|farther)\b/,
+    confidence: 0.9,
+  },
+  {
+    value: "shorter",
+    pattern: /\b(mas cort[oa]|menos distancia|menos km|shorter)\b/,
+    confidence: 0.9,
+  },
+];
+
+const ROUTE_WORDS =
+  /\b(ruta|recorrido|circuito|otra|route|loop|path|another|course)\b/;
+const ROUTINE_WORDS =
+  /\b(rutina|entreno|entrenamiento|sesion|workout|session|training)\b/;
+
+const wordNumbers: Record<string, number> = {
+  un: 1,
+  uno: 1,
+  una: 1,
+  dos: 2,
+  tres: 3,
+  cuatro: 4,
+  cinco: 5,
+  seis: 6,
+  siete: 7,
+  ocho: 8,
+  nueve: 9,
+  diez: 10,
+  doce: 12,
+  quince: 15,
+  veinte: 20,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+};
+const WORD_NUMBER = Object.keys(wordNumbers).join("|");
+const NUMBER = `(\\d+(?:[.,]\\d+)?|${WORD_NUMBER})`;
+const KM_UNIT = "(?:km|kms|k|kilometros?|kilometers?|kilometres?)";
+const MI_UNIT = "(?:mi|millas?|miles?)";
+const GAIN_WORDS =
+  "(?:de\\s+)?(?:desnivel|subida|ascenso|positivo|elevacion|d\\+|of (?:climb(?:ing)?|elevation|gain)|climb(?:ing)?|gain|elevation)";
+
+const toNumber = (text: string) =>
+  wordNumbers[text] ?? Number.parseFloat(text.replace(",", "."));
+
+/** Lower case, no accents, single spaces. */
+const fold = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+type Clause = { text: string; offset: number };
+
+// Negation does not reach past punctuation or a change of mind.
+function splitClauses(text: string): Clause[] {
+  const clauses: Clause[] = [];
+  const boundary = /[.;!?,]|\b(pero|sino|mejor|but|instead|rather)\b/g;
+  let start = 0;
+  for (const match of text.matchAll(boundary)) {
+    clauses.push({ text: text.slice(start, match.index), offset: start });
+    start = match.index + match[0].length;
+  }
+  clauses.push({ text: text.slice(start), offset: start });
+  return clauses;
+}
+
+type Hit<T> = Scored<T> & { position: number; negated: boolean };
+
+function findTerms<T>(clauses: Clause[], terms: Term<T>[]): Hit<T>[] {
+  const hits: Hit<T>[] = [];
+  for (const clause of clauses) {
+    for (const term of terms) {
+      const pattern = new RegExp(term.pattern.source, "g");
+      for (const match of clause.text.matchAll(pattern)) {
+        const before = clause.text
+          .slice(0, match.index)
+          .split(" ")
+          .filter(Boolean)
+          .slice(-NEGATION_WINDOW);
+        hits.push({
+          value: term.value,
+          confidence: term.confidence,
+          position: clause.offset + match.index,
+          negated: before.some((word) => NEGATORS.has(word)),
+        });
+      }
+    }
+  }
+  return hits;
+}
+
+/**
+ * The strongest positive reading, later mentions winning ties ("correr, o
+ * mejor caminar"). A rival reading almost as strong lowers the confidence.
+ */
+function strongest<T>(hits: Hit<T>[]): Scored<T> | undefined {
+  const positive = hits.filter((hit) => !hit.negated);
+  let best: Hit<T> | undefined;
+  for (const hit of positive) {
+    if (
+      !best ||
+      hit.confidence > best.confidence ||
+      (hit.confidence === best.confidence && hit.position > best.position)
+    )
+      best = hit;
+  }
+  if (!best) return undefined;
+  const winner = best;
+  const contested = positive.some(
+    (hit) =>
+      hit.value !== winner.value && hit.confidence >= winner.confidence - 0.1,
+  );
+  return {
+    value: winner.value,
+    confidence: contested
+      ? winner.confidence - CONFLICT_PENALTY
+      : winner.confidence,
+  };
+}
+
+/** Every distinct value, at its best confidence. */
+function distinct<T>(hits: Hit<T>[]): Scored<T>[] {
+  const best = new Map<T, number>();
+  for (const hit of hits) {
+    best.set(hit.value, Math.max(best.get(hit.value) ?? 0, hit.confidence));
+  }
+  return [...best].map(([value, confidence]) => ({ value, confidence }));
+}
+
+const confident = <T>(scored?: Scored<T>) =>
+  scored && scored.confidence >= MIN_CONFIDENCE ? scored : undefined;
+
+function readDistance(text: string): Scored<number> | undefined {
+  const found: Hit<number>[] = [];
+  // Spans of the ranges, whose ends must not count again on their own.
+  const ranges: [start: number, end: number][] = [];
+  const add = (km: number, confidence: number, position: number) => {
+    if (km > 0 && km <= 200)
+      found.push({ value: km, confidence, position, negated: false });
+  };
+  for (const match of text.matchAll(
+    new RegExp(
+      `\\b(\\d+(?:[.,]\\d+)?)\\s*(?:-|a|to)\\s*${NUMBER}\\s*(${KM_UNIT}|${MI_UNIT})\\b`,
+      "g",
+    ),
+  )) {
+    const scale = new RegExp(`^${MI_UNIT}$`).test(match[3]) ? KM_PER_MILE : 1;
+    ranges.push([match.index, match.index + match[0].length]);
+    add(
+      ((toNumber(match[1]) + toNumber(match[2])) / 2) * scale,
+      0.7,
+      match.index,
+    );
+  }
+  for (const match of text.matchAll(
+    new RegExp(`\\b${NUMBER}\\s*(${KM_UNIT}|${MI_UNIT})\\b`, "g"),
+  )) {
+    const end = match.index + match[0].length;
+    if (ranges.some(([start, stop]) => match.index < stop && end > start))
+      continue;
+    const scale = new RegExp(`^${MI_UNIT}$`).test(match[2]) ? KM_PER_MILE : 1;
+    // Digits are surer than words: "un k" is rarely a distance.
+    add(
+      toNumber(match[1]) * scale,
+      /\d/.test(match[1]) ? 0.95 : 0.75,
+      match.index,
+    );
+  }
+  for (const match of text.matchAll(
+    new RegExp(
+      `(?<!\\+\\s?)\\b(\\d{3,5})\\s*(?:m|metros|meters|metres)\\b(?!\\s*${GAIN_WORDS})`,
+      "g",
+    ),
+  )) {
+    const metres = toNumber(match[1]);
+    if (metres >= 400) add(metres / 1000, 0.8, match.index);
+  }
+  for (const match of text.matchAll(/\b(media maraton|half marathon)\b/g)) {
+    add(21.1, 0.6, match.index);
+  }
+  if (!found.length) return undefined;
+  const last = found.reduce((a, b) => (b.position > a.position ? b : a));
+  // Two different distances in one message: keep the last, less sure.
+  const contested = found.some(
+    (hit) => Math.abs(hit.value - last.value) > 0.05,
+  );
+  return {
+    value: Math.round(last.value * 100) / 100,
+    confidence: contested
+      ? last.confidence - CONFLICT_PENALTY
+      : last.confidence,
+  };
+}
+
+function readDuration(text: string): Scored<number> | undefined {
+  // Before the numeric forms, which would read "una hora y media" as 60.
+  if (/\b(hora y media|hour and a half)\b/.test(text))
+    return { value: 90, confidence: 0.85 };
+  const hours = text.match(
+    new RegExp(
+      `\\b${NUMBER}\\s*(?:horas?|hours?|hrs?|h)(?![a-z])(?:\\s*(?:y\\s+)?(\\d{1,2})\\s*(?:min|mins|minutos?|minutes?)?)?`,
+    ),
+  );
+  if (hours) {
+    const minutes = toNumber(hours[1]) * 60 + (hours[2] ? Number(hours[2]) : 0);
+    if (minutes >= 5 && minutes <= 600)
+      return { value: Math.round(minutes), confidence: 0.9 };
+  }
+  const minutes = text.match(
+    new RegExp(`\\b${NUMBER}\\s*(?:min|mins|minutos?|minutes?)\\b`),
+  );
+  if (minutes) {
+    const value = toNumber(minutes[1]);
+    if (value >= 5 && value <= 600) return { value, confidence: 0.9 };
+  }
+  if (/\b(media hora|half an hour|half hour)\b/.test(text))
+    return { value: 30, confidence: 0.85 };
+  if (/\ban hour\b/.test(text)) return { value: 60, confidence: 0.85 };
+  return undefined;
+}
+
+function readPace(text: string): Scored<number> | undefined {
+  const clock = "(\\d{1,2})[:'](\\d{2})(?:\"|'')?";
+  const perUnit = `\\s*(?:min(?:utos)?)?\\s*(?:\\/|por|per|el|a)\\s*(km|kilometro|k|mi|milla|mile)\\b`;
+  const patterns: [RegExp, number][] = [
+    [new RegExp(`${clock}${perUnit}`), 0.95],
+    [
+      new RegExp(
+        `\\b(?:ritmo|pace|paso)\\s*(?:de|of|a|at|:)?\\s*${clock}(?:${perUnit})?`,
+      ),
+      0.85,
+    ],
+    // "a 5:30" is a pace in Spanish; "a las 5:30" is a time.
+    [new RegExp(`(?<!las |la )\\ba ${clock}(?!\\s*(?:am|pm|h\\b|hrs))`), 0.55],
+  ];
+  for (const [pattern, confidence] of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const pace = parsePace(`${match[1]}:${match[2]}`);
+    if (pace === null) continue;
+    const perMile = match[3] && /^(mi|milla|mile)$/.test(match[3]);
+    return {
+      value: perMile ? pace / KM_PER_MILE : pace,
+      confidence,
+    };
+  }
+  return undefined;
+}
+
+function hourToTime(hour: number): TimeOfDay {
+  if (hour < 5) return "night";
+  if (hour < 7) return "dawn";
+  if (hour < 12) return "morning";
+  if (hour < 14) return "midday";
+  if (hour < 18) return "afternoon";
+  if (hour < 20) return "evening";
+  return "night";
+}
+
+function readClock(text: string): Scored<TimeOfDay> | undefined {
+  // "at 8:00/mi" and "a las 5:30 min/km" are paces, not times.
+  const match = text.match(
+    /\b(?:a las|a la|sobre las|at|around)\s*(\d{1,2})(?::(\d{2}))?(?![\d:])(?!\s*(?:min(?:utos)?)?\s*(?:\/|por|per)\s*(?:km|kilometro|k|mi|milla|mile)\b)\s*(am|pm|a\.m\.|p\.m\.|de la manana|de la tarde|de la noche|h\b)?/,
+  );
+  if (!match) return undefined;
+  let hour = Number(match[1]);
+  if (hour > 23) return undefined;
+  const suffix = match[3] ?? "";
+  const afternoon = /^(pm|p\.m\.|de la tarde|de la noche)$/.test(suffix);
+  if (afternoon && hour < 12) hour += 12;
+  // "a las 19" is unambiguous; "a las 6" could be either end of the day.
+  const sure = suffix !== "" || hour >= 13;
+  return { value: hourToTime(hour), confidence: sure ? 0.85 : 0.55 };
+}
+
+function readClimb(
+  text: string,
+  clauses: Clause[],
+): Scored<ClimbGoal> | undefined {
+  const gain =
+    text.match(
+      new RegExp(
+        `\\+?\\s*(\\d{2,4})\\s*(m|metros|meters|metres|ft|feet|pies)\\s*${GAIN_WORDS}`,
+      ),
+    ) ??
+    text.match(
+      /\b(?:desnivel|elevation gain|climb(?:ing)?|subida)\s*(?:de|of|:)?\s*\+?(\d{2,4})\s*(m|metros|meters|ft|feet|pies)?\b/,
+    ) ??
+    text.match(/\+(\d{2,4})\s*(m)\b/);
+  if (gain) {
+    const feet = gain[2] && /^(ft|feet|pies)$/.test(gain[2]);
+    const gainM = Math.round(Number(gain[1]) * (feet ? M_PER_FOOT : 1));
+    return { value: { preference: "hilly", gainM }, confidence: 0.9 };
+  }
+  const hits = findTerms(clauses, climbTerms);
+  // "sin cuestas" asks for the opposite of what it names.
+  const flipped = hits.map((hit) =>
+    hit.negated && hit.value === "hilly"
+      ? { ...hit, value: "flat" as const, negated: false, confidence: 0.8 }
+      : hit,
+  );
+  const preference = strongest(flipped);
+  return preference
+    ? {
+        value: { preference: preference.value },
+        confidence: preference.confidence,
+      }
+    : undefined;
+}
+
+/**
+ * Reads one chat message in Spanish or English. Each field carries a
+ * confidence; anything below `MIN_CONFIDENCE` is left out. Negation is
+ * scoped to its clause, so "no quiero correr, mejor caminar" rejects `run`
+ * and picks `walk`.
+ */
+export function parsePrompt(prompt: string): CoachRequest {
+  const text = fold(prompt);
+  const clauses = splitClauses(text);
+
+  const modeHits = findTerms(clauses, modeTerms);
+  const intentHits = findTerms(clauses, intentTerms);
+  const mode = confident(strongest(modeHits));
+  const intent = confident(strongest(intentHits));
+  const rejectedModes = new Set(
+    modeHits.filter((hit) => hit.negated).map((hit) => hit.value),
+  );
+  const rejectedIntents = new Set(
+    intentHits.filter((hit) => hit.negated).map((hit) => hit.value),
+  );
+  if (mode) rejectedModes.delete(mode.value);
+  if (intent) rejectedIntents.delete(intent.value);
+
+  const avoidHits = findTerms(clauses, avoidTerms).filter((hit) => hit.negated);
+  const avoid = distinct(avoidHits).filter(
+    (item) => item.confidence >= MIN_CONFIDENCE,
+  );
+  const focuses = distinct(
+    findTerms(clauses, focusTerms).filter((hit) => !hit.negated),
+  ).filter(
+    (item) =>
+      item.confidence >= MIN_CONFIDENCE &&
+      // "sin tierra" avoids dirt; it is not a trail focus.
+      !(item.value === "trail" && avoid.some((a) => a.value === "unpaved")),
+  );
+
+  const timeHits = findTerms(clauses, timeTerms).filter((hit) => !hit.negated);
+  // A clock time beats a weak word: "mañana a las 7 pm" is the evening.
+  const timeTerm = strongest(timeHits);
+  const clock = readClock(text);
+  const timeOfDay = confident(
+    clock && (!timeTerm || clock.confidence > timeTerm.confidence)
+      ? clock
+      : timeTerm,
+  );
+
+  const distanceKm = confident(readDistance(text));
+  const durationMin = confident(readDuration(text));
+  const paceMinPerKm = confident(readPace(text));
+  const climb = confident(readClimb(text, clauses));
+  const shape = confident(strongest(findTerms(clauses, shapeTerms)));
+  const adjust = confident(strongest(findTerms(clauses, adjustTerms)))?.value;
+
+  const wantsRoute =
+    distanceKm !== undefined ||
+    durationMin !== undefined ||
+    shape !== undefined ||
+    adjust !== undefined ||
+    climb !== undefined ||
+    timeOfDay !== undefined ||
+    focuses.length > 0 ||
+    avoid.length > 0 ||
+    ROUTE_WORDS.test(text);
+  const wantsRoutine =
+    intent !== undefined ||
+    rejectedIntents.size > 0 ||
+    ROUTINE_WORDS.test(text);
+
+  return {
+    mode,
+    distanceKm,
+    durationMin,
+    paceMinPerKm,
+    climb,
+    intent,
+    shape,
+    timeOfDay,
+    focuses,
+    avoid,
+    rejected: { modes: [...rejectedModes], intents: [...rejectedIntents] },
+    adjust,
+    wantsRoute,
+    wantsRoutine,
+  };
+}
@@ -0,0 +1,111 @@
+import { CoachError } from "./errors";
+import type {
+  CoachAction,
+  CoachContext,
+  CoachConversation,
+  CoachMessage,
+  CoachProvider,
+  CoachTools,
+  RoutePlan,
+  ToolResult,
+} from "./types";
+
+export const COACH_GREETING =
+  "¡Hola! Soy tu coach. Dime distancia, modo o tipo de entreno y ajusto la ruta y la rutina.";
+
+export function startConversation(): CoachConversation {
+  return {
+    messages: [{ id: "coach-0", role: "coach", text: COACH_GREETING }],
+    lastPlan: null,
+  };
+}
+
+/** Runs the tool behind an action. */
+export function applyAction(
+  tools: CoachTools,
+  action: CoachAction,
+): Promise<ToolResult> {
+  if (action.type === "create-route") return tools.createRoute(action.plan);
+  if (action.type === "set-routine")
+    return tools.setRoutine(action.intent, action.items);
+  return tools.setMode(action.mode);
+}
+
+/** The plan follow-ups build on once `action` went through. */
+function nextPlan(
+  last: RoutePlan | null,
+  action: CoachAction,
+): RoutePlan | null {
+  if (action.type === "create-route") return action.plan;
+  if (action.type === "set-routine" && last)
+    return { ...last, intent: action.intent };
+  return last;
+}
+
+export type RespondOptions = {
+  provider: CoachProvider;
+  context: CoachContext;
+  tools: CoachTools;
+  /** Called with the conversation as the reply streams in. */
+  onUpdate?: (conversation: CoachConversation) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Sends one user message through `provider` and returns the conversation
+ * with the coach's reply. Actions that went through are kept on the reply
+ * and move the plan follow-ups build on.
+ */
+export async function respond(
+  conversation: CoachConversation,
+  text: string,
+  { provider, context, tools, onUpdate, signal }: RespondOptions,
+): Promise<CoachConversation> {
+  const asked: CoachMessage[] = [
+    ...conversation.messages,
+    { id: `user-${conversation.messages.length}`, role: "user", text },
+  ];
+  const reply: CoachMessage = {
+    id: `coach-${asked.length}`,
+    role: "coach",
+    text: "",
+  };
+  let lastPlan = conversation.lastPlan;
+  let failed = false;
+  const snapshot = (): CoachConversation => ({
+    messages: [...asked, { ...reply }],
+    lastPlan,
+  });
+
+  onUpdate?.(snapshot());
+  try {
+    for await (const event of provider.reply({
+      conversation,
+      text,
+      context,
+      tools,
+      signal,
+    })) {
+      if (event.type === "text") {
+        reply.text += event.delta;
+      } else if (event.result.ok) {
+        reply.actions = [...(reply.actions ?? []), event.action];
+        lastPlan = nextPlan(lastPlan, event.action);
+      } else {
+        failed = true;
+      }
+      onUpdate?.(snapshot());
+    }
+  } catch (error) {
+    if (!(error instanceof CoachError)) console.error("Coach failed", error);
+    reply.text =
+      error instanceof CoachError
+        ? error.message
+        : "El coach no pudo responder. Inténtalo de nuevo.";
+    reply.tone = "error";
+  }
+  // A model may retry a failed tool; only a turn that did nothing is an error.
+  if (failed && !reply.actions) reply.tone = "error";
+  if (!reply.text.trim()) reply.text = "Listo.";
+  return snapshot();
+}
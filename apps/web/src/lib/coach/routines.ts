@@ -0,0 +1,219 @@
+import type { Mode } from "@/lib/modes";
+import type { RouteAvoid } from "@/lib/routing/profiles";
+import type { RoutineItem } from "@/lib/storage/types";
+import type { PaceTargets, PaceZones } from "@/lib/training/types";
+import { paceText, racePace } from "@/lib/training/zones";
+import {
+  distanceGoal,
+  OPEN_TARGET,
+  paceTarget,
+  repeat,
+  step,
+  timeGoal,
+} from "@/lib/workout/workout";
+import type { RouteFocus, TimeOfDay, TrainingIntent } from "./types";
+
+export const intentLabel: Record<TrainingIntent, string> = {
+  easy: "rodaje suave",
+  tempo: "tempo",
+  intervals: "series",
+  trail: "trail",
+};
+
+/**
+ * The session for `intent`, each item with its structured block for the
+ * workout player. With the user's zones the steps carry real target paces
+ * in their units; without them, effort descriptions.
+ */
+export function buildRoutine(
+  intent: TrainingIntent,
+  paces?: PaceTargets,
+): RoutineItem[] {
+  const at = (pick: (zones: PaceZones) => number, effort: string) =>
+    paces ? `a ${paceText(pick(paces.zones), paces.units)}` : effort;
+  const target = (pick: (zones: PaceZones) => number) =>
+    paces ? paceTarget(pick(paces.zones)) : OPEN_TARGET;
+  const recovery = (seconds: number) =>
+    step("Recuperación", "recovery", timeGoal(seconds / 60));
+
+  if (intent === "intervals") {
+    return [
+      {
+        step: "Calentamiento",
+        detail: "12 min movilidad + 8 min trote",
+        block: step("Calentamiento", "warmup", timeGoal(20)),
+      },
+      {
+        step: "Series",
+        detail: `6 x 600 m ${at((z) => z.interval, "rápido")} (rec 90s trote)`,
+        block: repeat(
+          6,
+          step(
+            "Serie",
+            "active",
+            distanceGoal(0.6),
+            target((z) => z.interval),
+          ),
+          recovery(90),
+        ),
+      },
+      {
+        step: "Progresivo",
+        detail: paces
+          ? `2 km de ${paceText(paces.zones.easy, paces.units)} a ${paceText(paces.zones.threshold, paces.units)}`
+          : "2 km subiendo ritmo",
+        block: step(
+          "Progresivo",
+          "active",
+          distanceGoal(2),
+          target((z) => z.marathon),
+        ),
+      },
+      {
+        step: "Enfriar",
+        detail: "10 min trote + estiramientos",
+        block: step("Enfriar", "cooldown", timeGoal(10)),
+      },
+    ];
+  }
+  if (intent === "tempo") {
+    return [
+      {
+        step: "Calentamiento",
+        detail: "10 min trote + técnica de carrera",
+        block: step("Calentamiento", "warmup", timeGoal(10)),
+      },
+      {
+        step: "Tempo",
+        detail: `20 min ${at((z) => z.threshold, "a ritmo controlado")}`,
+        block: step(
+          "Tempo",
+          "active",
+          timeGoal(20),
+          target((z) => z.threshold),
+        ),
+      },
+      {
+        step: "Bloque",
+        detail: `2 x 1 km ${at((z) => racePace(z, "10k"), "a ritmo de 10K")} (rec 90s)`,
+        block: repeat(
+          2,
+          step(
+            "Bloque",
+            "active",
+            distanceGoal(1),
+            target((z) => racePace(z, "10k")),
+          ),
+          recovery(90),
+        ),
+      },
+      {
+        step: "Enfriar",
+        detail: "8 min trote + movilidad",
+        block: step("Enfriar", "cooldown", timeGoal(8)),
+      },
+    ];
+  }
+  if (intent === "trail") {
+    return [
+      {
+        step: "Calentamiento",
+        detail: "12 min movilidad + subidas suaves",
+        block: step("Calentamiento", "warmup", timeGoal(12)),
+      },
+      {
+        step: "Bloque",
+        detail: "4 km subida controlada",
+        block: step("Subida", "active", distanceGoal(4)),
+      },
+      {
+        step: "Técnico",
+        detail: "3 km bajada con pasos cortos",
+        block: step("Bajada", "active", distanceGoal(3)),
+      },
+      {
+        step: "Enfriar",
+        detail: "10 min caminata plana",
+        block: step("Enfriar", "cooldown", timeGoal(10)),
+      },
+    ];
+  }
+  return [
+    {
+      step: "Calentamiento",
+      detail: "8 min movilidad + 5 min trote suave",
+      block: step("Calentamiento", "warmup", timeGoal(13)),
+    },
+    {
+      step: "Bloque",
+      detail: `25 min ${at((z) => z.easy, "a ritmo conversacional")}`,
+      block: step(
+        "Rodaje",
+        "active",
+        timeGoal(25),
+        target((z) => z.easy),
+      ),
+    },
+    {
+      step: "Strides",
+      detail: `4 x 20s ${at((z) => z.repetition, "aceleración suave")} (rec 40s)`,
+      block: repeat(
+        4,
+        step(
+          "Stride",
+          "active",
+          timeGoal(1 / 3),
+          target((z) => z.repetition),
+        ),
+        recovery(40),
+      ),
+    },
+    {
+      step: "Enfriar",
+      detail: "8 min trote suave + estiramientos",
+      block: step("Enfriar", "cooldown", timeGoal(8)),
+    },
+  ];
+}
+
+export function suggestDistance(mode: Mode): number {
+  if (mode === "walk") return 4.5;
+  if (mode === "jog") return 6.5;
+  if (mode === "hike") return 10.5;
+  return 8.0;
+}
+
+export const MIN_DISTANCE_KM = 1;
+export const MAX_DISTANCE_KM = 42;
+export const DEFAULT_FOCUS = "Ruta equilibrada";
+export const TRAIL_FOCUS = "Terreno mixto";
+
+/** Clamps to a distance the generator can plan, in half kilometres. */
+export const roundKm = (km: number) =>
+  Math.min(MAX_DISTANCE_KM, Math.max(MIN_DISTANCE_KM, Math.round(km * 2) / 2));
+
+export const focusLabel: Record<RouteFocus, string> = {
+  parks: "Parques",
+  lit: "Iluminación alta",
+  "low-traffic": "Tráfico bajo",
+  water: "Junto al agua",
+  views: "Miradores",
+  trail: TRAIL_FOCUS,
+};
+
+export const avoidLabel: Record<RouteAvoid, string> = {
+  steps: "escaleras",
+  traffic: "tráfico",
+  hills: "cuestas",
+  unlit: "calles oscuras",
+  unpaved: "tierra",
+};
+
+export const timeOfDayLabel: Record<TimeOfDay, string> = {
+  dawn: "la madrugada",
+  morning: "la mañana",
+  midday: "el mediodía",
+  afternoon: "la tarde",
+  evening: "el atardecer",
+  night: "la noche",
+};
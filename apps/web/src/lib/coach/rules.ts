@@ -0,0 +1,229 @@
+import { defaultPaceMinPerKm } from "@/lib/eta";
+import { type Mode, modeMeta } from "@/lib/modes";
+import type { RouteAvoid } from "@/lib/routing/profiles";
+import { paceText } from "@/lib/training/zones";
+import { parsePrompt } from "./parse";
+import { applyAction, COACH_GREETING } from "./pipeline";
+import {
+  avoidLabel,
+  buildRoutine,
+  DEFAULT_FOCUS,
+  focusLabel,
+  intentLabel,
+  roundKm,
+  suggestDistance,
+  TRAIL_FOCUS,
+  timeOfDayLabel,
+} from "./routines";
+import type {
+  CoachAction,
+  CoachContext,
+  CoachConversation,
+  CoachProvider,
+  CoachRequest,
+  RoutePlan,
+  TrainingIntent,
+} from "./types";
+
+// "Más larga" / "más corta" change the last distance by this much.
+const ADJUST_FACTOR = 1.25;
+
+// What to switch to when the user rules out the current mode.
+const gentlerMode: Record<Mode, Mode> = {
+  run: "jog",
+  jog: "walk",
+  walk: "jog",
+  hike: "walk",
+};
+
+const HELP =
+  'Puedo armarte una ruta ("8 km suaves por el parque", "45 minutos sin escaleras"), alargarla o acortarla, cambiar el modo ("mejor caminar") o la rutina ("rutina de series").';
+
+const modeName = (mode: Mode) => modeMeta[mode].label.toLowerCase();
+
+type Turn = { text: string; actions: CoachAction[] };
+
+function chooseMode(request: CoachRequest, fallback: Mode): Mode | undefined {
+  if (request.mode) return request.mode.value;
+  const rejected = request.rejected.modes;
+  if (!rejected.includes(fallback)) return undefined;
+  const gentler = gentlerMode[fallback];
+  return rejected.includes(gentler)
+    ? (Object.keys(modeMeta) as Mode[]).find((mode) => !rejected.includes(mode))
+    : gentler;
+}
+
+/** Avoid-list for the route: what was asked now, kept from before, and implied. */
+function chooseAvoid(
+  request: CoachRequest,
+  last: RoutePlan | null,
+): RouteAvoid[] {
+  const avoid = new Set<RouteAvoid>(last?.avoid ?? []);
+  for (const item of request.avoid) avoid.add(item.value);
+  if (request.climb?.value.preference === "flat") avoid.add("hills");
+  if (request.climb?.value.preference === "hilly") avoid.delete("hills");
+  const time = request.timeOfDay?.value;
+  if (time === "night" || time === "dawn") avoid.add("unlit");
+  return [...avoid];
+}
+
+/**
+ * Decides one reply. A request for a route builds on the last plan in the
+ * conversation, so "más larga" or "ahora en trail" only change that part.
+ */
+function planTurn(
+  { lastPlan: last }: CoachConversation,
+  text: string,
+  context: CoachContext,
+): Turn {
+  const request = parsePrompt(text);
+  const current = last?.mode ?? context.mode;
+  const newMode = chooseMode(request, current);
+
+  if (request.wantsRoute || (newMode && last)) {
+    const mode = newMode ?? current;
+    // Trail training only carries over while the user stays on trails.
+    const carried: TrainingIntent =
+      last &&
+      (last.intent !== "trail" || mode === last.mode) &&
+      !request.rejected.intents.includes(last.intent)
+        ? last.intent
+        : "easy";
+    const intent =
+      request.intent?.value ?? (mode === "hike" ? "trail" : carried);
+    const pace =
+      request.paceMinPerKm?.value ??
+      context.targetPaceMinPerKm ??
+      defaultPaceMinPerKm[mode];
+
+    let distanceKm = request.distanceKm?.value;
+    if (distanceKm === undefined && request.durationMin) {
+      distanceKm = request.durationMin.value / pace;
+    }
+    if (distanceKm === undefined && last) {
+      const factor =
+        request.adjust === "longer"
+          ? ADJUST_FACTOR
+          : request.adjust === "shorter"
+            ? 1 / ADJUST_FACTOR
+            : 1;
+      distanceKm =
+        mode === last.mode || request.adjust
+          ? last.distanceKm * factor
+          : suggestDistance(mode);
+    }
+
+    const avoid = chooseAvoid(request, last);
+    const focuses = request.focuses.map((item) => focusLabel[item.value]);
+    if (!focuses.length && avoid.includes("traffic")) {
+      focuses.push(focusLabel["low-traffic"]);
+    }
+    const plan: RoutePlan = {
+      mode,
+      distanceKm: roundKm(distanceKm ?? suggestDistance(mode)),
+      focus: focuses.length
+        ? focuses.join(" + ")
+        : intent === "trail"
+          ? TRAIL_FOCUS
+          : last && last.focus !== TRAIL_FOCUS
+            ? last.focus
+            : DEFAULT_FOCUS,
+      shape: request.shape?.value ?? last?.shape ?? "loop",
+      intent,
+      avoid,
+    };
+    const actions: CoachAction[] = [{ type: "create-route", plan }];
+    if (!last || request.wantsRoutine || intent !== last.intent) {
+      actions.push({
+        type: "set-routine",
+        intent,
+        items: buildRoutine(intent, context.paces),
+      });
+    }
+
+    const shapeText = plan.shape === "loop" ? "circular" : "de ida y vuelta";
+    const lead = request.adjust
+      ? `Listo, la dejé en ${plan.distanceKm.toFixed(1)} km`
+      : `Te armé una ruta ${shapeText} de ${plan.distanceKm.toFixed(1)} km`;
+    const details = [
+      request.durationMin ? `unos ${request.durationMin.value} min` : null,
+      request.paceMinPerKm ? `a ${paceText(pace, context.paces?.units)}` : null,
+      request.climb?.value.gainM
+        ? `buscando +${request.climb.value.gainM} m`
+        : null,
+      request.timeOfDay
+        ? `para ${timeOfDayLabel[request.timeOfDay.value]}`
+        : null,
+      avoid.length
+        ? `evitando ${avoid.map((item) => avoidLabel[item]).join(", ")}`
+        : null,
+    ].filter(Boolean);
+    return {
+      text: `${lead} para ${modeName(mode)}, ${intentLabel[intent]} · ${plan.focus}.${
+        details.length ? ` ${details.join(" · ")}.` : ""
+      }`,
+      actions,
+    };
+  }
+
+  if (request.wantsRoutine) {
+    const intent =
+      request.intent?.value ??
+      (last && !request.rejected.intents.includes(last.intent)
+        ? last.intent
+        : "easy");
+    const items = buildRoutine(intent, context.paces);
+    return {
+      text: `Rutina de ${intentLabel[intent]}: ${items.map((item) => item.step.toLowerCase()).join(", ")}.`,
+      actions: [{ type: "set-routine", intent, items }],
+    };
+  }
+
+  if (newMode) {
+    if (newMode === context.mode) {
+      return {
+        text: `Ya estás en modo ${modeName(newMode)}.`,
+        actions: [],
+      };
+    }
+    return {
+      text: `Cambié a ${modeName(newMode)}. Pídeme una ruta cuando quieras.`,
+      actions: [{ type: "set-mode", mode: newMode }],
+    };
+  }
+
+  const lower = text.toLowerCase();
+  if (/\b(hola|buenas|hey|hi|hello)\b/.test(lower))
+    return { text: COACH_GREETING, actions: [] };
+  if (/\b(gracias|thanks|thank you)\b/.test(lower))
+    return { text: "¡A ti! Avísame si quieres otra ruta.", actions: [] };
+  return { text: HELP, actions: [] };
+}
+
+/**
+ * Offline coach: keyword rules over the message plus the last plan. Always
+ * available, and the fallback when a model server cannot be reached.
+ */
+export function createRulesProvider(): CoachProvider {
+  return {
+    name: "Sin conexión",
+    async *reply({ conversation, text, context, tools }) {
+      const turn = planTurn(conversation, text, context);
+      for (const action of turn.actions) {
+        const result = await applyAction(tools, action);
+        yield { type: "action", action, result };
+        if (!result.ok) {
+          yield {
+            type: "text",
+            delta:
+              action.type === "create-route"
+                ? `${result.error} Prueba otra distancia o mueve el punto de inicio.`
+                : result.error,
+          };
+          return;
+        }
+      }
+      yield { type: "text", delta: turn.text };
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import type { Mode } from "@/lib/modes";
+import type { RouteShape } from "@/lib/routing/generate";
+import type { RouteAvoid } from "@/lib/routing/profiles";
+import type { RoutineItem } from "@/lib/storage/types";
+import type { PaceTargets } from "@/lib/training/types";
+
+export type TrainingIntent = "easy" | "tempo" | "intervals" | "trail";
+
+/** A value read from the message and how sure the parser is of it (0–1). */
+export type Scored<T> = { value: T; confidence: number };
+
+export type RouteFocus =
+  | "parks"
+  | "lit"
+  | "low-traffic"
+  | "water"
+  | "views"
+  | "trail";
+
+export type TimeOfDay =
+  | "dawn"
+  | "morning"
+  | "midday"
+  | "afternoon"
+  | "evening"
+  | "night";
+
+export type ClimbGoal = {
+  preference: "flat" | "hilly";
+  /** Metres of ascent asked for, e.g. "300 m de desnivel". */
+  gainM?: number;
+};
+
+/**
+ * What one message asks for. Fields the parser is unsure about are left out,
+ * so the pipeline fills them from the previous turn instead of guessing.
+ */
+export type CoachRequest = {
+  mode?: Scored<Mode>;
+  distanceKm?: Scored<number>;
+  durationMin?: Scored<number>;
+  paceMinPerKm?: Scored<number>;
+  climb?: Scored<ClimbGoal>;
+  intent?: Scored<TrainingIntent>;
+  shape?: Scored<RouteShape>;
+  timeOfDay?: Scored<TimeOfDay>;
+  focuses: Scored<RouteFocus>[];
+  avoid: Scored<RouteAvoid>[];
+  /** Modes and intents the message rules out ("no quiero correr"). */
+  rejected: { modes: Mode[]; intents: TrainingIntent[] };
+  /** "Más larga" / "más corta": scale the last route instead of naming a distance. */
+  adjust?: "longer" | "shorter";
+  wantsRoute: boolean;
+  wantsRoutine: boolean;
+};
+
+/** A route the coach planned, remembered so follow-ups can tweak it. */
+export type RoutePlan = {
+  mode: Mode;
+  distanceKm: number;
+  focus: string;
+  shape: RouteShape;
+  intent: TrainingIntent;
+  avoid: RouteAvoid[];
+};
+
+export type CoachAction =
+  | { type: "create-route"; plan: RoutePlan }
+  | { type: "set-mode"; mode: Mode }
+  | { type: "set-routine"; intent: TrainingIntent; items: RoutineItem[] };
+
+export type CoachMessage = {
+  id: string;
+  role: "user" | "coach";
+  text: string;
+  /** Coach messages that changed the map or routine carry what they did. */
+  actions?: CoachAction[];
+  tone?: "error";
+};
+
+export type CoachConversation = {
+  messages: CoachMessage[];
+  lastPlan: RoutePlan | null;
+};
+
+/** What the page knows that the coach cannot read from the conversation. */
+export type CoachContext = {
+  mode: Mode;
+  /** The user's own pace, to turn "45 minutos" into a distance. */
+  targetPaceMinPerKm?: number;
+  /** The user's training zones, when their profile has a recent race. */
+  paces?: PaceTargets;
+};
+
+/** What a tool reports back; errors are user-facing and go to the model too. */
+export type ToolResult =
+  | { ok: true; note: string }
+  | { ok: false; error: string };
+
+/** Hooks a provider calls to act on the map and the routine. */
+export type CoachTools = {
+  createRoute: (plan: RoutePlan) => Promise<ToolResult>;
+  setRoutine: (
+    intent: TrainingIntent,
+    items: RoutineItem[],
+  ) => Promise<ToolResult>;
+  setMode: (mode: Mode) => Promise<ToolResult>;
+};
+
+export type CoachEvent =
+  | { type: "text"; delta: string }
+  | { type: "action"; action: CoachAction; result: ToolResult };
+
+export type CoachTurnInput = {
+  /** The conversation so far, without the new message. */
+  conversation: CoachConversation;
+  text: string;
+  context: CoachContext;
+  tools: CoachTools;
+  signal?: AbortSignal;
+};
+
+/**
+ * Anything that can answer the user: the offline rules or a language model.
+ * Text streams as it is written; actions are reported after their tool ran.
+ */
+export type CoachProvider = {
+  name: string;
+  reply: (input: CoachTurnInput) => AsyncIterable<CoachEvent>;
+};
@@ -0,0 +1,74 @@
+import type { GeoPoint } from "@/lib/route/geo";
+import type { RouteVertex } from "@/lib/route/model";
+
+/**
+ * A north-up elevation grid in metres. `elevations` is row-major, starting at
+ * the north-west corner; cells are sampled at their corners, so `width`
+ * columns span `bbox` west to east inclusive.
+ */
+export type DemTile = {
+  name: string;
+  source?: string;
+  bbox: [west: number, south: number, east: number, north: number];
+  width: number;
+  height: number;
+  elevations: number[];
+};
+
+function sampleTile(tile: DemTile, { lng, lat }: GeoPoint): number | undefined {
+  const [west, south, east, north] = tile.bbox;
+  if (lng < west || lng > east || lat < south || lat > north) return undefined;
+  const x = ((lng - west) / (east - west)) * (tile.width - 1);
+  const y = ((north - lat) / (north - south)) * (tile.height - 1);
+  const x0 = Math.min(Math.floor(x), tile.width - 2);
+  const y0 = Math.min(Math.floor(y), tile.height - 2);
+  const fx = x - x0;
+  const fy = y - y0;
+  const at = (col: number, row: number) =>
+    tile.elevations[row * tile.width + col];
+  // Bilinear between the four surrounding grid posts.
+  const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+  const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/** Elevation at a point from the first tile covering it, if any. */
+export function sampleDem(
+  tiles: DemTile[],
+  point: GeoPoint,
+): number | undefined {
+  for (const tile of tiles) {
+    const ele = sampleTile(tile, point);
+    if (ele !== undefined) return ele;
+  }
+  return undefined;
+}
+
+/**
+ * Fills in vertices without `ele` from the DEM. Vertices that already carry
+ * an elevation (GPS or the graph) are kept as they are.
+ */
+export function fillElevations(
+  path: RouteVertex[],
+  tiles: DemTile[],
+): RouteVertex[] {
+  if (path.every((vertex) => vertex.ele !== undefined)) return path;
+  return path.map((vertex) => {
+    if (vertex.ele !== undefined) return vertex;
+    const ele = sampleDem(tiles, vertex);
+    return ele === undefined ? vertex : { ...vertex, ele: Math.round(ele) };
+  });
+}
+
+let cached: Promise<DemTile[]> | null = null;
+
+/**
+ * Loads the DEM tiles shipped with the app. Like the street graph, they are
+ * split into their own chunk and parsed once per session.
+ */
+export function loadDemTiles(): Promise<DemTile[]> {
+  cached ??= import("@/data/dem/bogota-norte.json").then((mod) => [
+    mod.default as unknown as DemTile,
+  ]);
+  return cached;
+}
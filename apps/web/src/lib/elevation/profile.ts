@@ -0,0 +1,126 @@
+import { cumulativeDistancesKm } from "@/lib/route/geo";
+import type { RouteVertex } from "@/lib/route/model";
+
+export type ElevationSample = {
+  distanceKm: number;
+  ele: number;
+  /** Grade around this sample, in percent (negative downhill). */
+  gradePct: number;
+};
+
+export type ClimbStats = {
+  ascentM: number;
+  descentM: number;
+  /** Steepest sustained grade over `GRADE_WINDOW_KM`, uphill or downhill. */
+  maxGradePct: number;
+  minEleM: number;
+  maxEleM: number;
+};
+
+// Changes smaller than this are GPS/DEM noise, not climbing.
+const CLIMB_THRESHOLD_M = 3;
+// Grades are measured over at least this much distance so one noisy vertex
+// does not read as a wall.
+const GRADE_WINDOW_KM = 0.1;
+const MAX_PROFILE_SAMPLES = 300;
+const MIN_SAMPLE_STEP_KM = 0.02;
+
+/** Distance/elevation pairs for the vertices that carry an elevation. */
+function elevationSeries(path: RouteVertex[]) {
+  const distances = cumulativeDistancesKm(path);
+  const series: { distanceKm: number; ele: number }[] = [];
+  path.forEach((vertex, idx) => {
+    if (vertex.ele !== undefined && Number.isFinite(vertex.ele)) {
+      series.push({ distanceKm: distances[idx], ele: vertex.ele });
+    }
+  });
+  return series;
+}
+
+/**
+ * Total ascent/descent, steepest grade and elevation range of a path. Null
+ * when fewer than two vertices have an elevation.
+ */
+export function climbStats(path: RouteVertex[]): ClimbStats | null {
+  const series = elevationSeries(path);
+  if (series.length < 2) return null;
+
+  let ascentM = 0;
+  let descentM = 0;
+  // Hysteresis: only count a change once it clears the threshold from the
+  // last accepted elevation.
+  let anchor = series[0].ele;
+  for (const { ele } of series) {
+    const delta = ele - anchor;
+    if (delta >= CLIMB_THRESHOLD_M) {
+      ascentM += delta;
+      anchor = ele;
+    } else if (delta <= -CLIMB_THRESHOLD_M) {
+      descentM -= delta;
+      anchor = ele;
+    }
+  }
+
+  const totalKm = series[series.length - 1].distanceKm - series[0].distanceKm;
+  const windowKm = Math.min(GRADE_WINDOW_KM, totalKm);
+  let maxGradePct = 0;
+  let j = 0;
+  for (let i = 0; i < series.length && windowKm > 0; i += 1) {
+    j = Math.max(j, i + 1);
+    while (
+      j < series.length &&
+      series[j].distanceKm - series[i].distanceKm < windowKm
+    ) {
+      j += 1;
+    }
+    if (j >= series.length) break;
+    const run = (series[j].distanceKm - series[i].distanceKm) * 1000;
+    const grade = ((series[j].ele - series[i].ele) / run) * 100;
+    if (Math.abs(grade) > Math.abs(maxGradePct)) maxGradePct = grade;
+  }
+
+  const elevations = series.map((point) => point.ele);
+  return {
+    ascentM: Math.round(ascentM),
+    descentM: Math.round(descentM),
+    maxGradePct: Math.round(maxGradePct * 10) / 10,
+    minEleM: Math.round(Math.min(...elevations)),
+    maxEleM: Math.round(Math.max(...elevations)),
+  };
+}
+
+/**
+ * Evenly spaced samples for drawing an elevation profile. Empty when the
+ * path has no elevation data.
+ */
+export function elevationProfile(path: RouteVertex[]): ElevationSample[] {
+  const series = elevationSeries(path);
+  if (series.length < 2) return [];
+  const totalKm = cumulativeDistancesKm(path).at(-1) ?? 0;
+  const stepKm = Math.max(MIN_SAMPLE_STEP_KM, totalKm / MAX_PROFILE_SAMPLES);
+  const count = Math.max(2, Math.ceil(totalKm / stepKm) + 1);
+
+  // Sample distances only grow, so one cursor walks the series once.
+  let hi = 0;
+  const samples = Array.from({ length: count }, (_, idx) => {
+    const distanceKm = Math.min(totalKm, idx * stepKm);
+    while (hi < series.length - 1 && series[hi].distanceKm < distanceKm) {
+      hi += 1;
+    }
+    const a = series[Math.max(0, hi - 1)];
+    const b = series[hi];
+    const span = b.distanceKm - a.distanceKm;
+    const t =
+      span > 0
+        ? Math.min(1, Math.max(0, (distanceKm - a.distanceKm) / span))
+        : 1;
+    return { distanceKm, ele: a.ele + (b.ele - a.ele) * t, gradePct: 0 };
+  });
+  samples.forEach((sample, idx) => {
+    const before = samples[Math.max(0, idx - 1)];
+    const after = samples[Math.min(samples.length - 1, idx + 1)];
+    const run = (after.distanceKm - before.distanceKm) * 1000;
+    sample.gradePct = run > 0 ? ((after.ele - before.ele) / run) * 100 : 0;
+  });
+  return samples;
+}
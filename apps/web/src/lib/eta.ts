@@ -0,0 +1,210 @@
+import { haversineKm } from "@/lib/route/geo";
+import type { RouteVertex } from "@/lib/route/model";
+import type { Mode } from "./modes";
+
+/** Flat-ground pace per mode (min/km), used when no target pace is set. */
+export const defaultPaceMinPerKm: Record<Mode, number> = {
+  run: 5.2,
+  jog: 6.5,
+  walk: 11.5,
+  hike: 10.5,
+};
+
+export type EtaOptions = {
+  /** The user's own flat-ground pace in min/km; overrides the mode default. */
+  targetPaceMinPerKm?: number;
+};
+
+export type EtaSplit = {
+  /** 1-based kilometre number; the last split may be shorter than 1 km. */
+  km: number;
+  distanceKm: number;
+  minutes: number;
+  paceMinPerKm: number;
+  ascentM: number;
+  descentM: number;
+};
+
+export type Eta = {
+  minutes: number;
+  /** Average pace over the whole route, climbing included. */
+  paceMinPerKm: number;
+  splits: EtaSplit[];
+};
+
+// Grades are taken over at least this much path so GPS noise between close
+// vertices does not turn into walls.
+const MIN_SEGMENT_KM = 0.05;
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Minetti et al. (2002): energy cost of running on a grade, in J/kg/m.
+const minettiCost = (g: number) =>
+  155.4 * g ** 5 -
+  30.4 * g ** 4 -
+  43.3 * g ** 3 +
+  46.3 * g ** 2 +
+  19.5 * g +
+  3.6;
+const FLAT_RUNNING_COST = minettiCost(0);
+// Minetti says steep descents are nearly free; nobody runs them that fast.
+const MIN_GAP_FACTOR = 0.8;
+
+/** Grade-adjusted pace multiplier for running (GAP). */
+function gapFactor(grade: number): number {
+  return Math.max(
+    MIN_GAP_FACTOR,
+    minettiCost(clamp(grade, -0.45, 0.45)) / FLAT_RUNNING_COST,
+  );
+}
+
+// Tobler's hiking function, in km/h. Fastest on a slight descent (−5 %).
+const toblerSpeed = (grade: number) =>
+  6 * Math.exp(-3.5 * Math.abs(clamp(grade, -0.6, 0.6) + 0.05));
+
+/** Pace multiplier for walking. */
+function toblerFactor(grade: number): number {
+  return toblerSpeed(0) / toblerSpeed(grade);
+}
+
+// Naismith's rule adds 1 h per 600 m of ascent at a 12 min/km walking pace;
+// Langmuir's corrections adjust descents by 10 min per 300 m.
+const NAISMITH_PACE = 12;
+const NAISMITH_MIN_PER_M_UP = 60 / 600;
+const LANGMUIR_MIN_PER_M_DOWN = 10 / 300;
+const GENTLE_DESCENT = Math.tan((5 * Math.PI) / 180);
+const STEEP_DESCENT = Math.tan((12 * Math.PI) / 180);
+
+/** Minutes for one segment of `km` climbing `riseM` (negative = descent). */
+function segmentMinutes(
+  mode: Mode,
+  km: number,
+  riseM: number,
+  pace: number,
+): number {
+  const grade = km > 0 ? riseM / (km * 1000) : 0;
+  if (mode === "run" || mode === "jog") return km * pace * gapFactor(grade);
+  if (mode === "walk") return km * pace * toblerFactor(grade);
+
+  // Hike: Naismith, scaled so a faster hiker also climbs faster.
+  const scale = pace / NAISMITH_PACE;
+  let minutes = km * pace;
+  if (riseM > 0) {
+    minutes += riseM * NAISMITH_MIN_PER_M_UP * scale;
+  } else if (-grade > STEEP_DESCENT) {
+    minutes += -riseM * LANGMUIR_MIN_PER_M_DOWN * scale;
+  } else if (-grade > GENTLE_DESCENT) {
+    minutes -= -riseM * LANGMUIR_MIN_PER_M_DOWN * scale;
+  }
+  // Langmuir's descent bonus is capped at 40 % off the flat time.
+  return Math.max(minutes, km * pace * 0.6);
+}
+
+/** Splits the path into stretches of at least `MIN_SEGMENT_KM`. */
+function pathSegments(path: RouteVertex[]): { km: number; riseM: number }[] {
+  const segments: { km: number; riseM: number }[] = [];
+  let lastEle = path.find((vertex) => vertex.ele !== undefined)?.ele;
+  let startEle = lastEle;
+  let km = 0;
+  for (let i = 1; i < path.length; i += 1) {
+    km += haversineKm(path[i - 1], path[i]);
+    lastEle = path[i].ele ?? lastEle;
+    if (km >= MIN_SEGMENT_KM || i === path.length - 1) {
+      const riseM =
+        startEle !== undefined && lastEle !== undefined
+          ? lastEle - startEle
+          : 0;
+      segments.push({ km, riseM });
+      km = 0;
+      startEle = lastEle;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Grade-adjusted time for a path: GAP for running modes, Tobler for walking
+ * and Naismith/Langmuir for hiking, on top of the mode's flat pace (or the
+ * user's target pace). Paths without elevations are treated as flat.
+ */
+export function estimateEta(
+  path: RouteVertex[],
+  mode: Mode,
+  { targetPaceMinPerKm }: EtaOptions = {},
+): Eta {
+  const pace =
+    targetPaceMinPerKm && targetPaceMinPerKm > 0
+      ? targetPaceMinPerKm
+      : defaultPaceMinPerKm[mode];
+
+  const splits: EtaSplit[] = [];
+  let current = { distanceKm: 0, minutes: 0, ascentM: 0, descentM: 0 };
+  const closeSplit = () => {
+    splits.push({
+      km: splits.length + 1,
+      distanceKm: current.distanceKm,
+      minutes: current.minutes,
+      paceMinPerKm: current.minutes / current.distanceKm,
+      ascentM: Math.round(current.ascentM),
+      descentM: Math.round(current.descentM),
+    });
+    current = { distanceKm: 0, minutes: 0, ascentM: 0, descentM: 0 };
+  };
+
+  for (const segment of pathSegments(path)) {
+    if (segment.km <= 0) continue;
+    const minutes = segmentMinutes(mode, segment.km, segment.riseM, pace);
+    // Spread the segment over the kilometre splits it crosses.
+    let remaining = segment.km;
+    while (remaining > 1e-9) {
+      const take = Math.min(remaining, 1 - current.distanceKm);
+      const share = take / segment.km;
+      current.distanceKm += take;
+      current.minutes += minutes * share;
+      if (segment.riseM > 0) current.ascentM += segment.riseM * share;
+      else current.descentM -= segment.riseM * share;
+      remaining -= take;
+      if (current.distanceKm >= 1 - 1e-9) closeSplit();
+    }
+  }
+  if (current.distanceKm > 0) {
+    const last = splits.at(-1);
+    if (last && current.distanceKm < 0.01) {
+      // A few leftover metres join the last kilometre instead of showing a
+      // split with a meaningless pace.
+      last.distanceKm += current.distanceKm;
+      last.minutes += current.minutes;
+      last.paceMinPerKm = last.minutes / last.distanceKm;
+    } else {
+      closeSplit();
+    }
+  }
+
+  const minutes = splits.reduce((acc, split) => acc + split.minutes, 0);
+  const distanceKm = splits.reduce((acc, split) => acc + split.distanceKm, 0);
+  return {
+    minutes: Math.round(minutes),
+    paceMinPerKm: distanceKm > 0 ? minutes / distanceKm : pace,
+    splits,
+  };
+}
+
+/** Reads "5:30" or "5.5" as minutes per km; null when it is not a pace. */
+export function parsePace(text: string): number | null {
+  const trimmed = text.trim();
+  const clock = trimmed.match(/^(\d{1,2}):([0-5]\d)$/);
+  const value = clock
+    ? Number(clock[1]) + Number(clock[2]) / 60
+    : Number.parseFloat(trimmed.replace(",", "."));
+  return Number.isFinite(value) && value >= 2 && value <= 40 ? value : null;
+}
+
+export function formatPace(minPerKm: number): string {
+  let minutes = Math.floor(minPerKm);
+  let seconds = Math.round((minPerKm - minutes) * 60);
+  if (seconds === 60) {
+    minutes += 1;
+    seconds = 0;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,114 @@
+import { apiRequest } from "@/lib/api/client";
+import type {
+  ForumPost,
+  ForumReport,
+  ForumThread,
+  PostInput,
+  PostPage,
+  Reaction,
+  ThreadInput,
+  ThreadPage,
+  ThreadPatch,
+  ThreadQuery,
+} from "./types";
+
+// Browser side of the forum endpoints. Failures surface as
+// `ApiRequestError`s whose messages can be shown as they are.
+
+const post = (postId: string, path = "") =>
+  `/forums/posts/${encodeURIComponent(postId)}${path}`;
+const thread = (threadId: string, path = "") =>
+  `/forums/threads/${encodeURIComponent(threadId)}${path}`;
+
+export async function fetchThreads({
+  city,
+  level,
+  search,
+  page = 1,
+}: ThreadQuery): Promise<ThreadPage> {
+  const params = new URLSearchParams({ city, page: String(page) });
+  if (level) params.set("level", level);
+  if (search?.trim()) params.set("q", search.trim());
+  const data = await apiRequest<ThreadPage>(`/forums/threads?${params}`);
+  return data ?? { threads: [], page: 1, pageCount: 1 };
+}
+
+/** The thread and a page of its posts; "last" is the newest page. */
+export async function fetchThread(
+  threadId: string,
+  page: number | "last" = 1,
+): Promise<PostPage> {
+  const data = await apiRequest<PostPage>(thread(threadId, `?page=${page}`));
+  return data as PostPage;
+}
+
+export async function startThread(input: ThreadInput): Promise<ForumThread> {
+  const data = await apiRequest<{ thread: ForumThread }>("/forums/threads", {
+    method: "POST",
+    body: input,
+  });
+  return (data as { thread: ForumThread }).thread;
+}
+
+export async function replyToThread(
+  threadId: string,
+  input: PostInput,
+): Promise<ForumPost> {
+  const data = await apiRequest<{ post: ForumPost }>(
+    thread(threadId, "/posts"),
+    { method: "POST", body: input },
+  );
+  return (data as { post: ForumPost }).post;
+}
+
+/** Adds the reaction, or takes it back when the user had given it. */
+export async function toggleReaction(
+  postId: string,
+  reaction: Reaction,
+): Promise<ForumPost> {
+  const data = await apiRequest<{ post: ForumPost }>(
+    post(postId, "/reactions"),
+    { method: "POST", body: { reaction } },
+  );
+  return (data as { post: ForumPost }).post;
+}
+
+export async function reportPost(postId: string, reason: string) {
+  await apiRequest(post(postId, "/reports"), {
+    method: "POST",
+    body: { reason },
+  });
+}
+
+// Moderation; the server answers 403 to anyone else.
+
+export async function moderateThread(
+  threadId: string,
+  patch: ThreadPatch,
+): Promise<ForumThread> {
+  const data = await apiRequest<{ thread: ForumThread }>(thread(threadId), {
+    method: "PATCH",
+    body: patch,
+  });
+  return (data as { thread: ForumThread }).thread;
+}
+
+export async function setPostHidden(
+  postId: string,
+  hidden: boolean,
+): Promise<ForumPost> {
+  const data = await apiRequest<{ post: ForumPost }>(post(postId), {
+    method: "PATCH",
+    body: { hidden },
+  });
+  return (data as { post: ForumPost }).post;
+}
+
+export async function fetchReports(): Promise<ForumReport[]> {
+  const data = await apiRequest<{ reports: ForumReport[] }>("/forums/reports");
+  return data?.reports ?? [];
+}
+
+export async function dismissReports(postId: string) {
+  await apiRequest(post(postId, "/reports"), { method: "DELETE" });
+}
@@ -0,0 +1,27 @@
+import type { ForumLevel, Reaction } from "./types";
+
+/** Each city has one forum per level; threads belong to one of them. */
+export const forumLevels: Record<
+  ForumLevel,
+  { label: string; description: string }
+> = {
+  beginner: {
+    label: "Principiante",
+    description: "Primeros 5K, caminatas largas y volver a empezar.",
+  },
+  intermediate: {
+    label: "Intermedio",
+    description: "10K y medias, series y ritmos de carrera.",
+  },
+  advanced: {
+    label: "Avanzado",
+    description: "Maratón, trail y bloques de entrenamiento exigentes.",
+  },
+};
+
+export const reactionMeta: Record<Reaction, { emoji: string; label: string }> =
+  {
+    like: { emoji: "👍", label: "Me gusta" },
+    fire: { emoji: "🔥", label: "Motivador" },
+    clap: { emoji: "👏", label: "Aplausos" },
+  };
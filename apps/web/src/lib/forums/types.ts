@@ -0,0 +1,83 @@
+import type { CityId } from "@/lib/geocoding/cities";
+import type { RouteInput } from "@/lib/route/model";
+
+export type ForumLevel = "beginner" | "intermediate" | "advanced";
+
+export type Reaction = "like" | "fire" | "clap";
+
+export type ForumAuthor = { id: string; displayName: string };
+
+export type ForumThread = {
+  id: string;
+  city: CityId;
+  level: ForumLevel;
+  title: string;
+  author: ForumAuthor;
+  /** Listed above the rest of the forum. */
+  pinned: boolean;
+  /** Closed to replies, except from moderators. */
+  locked: boolean;
+  /** Hidden by a moderator; only moderators still see it. */
+  hidden: boolean;
+  /** Visible posts after the opening one. */
+  replies: number;
+  createdAt: number;
+  lastPostAt: number;
+};
+
+export type ForumPost = {
+  id: string;
+  threadId: string;
+  author: ForumAuthor;
+  /** Empty for a hidden post, unless the viewer moderates. */
+  body: string;
+  route: RouteInput | null;
+  reactions: Record<Reaction, number>;
+  /** The viewer's own reactions. */
+  reacted: Reaction[];
+  hidden: boolean;
+  /** Open reports; always 0 for anyone but moderators. */
+  reports: number;
+  createdAt: number;
+};
+
+export type ThreadPage = {
+  threads: ForumThread[];
+  page: number;
+  pageCount: number;
+};
+
+export type PostPage = {
+  thread: ForumThread;
+  posts: ForumPost[];
+  page: number;
+  pageCount: number;
+};
+
+export type ThreadQuery = {
+  city: CityId;
+  /** Every level of the city when missing. */
+  level?: ForumLevel;
+  search?: string;
+  page?: number;
+};
+
+export type PostInput = { body: string; route?: RouteInput };
+
+export type ThreadInput = PostInput & {
+  city: CityId;
+  level: ForumLevel;
+  title: string;
+};
+
+export type ThreadPatch = Partial<
+  Pick<ForumThread, "pinned" | "locked" | "hidden">
+>;
+
+/** A reported post in the moderators' queue. */
+export type ForumReport = {
+  post: ForumPost;
+  thread: Pick<ForumThread, "id" | "title" | "city" | "level">;
+  reasons: string[];
+  lastReportedAt: number;
+};
@@ -0,0 +1,15 @@
+import type { GeoPoint } from "@/lib/route/geo";
+
+export type CityId = "bogota" | "medellin" | "cdmx" | "lima";
+
+/**
+ * Cities with forums and gazetteer entries. `center` is the default map view
+ * and the fallback start when the user's location is unknown; for Bogotá it
+ * sits inside the bundled street graph rather than on the downtown core.
+ */
+export const cities: Record<CityId, { name: string; center: GeoPoint }> = {
+  bogota: { name: "Bogotá", center: { lng: -74.042, lat: 4.6946 } },
+  medellin: { name: "Medellín", center: { lng: -75.5812, lat: 6.2442 } },
+  cdmx: { name: "Ciudad de México", center: { lng: -99.1332, lat: 19.4326 } },
+  lima: { name: "Lima", center: { lng: -77.0428, lat: -12.0464 } },
+};
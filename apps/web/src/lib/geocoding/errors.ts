@@ -0,0 +1,7 @@
+/** Raised when a place search fails. The message is user-facing. */
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeocodingError";
+  }
+}
@@ -0,0 +1,78 @@
+import { haversineKm } from "@/lib/route/geo";
+import { cities } from "./cities";
+import type { GeocodingProvider, Place, PlaceSearchOptions } from "./types";
+
+/** Bundled gazetteer format: places plus alternate names to match on. */
+export type GazetteerData = {
+  source?: string;
+  places: (Place & { aliases?: string[] })[];
+};
+
+type IndexedPlace = { place: Place; name: string; words: string[] };
+
+/** Lower-case, accent-free text so "bogota" finds "Bogotá". */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function indexPlaces(data: GazetteerData): IndexedPlace[] {
+  return data.places.map(({ aliases = [], ...place }) => {
+    const city = place.city ? cities[place.city].name : "";
+    const text = [place.name, ...aliases, place.detail ?? "", city].join(" ");
+    return {
+      place,
+      name: normalizeText(place.name),
+      words: normalizeText(text).split(" "),
+    };
+  });
+}
+
+/**
+ * Every query word has to start a word of the place (name, aliases, detail
+ * or city). Name prefixes rank first, then distance to `near`.
+ */
+function searchIndex(
+  index: IndexedPlace[],
+  query: string,
+  { near, limit = 6 }: PlaceSearchOptions,
+): Place[] {
+  const normalized = normalizeText(query);
+  const terms = normalized.split(" ").filter(Boolean);
+  if (!terms.length) return [];
+
+  return index
+    .filter((entry) =>
+      terms.every((term) => entry.words.some((word) => word.startsWith(term))),
+    )
+    .map((entry) => ({
+      place: entry.place,
+      rank:
+        (entry.name.startsWith(normalized) ? 0 : 1) +
+        (near ? Math.min(haversineKm(near, entry.place) / 1000, 0.9) : 0),
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map((entry) => entry.place);
+}
+
+/** Provider over the parks, trailheads and landmarks shipped with the app. */
+export function createGazetteerProvider(
+  load: () => Promise<GazetteerData> = () =>
+    import("@/data/places/gazetteer.json").then(
+      (mod) => mod.default as GazetteerData,
+    ),
+): GeocodingProvider {
+  let index: Promise<IndexedPlace[]> | null = null;
+  return {
+    name: "Lugares destacados",
+    async search(query, options = {}) {
+      index ??= load().then(indexPlaces);
+      return searchIndex(await index, query, options);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { haversineKm } from "@/lib/route/geo";
+import { createGazetteerProvider } from "./gazetteer";
+import { createNominatimProvider } from "./nominatim";
+import type { GeocodingProvider, Place } from "./types";
+
+export type GeocoderConfig = {
+  /** Nominatim-compatible server; without it only the gazetteer is used. */
+  nominatimUrl?: string;
+};
+
+// Remote hits this close to a gazetteer place are the same place.
+const DUPLICATE_KM = 0.15;
+
+/**
+ * Searches the bundled gazetteer first and tops the list up from the remote
+ * provider. A remote failure only surfaces when there is nothing local.
+ */
+export function combineProviders(
+  local: GeocodingProvider,
+  remote?: GeocodingProvider,
+): GeocodingProvider {
+  if (!remote) return local;
+  return {
+    name: `${local.name} + ${remote.name}`,
+    async search(query, options = {}) {
+      const limit = options.limit ?? 6;
+      const found = await local.search(query, options);
+      if (found.length >= limit) return found;
+      let extra: Place[];
+      try {
+        extra = await remote.search(query, options);
+      } catch (error) {
+        if (found.length && !options.signal?.aborted) return found;
+        throw error;
+      }
+      const fresh = extra.filter(
+        (place) => !found.some((hit) => haversineKm(hit, place) < DUPLICATE_KM),
+      );
+      return [...found, ...fresh].slice(0, limit);
+    },
+  };
+}
+
+export function createGeocoder({
+  nominatimUrl,
+}: GeocoderConfig = {}): GeocodingProvider {
+  return combineProviders(
+    createGazetteerProvider(),
+    nominatimUrl
+      ? createNominatimProvider({ baseUrl: nominatimUrl })
+      : undefined,
+  );
+}
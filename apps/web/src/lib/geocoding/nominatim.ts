@@ -0,0 +1,96 @@
+import { GeocodingError } from "./errors";
+import type { GeocodingProvider, Place, PlaceKind } from "./types";
+
+export type NominatimOptions = {
+  /** Server root, e.g. https://nominatim.openstreetmap.org */
+  baseUrl: string;
+  /** ISO 3166-1 alpha-2 codes the search is limited to. */
+  countryCodes?: string[];
+  language?: string;
+};
+
+type NominatimResult = {
+  place_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  category?: string;
+  type?: string;
+};
+
+// Half-width (degrees) of the box that biases results towards `near`.
+const VIEWBOX_DEG = 0.25;
+
+function placeKind({ category, type }: NominatimResult): PlaceKind {
+  if (type === "trailhead") return "trailhead";
+  if (category === "leisure" && (type === "park" || type === "nature_reserve"))
+    return "park";
+  if (category === "tourism" || category === "historic") return "landmark";
+  return "address";
+}
+
+/**
+ * Provider for any server speaking the Nominatim `/search` API (the public
+ * instance, a self-hosted one or a compatible proxy).
+ */
+export function createNominatimProvider({
+  baseUrl,
+  countryCodes = ["co", "mx", "pe"],
+  language = "es",
+}: NominatimOptions): GeocodingProvider {
+  const root = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+  return {
+    name: "Nominatim",
+    async search(query, { near, limit = 6, signal } = {}) {
+      const url = new URL("search", root);
+      url.searchParams.set("q", query);
+      url.searchParams.set("format", "jsonv2");
+      url.searchParams.set("limit", String(limit));
+      url.searchParams.set("accept-language", language);
+      if (countryCodes.length) {
+        url.searchParams.set("countrycodes", countryCodes.join(","));
+      }
+      if (near) {
+        url.searchParams.set(
+          "viewbox",
+          [
+            near.lng - VIEWBOX_DEG,
+            near.lat + VIEWBOX_DEG,
+            near.lng + VIEWBOX_DEG,
+            near.lat - VIEWBOX_DEG,
+          ].join(","),
+        );
+      }
+
+      let results: NominatimResult[];
+      try {
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+          throw new GeocodingError(
+            `El buscador de lugares respondió con un error (${response.status}).`,
+          );
+        }
+        results = await response.json();
+      } catch (error) {
+        if (error instanceof GeocodingError) throw error;
+        if (signal?.aborted) throw error;
+        throw new GeocodingError(
+          "No se pudo conectar con el buscador de lugares.",
+        );
+      }
+
+      return results.map((result): Place => {
+        const [first, ...rest] = result.display_name.split(", ");
+        return {
+          id: `nominatim-${result.place_id}`,
+          name: result.name || first,
+          kind: placeKind(result),
+          detail: rest.slice(0, 3).join(", ") || undefined,
+          lng: Number(result.lon),
+          lat: Number(result.lat),
+        };
+      });
+    },
+  };
+}
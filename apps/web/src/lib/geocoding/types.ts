@@ -0,0 +1,29 @@
+import type { GeoPoint } from "@/lib/route/geo";
+import type { CityId } from "./cities";
+
+export type PlaceKind = "park" | "trailhead" | "landmark" | "address";
+
+export type Place = GeoPoint & {
+  id: string;
+  name: string;
+  kind: PlaceKind;
+  city?: CityId;
+  /** Secondary line for result lists, e.g. the neighbourhood or address. */
+  detail?: string;
+};
+
+export type PlaceSearchOptions = {
+  /** Results closer to this point rank higher. */
+  near?: GeoPoint;
+  limit?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * Anything that can turn free text into places: the bundled gazetteer, a
+ * Nominatim-compatible server, or a mix of both.
+ */
+export type GeocodingProvider = {
+  name: string;
+  search: (query: string, options?: PlaceSearchOptions) => Promise<Place[]>;
+};
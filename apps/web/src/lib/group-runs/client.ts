@@ -0,0 +1,117 @@
+import { apiRequest } from "@/lib/api/client";
+import type {
+  CrewPosition,
+  GroupRun,
+  GroupRunChange,
+  GroupRunEvent,
+  GroupRunInput,
+  PositionInput,
+} from "./types";
+
+// Browser side of the group-run endpoints. Failures surface as
+// `ApiRequestError`s whose messages can be shown as they are.
+
+const at = (runId: string, path = "") =>
+  `/group-runs/${encodeURIComponent(runId)}${path}`;
+
+const runOf = (data: { run: GroupRun } | null) =>
+  (data as { run: GroupRun }).run;
+
+/** Runs the user organises or RSVP'd to, from yesterday on. */
+export async function fetchGroupRuns(): Promise<GroupRun[]> {
+  const data = await apiRequest<{ runs: GroupRun[] }>("/group-runs");
+  return data?.runs ?? [];
+}
+
+export async function createGroupRun(input: GroupRunInput): Promise<GroupRun> {
+  return runOf(
+    await apiRequest<{ run: GroupRun }>("/group-runs", {
+      method: "POST",
+      body: input,
+    }),
+  );
+}
+
+/** The run behind an invite link. */
+export async function fetchInvite(inviteCode: string): Promise<GroupRun> {
+  return runOf(
+    await apiRequest<{ run: GroupRun }>(
+      `/group-runs/invites/${encodeURIComponent(inviteCode)}`,
+    ),
+  );
+}
+
+export async function rsvp(
+  runId: string,
+  inviteCode: string,
+): Promise<GroupRun> {
+  return runOf(
+    await apiRequest<{ run: GroupRun }>(at(runId, "/rsvp"), {
+      method: "POST",
+      body: { inviteCode },
+    }),
+  );
+}
+
+export async function leaveGroupRun(runId: string): Promise<GroupRun> {
+  return runOf(
+    await apiRequest<{ run: GroupRun }>(at(runId, "/rsvp"), {
+      method: "DELETE",
+    }),
+  );
+}
+
+/** Moves the run; everyone who RSVP'd gets an email. */
+export async function moveGroupRun(
+  runId: string,
+  change: GroupRunChange,
+): Promise<GroupRun> {
+  return runOf(
+    await apiRequest<{ run: GroupRun }>(at(runId), {
+      method: "PATCH",
+      body: change,
+    }),
+  );
+}
+
+/** Cancels the run; everyone who RSVP'd gets an email. */
+export async function cancelGroupRun(runId: string): Promise<void> {
+  await apiRequest(at(runId), { method: "DELETE" });
+}
+
+/** Where the attendees sharing their location were last seen. */
+export async function fetchCrewPositions(
+  runId: string,
+): Promise<CrewPosition[]> {
+  const data = await apiRequest<{ positions: CrewPosition[] }>(
+    at(runId, "/positions"),
+  );
+  return data?.positions ?? [];
+}
+
+export async function shareCrewPosition(
+  runId: string,
+  position: PositionInput,
+): Promise<void> {
+  await apiRequest(at(runId, "/positions"), {
+    method: "POST",
+    body: position,
+  });
+}
+
+/** Stops sharing: the group no longer sees this user on the map. */
+export async function stopSharingPosition(runId: string): Promise<void> {
+  await apiRequest(at(runId, "/positions"), { method: "DELETE" });
+}
+
+/**
+ * Listens to changes and live positions of the user's group runs. The
+ * browser reconnects on its own after a drop.
+ */
+export function subscribeToGroupRuns(
+  onEvent: (event: GroupRunEvent) => void,
+): () => void {
+  const source = new EventSource("/api/group-runs/events");
+  source.onmessage = (message) => onEvent(JSON.parse(message.data));
+  return () => source.close();
+}
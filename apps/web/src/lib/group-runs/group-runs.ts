@@ -0,0 +1,38 @@
+import type { GroupRun } from "./types";
+
+// Positions can be shared from a while before the start until well after it,
+// long enough for any route a group runs together.
+export const LIVE_BEFORE_MS = 60 * 60 * 1000;
+export const LIVE_AFTER_MS = 6 * 60 * 60 * 1000;
+/** Positions older than this are not shown: the phone stopped sending. */
+export const POSITION_STALE_MS = 10 * 60 * 1000;
+
+/** Whether attendees may share their location with the group now. */
+export function isLive(run: GroupRun, now: number): boolean {
+  return (
+    run.cancelledAt === null &&
+    now >= run.startsAt - LIVE_BEFORE_MS &&
+    now <= run.startsAt + LIVE_AFTER_MS
+  );
+}
+
+export const isFull = (run: GroupRun) => run.attendees.length >= run.capacity;
+
+export const isAttending = (run: GroupRun, userId: string) =>
+  run.attendees.some((attendee) => attendee.id === userId);
+
+/** "martes, 20 de octubre, 7:30", in the zone the run was planned in. */
+export function formatStart(run: Pick<GroupRun, "startsAt" | "timeZone">) {
+  return new Date(run.startsAt).toLocaleString("es", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: run.timeZone,
+  });
+}
+
+/** The invite link, e.g. for the organiser to paste in a chat. */
+export const inviteUrl = (origin: string, inviteCode: string) =>
+  new URL(`/runs/${encodeURIComponent(inviteCode)}`, origin).toString();
@@ -0,0 +1,75 @@
+import { formatPace } from "@/lib/eta";
+import { pathDistanceKm } from "@/lib/route/geo";
+import type { GroupRun } from "./types";
+
+// iCalendar (RFC 5545) for a group run, so it lands in any calendar app.
+
+/** Escapes text values: backslashes, separators and line breaks. */
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/** Lines longer than 75 octets continue on the next, after a space. */
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const utcStamp = (at: number) =>
+  new Date(at)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/** The run as a one-event calendar; `url` is its invite link. */
+export function groupRunIcs(
+  run: GroupRun,
+  { url, now = Date.now() }: { url: string; now?: number },
+): string {
+  const distanceKm = pathDistanceKm(run.route.path);
+  const durationMs = distanceKm * run.paceMinPerKm * 60_000;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HikeUp//Salidas en grupo//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${run.id}@hikeup`,
+    // Moving the run bumps it, so calendars replace the old copy.
+    `SEQUENCE:${Math.floor(run.updatedAt / 1000) - Math.floor(run.createdAt / 1000)}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `DTSTART:${utcStamp(run.startsAt)}`,
+    `DTEND:${utcStamp(run.startsAt + durationMs)}`,
+    `SUMMARY:${escapeText(run.title)}`,
+    `LOCATION:${escapeText(run.meetingPoint.label)}`,
+    `GEO:${run.meetingPoint.lat.toFixed(6)};${run.meetingPoint.lng.toFixed(6)}`,
+    `DESCRIPTION:${escapeText(
+      [
+        `Ruta: ${run.route.title} (${distanceKm.toFixed(1)} km)`,
+        `Ritmo del grupo: ${formatPace(run.paceMinPerKm)}/km`,
+        `Organiza: ${run.organizer.displayName}`,
+        url,
+      ].join("\n"),
+    )}`,
+    `URL:${url}`,
+    `STATUS:${run.cancelledAt === null ? "CONFIRMED" : "CANCELLED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
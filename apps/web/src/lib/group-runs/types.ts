@@ -0,0 +1,60 @@
+import type { GeoPoint } from "@/lib/route/geo";
+import type { RouteInput } from "@/lib/route/model";
+
+export type Participant = { id: string; displayName: string };
+
+export type MeetingPoint = GeoPoint & { label: string };
+
+/** A group outing on a saved route. */
+export type GroupRun = {
+  id: string;
+  organizer: Participant;
+  title: string;
+  route: RouteInput;
+  meetingPoint: MeetingPoint;
+  startsAt: number;
+  /** IANA zone the organiser planned in; emails and invites show times in it. */
+  timeZone: string;
+  /** The pace group: the pace everyone agrees to hold, in min/km. */
+  paceMinPerKm: number;
+  capacity: number;
+  /** Everyone who RSVP'd, the organiser first. */
+  attendees: Participant[];
+  /** Code of the invite link; anyone signed in with it can RSVP. */
+  inviteCode: string;
+  cancelledAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type GroupRunInput = {
+  title: string;
+  route: RouteInput;
+  meetingPoint: MeetingPoint;
+  startsAt: number;
+  timeZone: string;
+  paceMinPerKm: number;
+  capacity: number;
+};
+
+/** What an organiser can move once people have RSVP'd. */
+export type GroupRunChange = { startsAt?: number; meetingPoint?: MeetingPoint };
+
+export type PositionInput = GeoPoint & { accuracyM: number };
+
+/** Where an attendee was last seen, shared with the group on the day. */
+export type CrewPosition = PositionInput & {
+  userId: string;
+  displayName: string;
+  at: number;
+};
+
+export type GroupRunEvent =
+  | { type: "updated"; run: GroupRun }
+  /** `position` is null once the attendee stops sharing. */
+  | {
+      type: "position";
+      runId: string;
+      userId: string;
+      position: CrewPosition | null;
+    };
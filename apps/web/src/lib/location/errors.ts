@@ -0,0 +1,23 @@
+export type LocationErrorReason =
+  | "denied"
+  | "unavailable"
+  | "timeout"
+  | "unsupported";
+
+const messages: Record<LocationErrorReason, string> = {
+  denied: "No diste permiso para usar tu ubicación.",
+  unavailable: "El dispositivo no pudo obtener tu ubicación.",
+  timeout: "Tu ubicación tardó demasiado en llegar.",
+  unsupported: "Este navegador no permite obtener la ubicación.",
+};
+
+/** Raised when no position can be read. The message is user-facing. */
+export class LocationError extends Error {
+  readonly reason: LocationErrorReason;
+
+  constructor(reason: LocationErrorReason, message = messages[reason]) {
+    super(message);
+    this.name = "LocationError";
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,46 @@
+import { type CityId, cities } from "@/lib/geocoding/cities";
+import type { GeoPoint } from "@/lib/route/geo";
+import { LocationError } from "./errors";
+import type { PositionRequest, PositionSource } from "./source";
+
+export type LocatedPosition = GeoPoint & {
+  /** Null when the point is a city fallback rather than a real fix. */
+  accuracyM: number | null;
+  fallbackCity: CityId | null;
+};
+
+export function cityFallback(city: CityId): LocatedPosition {
+  return { ...cities[city].center, accuracyM: null, fallbackCity: city };
+}
+
+/**
+ * Asks the source for one fix. Any failure (denied, timeout…) resolves to
+ * the chosen city's center together with the error, so callers always get a
+ * usable point.
+ */
+export async function locateUser(
+  source: PositionSource,
+  fallback: CityId,
+  request?: PositionRequest,
+): Promise<{ position: LocatedPosition; error: LocationError | null }> {
+  try {
+    const fix = await source.current(request);
+    return {
+      position: {
+        lng: fix.lng,
+        lat: fix.lat,
+        accuracyM: fix.accuracyM,
+        fallbackCity: null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return {
+      position: cityFallback(fallback),
+      error:
+        error instanceof LocationError
+          ? error
+          : new LocationError("unavailable"),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { cumulativeDistancesKm, pointAlongPath } from "@/lib/route/geo";
+import type { RouteVertex } from "@/lib/route/model";
+import type { PositionFix } from "./source";
+
+/**
+ * Turns a recorded track (or any route) into the fixes a GPS would have
+ * produced moving along it at `speedMps`, one every `stepS` seconds.
+ */
+export function fixesAlongPath(
+  path: RouteVertex[],
+  {
+    speedMps = 3,
+    stepS = 1,
+    accuracyM = 8,
+    startTime = Date.now(),
+  }: {
+    speedMps?: number;
+    stepS?: number;
+    accuracyM?: number;
+    startTime?: number;
+  } = {},
+): PositionFix[] {
+  const distances = cumulativeDistancesKm(path);
+  const totalKm = distances[distances.length - 1] ?? 0;
+  const stepKm = (speedMps * stepS) / 1000;
+  const count = Math.floor(totalKm / stepKm) + 1;
+  const fixes: PositionFix[] = [];
+  for (let i = 0; i <= count; i += 1) {
+    const point = pointAlongPath(
+      path,
+      Math.min(totalKm, i * stepKm),
+      distances,
+    );
+    if (!point) break;
+    fixes.push({
+      lng: point.lng,
+      lat: point.lat,
+      accuracyM,
+      speedMps,
+      timestamp: startTime + i * stepS * 1000,
+    });
+  }
+  return fixes;
+}
@@ -0,0 +1,166 @@
+import type { GeoPoint } from "@/lib/route/geo";
+import { LocationError, type LocationErrorReason } from "./errors";
+
+export type PositionFix = GeoPoint & {
+  /** Radius of the 68 % confidence circle, in metres. */
+  accuracyM: number;
+  altitudeM?: number;
+  headingDeg?: number;
+  speedMps?: number;
+  timestamp: number;
+};
+
+export type PositionRequest = {
+  timeoutMs?: number;
+  maximumAgeMs?: number;
+  highAccuracy?: boolean;
+};
+
+/**
+ * Where positions come from. The browser implementation wraps
+ * `navigator.geolocation`; the mock replays fixed positions or failures so
+ * location features run headless.
+ */
+export type PositionSource = {
+  current: (request?: PositionRequest) => Promise<PositionFix>;
+  /** Starts streaming fixes; the returned function stops it. */
+  watch: (
+    onFix: (fix: PositionFix) => void,
+    onError: (error: LocationError) => void,
+    request?: PositionRequest,
+  ) => () => void;
+};
+
+const DEFAULT_REQUEST: Required<PositionRequest> = {
+  timeoutMs: 10_000,
+  maximumAgeMs: 30_000,
+  highAccuracy: true,
+};
+
+function toFix({ coords, timestamp }: GeolocationPosition): PositionFix {
+  return {
+    lng: coords.longitude,
+    lat: coords.latitude,
+    accuracyM: coords.accuracy,
+    altitudeM: coords.altitude ?? undefined,
+    headingDeg: coords.heading ?? undefined,
+    speedMps: coords.speed ?? undefined,
+    timestamp,
+  };
+}
+
+function toError(error: GeolocationPositionError): LocationError {
+  if (error.code === error.PERMISSION_DENIED)
+    return new LocationError("denied");
+  if (error.code === error.TIMEOUT) return new LocationError("timeout");
+  return new LocationError("unavailable");
+}
+
+const toOptions = (request: PositionRequest = {}): PositionOptions => {
+  const { timeoutMs, maximumAgeMs, highAccuracy } = {
+    ...DEFAULT_REQUEST,
+    ...request,
+  };
+  return {
+    timeout: timeoutMs,
+    maximumAge: maximumAgeMs,
+    enableHighAccuracy: highAccuracy,
+  };
+};
+
+export function createBrowserPositionSource(
+  geolocation: Geolocation | undefined = typeof navigator === "undefined"
+    ? undefined
+    : navigator.geolocation,
+): PositionSource {
+  return {
+    current(request) {
+      if (!geolocation) {
+        return Promise.reject(new LocationError("unsupported"));
+      }
+      return new Promise((resolve, reject) => {
+        geolocation.getCurrentPosition(
+          (position) => resolve(toFix(position)),
+          (error) => reject(toError(error)),
+          toOptions(request),
+        );
+      });
+    },
+    watch(onFix, onError, request) {
+      if (!geolocation) {
+        onError(new LocationError("unsupported"));
+        return () => {};
+      }
+      const id = geolocation.watchPosition(
+        (position) => onFix(toFix(position)),
+        (error) => onError(toError(error)),
+        toOptions(request),
+      );
+      return () => geolocation.clearWatch(id);
+    },
+  };
+}
+
+/**
+ * Replays `script`: a list of fixes (one per `intervalMs` when watching, the
+ * first one for `current`) or a failure reason raised on every call.
+ */
+export function createMockPositionSource(
+  script: PositionFix[] | LocationErrorReason,
+  { intervalMs = 1000 }: { intervalMs?: number } = {},
+): PositionSource {
+  return {
+    async current() {
+      if (typeof script === "string") throw new LocationError(script);
+      if (!script.length) throw new LocationError("unavailable");
+      return { ...script[0], timestamp: Date.now() };
+    },
+    watch(onFix, onError) {
+      if (typeof script === "string") {
+        onError(new LocationError(script));
+        return () => {};
+      }
+      let next = 0;
+      const timer = setInterval(() => {
+        if (next >= script.length) {
+          clearInterval(timer);
+          return;
+        }
+        onFix({ ...script[next], timestamp: Date.now() });
+        next += 1;
+      }, intervalMs);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+const FAILURES: LocationErrorReason[] = [
+  "denied",
+  "unavailable",
+  "timeout",
+  "unsupported",
+];
+
+/** Search param for `mockPositionSourceFromUrl`; links never carry it. */
+export const MOCK_LOCATION_PARAM = "mock-location";
+
+/**
+ * Reads a mock from `?mock-location=lng,lat[,accuracy]` or
+ * `?mock-location=denied` (any failure reason), for headless runs. Production
+ * builds ignore it: a recording or a crew position must come from the GPS.
+ */
+export function mockPositionSourceFromUrl(
+  search: string,
+): PositionSource | null {
+  if (process.env.NODE_ENV === "production") return null;
+  const value = new URLSearchParams(search).get(MOCK_LOCATION_PARAM);
+  if (!value) return null;
+  if ((FAILURES as string[]).includes(value)) {
+    return createMockPositionSource(value as LocationErrorReason);
+  }
+  const [lng, lat, accuracyM = 15] = value.split(",").map(Number);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  return createMockPositionSource([
+    { lng, lat, accuracyM, timestamp: Date.now() },
+  ]);
+}
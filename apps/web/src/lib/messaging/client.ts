@@ -0,0 +1,116 @@
+import { apiRequest } from "@/lib/api/client";
+import type {
+  ChatEvent,
+  ChatMessage,
+  ConversationSummary,
+  Device,
+  DeviceRevokeReason,
+  MessageInput,
+} from "./types";
+
+// Browser side of the messaging endpoints. Failures surface as
+// `ApiRequestError`s whose messages can be shown as they are.
+
+const at = (conversationId: string, path: string) =>
+  `/conversations/${encodeURIComponent(conversationId)}/${path}`;
+
+export async function fetchConversations(): Promise<ConversationSummary[]> {
+  const data = await apiRequest<{ conversations: ConversationSummary[] }>(
+    "/conversations",
+  );
+  return data?.conversations ?? [];
+}
+
+/** Opens a conversation with these accounts, or the existing one-to-one. */
+export async function startConversation(input: {
+  emails: string[];
+  title?: string;
+}): Promise<ConversationSummary> {
+  const data = await apiRequest<{ conversation: ConversationSummary }>(
+    "/conversations",
+    { method: "POST", body: input },
+  );
+  return (data as { conversation: ConversationSummary }).conversation;
+}
+
+export async function fetchMessages(
+  conversationId: string,
+  before?: number,
+): Promise<{ messages: ChatMessage[]; more: boolean }> {
+  const data = await apiRequest<{ messages: ChatMessage[]; more: boolean }>(
+    at(conversationId, before ? `messages?before=${before}` : "messages"),
+  );
+  return data ?? { messages: [], more: false };
+}
+
+/** Sends an envelope sealed on this device; see `./crypto`. */
+export async function sendMessage(
+  conversationId: string,
+  input: MessageInput,
+): Promise<ChatMessage> {
+  const data = await apiRequest<{ message: ChatMessage }>(
+    at(conversationId, "messages"),
+    { method: "POST", body: input },
+  );
+  return (data as { message: ChatMessage }).message;
+}
+
+export async function markRead(conversationId: string): Promise<void> {
+  await apiRequest(at(conversationId, "read"), { method: "POST" });
+}
+
+export async function sendTyping(conversationId: string): Promise<void> {
+  await apiRequest(at(conversationId, "typing"), { method: "POST" });
+}
+
+/** The signed-in user's devices, revoked ones included. */
+export async function fetchDevices(): Promise<Device[]> {
+  const data = await apiRequest<{ devices: Device[] }>("/devices");
+  return data?.devices ?? [];
+}
+
+export async function registerDevice(input: {
+  label: string;
+  publicKey: JsonWebKey;
+}): Promise<Device> {
+  const data = await apiRequest<{ device: Device }>("/devices", {
+    method: "POST",
+    body: input,
+  });
+  return (data as { device: Device }).device;
+}
+
+export async function revokeDevice(
+  deviceId: string,
+  reason: DeviceRevokeReason,
+): Promise<void> {
+  await apiRequest(`/devices/${encodeURIComponent(deviceId)}`, {
+    method: "DELETE",
+    body: { reason },
+  });
+}
+
+/** Every member's devices: the public keys a conversation is sealed with. */
+export async function fetchConversationDevices(
+  conversationId: string,
+): Promise<Device[]> {
+  const data = await apiRequest<{ devices: Device[] }>(
+    at(conversationId, "devices"),
+  );
+  return data?.devices ?? [];
+}
+
+/**
+ * Listens to the user's chat events. The browser reconnects on its own
+ * after a drop; `onStatus` says whether the stream is up.
+ */
+export function subscribeToChat(
+  onEvent: (event: ChatEvent) => void,
+  onStatus?: (connected: boolean) => void,
+): () => void {
+  const source = new EventSource("/api/conversations/events");
+  source.onopen = () => onStatus?.(true);
+  source.onerror = () => onStatus?.(false);
+  source.onmessage = (message) => onEvent(JSON.parse(message.data));
+  return () => source.close();
+}
@@ -0,0 +1,255 @@
+import { MessagingError } from "./errors";
+import type {
+  ChatMessage,
+  Device,
+  Envelope,
+  MessagePayload,
+  OpenedMessage,
+} from "./types";
+
+// End-to-end encryption for direct messages, on WebCrypto only.
+//
+// Every device has an ECDH P-256 key pair whose private half never leaves
+// it. When a conversation opens, the device derives a key with each member
+// device (ECDH, then HKDF salted with the conversation id). Each message is
+// sealed with a fresh AES-GCM key, and that key is wrapped with the pair key
+// of every device that may read it. The server only relays the result.
+
+const ECDH = { name: "ECDH", namedCurve: "P-256" } as const;
+const PAIR_INFO = "hikeup-dm-v1";
+// Signal's count; slows down searching for a key with a matching number.
+const SAFETY_ITERATIONS = 5200;
+
+const subtle = () => {
+  if (!globalThis.crypto?.subtle) {
+    throw new MessagingError(
+      "Este navegador no puede cifrar mensajes. Abre HikeUp con HTTPS en un navegador actualizado.",
+    );
+  }
+  return globalThis.crypto.subtle;
+};
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = "";
+  // In slices, so long routes do not overflow the argument list.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const randomIv = () => globalThis.crypto.getRandomValues(new Uint8Array(12));
+
+/** A device's key pair; the private key cannot be exported. */
+export async function generateDeviceKeys(): Promise<{
+  privateKey: CryptoKey;
+  publicKey: JsonWebKey;
+}> {
+  const pair = await subtle().generateKey(ECDH, false, ["deriveBits"]);
+  const { kty, crv, x, y } = await subtle().exportKey("jwk", pair.publicKey);
+  return { privateKey: pair.privateKey, publicKey: { kty, crv, x, y } };
+}
+
+async function pairKey(
+  privateKey: CryptoKey,
+  peer: JsonWebKey,
+  conversationId: string,
+  fromDeviceId: string,
+  toDeviceId: string,
+): Promise<CryptoKey> {
+  const peerKey = await subtle().importKey("jwk", peer, ECDH, true, []);
+  const secret = await subtle().deriveBits(
+    { name: "ECDH", public: peerKey },
+    privateKey,
+    256,
+  );
+  const material = await subtle().importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return subtle().deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: utf8(conversationId),
+      info: utf8(`${PAIR_INFO}:${fromDeviceId}:${toDeviceId}`),
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** A device's private key, as kept in this browser. */
+export type LocalKey = { deviceId: string; privateKey: CryptoKey };
+
+export type ConversationCipher = {
+  /** Seals `payload` for every device in `recipients`. */
+  encrypt: (payload: MessagePayload, recipients: Device[]) => Promise<Envelope>;
+  decrypt: (message: ChatMessage) => Promise<OpenedMessage>;
+};
+
+/**
+ * The key exchange for one conversation: derives a key between this
+ * browser's current device and every member device up front, and any other
+ * pair (older local keys, retired senders) when a message needs it.
+ * `devices` are the members' devices, revoked ones included.
+ */
+export async function openConversation(
+  conversationId: string,
+  {
+    current,
+    retired,
+    devices,
+  }: {
+    current: LocalKey;
+    /** Earlier keys of this browser, kept to read old messages. */
+    retired: LocalKey[];
+    devices: Device[];
+  },
+): Promise<ConversationCipher> {
+  const pairs = new Map<string, Promise<CryptoKey>>();
+  const pair = (local: LocalKey, peer: Device, sending: boolean) => {
+    const [from, to] = sending
+      ? [local.deviceId, peer.id]
+      : [peer.id, local.deviceId];
+    const cacheKey = `${from}>${to}`;
+    let key = pairs.get(cacheKey);
+    if (!key) {
+      key = pairKey(local.privateKey, peer.publicKey, conversationId, from, to);
+      pairs.set(cacheKey, key);
+    }
+    return key;
+  };
+  const active = devices.filter((device) => device.revokedAt === null);
+  await Promise.all(active.map((device) => pair(current, device, true)));
+
+  return {
+    async encrypt(payload, recipients) {
+      const contentKey = globalThis.crypto.getRandomValues(new Uint8Array(32));
+      const iv = randomIv();
+      const key = await subtle().importKey(
+        "raw",
+        contentKey,
+        "AES-GCM",
+        false,
+        ["encrypt"],
+      );
+      const ciphertext = await subtle().encrypt(
+        {
+          name: "AES-GCM",
+          iv,
+          additionalData: utf8(`${conversationId}:${current.deviceId}`),
+        },
+        key,
+        utf8(JSON.stringify(payload)),
+      );
+      const keys: Envelope["keys"] = {};
+      for (const device of recipients) {
+        const wrapIv = randomIv();
+        const wrapped = await subtle().encrypt(
+          { name: "AES-GCM", iv: wrapIv },
+          await pair(current, device, true),
+          contentKey,
+        );
+        keys[device.id] = { wrapped: toBase64(wrapped), iv: toBase64(wrapIv) };
+      }
+      return { ciphertext: toBase64(ciphertext), iv: toBase64(iv), keys };
+    },
+
+    async decrypt({ envelope, ...message }) {
+      const local = [current, ...retired].find(
+        (candidate) => envelope.keys[candidate.deviceId],
+      );
+      if (!local) return { ...message, payload: null, locked: "no-key" };
+      const sender = devices.find(
+        (device) => device.id === message.senderDeviceId,
+      );
+      if (!sender) return { ...message, payload: null, locked: "unreadable" };
+      try {
+        const wrappedKey = envelope.keys[local.deviceId];
+        const contentKey = await subtle().decrypt(
+          { name: "AES-GCM", iv: fromBase64(wrappedKey.iv) },
+          await pair(local, sender, false),
+          fromBase64(wrappedKey.wrapped),
+        );
+        const key = await subtle().importKey(
+          "raw",
+          contentKey,
+          "AES-GCM",
+          false,
+          ["decrypt"],
+        );
+        const plain = await subtle().decrypt(
+          {
+            name: "AES-GCM",
+            iv: fromBase64(envelope.iv),
+            additionalData: utf8(`${conversationId}:${sender.id}`),
+          },
+          key,
+          fromBase64(envelope.ciphertext),
+        );
+        const payload: MessagePayload = JSON.parse(
+          new TextDecoder().decode(plain),
+        );
+        return { ...message, payload, locked: null };
+      } catch {
+        return { ...message, payload: null, locked: "unreadable" };
+      }
+    },
+  };
+}
+
+async function fingerprint(
+  userId: string,
+  keys: JsonWebKey[],
+): Promise<string> {
+  // Sorted, so the same set of devices always gives the same number.
+  const input = utf8(
+    `${userId}|${keys
+      .map((key) => `${key.x}.${key.y}`)
+      .sort()
+      .join("|")}`,
+  );
+  let hash: Uint8Array<ArrayBuffer> = input;
+  for (let i = 0; i < SAFETY_ITERATIONS; i += 1) {
+    const next = new Uint8Array(hash.length + input.length);
+    next.set(hash);
+    next.set(input, hash.length);
+    hash = new Uint8Array(await subtle().digest("SHA-512", next));
+  }
+  // Thirty digits: six five-byte chunks, each reduced to five digits.
+  let digits = "";
+  for (let chunk = 0; chunk < 6; chunk += 1) {
+    let value = 0;
+    for (let i = 0; i < 5; i += 1) value = value * 256 + hash[chunk * 5 + i];
+    digits += (value % 100_000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * The number two people compare, in person or on a call, to know nobody
+ * sits between them: sixty digits from both users' active device keys, the
+ * same on either side. Any device added, lost or rotated changes it.
+ */
+export async function safetyNumber(
+  a: { userId: string; keys: JsonWebKey[] },
+  b: { userId: string; keys: JsonWebKey[] },
+): Promise<string> {
+  const [first, second] = [a, b].sort((x, y) => (x.userId < y.userId ? -1 : 1));
+  const digits =
+    (await fingerprint(first.userId, first.keys)) +
+    (await fingerprint(second.userId, second.keys));
+  return (digits.match(/\d{5}/g) ?? []).join(" ");
+}
@@ -0,0 +1,184 @@
+import { fetchDevices, registerDevice, revokeDevice } from "./client";
+import { generateDeviceKeys } from "./crypto";
+import type { KeyStore, StoredDeviceKey } from "./keystore";
+import type { ChatMember, Device } from "./types";
+
+/** This browser's keys for one user. */
+export type DeviceKeys = {
+  current: StoredDeviceKey;
+  retired: StoredDeviceKey[];
+};
+
+/** The keys, and the user's devices as the server has them. */
+export type DeviceSetup = { keys: DeviceKeys; devices: Device[] };
+
+export type KeyWarning = { tone: "info" | "danger"; text: string };
+
+// A rotation registers the new key just before revoking the old one.
+const ROTATION_WINDOW_MS = 60_000;
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const systems: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+/** "Firefox en Android", so the user can tell their devices apart. */
+export function deviceLabel(userAgent: string): string {
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} en ${system}`;
+  return browser ?? system ?? "Navegador";
+}
+
+async function createDeviceKey(
+  store: KeyStore,
+  userId: string,
+): Promise<StoredDeviceKey> {
+  const { privateKey, publicKey } = await generateDeviceKeys();
+  const device = await registerDevice({
+    label: deviceLabel(navigator.userAgent),
+    publicKey,
+  });
+  const key: StoredDeviceKey = {
+    deviceId: device.id,
+    privateKey,
+    publicKey,
+    userId,
+    createdAt: device.createdAt,
+    retiredAt: null,
+  };
+  await store.saveDeviceKey(key);
+  return key;
+}
+
+async function loadKeys(
+  store: KeyStore,
+  current: StoredDeviceKey,
+): Promise<DeviceSetup> {
+  const [local, devices] = await Promise.all([
+    store.deviceKeys(current.userId),
+    fetchDevices(),
+  ]);
+  return {
+    keys: {
+      current,
+      retired: local.filter((key) => key.deviceId !== current.deviceId),
+    },
+    devices,
+  };
+}
+
+/**
+ * This browser's keys, made and registered on first use. When the current
+ * key was revoked from another device, it is retired and replaced; `renewed`
+ * says so, because messages sent meanwhile cannot be read here.
+ */
+export async function setUpDevice(
+  store: KeyStore,
+  userId: string,
+): Promise<DeviceSetup & { renewed: boolean }> {
+  const [local, devices] = await Promise.all([
+    store.deviceKeys(userId),
+    fetchDevices(),
+  ]);
+  const current = local.findLast((key) => key.retiredAt === null);
+  const onServer = devices.find((device) => device.id === current?.deviceId);
+  if (current && onServer?.revokedAt === null) {
+    return {
+      keys: { current, retired: local.filter((key) => key !== current) },
+      devices,
+      renewed: false,
+    };
+  }
+  if (current) {
+    await store.saveDeviceKey({
+      ...current,
+      retiredAt: onServer?.revokedAt ?? Date.now(),
+    });
+  }
+  const fresh = await createDeviceKey(store, userId);
+  return { ...(await loadKeys(store, fresh)), renewed: Boolean(current) };
+}
+
+/**
+ * Replaces this browser's key pair. The old key stays, to read old messages;
+ * it is retired here before the server revokes it, so a concurrent
+ * `setUpDevice` never mistakes the rotation for a revocation.
+ */
+export async function rotateDeviceKey(
+  store: KeyStore,
+  { current }: DeviceKeys,
+): Promise<DeviceSetup> {
+  const fresh = await createDeviceKey(store, current.userId);
+  await store.saveDeviceKey({ ...current, retiredAt: Date.now() });
+  await revokeDevice(current.deviceId, "rotated");
+  return loadKeys(store, fresh);
+}
+
+const shortDate = (at: number) =>
+  new Date(at).toLocaleDateString("es", { day: "numeric", month: "short" });
+
+/**
+ * What changed in the members' keys since the conversation started: lost
+ * devices, rotations, new devices, and members nobody can write to yet.
+ */
+export function deviceWarnings({
+  meId,
+  members,
+  devices,
+  since,
+}: {
+  meId: string;
+  members: ChatMember[];
+  devices: Device[];
+  since: number;
+}): KeyWarning[] {
+  const warnings: KeyWarning[] = [];
+  for (const member of members) {
+    const name = member.id === meId ? "Tú" : member.displayName;
+    const own = devices.filter((device) => device.userId === member.id);
+    if (member.id !== meId && !own.some((d) => d.revokedAt === null)) {
+      warnings.push({
+        tone: "danger",
+        text: `${name} no tiene ningún dispositivo con claves: no podrá leer lo que envíes hasta que abra Mensajes.`,
+      });
+    }
+    for (const device of own) {
+      if (device.revokedAt !== null && device.revokedAt > since) {
+        warnings.push(
+          device.revokeReason === "lost"
+            ? {
+                tone: "danger",
+                text: `${name} marcó ${device.label} como perdido el ${shortDate(device.revokedAt)}. Ese dispositivo ya no recibe mensajes nuevos.`,
+              }
+            : {
+                tone: "info",
+                text: `${name} renovó las claves de ${device.label} el ${shortDate(device.revokedAt)}.`,
+              },
+        );
+      }
+      const rotation = own.some(
+        (other) =>
+          other.revokeReason === "rotated" &&
+          other.revokedAt !== null &&
+          Math.abs(other.revokedAt - device.createdAt) < ROTATION_WINDOW_MS,
+      );
+      if (device.createdAt > since && !rotation && member.id !== meId) {
+        warnings.push({
+          tone: "info",
+          text: `${name} añadió un dispositivo (${device.label}) el ${shortDate(device.createdAt)}.`,
+        });
+      }
+    }
+  }
+  return warnings;
+}
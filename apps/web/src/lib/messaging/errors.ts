@@ -0,0 +1,7 @@
+/** Raised when a message cannot be encrypted or keys cannot be set up. The message is user-facing. */
+export class MessagingError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "MessagingError";
+  }
+}
@@ -0,0 +1,115 @@
+import { committed, openDatabase, settle } from "@/lib/storage/idb";
+import type { Migration } from "@/lib/storage/schema";
+import type { LocalKey } from "./crypto";
+import { MessagingError } from "./errors";
+
+// Apart from the plan data, so clearing or porting that never takes the
+// keys with it.
+const KEYS_DB_NAME = "hikeup-keys";
+
+const migrations: Migration[] = [
+  // 1: device key pairs and verified safety numbers.
+  (db) => {
+    db.createObjectStore("deviceKeys", { keyPath: "deviceId" }).createIndex(
+      "userId",
+      "userId",
+    );
+    db.createObjectStore("verifications", { keyPath: "id" });
+  },
+];
+
+/** A device key pair of this browser. Retired keys stay to read old messages. */
+export type StoredDeviceKey = LocalKey & {
+  userId: string;
+  publicKey: JsonWebKey;
+  createdAt: number;
+  retiredAt: number | null;
+};
+
+/** A safety number the user checked with a contact. */
+export type Verification = {
+  userId: string;
+  contactId: string;
+  safetyNumber: string;
+  verifiedAt: number;
+};
+
+export type KeyStore = {
+  deviceKeys: (userId: string) => Promise<StoredDeviceKey[]>;
+  saveDeviceKey: (key: StoredDeviceKey) => Promise<void>;
+  verifications: (userId: string) => Promise<Verification[]>;
+  saveVerification: (verification: Verification) => Promise<void>;
+  removeVerification: (userId: string, contactId: string) => Promise<void>;
+};
+
+const verificationId = (userId: string, contactId: string) =>
+  `${userId}:${contactId}`;
+
+/** Key store on IndexedDB; CryptoKeys are stored as they are, unexportable. */
+export function createKeyStore(
+  factory: () => IDBFactory | undefined = () =>
+    typeof indexedDB === "undefined" ? undefined : indexedDB,
+): KeyStore {
+  let opening: Promise<IDBDatabase> | null = null;
+  const database = () => {
+    const idb = factory();
+    if (!idb) {
+      return Promise.reject(
+        new MessagingError(
+          "Este navegador no puede guardar claves, así que no puede leer mensajes cifrados.",
+        ),
+      );
+    }
+    opening ??= openDatabase(idb, KEYS_DB_NAME, migrations).then((db) => {
+      db.addEventListener("close", () => {
+        opening = null;
+      });
+      return db;
+    });
+    return opening;
+  };
+  const write = async (
+    store: "deviceKeys" | "verifications",
+    change: (objects: IDBObjectStore) => void,
+  ) => {
+    const db = await database();
+    const tx = db.transaction(store, "readwrite");
+    change(tx.objectStore(store));
+    await committed(tx);
+  };
+
+  return {
+    async deviceKeys(userId) {
+      const db = await database();
+      const keys = await settle<StoredDeviceKey[]>(
+        db
+          .transaction("deviceKeys")
+          .objectStore("deviceKeys")
+          .index("userId")
+          .getAll(userId),
+      );
+      return keys.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    saveDeviceKey: (key) => write("deviceKeys", (store) => store.put(key)),
+    async verifications(userId) {
+      const db = await database();
+      const all = await settle<(Verification & { id: string })[]>(
+        db.transaction("verifications").objectStore("verifications").getAll(),
+      );
+      return all
+        .filter((verification) => verification.userId === userId)
+        .map(({ id: _, ...verification }) => verification);
+    },
+    saveVerification: (verification) =>
+      write("verifications", (store) =>
+        store.put({
+          id: verificationId(verification.userId, verification.contactId),
+          ...verification,
+        }),
+      ),
+    removeVerification: (userId, contactId) =>
+      write("verifications", (store) =>
+        store.delete(verificationId(userId, contactId)),
+      ),
+  };
+}
@@ -0,0 +1,83 @@
+import type { RouteInput } from "@/lib/route/model";
+
+export type ChatMember = { id: string; displayName: string };
+
+/** The content key of one message, encrypted for one device. */
+export type WrappedKey = { wrapped: string; iv: string };
+
+/**
+ * An encrypted message body: AES-GCM ciphertext of the payload, plus its
+ * key wrapped for each device that may read it. Base64 throughout.
+ */
+export type Envelope = {
+  ciphertext: string;
+  iv: string;
+  keys: Record<string, WrappedKey>;
+};
+
+/** What a message says; only ever seen by the members' devices. */
+export type MessagePayload = {
+  body: string;
+  /** A route shared with the message; opens on `/plan`. */
+  route: RouteInput | null;
+};
+
+/** A message as the server keeps it: who sent it, from where, and ciphertext. */
+export type ChatMessage = {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderDeviceId: string;
+  envelope: Envelope;
+  sentAt: number;
+};
+
+/** Why a message could not be opened on this device. */
+export type LockedReason =
+  /** Sent before this device had keys, or not addressed to it. */
+  | "no-key"
+  /** The sender's device is unknown, or the ciphertext does not check out. */
+  | "unreadable";
+
+export type OpenedMessage = Omit<ChatMessage, "envelope"> &
+  (
+    | { payload: MessagePayload; locked: null }
+    | { payload: null; locked: LockedReason }
+  );
+
+export type DeviceRevokeReason = "lost" | "rotated";
+
+/** One browser's key pair, as the server knows it: the public half. */
+export type Device = {
+  id: string;
+  userId: string;
+  label: string;
+  publicKey: JsonWebKey;
+  createdAt: number;
+  revokedAt: number | null;
+  revokeReason: DeviceRevokeReason | null;
+};
+
+/** A conversation as one member sees it in their list. */
+export type ConversationSummary = {
+  id: string;
+  /** Group name; one-to-one conversations go by the other member's name. */
+  title: string | null;
+  members: ChatMember[];
+  lastMessage: ChatMessage | null;
+  unread: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type MessageInput = { senderDeviceId: string; envelope: Envelope };
+
+/** Pushed to members over the event stream. */
+export type ChatEvent =
+  | { type: "message"; message: ChatMessage }
+  | { type: "typing"; conversationId: string; userId: string }
+  | { type: "read"; conversationId: string; userId: string; readAt: number }
+  /** Someone started a conversation that includes the user. */
+  | { type: "conversation"; conversationId: string }
+  /** A contact added or revoked a device, so their keys changed. */
+  | { type: "devices"; userId: string };
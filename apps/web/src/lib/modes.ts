@@ -0,0 +1,8 @@
+export type Mode = "run" | "jog" | "walk" | "hike";
+
+export const modeMeta: Record<Mode, { label: string; badge: string }> = {
+  run: { label: "Correr", badge: "Rápido" },
+  jog: { label: "Trotar", badge: "Suave" },
+  walk: { label: "Caminar", badge: "Recuperación" },
+  hike: { label: "Trail", badge: "Desnivel" },
+};
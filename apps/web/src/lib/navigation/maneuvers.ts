@@ -0,0 +1,109 @@
+import {
+  bearingDeg,
+  cumulativeDistancesKm,
+  type GeoPoint,
+} from "@/lib/route/geo";
+import type { RouteOption } from "@/lib/route/model";
+
+export type TurnKind =
+  | "slight-left"
+  | "left"
+  | "sharp-left"
+  | "slight-right"
+  | "right"
+  | "sharp-right"
+  | "u-turn";
+
+export type ManeuverKind = "depart" | TurnKind | "waypoint" | "arrive";
+
+export type Maneuver = {
+  kind: ManeuverKind;
+  /** Vertex of `route.path` where it happens. */
+  index: number;
+  /** Distance from the start of the route. */
+  atKm: number;
+  point: GeoPoint;
+  /** Named waypoint at this vertex, if any. */
+  label?: string;
+};
+
+// Bearings are measured over this much path on each side of a vertex, so a
+// jittery GPS track does not read as a string of tiny turns.
+const BEARING_SPAN_KM = 0.02;
+// Turns closer together than this collapse into the sharpest one.
+const MERGE_KM = 0.015;
+
+/** Signed change of heading in (-180, 180]; negative is a left turn. */
+function turnAngle(inDeg: number, outDeg: number): number {
+  const delta = ((((outDeg - inDeg) % 360) + 540) % 360) - 180;
+  return delta === -180 ? 180 : delta;
+}
+
+function classifyTurn(angle: number): TurnKind | null {
+  const size = Math.abs(angle);
+  if (size < 25) return null;
+  if (size >= 165) return "u-turn";
+  const side = angle < 0 ? "left" : "right";
+  if (size < 60) return `slight-${side}`;
+  if (size < 130) return side;
+  return `sharp-${side}`;
+}
+
+/**
+ * Turns and named waypoints along the route, from geometry alone: the
+ * heading change at each vertex decides the kind of turn.
+ */
+export function buildManeuvers(route: RouteOption): Maneuver[] {
+  const { path } = route;
+  const distances = cumulativeDistancesKm(path);
+  const last = path.length - 1;
+  const at = (index: number, kind: ManeuverKind): Maneuver => ({
+    kind,
+    index,
+    atKm: distances[index],
+    point: path[index],
+    label: route.waypoints.find((wp) => wp.index === index)?.label,
+  });
+
+  const maneuvers: (Maneuver & { angle: number })[] = [];
+  let back = 0;
+  let ahead = 0;
+  for (let i = 1; i < last; i += 1) {
+    while (
+      back < i - 1 &&
+      distances[i] - distances[back + 1] >= BEARING_SPAN_KM
+    )
+      back += 1;
+    ahead = Math.max(ahead, i + 1);
+    while (ahead < last && distances[ahead] - distances[i] < BEARING_SPAN_KM)
+      ahead += 1;
+
+    const angle = turnAngle(
+      bearingDeg(path[back], path[i]),
+      bearingDeg(path[i], path[ahead]),
+    );
+    const turn = classifyTurn(angle);
+    const named = route.waypoints.some((wp) => wp.index === i);
+    if (!turn && !named) continue;
+
+    const maneuver = { ...at(i, turn ?? "waypoint"), angle };
+    const previous = maneuvers[maneuvers.length - 1];
+    if (previous && maneuver.atKm - previous.atKm < MERGE_KM) {
+      // Keep the sharper turn, but never lose a waypoint name.
+      const keep =
+        Math.abs(maneuver.angle) > Math.abs(previous.angle)
+          ? maneuver
+          : previous;
+      keep.label ??= maneuver.label ?? previous.label;
+      maneuvers[maneuvers.length - 1] = keep;
+    } else {
+      maneuvers.push(maneuver);
+    }
+  }
+
+  return [
+    at(0, "depart"),
+    ...maneuvers.map(({ angle: _, ...maneuver }) => maneuver),
+    at(last, "arrive"),
+  ];
+}
@@ -0,0 +1,221 @@
+import type { PositionFix } from "@/lib/location/source";
+import {
+  bearingDeg,
+  cumulativeDistancesKm,
+  type GeoPoint,
+} from "@/lib/route/geo";
+import type { RouteOption } from "@/lib/route/model";
+import { buildManeuvers, type Maneuver } from "./maneuvers";
+import {
+  compassPoint,
+  type NavigationLang,
+  phrasebooks,
+  spokenDistance,
+} from "./phrases";
+import { locateOnRoute } from "./progress";
+
+export type NavigationEvent =
+  | { type: "announce"; text: string; urgent: boolean }
+  | { type: "off-route"; text: string }
+  | { type: "back-on-route"; text: string }
+  | { type: "arrived"; text: string };
+
+export type OffRoute = {
+  distanceM: number;
+  /** Closest point ahead on the route to head back to. */
+  rejoin: GeoPoint;
+  text: string;
+};
+
+export type NavigationSnapshot = {
+  position: PositionFix | null;
+  progressKm: number;
+  remainingKm: number;
+  next: Maneuver | null;
+  distanceToNextM: number | null;
+  /** Banner text for the next maneuver, already localised. */
+  instruction: string;
+  offRoute: OffRoute | null;
+  arrived: boolean;
+};
+
+export type Navigator = {
+  maneuvers: Maneuver[];
+  snapshot: () => NavigationSnapshot;
+  /** Feeds one position; returns what should be said or signalled. */
+  update: (fix: PositionFix) => NavigationEvent[];
+  setLang: (lang: NavigationLang) => void;
+};
+
+// Spoken heads-up before a maneuver, then the "now" call with vibration.
+const PREPARE_M = 200;
+const NOW_M = 40;
+const ARRIVE_M = 25;
+// Off-route needs this offset (or 1.5× the GPS accuracy, up to the cap) on
+// consecutive fixes, so one bad fix does not trigger an alert.
+const OFF_ROUTE_M = 35;
+const OFF_ROUTE_MAX_M = 100;
+const OFF_ROUTE_FIXES = 2;
+// Matching window around the current progress.
+const WINDOW_BACK_KM = 0.05;
+const WINDOW_AHEAD_KM = 0.4;
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Follows a route from a stream of fixes: progress along the path, the next
+ * maneuver and when to announce it, off-route detection and arrival. It has
+ * no timers or browser APIs, so it can be driven by any position feed.
+ */
+export function createNavigator(
+  route: RouteOption,
+  { lang: initialLang = "es" }: { lang?: NavigationLang } = {},
+): Navigator {
+  const { path } = route;
+  const distances = cumulativeDistancesKm(path);
+  const totalKm = distances[distances.length - 1] ?? 0;
+  const maneuvers = buildManeuvers(route);
+
+  let lang = initialLang;
+  let position: PositionFix | null = null;
+  let progressKm = 0;
+  let offFixes = 0;
+  let offRoute: OffRoute | null = null;
+  let arrived = false;
+  const announced = new Set<string>();
+
+  const nextManeuver = () =>
+    maneuvers.find((m) => m.kind !== "depart" && m.atKm > progressKm + 0.005) ??
+    null;
+
+  const action = (maneuver: Maneuver) => {
+    const book = phrasebooks[lang];
+    const verb = book.maneuver[maneuver.kind];
+    return maneuver.label ? `${verb} ${book.at(maneuver.label)}` : verb;
+  };
+
+  const instructionFor = (maneuver: Maneuver | null, distanceM: number) => {
+    const book = phrasebooks[lang];
+    if (arrived) return book.arrived;
+    if (!maneuver) return capitalize(book.maneuver.depart);
+    return distanceM <= NOW_M
+      ? book.now(action(maneuver))
+      : book.inDistance(spokenDistance(distanceM, lang), action(maneuver));
+  };
+
+  const snapshot = (): NavigationSnapshot => {
+    const next = arrived ? null : nextManeuver();
+    const distanceToNextM = next ? (next.atKm - progressKm) * 1000 : null;
+    return {
+      position,
+      progressKm,
+      remainingKm: Math.max(0, totalKm - progressKm),
+      next,
+      distanceToNextM,
+      instruction: instructionFor(next, distanceToNextM ?? 0),
+      offRoute,
+      arrived,
+    };
+  };
+
+  const update = (fix: PositionFix): NavigationEvent[] => {
+    const events: NavigationEvent[] = [];
+    const book = phrasebooks[lang];
+    const first = position === null;
+    position = fix;
+    if (arrived) return events;
+
+    const threshold = Math.min(
+      OFF_ROUTE_MAX_M,
+      Math.max(OFF_ROUTE_M, fix.accuracyM * 1.5),
+    );
+    const local = locateOnRoute(
+      path,
+      distances,
+      fix,
+      progressKm - WINDOW_BACK_KM,
+      progressKm + WINDOW_AHEAD_KM,
+    );
+    // Anything further along counts too: the runner may have cut a corner.
+    const ahead =
+      local && local.offsetM <= threshold
+        ? local
+        : locateOnRoute(path, distances, fix, progressKm);
+
+    if (ahead && ahead.offsetM <= threshold) {
+      progressKm = Math.max(progressKm, ahead.alongKm);
+      offFixes = 0;
+      if (offRoute) {
+        offRoute = null;
+        events.push({ type: "back-on-route", text: book.backOnRoute });
+      }
+    } else if (ahead) {
+      offFixes += 1;
+      if (offFixes >= OFF_ROUTE_FIXES) {
+        const wasOff = offRoute !== null;
+        offRoute = {
+          distanceM: ahead.offsetM,
+          rejoin: ahead.point,
+          text: book.offRoute(
+            spokenDistance(ahead.offsetM, lang),
+            compassPoint(bearingDeg(fix, ahead.point), lang),
+          ),
+        };
+        if (!wasOff) events.push({ type: "off-route", text: offRoute.text });
+      }
+      return events;
+    }
+
+    if ((totalKm - progressKm) * 1000 <= ARRIVE_M) {
+      arrived = true;
+      events.push({ type: "arrived", text: book.arrived });
+      return events;
+    }
+
+    const next = nextManeuver();
+    if (!next) return events;
+    const distanceM = (next.atKm - progressKm) * 1000;
+    const key = `${next.index}-${next.kind}`;
+    // Arrival has its own event, so it only gets the heads-up.
+    if (
+      distanceM <= NOW_M &&
+      next.kind !== "arrive" &&
+      !announced.has(`${key}-now`)
+    ) {
+      announced.add(`${key}-now`);
+      announced.add(`${key}-prepare`);
+      events.push({
+        type: "announce",
+        text: book.now(action(next)),
+        urgent: next.kind !== "waypoint",
+      });
+    } else if (distanceM <= PREPARE_M && !announced.has(`${key}-prepare`)) {
+      announced.add(`${key}-prepare`);
+      events.push({
+        type: "announce",
+        text: book.inDistance(spokenDistance(distanceM, lang), action(next)),
+        urgent: false,
+      });
+    } else if (first) {
+      events.push({
+        type: "announce",
+        text: `${capitalize(book.maneuver.depart)}. ${book.inDistance(
+          spokenDistance(distanceM, lang),
+          action(next),
+        )}`,
+        urgent: false,
+      });
+    }
+    return events;
+  };
+
+  return {
+    maneuvers,
+    snapshot,
+    update,
+    setLang(next) {
+      lang = next;
+    },
+  };
+}
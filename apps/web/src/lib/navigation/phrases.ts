@@ -0,0 +1,97 @@
+import type { ManeuverKind } from "./maneuvers";
+
+export type NavigationLang = "es" | "en";
+
+type Phrasebook = {
+  maneuver: Record<ManeuverKind, string>;
+  at: (label: string) => string;
+  inDistance: (distance: string, action: string) => string;
+  now: (action: string) => string;
+  offRoute: (distance: string, direction: string) => string;
+  backOnRoute: string;
+  arrived: string;
+  compass: string[];
+  /** BCP 47 tag handed to the speech engine. */
+  voice: string;
+};
+
+export const phrasebooks: Record<NavigationLang, Phrasebook> = {
+  es: {
+    maneuver: {
+      depart: "sal por la ruta",
+      "slight-left": "gira levemente a la izquierda",
+      left: "gira a la izquierda",
+      "sharp-left": "gira cerrado a la izquierda",
+      "slight-right": "gira levemente a la derecha",
+      right: "gira a la derecha",
+      "sharp-right": "gira cerrado a la derecha",
+      "u-turn": "da la vuelta",
+      waypoint: "sigue de frente",
+      arrive: "llegas al final de la ruta",
+    },
+    at: (label) => `en ${label}`,
+    inDistance: (distance, action) => `En ${distance}, ${action}`,
+    now: (action) => `Ahora, ${action}`,
+    offRoute: (distance, direction) =>
+      `Te saliste de la ruta. Vuelve ${distance} hacia el ${direction}.`,
+    backOnRoute: "De vuelta en la ruta.",
+    arrived: "Llegaste. Fin de la ruta.",
+    compass: [
+      "norte",
+      "noreste",
+      "este",
+      "sureste",
+      "sur",
+      "suroeste",
+      "oeste",
+      "noroeste",
+    ],
+    voice: "es-CO",
+  },
+  en: {
+    maneuver: {
+      depart: "head out on the route",
+      "slight-left": "bear left",
+      left: "turn left",
+      "sharp-left": "turn sharp left",
+      "slight-right": "bear right",
+      right: "turn right",
+      "sharp-right": "turn sharp right",
+      "u-turn": "turn around",
+      waypoint: "continue straight",
+      arrive: "you reach the end of the route",
+    },
+    at: (label) => `at ${label}`,
+    inDistance: (distance, action) => `In ${distance}, ${action}`,
+    now: (action) => `Now, ${action}`,
+    offRoute: (distance, direction) =>
+      `You are off route. Head ${direction} for ${distance} to rejoin.`,
+    backOnRoute: "Back on route.",
+    arrived: "You have arrived.",
+    compass: [
+      "north",
+      "northeast",
+      "east",
+      "southeast",
+      "south",
+      "southwest",
+      "west",
+      "northwest",
+    ],
+    voice: "en-US",
+  },
+};
+
+/** Distance as it should be spoken: rounded, metres under 1 km. */
+export function spokenDistance(meters: number, lang: NavigationLang): string {
+  if (meters >= 1000) {
+    const km = (Math.round(meters / 100) / 10).toString();
+    return `${lang === "es" ? km.replace(".", ",") : km} km`;
+  }
+  const step = meters < 100 ? 10 : 50;
+  return `${Math.max(step, Math.round(meters / step) * step)} m`;
+}
+
+export function compassPoint(bearing: number, lang: NavigationLang): string {
+  return phrasebooks[lang].compass[Math.round(bearing / 45) % 8];
+}
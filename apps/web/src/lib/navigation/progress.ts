@@ -0,0 +1,61 @@
+import type { GeoPoint } from "@/lib/route/geo";
+
+export type RouteFix = {
+  /** Distance along the route of the closest point. */
+  alongKm: number;
+  /** How far the position is from that point, in metres. */
+  offsetM: number;
+  point: GeoPoint;
+};
+
+const KM_PER_DEG_LAT = 110.574;
+
+/**
+ * Closest point of the route to `position`, looking only at the stretch
+ * between `fromKm` and `toKm`. Out-and-back routes walk the same street
+ * twice, so the window keeps the match on the current leg.
+ */
+export function locateOnRoute(
+  path: GeoPoint[],
+  distances: number[],
+  position: GeoPoint,
+  fromKm = 0,
+  toKm = Number.POSITIVE_INFINITY,
+): RouteFix | null {
+  // Flat projection around the position; fine over a few hundred metres.
+  const kmPerLng = 111.32 * Math.cos((position.lat * Math.PI) / 180);
+  const toXY = (p: GeoPoint) => ({
+    x: (p.lng - position.lng) * kmPerLng,
+    y: (p.lat - position.lat) * KM_PER_DEG_LAT,
+  });
+
+  let best: RouteFix | null = null;
+  for (let i = 1; i < path.length; i += 1) {
+    if (distances[i] < fromKm || distances[i - 1] > toKm) continue;
+    const a = toXY(path[i - 1]);
+    const b = toXY(path[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq > 0
+        ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSq))
+        : 0;
+    const x = a.x + dx * t;
+    const y = a.y + dy * t;
+    const offsetM = Math.hypot(x, y) * 1000;
+    if (!best || offsetM < best.offsetM) {
+      const from = path[i - 1];
+      const to = path[i];
+      best = {
+        alongKm: distances[i - 1] + (distances[i] - distances[i - 1]) * t,
+        offsetM,
+        point: {
+          lng: from.lng + (to.lng - from.lng) * t,
+          lat: from.lat + (to.lat - from.lat) * t,
+        },
+      };
+    }
+  }
+  return best;
+}
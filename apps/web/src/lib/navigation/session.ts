@@ -0,0 +1,102 @@
+import type { LocationError } from "@/lib/location/errors";
+import type { PositionSource } from "@/lib/location/source";
+import type { RouteOption } from "@/lib/route/model";
+import {
+  createNavigator,
+  type NavigationEvent,
+  type NavigationSnapshot,
+} from "./navigator";
+import { type NavigationLang, phrasebooks } from "./phrases";
+
+/** Speech and haptics; the defaults use the Web Speech and Vibration APIs. */
+export type NavigationOutputs = {
+  speak: (text: string, lang: NavigationLang, interrupt: boolean) => void;
+  vibrate: (pattern: number[]) => void;
+};
+
+export const browserOutputs: NavigationOutputs = {
+  speak(text, lang, interrupt) {
+    if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = phrasebooks[lang].voice;
+    if (interrupt) window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  },
+  vibrate(pattern) {
+    if (typeof navigator !== "undefined") navigator.vibrate?.(pattern);
+  },
+};
+
+const VIBRATION: Record<NavigationEvent["type"], number[]> = {
+  announce: [180, 90, 180],
+  "off-route": [500, 150, 500],
+  "back-on-route": [80],
+  arrived: [120, 60, 120, 60, 300],
+};
+
+export type NavigationSession = {
+  stop: () => void;
+  setLang: (lang: NavigationLang) => void;
+  setVoice: (enabled: boolean) => void;
+};
+
+/**
+ * Runs a navigator off a position source and turns its events into speech
+ * and vibration. Pass a mock or replay source to drive it without a GPS.
+ */
+export function startNavigation({
+  route,
+  source,
+  lang: initialLang = "es",
+  voice: initialVoice = true,
+  outputs = browserOutputs,
+  onUpdate,
+  onError,
+}: {
+  route: RouteOption;
+  source: PositionSource;
+  lang?: NavigationLang;
+  voice?: boolean;
+  outputs?: NavigationOutputs;
+  onUpdate: (snapshot: NavigationSnapshot) => void;
+  onError?: (error: LocationError) => void;
+}): NavigationSession {
+  const tracker = createNavigator(route, { lang: initialLang });
+  let lang = initialLang;
+  let voice = initialVoice;
+  let stopWatch: (() => void) | null = null;
+
+  const emit = (event: NavigationEvent) => {
+    const urgent = event.type !== "announce" || event.urgent;
+    if (voice) outputs.speak(event.text, lang, urgent);
+    if (urgent) outputs.vibrate(VIBRATION[event.type]);
+  };
+
+  onUpdate(tracker.snapshot());
+  stopWatch = source.watch(
+    (fix) => {
+      tracker.update(fix).forEach(emit);
+      const snapshot = tracker.snapshot();
+      onUpdate(snapshot);
+      if (snapshot.arrived) {
+        stopWatch?.();
+        stopWatch = null;
+      }
+    },
+    (error) => onError?.(error),
+  );
+
+  return {
+    stop() {
+      stopWatch?.();
+      stopWatch = null;
+    },
+    setLang(next) {
+      lang = next;
+      tracker.setLang(next);
+    },
+    setVoice(enabled) {
+      voice = enabled;
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { MOCK_LOCATION_PARAM } from "@/lib/location/source";
+import { type Mode, modeMeta } from "@/lib/modes";
+import { createRoute, type RouteOption } from "@/lib/route/model";
+import { decodePolyline, encodePolyline } from "@/lib/route/polyline";
+import { baseRoutes } from "@/lib/route/presets";
+import type { MapType } from "@/lib/storage/types";
+
+// The /plan view as URL search params, so a link opens the same view:
+// `?mode=hike&map=sat&route=…&step=2`. A route that is not a preset also
+// carries its title, its path as an encoded polyline and its waypoints.
+// Such a route never keeps the id in the link: anyone can write that id,
+// and it could name one of the user's own saved routes.
+
+/** What a link says about the view; anything missing keeps its current value. */
+export type PlanLink = {
+  mode?: Mode;
+  mapType?: MapType;
+  routeId?: string;
+  /** The linked route whole, when it is not a preset; see `sharedRouteId`. */
+  route?: RouteOption;
+  step?: number;
+};
+
+const KEYS = ["mode", "map", "route", "title", "path", "wp", "step"];
+
+const MAX_TITLE_LENGTH = 200;
+
+const isPreset = (route: RouteOption) =>
+  baseRoutes[route.mode].some((preset) => preset.id === route.id);
+
+// "12:Mirador|40:Fuente"; the labels lose any "|" of their own.
+const encodeWaypoints = (route: RouteOption) =>
+  route.waypoints
+    .map(({ index, label }) => `${index}:${label.replace(/\|/g, " ")}`)
+    .join("|");
+
+const decodeWaypoints = (text: string) =>
+  text
+    .split("|")
+    .map((pair) => pair.match(/^(\d+):(.*)$/))
+    .filter((match) => match !== null)
+    .map(([, index, label]) => ({ index: Number(index), label }));
+
+// FNV-1a: short, stable, and enough to tell shared routes apart.
+function hash(text: string): string {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(36);
+}
+
+/**
+ * The id a linked route gets: from what it is, so the same link (or going
+ * back to it) shows the same route, under a prefix no other route uses.
+ */
+export const sharedRouteId = (route: RouteOption) =>
+  `shared-${hash(
+    [
+      route.mode,
+      route.title,
+      encodePolyline(route.path),
+      encodeWaypoints(route),
+    ].join("\n"),
+  )}`;
+
+/**
+ * `params` with the view written in, replacing any earlier view and keeping
+ * unrelated params as they were. A mock location is dropped, so it never
+ * travels with a link.
+ */
+export function writePlanLink(
+  params: URLSearchParams,
+  view: { mode: Mode; mapType: MapType; route: RouteOption; step: number },
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of KEYS) next.delete(key);
+  next.delete(MOCK_LOCATION_PARAM);
+  next.set("mode", view.mode);
+  next.set("map", view.mapType);
+  next.set("route", view.route.id);
+  if (!isPreset(view.route)) {
+    next.set("title", view.route.title);
+    next.set("path", encodePolyline(view.route.path));
+    if (view.route.waypoints.length) {
+      next.set("wp", encodeWaypoints(view.route));
+    }
+  }
+  if (view.step > 0) next.set("step", String(view.step));
+  return next;
+}
+
+/** The view in `params`; malformed values are left out rather than guessed. */
+export function readPlanLink(params: URLSearchParams): PlanLink {
+  const link: PlanLink = {};
+  const mode = params.get("mode");
+  if (mode && mode in modeMeta) link.mode = mode as Mode;
+  const map = params.get("map");
+  if (map === "map" || map === "sat") link.mapType = map;
+  const routeId = params.get("route")?.slice(0, 200);
+  if (routeId) link.routeId = routeId;
+  const path = decodePolyline(params.get("path") ?? "");
+  if (path && path.length >= 2) {
+    const route = createRoute({
+      id: "",
+      title:
+        (params.get("title") ?? "").slice(0, MAX_TITLE_LENGTH) ||
+        "Ruta compartida",
+      mode: link.mode ?? "run",
+      safety: "",
+      surface: "",
+      path,
+      // Indices past the path would point at nothing.
+      waypoints: decodeWaypoints(params.get("wp") ?? "").filter(
+        ({ index }) => index < path.length,
+      ),
+    });
+    link.route = { ...route, id: sharedRouteId(route) };
+    link.routeId = link.route.id;
+  }
+  const step = Number(params.get("step"));
+  if (Number.isInteger(step) && step > 0) link.step = step;
+  return link;
+}
+
+/** Whether `params` say anything about the view at all. */
+export const hasPlanLink = (params: URLSearchParams) =>
+  KEYS.some((key) => params.has(key));
+
+/** Only the step changed: not worth its own entry in the browser history. */
+export function sameViewBesidesStep(
+  a: URLSearchParams,
+  b: URLSearchParams,
+): boolean {
+  const strip = (params: URLSearchParams) => {
+    const copy = new URLSearchParams(params);
+    copy.delete("step");
+    return copy.toString();
+  };
+  return strip(a) === strip(b);
+}
+
+/** The route a link points at: its own geometry, or one of the presets. */
+export function linkedRoute(link: PlanLink): RouteOption | null {
+  if (link.route) return link.route;
+  if (!link.routeId) return null;
+  return (
+    Object.values(baseRoutes)
+      .flat()
+      .find((route) => route.id === link.routeId) ?? null
+  );
+}
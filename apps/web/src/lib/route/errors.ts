@@ -0,0 +1,10 @@
+/**
+ * Raised when an imported file cannot be turned into a route. The message is
+ * user-facing (Spanish, like the rest of the plan UI).
+ */
+export class RouteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RouteImportError";
+  }
+}
@@ -0,0 +1,35 @@
+import { routeToGeoJson } from "./geojson";
+import { routeToGpx } from "./gpx";
+import { routeToKml } from "./kml";
+import type { RouteOption } from "./model";
+
+export type RouteExportFormat = "gpx" | "geojson" | "kml";
+
+export const routeExporters: Record<
+  RouteExportFormat,
+  {
+    label: string;
+    extension: string;
+    mime: string;
+    serialize: (route: RouteOption) => string;
+  }
+> = {
+  gpx: {
+    label: "GPX",
+    extension: "gpx",
+    mime: "application/gpx+xml",
+    serialize: routeToGpx,
+  },
+  geojson: {
+    label: "GeoJSON",
+    extension: "geojson",
+    mime: "application/geo+json",
+    serialize: routeToGeoJson,
+  },
+  kml: {
+    label: "KML",
+    extension: "kml",
+    mime: "application/vnd.google-earth.kml+xml",
+    serialize: routeToKml,
+  },
+};
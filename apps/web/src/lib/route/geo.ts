@@ -0,0 +1,137 @@
+export type LngLat = [number, number];
+
+export type GeoPoint = { lng: number; lat: number };
+
+export type RouteBounds = { sw: LngLat; ne: LngLat };
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Running distance (km) at every vertex, starting at 0. */
+export function cumulativeDistancesKm(path: GeoPoint[]): number[] {
+  const out: number[] = [];
+  let total = 0;
+  path.forEach((point, idx) => {
+    if (idx > 0) total += haversineKm(path[idx - 1], point);
+    out.push(total);
+  });
+  return out;
+}
+
+export function pathDistanceKm(path: GeoPoint[]): number {
+  const distances = cumulativeDistancesKm(path);
+  return distances[distances.length - 1] ?? 0;
+}
+
+export function computeBounds(path: GeoPoint[]): RouteBounds | null {
+  if (!path.length) return null;
+  return path.reduce<RouteBounds>(
+    (acc, { lng, lat }) => ({
+      sw: [Math.min(acc.sw[0], lng), Math.min(acc.sw[1], lat)],
+      ne: [Math.max(acc.ne[0], lng), Math.max(acc.ne[1], lat)],
+    }),
+    { sw: [path[0].lng, path[0].lat], ne: [path[0].lng, path[0].lat] },
+  );
+}
+
+/**
+ * Projects lng/lat into an SVG viewBox, keeping the aspect ratio of the
+ * route (longitude is scaled by cos(lat) so shapes are not stretched).
+ */
+export function projectToViewBox(
+  path: GeoPoint[],
+  bounds: RouteBounds,
+  {
+    width,
+    height,
+    padding,
+  }: { width: number; height: number; padding: number },
+): { x: number; y: number }[] {
+  const midLat = toRad((bounds.sw[1] + bounds.ne[1]) / 2);
+  const spanX = Math.max(
+    (bounds.ne[0] - bounds.sw[0]) * Math.cos(midLat),
+    1e-9,
+  );
+  const spanY = Math.max(bounds.ne[1] - bounds.sw[1], 1e-9);
+  const scale = Math.min(
+    (width - padding * 2) / spanX,
+    (height - padding * 2) / spanY,
+  );
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return path.map(({ lng, lat }) => ({
+    x: offsetX + (lng - bounds.sw[0]) * Math.cos(midLat) * scale,
+    y: offsetY + (bounds.ne[1] - lat) * scale,
+  }));
+}
+
+export function nearestVertexIndex(path: GeoPoint[], point: GeoPoint): number {
+  let best = 0;
+  let bestKm = Number.POSITIVE_INFINITY;
+  path.forEach((vertex, idx) => {
+    const km = haversineKm(vertex, point);
+    if (km < bestKm) {
+      best = idx;
+      bestKm = km;
+    }
+  });
+  return best;
+}
+
+/**
+ * Point `km` along the path, interpolated between vertices. Pass the
+ * cumulative distances when calling repeatedly on the same path.
+ */
+export function pointAlongPath(
+  path: GeoPoint[],
+  km: number,
+  distances: number[] = cumulativeDistancesKm(path),
+): GeoPoint | null {
+  if (!path.length) return null;
+  const next = distances.findIndex((d) => d >= km);
+  if (next === -1) return path[path.length - 1];
+  if (next === 0) return path[0];
+  const span = distances[next] - distances[next - 1];
+  const t = span > 0 ? (km - distances[next - 1]) / span : 0;
+  const a = path[next - 1];
+  const b = path[next];
+  return { lng: a.lng + (b.lng - a.lng) * t, lat: a.lat + (b.lat - a.lat) * t };
+}
+
+/** Ring of `steps` points at `radiusKm` around `center`, closed. */
+export function circleRing(
+  center: GeoPoint,
+  radiusKm: number,
+  steps = 48,
+): LngLat[] {
+  const kmPerLat = 110.574;
+  const kmPerLng = 111.32 * Math.cos(toRad(center.lat));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (i / steps) * 2 * Math.PI;
+    return [
+      center.lng + (radiusKm * Math.sin(angle)) / kmPerLng,
+      center.lat + (radiusKm * Math.cos(angle)) / kmPerLat,
+    ];
+  });
+}
+
+/** Initial compass bearing from `a` to `b`, 0–360° clockwise from north. */
+export function bearingDeg(a: GeoPoint, b: GeoPoint): number {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x =
+    Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
@@ -0,0 +1,196 @@
+import { RouteImportError } from "./errors";
+import type { GeoPoint, LngLat } from "./geo";
+import type { ImportedTrack } from "./import";
+import {
+  type RouteOption,
+  type RouteVertex,
+  routeStops,
+  snapWaypoints,
+} from "./model";
+
+type Position = number[];
+
+type Geometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] }
+  | { type: string; coordinates?: unknown; geometries?: Geometry[] };
+
+type Feature = {
+  type: "Feature";
+  geometry: Geometry | null;
+  properties?: Record<string, unknown> | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const asText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+function toVertex(position: unknown): RouteVertex | null {
+  if (!Array.isArray(position) || position.length < 2) return null;
+  const [lng, lat, ele] = position;
+  if (typeof lng !== "number" || typeof lat !== "number") return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return typeof ele === "number" ? { lng, lat, ele } : { lng, lat };
+}
+
+function collectFeatures(input: unknown): Feature[] {
+  if (!isRecord(input)) return [];
+  if (input.type === "FeatureCollection") {
+    if (!Array.isArray(input.features)) {
+      throw new RouteImportError(
+        "El GeoJSON no es válido: la FeatureCollection no tiene una lista de features.",
+      );
+    }
+    return input.features.flatMap(collectFeatures);
+  }
+  if (input.type === "Feature") {
+    const geometry = isRecord(input.geometry) ? input.geometry : null;
+    return [{ ...input, geometry } as Feature];
+  }
+  if (typeof input.type === "string") {
+    return [{ type: "Feature", geometry: input as Geometry, properties: {} }];
+  }
+  return [];
+}
+
+const malformed = (type: string, what: string) =>
+  new RouteImportError(
+    `El GeoJSON no es válido: la geometría ${type} no tiene ${what}.`,
+  );
+
+/**
+ * Every line in a geometry, flattening MultiLineString and collections.
+ * Positions are checked later, one by one, by `toVertex`.
+ */
+function lineParts(geometry: Geometry | null): Position[][] {
+  if (!geometry) return [];
+  const { type, coordinates, geometries } = geometry as {
+    type: string;
+    coordinates?: unknown;
+    geometries?: unknown;
+  };
+  if (type === "LineString") {
+    if (!Array.isArray(coordinates)) {
+      throw malformed(type, "una lista de coordenadas");
+    }
+    return [coordinates];
+  }
+  if (type === "MultiLineString") {
+    if (!Array.isArray(coordinates) || !coordinates.every(Array.isArray)) {
+      throw malformed(type, "una lista de líneas");
+    }
+    return coordinates;
+  }
+  if (type === "GeometryCollection") {
+    if (!Array.isArray(geometries)) {
+      throw malformed(type, "una lista de geometrías");
+    }
+    return geometries
+      .map((part: unknown) => (isRecord(part) ? (part as Geometry) : null))
+      .flatMap(lineParts);
+  }
+  return [];
+}
+
+export function parseGeoJson(text: string): ImportedTrack {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RouteImportError(
+      "El archivo no es un GeoJSON válido: el JSON está mal formado.",
+    );
+  }
+
+  const features = collectFeatures(data);
+  if (!features.length) {
+    throw new RouteImportError(
+      "El GeoJSON no contiene ninguna Feature ni geometría.",
+    );
+  }
+
+  const lineFeature = features.find((f) => lineParts(f.geometry).length > 0);
+  if (!lineFeature) {
+    throw new RouteImportError(
+      "El GeoJSON no contiene ninguna LineString o MultiLineString para importar.",
+    );
+  }
+
+  const path = lineParts(lineFeature.geometry)
+    .flat()
+    .map(toVertex)
+    .filter((v): v is RouteVertex => v !== null);
+  if (path.length < 2) {
+    throw new RouteImportError(
+      "La línea del GeoJSON tiene menos de dos coordenadas válidas.",
+    );
+  }
+
+  const named = features.flatMap((f) => {
+    if (f.geometry?.type !== "Point") return [];
+    const point = toVertex(f.geometry.coordinates);
+    const label =
+      asText(f.properties?.label) ??
+      asText(f.properties?.name) ??
+      asText(f.properties?.title);
+    return point && label ? [{ ...point, label }] : [];
+  });
+
+  const props = lineFeature.properties ?? {};
+  return {
+    title: asText(props.title) ?? asText(props.name),
+    path,
+    waypoints: snapWaypoints(path, named),
+    details: {
+      safety: asText(props.safety),
+      surface: asText(props.surface),
+    },
+  };
+}
+
+const toPosition = ({ lng, lat, ele }: GeoPoint & { ele?: number }) =>
+  ele === undefined ? ([lng, lat] as LngLat) : [lng, lat, ele];
+
+/**
+ * One FeatureCollection holding the line (with route metadata) and a Point
+ * per labelled stop, so a single file round-trips back into a route.
+ */
+export function routeToGeoJson(route: RouteOption): string {
+  const last = route.path.length - 1;
+  const collection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: route.path.map(toPosition),
+        },
+        properties: {
+          kind: "route",
+          id: route.id,
+          title: route.title,
+          mode: route.mode,
+          safety: route.safety,
+          surface: route.surface,
+          ascentM: route.climb?.ascentM,
+          descentM: route.climb?.descentM,
+          distanceKm: Number(route.distanceKm.toFixed(3)),
+          estMinutes: route.estMinutes,
+        },
+      },
+      ...routeStops(route).map(({ index, label }) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: toPosition(route.path[index]) },
+        properties: {
+          label,
+          kind: index === 0 ? "start" : index === last ? "end" : "mid",
+        },
+      })),
+    ],
+  };
+  return `${JSON.stringify(collection, null, 2)}\n`;
+}
@@ -0,0 +1,116 @@
+import { RouteImportError } from "./errors";
+import type { GeoPoint } from "./geo";
+import type { ImportedTrack } from "./import";
+import {
+  type RouteOption,
+  type RouteVertex,
+  routeStops,
+  snapWaypoints,
+} from "./model";
+import {
+  childElements,
+  childText,
+  descendants,
+  escapeXml,
+  parseXml,
+} from "./xml";
+
+function readPoint(el: Element): RouteVertex | null {
+  const lat = Number.parseFloat(el.getAttribute("lat") ?? "");
+  const lng = Number.parseFloat(el.getAttribute("lon") ?? "");
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  const ele = Number.parseFloat(childText(el, "ele") ?? "");
+  return Number.isFinite(ele) ? { lng, lat, ele } : { lng, lat };
+}
+
+export function parseGpx(text: string): ImportedTrack {
+  const doc = parseXml(text, "GPX");
+  const root = doc.documentElement;
+  if (root.localName !== "gpx") {
+    throw new RouteImportError(
+      "El archivo no es un GPX: falta el elemento <gpx>.",
+    );
+  }
+
+  const tracks = descendants(doc, "trk");
+  let source = tracks.flatMap((trk) =>
+    childElements(trk, "trkseg").flatMap((seg) => childElements(seg, "trkpt")),
+  );
+  // Route-only files (<rte>) are common from planners; accept them too.
+  if (!source.length) {
+    source = descendants(doc, "rte").flatMap((rte) =>
+      childElements(rte, "rtept"),
+    );
+  }
+  if (!source.length) {
+    throw new RouteImportError(
+      "El GPX no contiene ningún track ni ruta para importar.",
+    );
+  }
+
+  const path: RouteVertex[] = [];
+  const named: (GeoPoint & { label: string })[] = [];
+  source.forEach((el) => {
+    const point = readPoint(el);
+    if (!point) return;
+    path.push(point);
+    const label = childText(el, "name");
+    if (label) named.push({ ...point, label });
+  });
+  if (path.length < 2) {
+    throw new RouteImportError(
+      "El track del GPX tiene menos de dos puntos válidos (lat/lon).",
+    );
+  }
+
+  descendants(doc, "wpt").forEach((el) => {
+    const point = readPoint(el);
+    const label = childText(el, "name");
+    if (point && label) named.push({ ...point, label });
+  });
+
+  const waypoints = snapWaypoints(path, named);
+
+  const metadata = childElements(root, "metadata")[0];
+  const title =
+    (metadata ? childText(metadata, "name") : undefined) ??
+    (tracks[0] ? childText(tracks[0], "name") : undefined);
+
+  return { title, path, waypoints };
+}
+
+const coordAttrs = ({ lng, lat }: GeoPoint) =>
+  `lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}"`;
+
+const eleTag = (ele?: number) =>
+  ele === undefined ? "" : `<ele>${ele.toFixed(1)}</ele>`;
+
+/** Serialises a route as GPX 1.1: one track plus a labelled wpt per stop. */
+export function routeToGpx(route: RouteOption): string {
+  const name = escapeXml(route.title);
+  const wpts = routeStops(route).map(({ index, label }) => {
+    const vertex = route.path[index];
+    return `  <wpt ${coordAttrs(vertex)}>${eleTag(vertex.ele)}<name>${escapeXml(label)}</name></wpt>`;
+  });
+  const trkpts = route.path.map(
+    (vertex) =>
+      `      <trkpt ${coordAttrs(vertex)}>${eleTag(vertex.ele)}</trkpt>`,
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="HikeUp" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    `  <metadata><name>${name}</name><desc>${escapeXml(route.safety)}</desc></metadata>`,
+    ...wpts,
+    "  <trk>",
+    `    <name>${name}</name>`,
+    `    <type>${route.mode}</type>`,
+    "    <trkseg>",
+    ...trkpts,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,70 @@
+import { fillElevations, loadDemTiles } from "@/lib/elevation/dem";
+import type { Mode } from "@/lib/modes";
+import { RouteImportError } from "./errors";
+import { parseGeoJson } from "./geojson";
+import { parseGpx } from "./gpx";
+import { parseKml } from "./kml";
+import {
+  createRoute,
+  type RouteInput,
+  type RouteOption,
+  type RouteVertex,
+  type RouteWaypoint,
+} from "./model";
+
+/** Geometry read from a file, before it becomes a `RouteOption`. */
+export type ImportedTrack = {
+  title?: string;
+  path: RouteVertex[];
+  waypoints: RouteWaypoint[];
+  details?: Partial<Pick<RouteInput, "safety" | "surface">>;
+};
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+const parsers: Record<
+  string,
+  { label: string; parse: (text: string) => ImportedTrack }
+> = {
+  gpx: { label: "GPX", parse: parseGpx },
+  geojson: { label: "GeoJSON", parse: parseGeoJson },
+  json: { label: "GeoJSON", parse: parseGeoJson },
+  kml: { label: "KML", parse: parseKml },
+};
+
+/** Value for a file input `accept` attribute covering every importable format. */
+export const importAccept = ".gpx,.geojson,.json,.kml";
+
+export async function importRouteFile(
+  file: File,
+  mode: Mode,
+): Promise<RouteOption> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new RouteImportError("El archivo supera el máximo de 10 MB.");
+  }
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const parser = parsers[extension];
+  if (!parser) {
+    throw new RouteImportError(
+      `Formato no soportado (.${extension || "?"}). Usa GPX, GeoJSON o KML.`,
+    );
+  }
+
+  const text = await file.text();
+  if (!text.trim()) {
+    throw new RouteImportError("El archivo está vacío.");
+  }
+  const track = parser.parse(text);
+  // Files without <ele>/altitude still get a profile where the DEM covers them.
+  const path = fillElevations(track.path, await loadDemTiles());
+
+  return createRoute({
+    id: `import-${mode}-${Date.now().toString(36)}`,
+    title: track.title ?? file.name.replace(/\.[^.]+$/, ""),
+    mode,
+    safety: track.details?.safety ?? "Ruta importada",
+    surface: track.details?.surface ?? parser.label,
+    path,
+    waypoints: track.waypoints,
+  });
+}
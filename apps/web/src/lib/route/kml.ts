@@ -0,0 +1,122 @@
+import { RouteImportError } from "./errors";
+import type { ImportedTrack } from "./import";
+import {
+  type RouteOption,
+  type RouteVertex,
+  routeStops,
+  snapWaypoints,
+} from "./model";
+import { childText, descendants, escapeXml, parseXml } from "./xml";
+
+/** Parses a KML `<coordinates>` body: "lng,lat[,alt]" tuples separated by whitespace. */
+function parseCoordinates(text: string): RouteVertex[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number.parseFloat))
+    .filter(
+      ([lng, lat]) =>
+        Number.isFinite(lng) &&
+        Number.isFinite(lat) &&
+        Math.abs(lat) <= 90 &&
+        Math.abs(lng) <= 180,
+    )
+    .map(([lng, lat, ele]) =>
+      Number.isFinite(ele) ? { lng, lat, ele } : { lng, lat },
+    );
+}
+
+// gx:Track stores "lng lat alt" per <gx:coord> instead of a coordinates list.
+function parseGxTrack(track: Element): RouteVertex[] {
+  return descendants(track, "coord").flatMap((el) => {
+    const [lng, lat, ele] = (el.textContent ?? "")
+      .trim()
+      .split(/\s+/)
+      .map(Number.parseFloat);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return [];
+    return [Number.isFinite(ele) ? { lng, lat, ele } : { lng, lat }];
+  });
+}
+
+function placemarkPath(placemark: Element): RouteVertex[] {
+  // LineStrings inside a MultiGeometry are concatenated in document order.
+  const lines = descendants(placemark, "LineString").flatMap((line) => {
+    const coords = descendants(line, "coordinates")[0]?.textContent ?? "";
+    return parseCoordinates(coords);
+  });
+  if (lines.length) return lines;
+  return descendants(placemark, "Track").flatMap(parseGxTrack);
+}
+
+export function parseKml(text: string): ImportedTrack {
+  const doc = parseXml(text, "KML");
+  if (doc.documentElement.localName !== "kml") {
+    throw new RouteImportError(
+      "El archivo no es un KML: falta el elemento <kml>.",
+    );
+  }
+
+  const placemarks = descendants(doc, "Placemark");
+  const linePlacemark = placemarks.find((pm) => placemarkPath(pm).length > 0);
+  if (!linePlacemark) {
+    throw new RouteImportError(
+      "El KML no contiene ninguna LineString para importar.",
+    );
+  }
+  const path = placemarkPath(linePlacemark);
+  if (path.length < 2) {
+    throw new RouteImportError(
+      "La LineString del KML tiene menos de dos coordenadas válidas.",
+    );
+  }
+
+  const named = placemarks.flatMap((pm) => {
+    const point = descendants(pm, "Point")[0];
+    const label = childText(pm, "name");
+    if (!point || !label) return [];
+    const [vertex] = parseCoordinates(
+      descendants(point, "coordinates")[0]?.textContent ?? "",
+    );
+    return vertex ? [{ ...vertex, label }] : [];
+  });
+
+  const documentEl = descendants(doc, "Document")[0];
+  return {
+    title:
+      childText(linePlacemark, "name") ??
+      (documentEl ? childText(documentEl, "name") : undefined),
+    path,
+    waypoints: snapWaypoints(path, named),
+    details: { safety: childText(linePlacemark, "description") },
+  };
+}
+
+const kmlCoord = ({ lng, lat, ele }: RouteVertex) =>
+  `${lng.toFixed(6)},${lat.toFixed(6)}${ele === undefined ? "" : `,${ele.toFixed(1)}`}`;
+
+export function routeToKml(route: RouteOption): string {
+  const name = escapeXml(route.title);
+  const stops = routeStops(route).map(
+    ({ index, label }) =>
+      `    <Placemark><name>${escapeXml(label)}</name><Point><coordinates>${kmlCoord(route.path[index])}</coordinates></Point></Placemark>`,
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    "  <Document>",
+    `    <name>${name}</name>`,
+    "    <Placemark>",
+    `      <name>${name}</name>`,
+    `      <description>${escapeXml(route.safety)}</description>`,
+    "      <LineString>",
+    "        <tessellate>1</tessellate>",
+    `        <coordinates>${route.path.map(kmlCoord).join(" ")}</coordinates>`,
+    "      </LineString>",
+    "    </Placemark>",
+    ...stops,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
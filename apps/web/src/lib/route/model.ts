@@ -0,0 +1,137 @@
+import { type ClimbStats, climbStats } from "@/lib/elevation/profile";
+import { estimateEta } from "@/lib/eta";
+import type { Mode } from "@/lib/modes";
+import {
+  computeBounds,
+  type GeoPoint,
+  haversineKm,
+  type LngLat,
+  nearestVertexIndex,
+  pathDistanceKm,
+  type RouteBounds,
+} from "./geo";
+
+export type RouteVertex = GeoPoint & { ele?: number };
+
+/** A named stop on the route, pointing at a vertex of `path`. */
+export type RouteWaypoint = { index: number; label: string };
+
+export type RouteInput = {
+  id: string;
+  title: string;
+  mode: Mode;
+  safety: string;
+  surface: string;
+  path: RouteVertex[];
+  waypoints?: RouteWaypoint[];
+};
+
+export type RouteOption = RouteInput & {
+  waypoints: RouteWaypoint[];
+  distanceKm: number;
+  /** Grade-adjusted ETA at the mode's default pace. */
+  estMinutes: number;
+  bounds: RouteBounds;
+  /** Null when the path carries no elevations. */
+  climb: ClimbStats | null;
+};
+
+/**
+ * Builds a route from its geometry. Distance, ETA, bounds and climb are
+ * always derived from `path`, never typed in by hand.
+ */
+export function createRoute(input: RouteInput): RouteOption {
+  if (input.path.length < 2) {
+    throw new Error(`Route "${input.id}" needs at least two vertices`);
+  }
+  const last = input.path.length - 1;
+  const waypoints = (input.waypoints ?? [])
+    .filter((wp) => wp.index >= 0 && wp.index <= last)
+    .sort((a, b) => a.index - b.index);
+  const distanceKm = pathDistanceKm(input.path);
+
+  return {
+    ...input,
+    waypoints,
+    distanceKm,
+    estMinutes: estimateEta(input.path, input.mode).minutes,
+    bounds: computeBounds(input.path) as RouteBounds,
+    climb: climbStats(input.path),
+  };
+}
+
+// Named points further than this from the path are not route waypoints.
+const WAYPOINT_SNAP_KM = 0.25;
+
+/** Attaches labelled points (from a file or a search) to their nearest vertex. */
+export function snapWaypoints(
+  path: GeoPoint[],
+  named: (GeoPoint & { label: string })[],
+): RouteWaypoint[] {
+  const waypoints: RouteWaypoint[] = [];
+  named.forEach((wp) => {
+    const index = nearestVertexIndex(path, wp);
+    if (
+      haversineKm(path[index], wp) <= WAYPOINT_SNAP_KM &&
+      !waypoints.some((w) => w.index === index)
+    ) {
+      waypoints.push({ index, label: wp.label });
+    }
+  });
+  return waypoints;
+}
+
+export function waypointLabel(
+  route: RouteOption,
+  index: number,
+): string | undefined {
+  const named = route.waypoints.find((wp) => wp.index === index)?.label;
+  if (named) return named;
+  if (index === 0) return "Inicio";
+  if (index === route.path.length - 1) return "Fin";
+  return undefined;
+}
+
+/** Vertices worth a marker: start, end and every named waypoint. */
+export function routeStops(
+  route: RouteOption,
+): { index: number; label: string }[] {
+  const last = route.path.length - 1;
+  const indexes = new Set([0, ...route.waypoints.map((wp) => wp.index), last]);
+  return [...indexes]
+    .sort((a, b) => a - b)
+    .map((index) => ({
+      index,
+      label: waypointLabel(route, index) ?? `P${index + 1}`,
+    }));
+}
+
+export function buildRouteGeo(route: RouteOption) {
+  const coords = route.path.map(({ lng, lat }) => [lng, lat] as LngLat);
+  const last = coords.length - 1;
+
+  const line = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: coords },
+        properties: { title: route.title },
+      },
+    ],
+  };
+
+  const points = {
+    type: "FeatureCollection",
+    features: routeStops(route).map(({ index, label }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: coords[index] },
+      properties: {
+        label,
+        kind: index === 0 ? "start" : index === last ? "end" : "mid",
+      },
+    })),
+  };
+
+  return { line, points, bounds: route.bounds };
+}
@@ -0,0 +1,63 @@
+import type { GeoPoint } from "./geo";
+
+// Google's encoded polyline format: each coordinate is the difference from
+// the previous one, rounded to five decimals (about a metre) and written as
+// printable characters. A few characters per vertex instead of a JSON pair.
+
+const PRECISION = 1e5;
+
+function encodeValue(value: number): string {
+  let rest = value < 0 ? ~(value << 1) : value << 1;
+  let out = "";
+  while (rest >= 0x20) {
+    out += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+    rest >>= 5;
+  }
+  return out + String.fromCharCode(rest + 63);
+}
+
+export function encodePolyline(path: GeoPoint[]): string {
+  let lat = 0;
+  let lng = 0;
+  let out = "";
+  for (const point of path) {
+    const nextLat = Math.round(point.lat * PRECISION);
+    const nextLng = Math.round(point.lng * PRECISION);
+    out += encodeValue(nextLat - lat) + encodeValue(nextLng - lng);
+    lat = nextLat;
+    lng = nextLng;
+  }
+  return out;
+}
+
+/** The path back, or null when `text` is not a valid polyline. */
+export function decodePolyline(text: string): GeoPoint[] | null {
+  const path: GeoPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= text.length || shift > 30) return null;
+      byte = text.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 0x3f) return null;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < text.length) {
+    const dLat = readValue();
+    const dLng = readValue();
+    if (dLat === null || dLng === null) return null;
+    lat += dLat;
+    lng += dLng;
+    const point = { lng: lng / PRECISION, lat: lat / PRECISION };
+    if (Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180) return null;
+    path.push(point);
+  }
+  return path;
+}
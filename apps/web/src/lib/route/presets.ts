@@ -0,0 +1,150 @@
+import type { Mode } from "@/lib/modes";
+import { createRoute, type RouteOption, type RouteVertex } from "./model";
+
+type Vertex = [lng: number, lat: number, ele: number];
+
+const toPath = (vertices: Vertex[]): RouteVertex[] =>
+  vertices.map(([lng, lat, ele]) => ({ lng, lat, ele }));
+
+// Sendero de los cerros orientales: subida y regreso por el mismo camino.
+const hikeAscent: Vertex[] = [
+  [-74.052, 4.6497, 2712],
+  [-74.0497, 4.6503, 2744],
+  [-74.0471, 4.6514, 2790],
+  [-74.0452, 4.6502, 2831],
+  [-74.0433, 4.6519, 2868],
+  [-74.0421, 4.6541, 2902],
+  [-74.0402, 4.653, 2941],
+  [-74.0388, 4.6552, 2976],
+  [-74.0372, 4.657, 3004],
+  [-74.0358, 4.6558, 3031],
+  [-74.0342, 4.658, 3058],
+  [-74.0329, 4.6603, 3079],
+  [-74.0311, 4.6597, 3094],
+  [-74.0296, 4.6621, 3108],
+  [-74.0283, 4.664, 3121],
+];
+
+export const baseRoutes: Record<Mode, RouteOption[]> = {
+  run: [
+    createRoute({
+      id: "run-quick",
+      title: "Ritmo estable",
+      mode: "run",
+      safety: "Zonas iluminadas · Bajo tráfico",
+      surface: "Asfalto + parque",
+      path: toPath([
+        [-74.0307, 4.6951, 2598],
+        [-74.0322, 4.6902, 2594],
+        [-74.0341, 4.6851, 2587],
+        [-74.0368, 4.6843, 2579],
+        [-74.0421, 4.6852, 2568],
+        [-74.0472, 4.6866, 2561],
+        [-74.0496, 4.687, 2559],
+        [-74.0489, 4.6925, 2560],
+        [-74.0466, 4.6932, 2562],
+        [-74.0458, 4.6984, 2565],
+        [-74.0449, 4.7046, 2569],
+        [-74.0372, 4.704, 2584],
+        [-74.0296, 4.7032, 2605],
+        [-74.0301, 4.699, 2601],
+        [-74.0307, 4.6951, 2598],
+      ]),
+      waypoints: [
+        { index: 0, label: "Usaquén" },
+        { index: 6, label: "Cra 19" },
+        { index: 11, label: "Calle 127" },
+      ],
+    }),
+    createRoute({
+      id: "run-scenic",
+      title: "Escénica",
+      mode: "run",
+      safety: "Parques y ciclorruta",
+      surface: "Verde + mixto",
+      path: toPath([
+        [-74.0301, 4.699, 2601],
+        [-74.0318, 4.6935, 2596],
+        [-74.0335, 4.6882, 2590],
+        [-74.0358, 4.6818, 2583],
+        [-74.0395, 4.676, 2574],
+        [-74.0442, 4.6748, 2566],
+        [-74.0489, 4.6731, 2561],
+        [-74.0533, 4.6718, 2557],
+        [-74.0539, 4.6768, 2558],
+        [-74.0512, 4.683, 2560],
+        [-74.0478, 4.689, 2562],
+        [-74.0461, 4.6955, 2564],
+        [-74.043, 4.7, 2571],
+        [-74.0364, 4.701, 2586],
+        [-74.0301, 4.699, 2601],
+      ]),
+      waypoints: [
+        { index: 7, label: "El Virrey" },
+        { index: 12, label: "Mirador" },
+      ],
+    }),
+  ],
+  jog: [
+    createRoute({
+      id: "jog-soft",
+      title: "Suave y seguro",
+      mode: "jog",
+      safety: "Parques y aceras amplias",
+      surface: "Parque",
+      path: toPath([
+        [-74.0472, 4.6724, 2563],
+        [-74.0503, 4.6722, 2560],
+        [-74.0535, 4.6716, 2557],
+        [-74.0563, 4.6707, 2555],
+        [-74.0598, 4.67, 2553],
+        [-74.0604, 4.6738, 2553],
+        [-74.0571, 4.6745, 2555],
+        [-74.0544, 4.6771, 2556],
+        [-74.0506, 4.679, 2559],
+        [-74.047, 4.68, 2562],
+        [-74.0431, 4.6805, 2567],
+        [-74.0415, 4.6769, 2570],
+        [-74.0446, 4.6772, 2566],
+        [-74.0472, 4.6724, 2563],
+      ]),
+      waypoints: [{ index: 5, label: "Pausa agua" }],
+    }),
+  ],
+  walk: [
+    createRoute({
+      id: "walk-daily",
+      title: "Caminata diaria",
+      mode: "walk",
+      safety: "Alta iluminación",
+      surface: "Ciudad",
+      path: toPath([
+        [-74.0307, 4.6951, 2598],
+        [-74.0328, 4.6948, 2592],
+        [-74.0362, 4.6944, 2585],
+        [-74.0396, 4.6942, 2578],
+        [-74.0418, 4.694, 2574],
+        [-74.0423, 4.6978, 2574],
+        [-74.0402, 4.6995, 2578],
+        [-74.0371, 4.6999, 2584],
+        [-74.0334, 4.7004, 2593],
+        [-74.0303, 4.6998, 2600],
+        [-74.0307, 4.6951, 2598],
+      ]),
+    }),
+  ],
+  hike: [
+    createRoute({
+      id: "hike-green",
+      title: "Sendero verde",
+      mode: "hike",
+      safety: "Terreno mixto",
+      surface: "Trail",
+      path: toPath([...hikeAscent, ...hikeAscent.slice(0, -1).reverse()]),
+      waypoints: [
+        { index: 5, label: "Bosque" },
+        { index: hikeAscent.length - 1, label: "Cima" },
+      ],
+    }),
+  ],
+};
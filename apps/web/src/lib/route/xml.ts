@@ -0,0 +1,34 @@
+import { RouteImportError } from "./errors";
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function parseXml(text: string, format: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new RouteImportError(
+      `El archivo no es un ${format} válido: el XML está mal formado.`,
+    );
+  }
+  return doc;
+}
+
+/** Direct children by local name, ignoring namespace prefixes. */
+export function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === name);
+}
+
+export function childText(parent: Element, name: string): string | undefined {
+  const text = childElements(parent, name)[0]?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+export function descendants(root: Document | Element, name: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS("*", name));
+}
@@ -0,0 +1,16 @@
+import { buildGraph, type RoadGraph, type RoadGraphData } from "./graph";
+
+let cached: Promise<RoadGraph> | null = null;
+
+/**
+ * Loads the street/trail graph shipped with the app. The JSON is split into
+ * its own chunk and parsed once per session. For now it is a hand-drawn
+ * sample of Usaquén, not an OSM extract: routes on it follow its grid, not
+ * the real streets.
+ */
+export function loadBundledGraph(): Promise<RoadGraph> {
+  cached ??= import("@/data/graphs/bogota-usaquen.json").then((mod) =>
+    buildGraph(mod.default as unknown as RoadGraphData),
+  );
+  return cached;
+}
@@ -0,0 +1,7 @@
+/** Raised when no route can be built on the graph. The message is user-facing. */
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingError";
+  }
+}
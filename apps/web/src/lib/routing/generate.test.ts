@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { pathDistanceKm } from "@/lib/route/geo";
+import { RoutingError } from "./errors";
+import { generateRoute } from "./generate";
+import { buildGraph, type RoadGraphData } from "./graph";
+import { routingProfiles } from "./profiles";
+
+// Fixture: a 9 × 9 grid about 200 m apart, streets east–west and footways
+// north–south, so every shape has several answers of the right length.
+const SIZE = 9;
+const STEP_DEG = 0.0018;
+const ORIGIN = { lng: -74.04, lat: 4.69 };
+
+const nodeId = (row: number, col: number) => 1 + row * SIZE + col;
+
+function gridFixture(): RoadGraphData {
+  const nodes: RoadGraphData["nodes"] = [];
+  for (let row = 0; row < SIZE; row += 1) {
+    for (let col = 0; col < SIZE; col += 1) {
+      nodes.push([
+        nodeId(row, col),
+        ORIGIN.lng + col * STEP_DEG,
+        ORIGIN.lat + row * STEP_DEG,
+        2600 + row * 5,
+      ]);
+    }
+  }
+  const line = (length: number, at: (i: number) => number) =>
+    Array.from({ length }, (_, i) => at(i));
+  const ways: RoadGraphData["ways"] = [];
+  for (let i = 0; i < SIZE; i += 1) {
+    ways.push({
+      id: 100 + i,
+      nodes: line(SIZE, (col) => nodeId(i, col)),
+      tags: { highway: "residential", name: `Calle ${i + 1}`, lit: "yes" },
+    });
+    ways.push({
+      id: 200 + i,
+      nodes: line(SIZE, (row) => nodeId(row, i)),
+      tags: { highway: "footway", surface: "paved", name: `Paseo ${i + 1}` },
+    });
+  }
+  return { name: "Cuadrícula de prueba", nodes, ways };
+}
+
+const graph = buildGraph(gridFixture());
+const center = {
+  lng: ORIGIN.lng + 4 * STEP_DEG,
+  lat: ORIGIN.lat + 4 * STEP_DEG,
+};
+
+describe("generateRoute", () => {
+  it("closes a loop near the asked distance", () => {
+    const route = generateRoute(graph, {
+      start: center,
+      distanceKm: 3,
+      shape: "loop",
+      profile: routingProfiles.run,
+    });
+    expect(route.path[0]).toEqual(route.path[route.path.length - 1]);
+    expect(route.withinTolerance).toBe(true);
+    expect(route.distanceKm).toBeCloseTo(pathDistanceKm(route.path), 6);
+    // Edges chain end to start, with no jumps between them.
+    route.edges.slice(1).forEach((edge, i) => {
+      expect(edge.from).toBe(route.edges[i].to);
+    });
+    expect(route.waypoints.length).toBeGreaterThan(0);
+  });
+
+  it("turns an out-and-back around halfway, on the same streets", () => {
+    const route = generateRoute(graph, {
+      start: center,
+      distanceKm: 2,
+      shape: "out-and-back",
+      profile: routingProfiles.walk,
+    });
+    expect([...route.path].reverse()).toEqual(route.path);
+    expect(route.distanceKm).toBeGreaterThan(1.8);
+    expect(route.distanceKm).toBeLessThan(2.2);
+    const turn = route.waypoints[0];
+    expect(turn.index).toBe((route.path.length - 1) / 2);
+  });
+
+  it("refuses a start outside the graph", () => {
+    expect(() =>
+      generateRoute(graph, {
+        start: { lng: -74.2, lat: 4.5 },
+        distanceKm: 3,
+        profile: routingProfiles.run,
+      }),
+    ).toThrow(RoutingError);
+  });
+});
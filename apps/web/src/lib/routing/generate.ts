@@ -0,0 +1,288 @@
+import type { GeoPoint } from "@/lib/route/geo";
+import type { RouteVertex, RouteWaypoint } from "@/lib/route/model";
+import { RoutingError } from "./errors";
+import {
+  destinationPoint,
+  type GraphEdge,
+  nearestNode,
+  type RoadGraph,
+} from "./graph";
+import {
+  type CostBreakdown,
+  costBreakdown,
+  profileCost,
+  type RoutingProfile,
+} from "./profiles";
+import { dijkstra, type EdgeCost, edgesTo, shortestPath } from "./search";
+
+export type RouteShape = "loop" | "out-and-back";
+
+export type GenerateOptions = {
+  start: GeoPoint;
+  distanceKm: number;
+  shape?: RouteShape;
+  /** Points to pass through in order; labels become waypoint names. */
+  via?: (GeoPoint & { label?: string })[];
+  /** Finish here instead of back at the start. */
+  end?: GeoPoint;
+  /** Accepted relative error on distance, e.g. 0.1 = ±10 %. */
+  tolerance?: number;
+  profile: RoutingProfile;
+};
+
+export type GeneratedRoute = {
+  path: RouteVertex[];
+  waypoints: RouteWaypoint[];
+  edges: GraphEdge[];
+  distanceKm: number;
+  withinTolerance: boolean;
+  breakdown: CostBreakdown;
+};
+
+// Further than this from the nearest graph node, the start is off the extract.
+const MAX_SNAP_KM = 1.5;
+// Road distance is longer than the straight triangle we aim at.
+const DETOUR_FACTOR = 1.3;
+const LOOP_BEARINGS = Array.from({ length: 12 }, (_, i) => i * 30);
+const MAX_RESCALES = 4;
+// Multiplier on edges already used earlier in the same loop.
+const REUSE_PENALTY = 5;
+
+const edgeKey = (edge: GraphEdge) =>
+  edge.from < edge.to ? `${edge.from}-${edge.to}` : `${edge.to}-${edge.from}`;
+
+const sumKm = (edges: GraphEdge[]) =>
+  edges.reduce((acc, edge) => acc + edge.lengthKm, 0);
+
+type Candidate = {
+  edges: GraphEdge[];
+  distanceKm: number;
+  score: number;
+  turnNodes: number[];
+  /** Names for `turnNodes`, when the caller knows them. */
+  turnLabels?: (string | undefined)[];
+};
+
+function scoreCandidate(
+  edges: GraphEdge[],
+  targetKm: number,
+  cost: EdgeCost,
+): number {
+  const distanceKm = sumKm(edges);
+  const distanceError = Math.abs(distanceKm - targetKm) / targetKm;
+  const used = new Set<string>();
+  let reusedKm = 0;
+  edges.forEach((edge) => {
+    const key = edgeKey(edge);
+    if (used.has(key)) reusedKm += edge.lengthKm;
+    used.add(key);
+  });
+  // Profile cost per km, so cheaper (preferred) streets win ties.
+  const costPerKm =
+    edges.reduce((acc, edge) => acc + cost(edge), 0) /
+    Math.max(distanceKm, 1e-6);
+  return distanceError * 4 + (reusedKm / distanceKm) * 1.5 + costPerKm * 0.5;
+}
+
+function buildLoop(
+  graph: RoadGraph,
+  origin: number,
+  targetKm: number,
+  cost: EdgeCost,
+  tolerance: number,
+): Candidate | null {
+  const start = graph.nodes.get(origin) as GeoPoint;
+  let best: Candidate | null = null;
+
+  for (const bearing of LOOP_BEARINGS) {
+    let sideKm = targetKm / (3 * DETOUR_FACTOR);
+    for (let attempt = 0; attempt <= MAX_RESCALES; attempt += 1) {
+      const a = nearestNode(graph, destinationPoint(start, bearing, sideKm))
+        .node.id;
+      const b = nearestNode(
+        graph,
+        destinationPoint(start, bearing + 60, sideKm),
+      ).node.id;
+      if (a === origin || b === origin || a === b) break;
+
+      const used = new Set<string>();
+      const penalised: EdgeCost = (edge) =>
+        cost(edge) * (used.has(edgeKey(edge)) ? REUSE_PENALTY : 1);
+      const legs: GraphEdge[] = [];
+      let failed = false;
+      for (const [from, to] of [
+        [origin, a],
+        [a, b],
+        [b, origin],
+      ]) {
+        const leg = shortestPath(graph, from, to, penalised);
+        if (!leg) {
+          failed = true;
+          break;
+        }
+        for (const edge of leg) used.add(edgeKey(edge));
+        legs.push(...leg);
+      }
+      if (failed || !legs.length) break;
+
+      const distanceKm = sumKm(legs);
+      const candidate = {
+        edges: legs,
+        distanceKm,
+        score: scoreCandidate(legs, targetKm, cost),
+        turnNodes: [a, b],
+      };
+      if (!best || candidate.score < best.score) best = candidate;
+      if (Math.abs(distanceKm - targetKm) <= targetKm * tolerance) break;
+      sideKm *= targetKm / distanceKm;
+    }
+  }
+  return best;
+}
+
+function buildOutAndBack(
+  graph: RoadGraph,
+  origin: number,
+  targetKm: number,
+  cost: EdgeCost,
+): Candidate | null {
+  const halfKm = targetKm / 2;
+  // Explore by profile cost, but judge candidates by real length.
+  const tree = dijkstra(graph, origin, cost);
+  let best: Candidate | null = null;
+
+  tree.cost.forEach((_, node) => {
+    if (node === origin) return;
+    const out = edgesTo(tree, origin, node);
+    if (!out?.length) return;
+    const outKm = sumKm(out);
+    const back = [...out].reverse().map((edge) => graph.edges[edge.id ^ 1]);
+    const edges = [...out, ...back];
+    // Reuse is inherent here, so score only distance and profile cost.
+    const costPerKm = out.reduce((acc, edge) => acc + cost(edge), 0) / outKm;
+    const score = (Math.abs(outKm - halfKm) / halfKm) * 4 + costPerKm * 0.5;
+    if (!best || score < best.score) {
+      best = { edges, distanceKm: outKm * 2, score, turnNodes: [node] };
+    }
+  });
+  return best;
+}
+
+/**
+ * Chains shortest paths through `stops`. Edges already walked cost more, so
+ * a route back to the start prefers new streets.
+ */
+function buildThrough(
+  graph: RoadGraph,
+  stops: number[],
+  cost: EdgeCost,
+): Candidate | null {
+  const used = new Set<string>();
+  const penalised: EdgeCost = (edge) =>
+    cost(edge) * (used.has(edgeKey(edge)) ? REUSE_PENALTY : 1);
+  const edges: GraphEdge[] = [];
+  for (let i = 1; i < stops.length; i += 1) {
+    const leg = shortestPath(graph, stops[i - 1], stops[i], penalised);
+    if (!leg) return null;
+    for (const edge of leg) used.add(edgeKey(edge));
+    edges.push(...leg);
+  }
+  if (!edges.length) return null;
+  return {
+    edges,
+    distanceKm: sumKm(edges),
+    score: 0,
+    turnNodes: stops.slice(1, -1),
+  };
+}
+
+function streetLabel(graph: RoadGraph, node: number, fallback: string): string {
+  const edge = graph.edges.find((e) => e.to === node && e.tags.name);
+  return edge?.tags.name ?? fallback;
+}
+
+/**
+ * Builds a loop or out-and-back route of roughly `distanceKm` on the graph,
+ * starting and ending at the node nearest to `start`. With `via` or `end`
+ * the route threads those stops instead. Edges are weighted by the mode's
+ * routing profile.
+ */
+export function generateRoute(
+  graph: RoadGraph,
+  {
+    start,
+    distanceKm,
+    shape = "loop",
+    via = [],
+    end,
+    tolerance = 0.1,
+    profile,
+  }: GenerateOptions,
+): GeneratedRoute {
+  if (!(distanceKm > 0)) {
+    throw new RoutingError("La distancia pedida debe ser mayor que cero.");
+  }
+  const snap = (point: GeoPoint, what: string) => {
+    const hit = nearestNode(graph, point);
+    if (hit.distanceKm > MAX_SNAP_KM) {
+      throw new RoutingError(
+        `${what} está fuera del área que cubre el mapa de rutas (${graph.name}).`,
+      );
+    }
+    return hit.node.id;
+  };
+  const origin = snap(start, "El punto de inicio");
+
+  const cost = profileCost(graph, profile);
+  let candidate: Candidate | null;
+  if (via.length || end) {
+    // Fixed stops decide the shape; the requested distance is only reported.
+    const stops = [
+      origin,
+      ...via.map((point) => snap(point, "Un punto de paso")),
+      end ? snap(end, "El destino") : origin,
+    ];
+    candidate = buildThrough(graph, stops, cost);
+    if (candidate) candidate.turnLabels = via.map((point) => point.label);
+  } else {
+    candidate =
+      shape === "loop"
+        ? buildLoop(graph, origin, distanceKm, cost, tolerance)
+        : buildOutAndBack(graph, origin, distanceKm, cost);
+  }
+  if (!candidate) {
+    throw new RoutingError(
+      `No se encontró una ruta de ${distanceKm.toFixed(1)} km desde este punto.`,
+    );
+  }
+
+  const nodeIds = [origin, ...candidate.edges.map((edge) => edge.to)];
+  const path = nodeIds.map((id) => {
+    const { lng, lat, ele } = graph.nodes.get(id) as RouteVertex & {
+      id: number;
+    };
+    return ele === undefined ? { lng, lat } : { lng, lat, ele };
+  });
+
+  const waypoints: RouteWaypoint[] = [];
+  const { turnNodes, turnLabels } = candidate;
+  turnNodes.forEach((node, idx) => {
+    const index = nodeIds.indexOf(node);
+    if (index <= 0 || index === nodeIds.length - 1) return;
+    const fallback = shape === "loop" ? `Giro ${idx + 1}` : "Retorno";
+    waypoints.push({
+      index,
+      label: turnLabels?.[idx] ?? streetLabel(graph, node, fallback),
+    });
+  });
+
+  return {
+    path,
+    waypoints,
+    edges: candidate.edges,
+    distanceKm: candidate.distanceKm,
+    withinTolerance:
+      Math.abs(candidate.distanceKm - distanceKm) <= distanceKm * tolerance,
+    breakdown: costBreakdown(graph, profile, candidate.edges),
+  };
+}
@@ -0,0 +1,115 @@
+import { type GeoPoint, haversineKm } from "@/lib/route/geo";
+import { RoutingError } from "./errors";
+
+/**
+ * Bundled graph format: OSM nodes and ways, trimmed to the tags routing
+ * needs. `scripts/osm-to-graph.mjs` produces it from an Overpass export;
+ * `source` says where a graph's data came from.
+ */
+export type RoadGraphData = {
+  name: string;
+  source?: string;
+  nodes: [id: number, lng: number, lat: number, ele: number | null][];
+  ways: { id: number; nodes: number[]; tags: Record<string, string> }[];
+};
+
+export type GraphNode = GeoPoint & { id: number; ele?: number };
+
+export type GraphEdge = {
+  id: number;
+  from: number;
+  to: number;
+  wayId: number;
+  lengthKm: number;
+  tags: Record<string, string>;
+};
+
+export type RoadGraph = {
+  name: string;
+  nodes: Map<number, GraphNode>;
+  /** Edges come in pairs: `edges[id ^ 1]` is the reverse of `edges[id]`. */
+  edges: GraphEdge[];
+  /** Outgoing edge ids per node. */
+  adjacency: Map<number, number[]>;
+  /** Ways meeting at each node, used to spot road crossings. */
+  junctions: Map<number, { wayId: number; highway: string }[]>;
+};
+
+// Ways that are never walkable, whatever the profile.
+const EXCLUDED_HIGHWAYS = new Set([
+  "motorway",
+  "motorway_link",
+  "construction",
+]);
+
+export function buildGraph(data: RoadGraphData): RoadGraph {
+  const nodes = new Map<number, GraphNode>();
+  data.nodes.forEach(([id, lng, lat, ele]) => {
+    nodes.set(id, ele === null ? { id, lng, lat } : { id, lng, lat, ele });
+  });
+
+  const edges: GraphEdge[] = [];
+  const adjacency = new Map<number, number[]>();
+  const junctions = new Map<number, { wayId: number; highway: string }[]>();
+  const link = (edge: GraphEdge) => {
+    edges.push(edge);
+    const out = adjacency.get(edge.from);
+    if (out) out.push(edge.id);
+    else adjacency.set(edge.from, [edge.id]);
+  };
+
+  data.ways.forEach((way) => {
+    const { highway } = way.tags;
+    if (!highway || EXCLUDED_HIGHWAYS.has(highway)) return;
+    way.nodes.forEach((id) => {
+      const list = junctions.get(id);
+      if (list) list.push({ wayId: way.id, highway });
+      else junctions.set(id, [{ wayId: way.id, highway }]);
+    });
+    for (let i = 1; i < way.nodes.length; i += 1) {
+      const a = nodes.get(way.nodes[i - 1]);
+      const b = nodes.get(way.nodes[i]);
+      if (!a || !b) continue;
+      const lengthKm = haversineKm(a, b);
+      const base = { wayId: way.id, lengthKm, tags: way.tags };
+      // On foot every way is walkable in both directions.
+      link({ ...base, id: edges.length, from: a.id, to: b.id });
+      link({ ...base, id: edges.length, from: b.id, to: a.id });
+    }
+  });
+
+  return { name: data.name, nodes, edges, adjacency, junctions };
+}
+
+export function nearestNode(
+  graph: RoadGraph,
+  point: GeoPoint,
+): { node: GraphNode; distanceKm: number } {
+  let best: GraphNode | undefined;
+  let bestKm = Number.POSITIVE_INFINITY;
+  graph.nodes.forEach((node) => {
+    if (!graph.adjacency.has(node.id)) return;
+    const km = haversineKm(node, point);
+    if (km < bestKm) {
+      best = node;
+      bestKm = km;
+    }
+  });
+  if (!best) throw new RoutingError("El grafo no tiene nodos conectados.");
+  return { node: best, distanceKm: bestKm };
+}
+
+/** Point at `distanceKm` from `origin` along a compass bearing (degrees). */
+export function destinationPoint(
+  origin: GeoPoint,
+  bearingDeg: number,
+  distanceKm: number,
+): GeoPoint {
+  const bearing = (bearingDeg * Math.PI) / 180;
+  const kmPerLat = 110.574;
+  const kmPerLng = 111.32 * Math.cos((origin.lat * Math.PI) / 180);
+  return {
+    lng: origin.lng + (distanceKm * Math.sin(bearing)) / kmPerLng,
+    lat: origin.lat + (distanceKm * Math.cos(bearing)) / kmPerLat,
+  };
+}
@@ -0,0 +1,441 @@
+import type { Mode } from "@/lib/modes";
+import type { GraphEdge, RoadGraph } from "./graph";
+import type { EdgeCost } from "./search";
+
+/**
+ * How a mode values the network. Multipliers scale edge length (1 = neutral,
+ * `Infinity` = never use); penalties add km-equivalents to the edge cost.
+ */
+export type RoutingProfile = {
+  mode: Mode;
+  highway: Record<string, number>;
+  surface: Record<string, number>;
+  /** Multiplier for `highway=steps` on top of the highway factor. */
+  steps: number;
+  /** Multiplier for `lit=no` segments. */
+  unlit: number;
+  /** Km-equivalent added per metre climbed. */
+  climbPerM: number;
+  /** Km-equivalent added per metre of grade above `maxComfortGrade`. */
+  steepPerM: number;
+  maxComfortGrade: number;
+  /** Km-equivalent added each time the route crosses a busy road. */
+  crossing: number;
+};
+
+const BUSY_HIGHWAYS = new Set(["trunk", "primary", "secondary"]);
+const TRAIL_HIGHWAYS = new Set(["path", "track", "steps"]);
+const DEFAULT_FACTOR = 1.2;
+
+export const routingProfiles: Record<Mode, RoutingProfile> = {
+  // Continuous, smooth paths; few stops at crossings.
+  run: {
+    mode: "run",
+    highway: {
+      footway: 0.9,
+      pedestrian: 0.9,
+      cycleway: 0.9,
+      path: 1,
+      living_street: 0.95,
+      residential: 1,
+      service: 1.1,
+      tertiary: 1.05,
+      secondary: 1.15,
+      primary: 1.3,
+      trunk: 2.5,
+      track: 1.2,
+      steps: 1,
+    },
+    surface: {
+      asphalt: 1,
+      concrete: 1,
+      paving_stones: 1.05,
+      compacted: 0.95,
+      fine_gravel: 1,
+      gravel: 1.2,
+      dirt: 1.4,
+      ground: 1.4,
+      grass: 1.5,
+      rock: 2,
+    },
+    steps: 6,
+    unlit: 1.3,
+    climbPerM: 0.008,
+    steepPerM: 0.05,
+    maxComfortGrade: 0.08,
+    crossing: 0.3,
+  },
+  jog: {
+    mode: "jog",
+    highway: {
+      footway: 0.85,
+      pedestrian: 0.85,
+      cycleway: 0.95,
+      path: 0.95,
+      living_street: 0.95,
+      residential: 1,
+      service: 1.1,
+      tertiary: 1.1,
+      secondary: 1.2,
+      primary: 1.4,
+      trunk: 3,
+      track: 1.1,
+      steps: 1,
+    },
+    surface: {
+      asphalt: 1,
+      concrete: 1.05,
+      paving_stones: 1.05,
+      compacted: 0.9,
+      fine_gravel: 0.95,
+      gravel: 1.1,
+      dirt: 1.15,
+      ground: 1.2,
+      grass: 1.2,
+      rock: 1.8,
+    },
+    steps: 5,
+    unlit: 1.4,
+    climbPerM: 0.01,
+    steepPerM: 0.06,
+    maxComfortGrade: 0.06,
+    crossing: 0.15,
+  },
+  // Calm, lit streets; stairs and traffic are the main things to avoid.
+  walk: {
+    mode: "walk",
+    highway: {
+      footway: 0.85,
+      pedestrian: 0.8,
+      living_street: 0.85,
+      path: 1,
+      cycleway: 1.2,
+      residential: 1,
+      service: 1.1,
+      tertiary: 1.2,
+      secondary: 1.35,
+      primary: 1.6,
+      trunk: 4,
+      track: 1.2,
+      steps: 1,
+    },
+    surface: {
+      asphalt: 1,
+      concrete: 1,
+      paving_stones: 1,
+      compacted: 1,
+      fine_gravel: 1.05,
+      gravel: 1.15,
+      dirt: 1.2,
+      ground: 1.25,
+      grass: 1.3,
+      rock: 1.6,
+    },
+    steps: 8,
+    unlit: 1.6,
+    climbPerM: 0.01,
+    steepPerM: 0.08,
+    maxComfortGrade: 0.06,
+    crossing: 0.1,
+  },
+  // Trails first; climbing is the point, so it costs little.
+  hike: {
+    mode: "hike",
+    highway: {
+      path: 0.6,
+      track: 0.7,
+      footway: 0.85,
+      steps: 0.9,
+      pedestrian: 0.9,
+      cycleway: 1.1,
+      living_street: 1.1,
+      residential: 1.3,
+      service: 1.3,
+      tertiary: 1.5,
+      secondary: 1.6,
+      primary: 2,
+      trunk: 5,
+    },
+    surface: {
+      dirt: 0.8,
+      ground: 0.8,
+      grass: 0.9,
+      gravel: 0.85,
+      fine_gravel: 0.85,
+      rock: 1,
+      compacted: 0.9,
+      paving_stones: 1.1,
+      asphalt: 1.2,
+      concrete: 1.2,
+    },
+    steps: 1.3,
+    unlit: 1,
+    climbPerM: 0.002,
+    steepPerM: 0.01,
+    maxComfortGrade: 0.25,
+    crossing: 0.1,
+  },
+};
+
+export type RouteAvoid = "steps" | "traffic" | "hills" | "unlit" | "unpaved";
+
+const UNPAVED_SURFACES = ["dirt", "ground", "grass", "gravel", "mud", "rock"];
+// How much harder an avoided feature weighs. Finite, so a route that cannot
+// dodge it entirely is still found.
+const AVOID_FACTOR = 4;
+
+/** A copy of `profile` that weighs what the user wants to avoid more heavily. */
+export function avoidingProfile(
+  profile: RoutingProfile,
+  avoid: RouteAvoid[],
+): RoutingProfile {
+  if (!avoid.length) return profile;
+  const next = {
+    ...profile,
+    highway: { ...profile.highway },
+    surface: { ...profile.surface },
+  };
+  for (const item of new Set(avoid)) {
+    if (item === "steps") next.steps = Math.max(next.steps, 1) * AVOID_FACTOR;
+    if (item === "unlit") next.unlit = Math.max(next.unlit, 1) * AVOID_FACTOR;
+    if (item === "hills") {
+      next.climbPerM *= AVOID_FACTOR;
+      next.steepPerM *= AVOID_FACTOR;
+    }
+    if (item === "traffic") {
+      for (const highway of BUSY_HIGHWAYS) {
+        next.highway[highway] =
+          (next.highway[highway] ?? DEFAULT_FACTOR) * AVOID_FACTOR;
+      }
+      next.crossing = Math.max(next.crossing, 0.25) * AVOID_FACTOR;
+    }
+    if (item === "unpaved") {
+      for (const surface of UNPAVED_SURFACES) {
+        next.surface[surface] =
+          (next.surface[surface] ?? DEFAULT_FACTOR) * AVOID_FACTOR;
+      }
+    }
+  }
+  return next;
+}
+
+export type CostFactors = {
+  distance: number;
+  highway: number;
+  surface: number;
+  steps: number;
+  unlit: number;
+  climb: number;
+  crossings: number;
+};
+
+type EdgeAssessment = {
+  factors: CostFactors;
+  total: number;
+  climbM: number;
+  descentM: number;
+  crossing: boolean;
+};
+
+function edgeGradeM(graph: RoadGraph, edge: GraphEdge): number {
+  const from = graph.nodes.get(edge.from)?.ele;
+  const to = graph.nodes.get(edge.to)?.ele;
+  return from === undefined || to === undefined ? 0 : to - from;
+}
+
+function crossesBusyRoad(graph: RoadGraph, edge: GraphEdge): boolean {
+  return (graph.junctions.get(edge.to) ?? []).some(
+    (j) => j.wayId !== edge.wayId && BUSY_HIGHWAYS.has(j.highway),
+  );
+}
+
+function assessEdge(
+  graph: RoadGraph,
+  profile: RoutingProfile,
+  edge: GraphEdge,
+): EdgeAssessment {
+  const { tags, lengthKm } = edge;
+  const highwayFactor = profile.highway[tags.highway] ?? DEFAULT_FACTOR;
+  const noSidewalk =
+    tags.sidewalk === "no" &&
+    (tags.highway === "trunk" || tags.highway === "primary");
+  const blocked = noSidewalk || tags.foot === "no" || tags.access === "private";
+  const surfaceFactor = tags.surface
+    ? (profile.surface[tags.surface] ?? DEFAULT_FACTOR)
+    : 1;
+  const stepsFactor = tags.highway === "steps" ? profile.steps : 1;
+  const unlitFactor = tags.lit === "no" ? profile.unlit : 1;
+
+  const riseM = edgeGradeM(graph, edge);
+  const climbM = Math.max(0, riseM);
+  const grade = lengthKm > 0 ? Math.abs(riseM) / (lengthKm * 1000) : 0;
+  const steepM = Math.max(0, grade - profile.maxComfortGrade) * lengthKm * 1000;
+  const crossing = crossesBusyRoad(graph, edge);
+
+  // Each factor records what it adds on top of the plain distance.
+  const afterHighway = lengthKm * highwayFactor;
+  const afterSurface = afterHighway * surfaceFactor;
+  const afterSteps = afterSurface * stepsFactor;
+  const afterUnlit = afterSteps * unlitFactor;
+  const factors: CostFactors = {
+    distance: lengthKm,
+    highway: afterHighway - lengthKm,
+    surface: afterSurface - afterHighway,
+    steps: afterSteps - afterSurface,
+    unlit: afterUnlit - afterSteps,
+    climb: climbM * profile.climbPerM + steepM * profile.steepPerM,
+    crossings: crossing ? profile.crossing : 0,
+  };
+  const total = blocked
+    ? Number.POSITIVE_INFINITY
+    : afterUnlit + factors.climb + factors.crossings;
+
+  return {
+    factors,
+    total,
+    climbM,
+    descentM: Math.max(0, -riseM),
+    crossing,
+  };
+}
+
+/** Edge weight for the generator, cached per edge id. */
+export function profileCost(
+  graph: RoadGraph,
+  profile: RoutingProfile,
+): EdgeCost {
+  const cache = new Map<number, number>();
+  return (edge) => {
+    let cost = cache.get(edge.id);
+    if (cost === undefined) {
+      cost = assessEdge(graph, profile, edge).total;
+      cache.set(edge.id, cost);
+    }
+    return cost;
+  };
+}
+
+/** What the chosen route is made of, and what each factor cost. */
+export type CostBreakdown = {
+  distanceKm: number;
+  surfaceKm: Record<string, number>;
+  highwayKm: Record<string, number>;
+  trailKm: number;
+  busyRoadKm: number;
+  stepsKm: number;
+  unlitKm: number;
+  climbM: number;
+  descentM: number;
+  crossings: number;
+  costs: CostFactors;
+  totalCost: number;
+};
+
+export function costBreakdown(
+  graph: RoadGraph,
+  profile: RoutingProfile,
+  edges: GraphEdge[],
+): CostBreakdown {
+  const add = (map: Record<string, number>, key: string, km: number) => {
+    map[key] = (map[key] ?? 0) + km;
+  };
+  const breakdown: CostBreakdown = {
+    distanceKm: 0,
+    surfaceKm: {},
+    highwayKm: {},
+    trailKm: 0,
+    busyRoadKm: 0,
+    stepsKm: 0,
+    unlitKm: 0,
+    climbM: 0,
+    descentM: 0,
+    crossings: 0,
+    costs: {
+      distance: 0,
+      highway: 0,
+      surface: 0,
+      steps: 0,
+      unlit: 0,
+      climb: 0,
+      crossings: 0,
+    },
+    totalCost: 0,
+  };
+
+  edges.forEach((edge) => {
+    const { tags, lengthKm } = edge;
+    const assessed = assessEdge(graph, profile, edge);
+    breakdown.distanceKm += lengthKm;
+    add(breakdown.surfaceKm, tags.surface ?? "unknown", lengthKm);
+    add(breakdown.highwayKm, tags.highway, lengthKm);
+    if (TRAIL_HIGHWAYS.has(tags.highway)) breakdown.trailKm += lengthKm;
+    if (BUSY_HIGHWAYS.has(tags.highway)) breakdown.busyRoadKm += lengthKm;
+    if (tags.highway === "steps") breakdown.stepsKm += lengthKm;
+    if (tags.lit === "no") breakdown.unlitKm += lengthKm;
+    breakdown.climbM += assessed.climbM;
+    breakdown.descentM += assessed.descentM;
+    if (assessed.crossing) breakdown.crossings += 1;
+    (Object.keys(assessed.factors) as (keyof CostFactors)[]).forEach((key) => {
+      breakdown.costs[key] += assessed.factors[key];
+    });
+    breakdown.totalCost += assessed.total;
+  });
+
+  return breakdown;
+}
+
+const surfaceLabels: Record<string, string> = {
+  asphalt: "Asfalto",
+  concrete: "Concreto",
+  paving_stones: "Adoquín",
+  compacted: "Compactado",
+  fine_gravel: "Gravilla",
+  gravel: "Grava",
+  dirt: "Tierra",
+  ground: "Tierra",
+  grass: "Pasto",
+  rock: "Roca",
+  unknown: "Mixto",
+};
+
+const percent = (part: number, total: number) =>
+  `${Math.round((part / Math.max(total, 1e-6)) * 100)}%`;
+
+/** "Asfalto 70% · Tierra 30%", merging tags that share a label. */
+export function describeSurface(breakdown: CostBreakdown): string {
+  const byLabel: Record<string, number> = {};
+  Object.entries(breakdown.surfaceKm).forEach(([surface, km]) => {
+    const label = surfaceLabels[surface] ?? surfaceLabels.unknown;
+    byLabel[label] = (byLabel[label] ?? 0) + km;
+  });
+  const parts = Object.entries(byLabel)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2)
+    .map(([label, km]) => `${label} ${percent(km, breakdown.distanceKm)}`);
+  const trailShare = breakdown.trailKm / Math.max(breakdown.distanceKm, 1e-6);
+  return trailShare >= 0.5 ? `Trail · ${parts.join(" · ")}` : parts.join(" · ");
+}
+
+export function describeSafety(breakdown: CostBreakdown): string {
+  const parts: string[] = [];
+  parts.push(
+    breakdown.unlitKm < 0.05
+      ? "Iluminada"
+      : `${percent(breakdown.unlitKm, breakdown.distanceKm)} sin iluminación`,
+  );
+  const busyShare = breakdown.busyRoadKm / Math.max(breakdown.distanceKm, 1e-6);
+  parts.push(
+    busyShare < 0.15
+      ? "Bajo tráfico"
+      : `Vías principales ${percent(breakdown.busyRoadKm, breakdown.distanceKm)}`,
+  );
+  parts.push(
+    breakdown.crossings === 0
+      ? "Sin cruces principales"
+      : `${breakdown.crossings} ${breakdown.crossings === 1 ? "cruce" : "cruces"}`,
+  );
+  if (breakdown.stepsKm > 0) {
+    parts.push(`Escaleras ${Math.round(breakdown.stepsKm * 1000)} m`);
+  }
+  return parts.join(" · ");
+}
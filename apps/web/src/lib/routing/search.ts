@@ -0,0 +1,126 @@
+import type { GraphEdge, RoadGraph } from "./graph";
+
+/** Cost of traversing an edge; `Infinity` forbids it. */
+export type EdgeCost = (edge: GraphEdge) => number;
+
+type HeapItem = { node: number; cost: number };
+
+// Binary min-heap keyed by cost; stale entries are skipped by the caller.
+class MinHeap {
+  private items: HeapItem[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: HeapItem) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): HeapItem | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost)
+          smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost)
+          smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export type SearchTree = {
+  cost: Map<number, number>;
+  /** Edge used to reach each node (absent for the origin). */
+  via: Map<number, GraphEdge>;
+};
+
+/**
+ * Dijkstra from `origin`. Stops early once `target` is settled, or skips
+ * nodes costlier than `maxCost` when exploring a whole neighbourhood.
+ */
+export function dijkstra(
+  graph: RoadGraph,
+  origin: number,
+  cost: EdgeCost,
+  {
+    target,
+    maxCost = Number.POSITIVE_INFINITY,
+  }: { target?: number; maxCost?: number } = {},
+): SearchTree {
+  const best = new Map<number, number>([[origin, 0]]);
+  const via = new Map<number, GraphEdge>();
+  const settled = new Set<number>();
+  const heap = new MinHeap();
+  heap.push({ node: origin, cost: 0 });
+
+  while (heap.size) {
+    const current = heap.pop() as HeapItem;
+    if (settled.has(current.node)) continue;
+    settled.add(current.node);
+    if (current.node === target) break;
+
+    for (const edgeId of graph.adjacency.get(current.node) ?? []) {
+      const edge = graph.edges[edgeId];
+      const step = cost(edge);
+      if (!Number.isFinite(step)) continue;
+      const next = current.cost + step;
+      if (next > maxCost) continue;
+      if (next < (best.get(edge.to) ?? Number.POSITIVE_INFINITY)) {
+        best.set(edge.to, next);
+        via.set(edge.to, edge);
+        heap.push({ node: edge.to, cost: next });
+      }
+    }
+  }
+
+  return { cost: best, via };
+}
+
+/** Walks the search tree back from `target`; null when it was never reached. */
+export function edgesTo(
+  tree: SearchTree,
+  origin: number,
+  target: number,
+): GraphEdge[] | null {
+  if (target === origin) return [];
+  if (!tree.via.has(target)) return null;
+  const edges: GraphEdge[] = [];
+  let node = target;
+  while (node !== origin) {
+    const edge = tree.via.get(node);
+    if (!edge) return null;
+    edges.push(edge);
+    node = edge.from;
+  }
+  return edges.reverse();
+}
+
+export function shortestPath(
+  graph: RoadGraph,
+  from: number,
+  to: number,
+  cost: EdgeCost,
+): GraphEdge[] | null {
+  return edgesTo(dijkstra(graph, from, cost, { target: to }), from, to);
+}
@@ -0,0 +1,251 @@
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+/**
+ * Schema upgrades; `migrations[n]` takes `user_version` n to n + 1. Same
+ * idea as the browser database in `@/lib/storage/schema`.
+ */
+const migrations: string[] = [
+  // 1: profiles, saved routes, favourites, routines and activities. Route and
+  // activity bodies are JSON; only what queries filter or sort on is a column.
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    display_name TEXT NOT NULL,
+    city TEXT,
+    preferences TEXT NOT NULL DEFAULT '{}',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE routes (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    saved_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE TABLE favorites (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    route_id TEXT NOT NULL,
+    PRIMARY KEY (user_id, route_id)
+  );
+  CREATE TABLE routines (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    items TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE TABLE activities (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE INDEX activities_by_start ON activities (user_id, started_at DESC);
+  `,
+  // 2: accounts. Sign-in details and profile settings on users, plus
+  // sessions and one-time magic links, both stored as token hashes.
+  `
+  ALTER TABLE users ADD COLUMN email TEXT;
+  ALTER TABLE users ADD COLUMN password_hash TEXT;
+  ALTER TABLE users ADD COLUMN units TEXT NOT NULL DEFAULT 'metric';
+  ALTER TABLE users ADD COLUMN language TEXT NOT NULL DEFAULT 'es';
+  ALTER TABLE users ADD COLUMN default_mode TEXT NOT NULL DEFAULT 'run';
+  ALTER TABLE users ADD COLUMN target_pace REAL;
+  CREATE UNIQUE INDEX users_by_email ON users (email) WHERE email IS NOT NULL;
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_by_user ON sessions (user_id);
+  CREATE TABLE magic_links (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+  `,
+  // 3: one training plan per user, kept whole as JSON.
+  `
+  CREATE TABLE training_plans (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    plan TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  `,
+  // 4: fitness on the profile: a recent race (JSON) and heart-rate anchors.
+  `
+  ALTER TABLE users ADD COLUMN recent_race TEXT;
+  ALTER TABLE users ADD COLUMN max_hr INTEGER;
+  ALTER TABLE users ADD COLUMN lthr INTEGER;
+  `,
+  // 5: direct messages. A conversation has two or more members; each member
+  // keeps when they last read it, which is what unread counts come from.
+  `
+  CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    title TEXT,
+    created_by TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE conversation_members (
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    joined_at INTEGER NOT NULL,
+    last_read_at INTEGER NOT NULL,
+    PRIMARY KEY (conversation_id, user_id)
+  );
+  CREATE INDEX conversation_members_by_user ON conversation_members (user_id);
+  CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    route TEXT,
+    sent_at INTEGER NOT NULL
+  );
+  CREATE INDEX messages_by_conversation ON messages (conversation_id, sent_at);
+  `,
+  // 6: end-to-end encryption. Devices hold the public half of each
+  // browser's key pair; messages become envelopes the server cannot read.
+  // Messages sent in plain text before this are dropped, not kept.
+  `
+  CREATE TABLE devices (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    revoked_at INTEGER,
+    revoke_reason TEXT
+  );
+  CREATE INDEX devices_by_user ON devices (user_id);
+  DROP TABLE messages;
+  CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    sender_device_id TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    envelope TEXT NOT NULL,
+    sent_at INTEGER NOT NULL
+  );
+  CREATE INDEX messages_by_conversation ON messages (conversation_id, sent_at);
+  `,
+  // 7: city forums, one per city and level, and the moderator role. The
+  // \`search\` columns hold accent-free lower-case text to match queries on.
+  `
+  ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'member';
+  CREATE TABLE forum_threads (
+    id TEXT PRIMARY KEY,
+    city TEXT NOT NULL,
+    level TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    locked INTEGER NOT NULL DEFAULT 0,
+    hidden_at INTEGER,
+    search TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_post_at INTEGER NOT NULL
+  );
+  CREATE INDEX forum_threads_by_forum ON forum_threads (city, level, last_post_at);
+  CREATE TABLE forum_posts (
+    id TEXT PRIMARY KEY,
+    thread_id TEXT NOT NULL REFERENCES forum_threads(id) ON DELETE CASCADE,
+    author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    route TEXT,
+    hidden_at INTEGER,
+    search TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX forum_posts_by_thread ON forum_posts (thread_id, created_at);
+  CREATE TABLE forum_reactions (
+    post_id TEXT NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reaction TEXT NOT NULL,
+    PRIMARY KEY (post_id, user_id, reaction)
+  );
+  CREATE TABLE forum_reports (
+    post_id TEXT NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    resolved_at INTEGER,
+    PRIMARY KEY (post_id, user_id)
+  );
+  `,
+  // 8: group runs, their RSVPs and the positions shared on the day.
+  `
+  CREATE TABLE group_runs (
+    id TEXT PRIMARY KEY,
+    organizer_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    route TEXT NOT NULL,
+    meeting_label TEXT NOT NULL,
+    meeting_lng REAL NOT NULL,
+    meeting_lat REAL NOT NULL,
+    starts_at INTEGER NOT NULL,
+    time_zone TEXT NOT NULL,
+    pace REAL NOT NULL,
+    capacity INTEGER NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE,
+    cancelled_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE group_run_rsvps (
+    run_id TEXT NOT NULL REFERENCES group_runs(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (run_id, user_id)
+  );
+  CREATE INDEX group_run_rsvps_by_user ON group_run_rsvps (user_id);
+  CREATE TABLE group_run_positions (
+    run_id TEXT NOT NULL REFERENCES group_runs(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    lng REAL NOT NULL,
+    lat REAL NOT NULL,
+    accuracy_m REAL NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (run_id, user_id)
+  );
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  for (let v = version; v < migrations.length; v += 1) {
+    db.transaction(() => {
+      db.exec(migrations[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+}
+
+/** File location; `HIKEUP_DB_PATH=:memory:` gives a throwaway database. */
+const databasePath = () =>
+  process.env.HIKEUP_DB_PATH ??
+  path.join(process.cwd(), ".data", "hikeup.sqlite");
+
+// Kept on globalThis so dev-server reloads reuse one connection.
+const globalForDb = globalThis as { hikeupDb?: Database.Database };
+
+export function getDatabase(): Database.Database {
+  if (!globalForDb.hikeupDb) {
+    const file = databasePath();
+    if (file !== ":memory:") mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    migrate(db);
+    globalForDb.hikeupDb = db;
+  }
+  return globalForDb.hikeupDb;
+}
@@ -0,0 +1,95 @@
+import type { GroupRunEvent } from "@/lib/group-runs/types";
+import type { ChatEvent } from "@/lib/messaging/types";
+
+// Proxies drop idle connections; a comment line every so often keeps it open.
+const KEEP_ALIVE_MS = 25_000;
+const RETRY_MS = 3_000;
+
+export type EventHub<E> = {
+  subscribe: (userId: string, listener: (event: E) => void) => () => void;
+  publish: (userIds: string[], event: E) => void;
+  /** A server-sent event stream of `userId`'s events, open until the browser goes away. */
+  stream: (request: Request, userId: string) => Response;
+};
+
+// Every open stream, by hub and user. Kept on globalThis so dev-server
+// reloads share it; a single server process is assumed, so several
+// instances behind a load balancer would need a broker in between.
+const globalForEvents = globalThis as {
+  hikeupListeners?: Map<string, Map<string, Set<(event: unknown) => void>>>;
+};
+
+/** Per-user fan-out of one kind of event, named by `key`. */
+export function createEventHub<E>(key: string): EventHub<E> {
+  type Listener = (event: E) => void;
+  const listeners = () => {
+    globalForEvents.hikeupListeners ??= new Map();
+    const hubs = globalForEvents.hikeupListeners;
+    if (!hubs.has(key)) hubs.set(key, new Map());
+    return hubs.get(key) as Map<string, Set<Listener>>;
+  };
+
+  const subscribe = (userId: string, listener: Listener) => {
+    const all = listeners();
+    const mine = all.get(userId) ?? new Set();
+    mine.add(listener);
+    all.set(userId, mine);
+    return () => {
+      mine.delete(listener);
+      if (!mine.size) all.delete(userId);
+    };
+  };
+
+  return {
+    subscribe,
+    publish(userIds, event) {
+      for (const userId of userIds) {
+        for (const listener of listeners().get(userId) ?? []) listener(event);
+      }
+    },
+    stream(request, userId) {
+      const encoder = new TextEncoder();
+      let closed = false;
+      let close = () => {};
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (chunk: string) => {
+            if (!closed) controller.enqueue(encoder.encode(chunk));
+          };
+          send(`retry: ${RETRY_MS}\n\n`);
+          const unsubscribe = subscribe(userId, (event) =>
+            send(`data: ${JSON.stringify(event)}\n\n`),
+          );
+          const keepAlive = setInterval(
+            () => send(": ping\n\n"),
+            KEEP_ALIVE_MS,
+          );
+          close = () => {
+            if (closed) return;
+            closed = true;
+            clearInterval(keepAlive);
+            unsubscribe();
+          };
+          request.signal.addEventListener("abort", () => {
+            if (closed) return;
+            close();
+            controller.close();
+          });
+        },
+        cancel() {
+          close();
+        },
+      });
+      return new Response(body, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+        },
+      });
+    },
+  };
+}
+
+export const chatEvents = createEventHub<ChatEvent>("chat");
+export const groupRunEvents = createEventHub<GroupRunEvent>("group-runs");
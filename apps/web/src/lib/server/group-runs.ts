@@ -0,0 +1,124 @@
+import { after } from "next/server";
+import {
+  formatStart,
+  inviteUrl,
+  isAttending,
+} from "@/lib/group-runs/group-runs";
+import type { GroupRun } from "@/lib/group-runs/types";
+import { groupRunEvents } from "./events";
+import { ApiError, notFound } from "./http";
+import { getMailTransport } from "./mail";
+import { appOrigin } from "./origin";
+import { findGroupRun, groupRunRecipients } from "./store";
+
+/** The run, if the user RSVP'd to it; to anyone else it does not exist. */
+export function attendedRun(runId: string, userId: string): GroupRun {
+  const run = findGroupRun(runId);
+  if (!run || !isAttending(run, userId)) throw notFound("La salida");
+  return run;
+}
+
+/** The run, if the user organises it and it still goes ahead. */
+export function organizedRun(runId: string, userId: string): GroupRun {
+  const run = attendedRun(runId, userId);
+  if (run.organizer.id !== userId) {
+    throw new ApiError(
+      403,
+      "forbidden",
+      "Solo quien organiza la salida puede cambiarla.",
+    );
+  }
+  if (run.cancelledAt !== null) {
+    throw new ApiError(409, "conflict", "La salida ya está cancelada.");
+  }
+  return run;
+}
+
+/** Starts must be ahead, or nobody could make it. */
+export function assertUpcoming(startsAt: number) {
+  if (startsAt <= Date.now()) {
+    throw new ApiError(
+      400,
+      "bad_request",
+      "La hora de salida tiene que ser en el futuro.",
+    );
+  }
+}
+
+export type GroupRunNotice =
+  | { kind: "moved"; before: GroupRun }
+  | { kind: "cancelled" };
+
+const sameMeetingPoint = (a: GroupRun, b: GroupRun) =>
+  a.meetingPoint.label === b.meetingPoint.label &&
+  a.meetingPoint.lng === b.meetingPoint.lng &&
+  a.meetingPoint.lat === b.meetingPoint.lat;
+
+function noticeText(run: GroupRun, notice: GroupRunNotice, link: string) {
+  if (notice.kind === "cancelled") {
+    return {
+      subject: `Cancelada: ${run.title}`,
+      lines: [
+        `${run.organizer.displayName} canceló «${run.title}», prevista para el ${formatStart(run)} en ${run.meetingPoint.label}.`,
+      ],
+    };
+  }
+  const { before } = notice;
+  const lines = [`${run.organizer.displayName} cambió «${run.title}».`, ""];
+  if (before.startsAt !== run.startsAt) {
+    lines.push(`Antes: ${formatStart(before)}`, `Ahora: ${formatStart(run)}`);
+  }
+  if (!sameMeetingPoint(before, run)) {
+    lines.push(
+      `Punto de encuentro antes: ${before.meetingPoint.label}`,
+      `Punto de encuentro ahora: ${run.meetingPoint.label}`,
+    );
+  }
+  lines.push("", `Los detalles y el calendario actualizado, aquí: ${link}`);
+  return { subject: `Cambio en ${run.title}`, lines };
+}
+
+/**
+ * Tells everyone who RSVP'd, the organiser aside, that the run moved or was
+ * cancelled: by email, and live to anyone with HikeUp open. A move that
+ * changed nothing tells nobody. Emails go out once the response is sent,
+ * so the organiser never waits on them; a failed one is logged, since the
+ * change itself is already saved.
+ */
+export function notifyGroupRun(run: GroupRun, notice: GroupRunNotice) {
+  if (
+    notice.kind === "moved" &&
+    notice.before.startsAt === run.startsAt &&
+    sameMeetingPoint(notice.before, run)
+  ) {
+    return;
+  }
+  groupRunEvents.publish(
+    run.attendees.map((attendee) => attendee.id),
+    { type: "updated", run },
+  );
+  const { subject, lines } = noticeText(
+    run,
+    notice,
+    inviteUrl(appOrigin(), run.inviteCode),
+  );
+  const recipients = groupRunRecipients(run.id).filter(
+    (recipient) => recipient.id !== run.organizer.id,
+  );
+  after(async () => {
+    const results = await Promise.allSettled(
+      recipients.map((recipient) =>
+        getMailTransport().send({
+          to: recipient.email,
+          subject,
+          text: [`Hola, ${recipient.displayName}:`, "", ...lines].join("\n"),
+        }),
+      ),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error("Group run notice failed", result.reason);
+      }
+    }
+  });
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { ApiErrorBody, ApiErrorCode } from "@/lib/api/types";
+
+/** Raised inside handlers to answer with an error body. The message is user-facing. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly issues?: ApiErrorBody["error"]["issues"];
+
+  constructor(
+    status: number,
+    code: ApiErrorCode,
+    message: string,
+    issues?: ApiErrorBody["error"]["issues"],
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+export const notFound = (what: string) =>
+  new ApiError(404, "not_found", `${what} no existe.`);
+
+/** Parses the JSON body against `schema`, or throws a 400. */
+export async function readBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<z.infer<T>> {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    throw new ApiError(400, "bad_request", "El cuerpo no es JSON válido.");
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new ApiError(
+      400,
+      "invalid_body",
+      "Los datos enviados no son válidos.",
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Wraps a route handler so thrown `ApiError`s, and anything unexpected,
+ * become a JSON error body with the right status.
+ */
+export function handler<Args extends unknown[]>(
+  fn: (...args: Args) => Promise<Response> | Response,
+): (...args: Args) => Promise<Response> {
+  return async (...args) => {
+    try {
+      return await fn(...args);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return NextResponse.json<ApiErrorBody>(
+          {
+            error: {
+              code: error.code,
+              message: error.message,
+              ...(error.issues ? { issues: error.issues } : {}),
+            },
+          },
+          { status: error.status },
+        );
+      }
+      console.error("API handler failed", error);
+      return NextResponse.json<ApiErrorBody>(
+        {
+          error: {
+            code: "internal",
+            message: "Algo salió mal en el servidor.",
+          },
+        },
+        { status: 500 },
+      );
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { getDatabase } from "./db";
+import { getMailTransport } from "./mail";
+import { hashToken, newToken } from "./tokens";
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/** Emails a one-time sign-in link for `email`, valid for 15 minutes. */
+export async function sendMagicLink(email: string, origin: string) {
+  const token = newToken();
+  const now = Date.now();
+  const db = getDatabase();
+  db.prepare("DELETE FROM magic_links WHERE expires_at <= ?").run(now);
+  db.prepare(
+    "INSERT INTO magic_links (token_hash, email, expires_at) VALUES (?, ?, ?)",
+  ).run(hashToken(token), email, now + MAGIC_LINK_TTL_MS);
+
+  const link = new URL("/api/auth/magic-link/verify", origin);
+  link.searchParams.set("token", token);
+  await getMailTransport().send({
+    to: email,
+    subject: "Tu enlace para entrar a HikeUp",
+    text: [
+      "Hola,",
+      "",
+      "Abre este enlace para entrar a HikeUp. Caduca en 15 minutos y solo sirve una vez:",
+      link.toString(),
+      "",
+      "Si no lo pediste, ignora este correo.",
+    ].join("\n"),
+  });
+}
+
+/** Spends a magic-link token; returns its email, or null if unusable. */
+export function consumeMagicLink(token: string): string | null {
+  const db = getDatabase();
+  const row = db
+    .prepare<[string, number], { email: string }>(
+      "SELECT email FROM magic_links WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?",
+    )
+    .get(hashToken(token), Date.now());
+  if (!row) return null;
+  db.prepare("UPDATE magic_links SET used_at = ? WHERE token_hash = ?").run(
+    Date.now(),
+    hashToken(token),
+  );
+  return row.email;
+}
@@ -0,0 +1,69 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/**
+ * Sends email. Production plugs in a real provider; development uses the
+ * console or file stand-ins below.
+ */
+export type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send({ to, subject, text }) {
+      console.info(`[mail] Para: ${to}\n[mail] Asunto: ${subject}\n${text}`);
+    },
+  };
+}
+
+/** Writes every message as an .eml file under `dir`, to open by hand. */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send({ to, subject, text }) {
+      await mkdir(dir, { recursive: true });
+      const file = path.join(
+        dir,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}.eml`,
+      );
+      await writeFile(
+        file,
+        [
+          `To: ${to}`,
+          `Subject: ${subject}`,
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          text,
+        ].join("\r\n"),
+      );
+      console.info(`[mail] ${subject} → ${to} (${file})`);
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/** Replaces the transport, e.g. with a provider's SDK at startup. */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+/** `MAIL_TRANSPORT=console|file`; defaults to files under `.data/mail`. */
+export function getMailTransport(): MailTransport {
+  transport ??=
+    process.env.MAIL_TRANSPORT === "console"
+      ? createConsoleTransport()
+      : createFileTransport(
+          process.env.MAIL_DIR ?? path.join(process.cwd(), ".data", "mail"),
+        );
+  return transport;
+}
@@ -0,0 +1,14 @@
+// Links that leave the app, in emails above all, are built from `APP_URL`
+// and never from the request: its Host header is whatever the caller sent.
+
+const DEV_ORIGIN = `http://localhost:${process.env.PORT ?? 3000}`;
+
+/** The public origin, like `https://hikeup.app`; `APP_URL` is required in production. */
+export function appOrigin(): string {
+  const configured = process.env.APP_URL?.trim();
+  if (configured) return new URL(configured).origin;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL is not set; links in emails need it.");
+  }
+  return DEV_ORIGIN;
+}
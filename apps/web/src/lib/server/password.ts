@@ -0,0 +1,66 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+// scrypt cost parameters, stored with each hash so they can be raised later.
+const N = 16_384;
+const R = 8;
+const P = 1;
+const KEY_LENGTH = 64;
+
+function derive(
+  password: string,
+  salt: Buffer,
+  n: number,
+  r: number,
+  p: number,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize("NFKC"),
+      salt,
+      KEY_LENGTH,
+      { N: n, r, p },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
+
+/** `scrypt$N$r$p$salt$hash`, salt and hash in base64url. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, N, R, P);
+  return [
+    "scrypt",
+    N,
+    R,
+    P,
+    salt.toString("base64url"),
+    key.toString("base64url"),
+  ].join("$");
+}
+
+// Checked against when there is no hash, so a missing account or password
+// takes as long to reject as a wrong one. No password matches it.
+const DUMMY_HASH =
+  "scrypt$16384$8$1$mSSe45Wq3w1CXuctqbOjsg$g2OeKbZQnVanLCLrcml8YRFplY_bXh34kOv5RKGjQydLkJOBjSbWPXvHsT5dTjeg0T4rdEXTewqdAOgOGZqLaw";
+
+/** Always runs scrypt; with no `stored` hash the answer is always false. */
+export async function verifyPassword(
+  password: string,
+  stored: string | null | undefined,
+): Promise<boolean> {
+  if (stored == null) {
+    await verifyPassword(password, DUMMY_HASH);
+    return false;
+  }
+  const [scheme, n, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const key = await derive(
+    password,
+    Buffer.from(salt, "base64url"),
+    Number(n),
+    Number(r),
+    Number(p),
+  );
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,51 @@
+import { ApiError } from "./http";
+
+export type RateLimiter = {
+  /** Counts one hit for `key`, or throws a 429 when it is over the limit. */
+  hit: (key: string) => void;
+};
+
+// Hit times by limiter and key. Kept on globalThis so dev-server reloads
+// share them; like the event hubs, a single server process is assumed.
+const globalForLimits = globalThis as {
+  hikeupRateLimits?: Map<string, Map<string, number[]>>;
+};
+
+/** At most `limit` hits per key within any `windowMs`, counted under `name`. */
+export function createRateLimiter(
+  name: string,
+  { limit, windowMs }: { limit: number; windowMs: number },
+): RateLimiter {
+  const hits = () => {
+    globalForLimits.hikeupRateLimits ??= new Map();
+    const all = globalForLimits.hikeupRateLimits;
+    if (!all.has(name)) all.set(name, new Map());
+    return all.get(name) as Map<string, number[]>;
+  };
+
+  return {
+    hit(key) {
+      const now = Date.now();
+      const byKey = hits();
+      // Expired keys go too, so the map does not grow with every caller.
+      for (const [other, times] of byKey) {
+        if (times[times.length - 1] <= now - windowMs) byKey.delete(other);
+      }
+      const recent = (byKey.get(key) ?? []).filter((at) => at > now - windowMs);
+      if (recent.length >= limit) {
+        throw new ApiError(
+          429,
+          "rate_limited",
+          "Demasiados intentos. Espera unos minutos y vuelve a probar.",
+        );
+      }
+      byKey.set(key, [...recent, now]);
+    },
+  };
+}
+
+/** The caller's address as the proxy reports it; "unknown" without one. */
+export function clientAddress(request: Request): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0];
+  return forwarded?.trim() || request.headers.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,88 @@
+import type { NextResponse } from "next/server";
+import { getDatabase } from "./db";
+import { ApiError } from "./http";
+import { type ForumViewer, findUser } from "./store";
+import { hashToken, newToken } from "./tokens";
+
+export const SESSION_COOKIE = "hikeup_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function readCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/** The signed-in user behind the request's session cookie, if any. */
+export function sessionUserId(request: Request): string | null {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+  const row = getDatabase()
+    .prepare<[string, number], { user_id: string }>(
+      "SELECT user_id FROM sessions WHERE token_hash = ? AND expires_at > ?",
+    )
+    .get(hashToken(token), Date.now());
+  return row?.user_id ?? null;
+}
+
+/** The user a request acts for; a 401 when nobody is signed in. */
+export function requestUserId(request: Request): string {
+  const userId = sessionUserId(request);
+  if (!userId) {
+    throw new ApiError(
+      401,
+      "unauthorized",
+      "Inicia sesión para guardar tus rutas y actividades.",
+    );
+  }
+  return userId;
+}
+
+/** The signed-in user as a forum reader, and whether they moderate. */
+export function requestViewer(request: Request): ForumViewer {
+  const id = requestUserId(request);
+  return { id, moderator: findUser(id)?.role === "moderator" };
+}
+
+/** Like `requestViewer`, but a 403 for anyone who does not moderate. */
+export function requestModerator(request: Request): ForumViewer {
+  const viewer = requestViewer(request);
+  if (!viewer.moderator) {
+    throw new ApiError(
+      403,
+      "forbidden",
+      "Solo los moderadores pueden hacer esto.",
+    );
+  }
+  return viewer;
+}
+
+/** Opens a session for `userId` and sets its cookie on `response`. */
+export function startSession(response: NextResponse, userId: string) {
+  const token = newToken();
+  const now = Date.now();
+  const db = getDatabase();
+  db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now);
+  db.prepare(
+    "INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)",
+  ).run(hashToken(token), userId, now, now + SESSION_TTL_MS);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function endSession(request: Request, response: NextResponse) {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (token) {
+    getDatabase()
+      .prepare("DELETE FROM sessions WHERE token_hash = ?")
+      .run(hashToken(token));
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
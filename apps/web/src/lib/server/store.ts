@@ -0,0 +1,1244 @@
+import { randomUUID } from "node:crypto";
+import type { Activity } from "@/lib/activity/recorder";
+import { reactionMeta } from "@/lib/forums/forums";
+import type {
+  ForumPost,
+  ForumReport,
+  ForumThread,
+  PostInput,
+  Reaction,
+  ThreadInput,
+  ThreadPage,
+  ThreadPatch,
+  ThreadQuery,
+} from "@/lib/forums/types";
+import { normalizeText } from "@/lib/geocoding/gazetteer";
+import { POSITION_STALE_MS } from "@/lib/group-runs/group-runs";
+import type {
+  CrewPosition,
+  GroupRun,
+  GroupRunChange,
+  GroupRunInput,
+  Participant,
+  PositionInput,
+} from "@/lib/group-runs/types";
+import type {
+  ChatMember,
+  ChatMessage,
+  ConversationSummary,
+  Device,
+  DeviceRevokeReason,
+  MessageInput,
+} from "@/lib/messaging/types";
+import type { Mode } from "@/lib/modes";
+import { defaultPreferences } from "@/lib/storage/repository";
+import type {
+  Language,
+  ProfilePatch,
+  RoutineItem,
+  SavedRoute,
+  Units,
+  UserProfile,
+} from "@/lib/storage/types";
+import type { TrainingPlan } from "@/lib/training/types";
+import { getDatabase } from "./db";
+import { newInviteCode } from "./tokens";
+
+// Data access for the API handlers. Every function is scoped to one user.
+
+type UserRow = {
+  id: string;
+  email: string | null;
+  password_hash: string | null;
+  display_name: string;
+  city: string | null;
+  units: string;
+  language: string;
+  default_mode: string;
+  target_pace: number | null;
+  recent_race: string | null;
+  max_hr: number | null;
+  lthr: number | null;
+  preferences: string;
+  role: string;
+  created_at: number;
+  updated_at: number;
+};
+
+/**
+ * Accounts whose email is in `HIKEUP_MODERATORS` (comma-separated) moderate
+ * on top of those with the role in the database, so a new install can name
+ * its first moderators.
+ */
+const moderatorEmails = () =>
+  (process.env.HIKEUP_MODERATORS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+const toProfile = (row: UserRow): UserProfile => ({
+  id: row.id,
+  email: row.email,
+  displayName: row.display_name,
+  city: row.city as UserProfile["city"],
+  role:
+    row.role === "moderator" ||
+    (row.email !== null && moderatorEmails().includes(row.email))
+      ? "moderator"
+      : "member",
+  units: row.units as Units,
+  language: row.language as Language,
+  defaultMode: row.default_mode as Mode,
+  targetPaceMinPerKm: row.target_pace,
+  recentRace: row.recent_race ? JSON.parse(row.recent_race) : null,
+  maxHr: row.max_hr,
+  lthr: row.lthr,
+  // Until the user switches mode on /plan, it opens in their default.
+  preferences: {
+    ...defaultPreferences,
+    mode: row.default_mode as Mode,
+    ...JSON.parse(row.preferences),
+  },
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export function findUser(userId: string): UserProfile | null {
+  const row = getDatabase()
+    .prepare<[string], UserRow>("SELECT * FROM users WHERE id = ?")
+    .get(userId);
+  return row ? toProfile(row) : null;
+}
+
+/** The user with this (normalised) email and their password hash, if any. */
+export function findUserByEmail(
+  email: string,
+): { profile: UserProfile; passwordHash: string | null } | null {
+  const row = getDatabase()
+    .prepare<[string], UserRow>("SELECT * FROM users WHERE email = ?")
+    .get(email);
+  return row
+    ? { profile: toProfile(row), passwordHash: row.password_hash }
+    : null;
+}
+
+export function createUser({
+  email,
+  passwordHash = null,
+  displayName,
+}: {
+  email: string;
+  passwordHash?: string | null;
+  displayName: string;
+}): UserProfile {
+  const id = randomUUID();
+  const now = Date.now();
+  getDatabase()
+    .prepare(
+      "INSERT INTO users (id, email, password_hash, display_name, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)",
+    )
+    .run(id, email, passwordHash, displayName, now, now);
+  return findUser(id) as UserProfile;
+}
+
+export function setPasswordHash(userId: string, passwordHash: string) {
+  getDatabase()
+    .prepare("UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?")
+    .run(passwordHash, Date.now(), userId);
+}
+
+export function updateProfile(
+  userId: string,
+  { preferences, ...fields }: ProfilePatch,
+): UserProfile | null {
+  const current = findUser(userId);
+  if (!current) return null;
+  const next: UserProfile = {
+    ...current,
+    ...Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined),
+    ),
+    preferences: {
+      ...current.preferences,
+      // A new default mode takes effect on the next visit to /plan.
+      ...(fields.defaultMode ? { mode: fields.defaultMode } : {}),
+      ...preferences,
+    },
+    updatedAt: Date.now(),
+  };
+  getDatabase()
+    .prepare(
+      `UPDATE users SET display_name = ?, city = ?, units = ?, language = ?,
+        default_mode = ?, target_pace = ?, recent_race = ?, max_hr = ?,
+        lthr = ?, preferences = ?, updated_at = ?
+       WHERE id = ?`,
+    )
+    .run(
+      next.displayName,
+      next.city,
+      next.units,
+      next.language,
+      next.defaultMode,
+      next.targetPaceMinPerKm,
+      next.recentRace ? JSON.stringify(next.recentRace) : null,
+      next.maxHr,
+      next.lthr,
+      JSON.stringify(next.preferences),
+      next.updatedAt,
+      userId,
+    );
+  return next;
+}
+
+export function listRoutes(userId: string): SavedRoute[] {
+  return getDatabase()
+    .prepare<[string], { data: string }>(
+      "SELECT data FROM routes WHERE user_id = ? ORDER BY saved_at",
+    )
+    .all(userId)
+    .map((row) => JSON.parse(row.data));
+}
+
+export function findRoute(userId: string, id: string): SavedRoute | null {
+  const row = getDatabase()
+    .prepare<[string, string], { data: string }>(
+      "SELECT data FROM routes WHERE user_id = ? AND id = ?",
+    )
+    .get(userId, id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+/** Inserts or replaces; returns whether the route is new. */
+export function saveRoute(userId: string, route: SavedRoute): boolean {
+  const existed = findRoute(userId, route.id) !== null;
+  getDatabase()
+    .prepare(
+      "INSERT OR REPLACE INTO routes (user_id, id, data, saved_at) VALUES (?, ?, ?, ?)",
+    )
+    .run(userId, route.id, JSON.stringify(route), route.savedAt);
+  return !existed;
+}
+
+export function deleteRoute(userId: string, id: string): boolean {
+  return (
+    getDatabase()
+      .prepare("DELETE FROM routes WHERE user_id = ? AND id = ?")
+      .run(userId, id).changes > 0
+  );
+}
+
+export function listFavorites(userId: string): string[] {
+  return getDatabase()
+    .prepare<[string], { route_id: string }>(
+      "SELECT route_id FROM favorites WHERE user_id = ?",
+    )
+    .all(userId)
+    .map((row) => row.route_id);
+}
+
+export function setFavorite(
+  userId: string,
+  routeId: string,
+  favorite: boolean,
+) {
+  const db = getDatabase();
+  if (favorite) {
+    db.prepare(
+      "INSERT OR IGNORE INTO favorites (user_id, route_id) VALUES (?, ?)",
+    ).run(userId, routeId);
+  } else {
+    db.prepare("DELETE FROM favorites WHERE user_id = ? AND route_id = ?").run(
+      userId,
+      routeId,
+    );
+  }
+}
+
+export function findRoutine(userId: string, id: string): RoutineItem[] | null {
+  const row = getDatabase()
+    .prepare<[string, string], { items: string }>(
+      "SELECT items FROM routines WHERE user_id = ? AND id = ?",
+    )
+    .get(userId, id);
+  return row ? JSON.parse(row.items) : null;
+}
+
+export function saveRoutine(userId: string, id: string, items: RoutineItem[]) {
+  getDatabase()
+    .prepare(
+      "INSERT OR REPLACE INTO routines (user_id, id, items, updated_at) VALUES (?, ?, ?, ?)",
+    )
+    .run(userId, id, JSON.stringify(items), Date.now());
+}
+
+export function listActivities(userId: string): Activity[] {
+  return getDatabase()
+    .prepare<[string], { data: string }>(
+      "SELECT data FROM activities WHERE user_id = ? ORDER BY started_at DESC",
+    )
+    .all(userId)
+    .map((row) => JSON.parse(row.data));
+}
+
+export function findActivity(userId: string, id: string): Activity | null {
+  const row = getDatabase()
+    .prepare<[string, string], { data: string }>(
+      "SELECT data FROM activities WHERE user_id = ? AND id = ?",
+    )
+    .get(userId, id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+/** Inserts or replaces; returns whether the activity is new. */
+export function saveActivity(userId: string, activity: Activity): boolean {
+  const existed = findActivity(userId, activity.id) !== null;
+  getDatabase()
+    .prepare(
+      "INSERT OR REPLACE INTO activities (user_id, id, data, started_at) VALUES (?, ?, ?, ?)",
+    )
+    .run(userId, activity.id, JSON.stringify(activity), activity.startedAt);
+  return !existed;
+}
+
+export function deleteActivity(userId: string, id: string): boolean {
+  return (
+    getDatabase()
+      .prepare("DELETE FROM activities WHERE user_id = ? AND id = ?")
+      .run(userId, id).changes > 0
+  );
+}
+
+export function findTrainingPlan(userId: string): TrainingPlan | null {
+  const row = getDatabase()
+    .prepare<[string], { plan: string }>(
+      "SELECT plan FROM training_plans WHERE user_id = ?",
+    )
+    .get(userId);
+  return row ? JSON.parse(row.plan) : null;
+}
+
+export function saveTrainingPlan(userId: string, plan: TrainingPlan) {
+  getDatabase()
+    .prepare(
+      "INSERT OR REPLACE INTO training_plans (user_id, plan, updated_at) VALUES (?, ?, ?)",
+    )
+    .run(userId, JSON.stringify(plan), Date.now());
+}
+
+export function deleteTrainingPlan(userId: string): boolean {
+  return (
+    getDatabase()
+      .prepare("DELETE FROM training_plans WHERE user_id = ?")
+      .run(userId).changes > 0
+  );
+}
+
+type MessageRow = {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_device_id: string;
+  envelope: string;
+  sent_at: number;
+};
+
+const toMessage = (row: MessageRow): ChatMessage => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderId: row.sender_id,
+  senderDeviceId: row.sender_device_id,
+  envelope: JSON.parse(row.envelope),
+  sentAt: row.sent_at,
+});
+
+function conversationMembers(conversationId: string): ChatMember[] {
+  return getDatabase()
+    .prepare<[string], { id: string; display_name: string }>(
+      `SELECT users.id, users.display_name FROM conversation_members
+       JOIN users ON users.id = conversation_members.user_id
+       WHERE conversation_id = ? ORDER BY joined_at, users.display_name`,
+    )
+    .all(conversationId)
+    .map((row) => ({ id: row.id, displayName: row.display_name }));
+}
+
+/** Ids of everyone in the conversation, or null when `userId` is not in it. */
+export function conversationMemberIds(
+  userId: string,
+  conversationId: string,
+): string[] | null {
+  const ids = conversationMembers(conversationId).map((member) => member.id);
+  return ids.includes(userId) ? ids : null;
+}
+
+/** The one-to-one conversation between two users, if they have one. */
+function findDirectConversation(
+  userId: string,
+  otherId: string,
+): string | null {
+  const row = getDatabase()
+    .prepare<[string, string], { id: string }>(
+      `SELECT conversations.id FROM conversations
+       JOIN conversation_members mine ON mine.conversation_id = conversations.id AND mine.user_id = ?
+       JOIN conversation_members theirs ON theirs.conversation_id = conversations.id AND theirs.user_id = ?
+       WHERE (SELECT COUNT(*) FROM conversation_members all_members
+              WHERE all_members.conversation_id = conversations.id) = 2`,
+    )
+    .get(userId, otherId);
+  return row?.id ?? null;
+}
+
+/**
+ * Starts a conversation between `userId` and `memberIds`; two people who
+ * already talk one-to-one get their existing conversation back.
+ */
+export function createConversation(
+  userId: string,
+  memberIds: string[],
+  title: string | null,
+): { id: string; created: boolean } {
+  const others = [...new Set(memberIds)].filter((id) => id !== userId);
+  if (others.length === 1) {
+    const existing = findDirectConversation(userId, others[0]);
+    if (existing) return { id: existing, created: false };
+  }
+  const id = randomUUID();
+  const now = Date.now();
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      "INSERT INTO conversations (id, title, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?)",
+    ).run(id, others.length > 1 ? title : null, userId, now, now);
+    const join = db.prepare(
+      "INSERT INTO conversation_members (conversation_id, user_id, joined_at, last_read_at) VALUES (?, ?, ?, ?)",
+    );
+    for (const memberId of [userId, ...others])
+      join.run(id, memberId, now, now);
+  })();
+  return { id, created: true };
+}
+
+/** `userId`'s conversations, most recent activity first. */
+export function listConversations(userId: string): ConversationSummary[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare<
+      [string, string],
+      {
+        id: string;
+        title: string | null;
+        created_at: number;
+        updated_at: number;
+        unread: number;
+      }
+    >(
+      `SELECT conversations.id, conversations.title, conversations.created_at,
+        conversations.updated_at,
+        (SELECT COUNT(*) FROM messages
+         WHERE messages.conversation_id = conversations.id
+           AND messages.sender_id != ?
+           AND messages.sent_at > conversation_members.last_read_at) AS unread
+       FROM conversations
+       JOIN conversation_members ON conversation_members.conversation_id = conversations.id
+       WHERE conversation_members.user_id = ?
+       ORDER BY conversations.updated_at DESC`,
+    )
+    .all(userId, userId);
+  const last = db.prepare<[string], MessageRow>(
+    "SELECT * FROM messages WHERE conversation_id = ? ORDER BY sent_at DESC LIMIT 1",
+  );
+  return rows.map((row) => {
+    const message = last.get(row.id);
+    return {
+      id: row.id,
+      title: row.title,
+      members: conversationMembers(row.id),
+      lastMessage: message ? toMessage(message) : null,
+      unread: row.unread,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  });
+}
+
+/** A page of messages, oldest first, sent before `before` when given. */
+export function listMessages(
+  conversationId: string,
+  { before, limit }: { before?: number; limit: number },
+): ChatMessage[] {
+  return getDatabase()
+    .prepare<[string, number, number], MessageRow>(
+      `SELECT * FROM messages WHERE conversation_id = ? AND sent_at < ?
+       ORDER BY sent_at DESC LIMIT ?`,
+    )
+    .all(conversationId, before ?? Number.MAX_SAFE_INTEGER, limit)
+    .map(toMessage)
+    .reverse();
+}
+
+/** Stores an envelope as it came; the server never sees inside it. */
+export function addMessage(
+  userId: string,
+  conversationId: string,
+  { senderDeviceId, envelope }: MessageInput,
+): ChatMessage {
+  const message: ChatMessage = {
+    id: randomUUID(),
+    conversationId,
+    senderId: userId,
+    senderDeviceId,
+    envelope,
+    sentAt: Date.now(),
+  };
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      "INSERT INTO messages (id, conversation_id, sender_id, sender_device_id, envelope, sent_at) VALUES (?, ?, ?, ?, ?, ?)",
+    ).run(
+      message.id,
+      conversationId,
+      userId,
+      senderDeviceId,
+      JSON.stringify(envelope),
+      message.sentAt,
+    );
+    db.prepare("UPDATE conversations SET updated_at = ? WHERE id = ?").run(
+      message.sentAt,
+      conversationId,
+    );
+    // Sending a message means having read everything before it.
+    db.prepare(
+      "UPDATE conversation_members SET last_read_at = ? WHERE conversation_id = ? AND user_id = ?",
+    ).run(message.sentAt, conversationId, userId);
+  })();
+  return message;
+}
+
+export function markConversationRead(
+  userId: string,
+  conversationId: string,
+  readAt: number,
+) {
+  getDatabase()
+    .prepare(
+      "UPDATE conversation_members SET last_read_at = MAX(last_read_at, ?) WHERE conversation_id = ? AND user_id = ?",
+    )
+    .run(readAt, conversationId, userId);
+}
+
+type DeviceRow = {
+  id: string;
+  user_id: string;
+  label: string;
+  public_key: string;
+  created_at: number;
+  revoked_at: number | null;
+  revoke_reason: string | null;
+};
+
+const toDevice = (row: DeviceRow): Device => ({
+  id: row.id,
+  userId: row.user_id,
+  label: row.label,
+  publicKey: JSON.parse(row.public_key),
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+  revokeReason: row.revoke_reason as DeviceRevokeReason | null,
+});
+
+/** The user's devices, revoked ones included, oldest first. */
+export function listDevices(userId: string): Device[] {
+  return getDatabase()
+    .prepare<[string], DeviceRow>(
+      "SELECT * FROM devices WHERE user_id = ? ORDER BY created_at",
+    )
+    .all(userId)
+    .map(toDevice);
+}
+
+export function addDevice(
+  userId: string,
+  { label, publicKey }: { label: string; publicKey: JsonWebKey },
+): Device {
+  const device: Device = {
+    id: randomUUID(),
+    userId,
+    label,
+    publicKey,
+    createdAt: Date.now(),
+    revokedAt: null,
+    revokeReason: null,
+  };
+  getDatabase()
+    .prepare(
+      "INSERT INTO devices (id, user_id, label, public_key, created_at) VALUES (?, ?, ?, ?, ?)",
+    )
+    .run(device.id, userId, label, JSON.stringify(publicKey), device.createdAt);
+  return device;
+}
+
+/** Stops encrypting for the device; returns whether it was active. */
+export function revokeDevice(
+  userId: string,
+  id: string,
+  reason: DeviceRevokeReason,
+): boolean {
+  return (
+    getDatabase()
+      .prepare(
+        "UPDATE devices SET revoked_at = ?, revoke_reason = ? WHERE user_id = ? AND id = ? AND revoked_at IS NULL",
+      )
+      .run(Date.now(), reason, userId, id).changes > 0
+  );
+}
+
+/** Every device of the conversation's members, revoked ones included. */
+export function conversationDevices(conversationId: string): Device[] {
+  return getDatabase()
+    .prepare<[string], DeviceRow>(
+      `SELECT devices.* FROM devices
+       JOIN conversation_members ON conversation_members.user_id = devices.user_id
+       WHERE conversation_members.conversation_id = ?
+       ORDER BY devices.created_at`,
+    )
+    .all(conversationId)
+    .map(toDevice);
+}
+
+/** Everyone who shares a conversation with the user, the user included. */
+export function contactIds(userId: string): string[] {
+  const rows = getDatabase()
+    .prepare<[string], { user_id: string }>(
+      `SELECT DISTINCT others.user_id FROM conversation_members mine
+       JOIN conversation_members others ON others.conversation_id = mine.conversation_id
+       WHERE mine.user_id = ?`,
+    )
+    .all(userId);
+  return [...new Set([userId, ...rows.map((row) => row.user_id)])];
+}
+
+/** Who reads the forums: moderators also see what is hidden and reported. */
+export type ForumViewer = { id: string; moderator: boolean };
+
+type ThreadRow = {
+  id: string;
+  city: string;
+  level: string;
+  title: string;
+  author_id: string;
+  author_name: string;
+  pinned: number;
+  locked: number;
+  hidden_at: number | null;
+  replies: number;
+  created_at: number;
+  last_post_at: number;
+};
+
+// The opening post shares the thread's creation time; replies come later.
+const threadSelect = `SELECT forum_threads.*, users.display_name AS author_name,
+    (SELECT COUNT(*) FROM forum_posts
+     WHERE forum_posts.thread_id = forum_threads.id
+       AND forum_posts.hidden_at IS NULL
+       AND forum_posts.created_at > forum_threads.created_at) AS replies
+  FROM forum_threads JOIN users ON users.id = forum_threads.author_id`;
+
+const toThread = (row: ThreadRow): ForumThread => ({
+  id: row.id,
+  city: row.city as ForumThread["city"],
+  level: row.level as ForumThread["level"],
+  title: row.title,
+  author: { id: row.author_id, displayName: row.author_name },
+  pinned: row.pinned === 1,
+  locked: row.locked === 1,
+  hidden: row.hidden_at !== null,
+  replies: row.replies,
+  createdAt: row.created_at,
+  lastPostAt: row.last_post_at,
+});
+
+const pageCountOf = (total: number, pageSize: number) =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+/**
+ * A page of one city's threads, pinned first and then by latest post.
+ * `search` matches, accents aside, every word in the title or in a post.
+ */
+export function listThreads(
+  viewer: ForumViewer,
+  { city, level, search = "", page = 1 }: ThreadQuery,
+  pageSize: number,
+): ThreadPage {
+  const where = ["forum_threads.city = ?"];
+  const params: (string | number)[] = [city];
+  if (level) {
+    where.push("forum_threads.level = ?");
+    params.push(level);
+  }
+  if (!viewer.moderator) where.push("forum_threads.hidden_at IS NULL");
+  // Normalised text is only letters, digits and spaces: nothing to escape.
+  for (const word of normalizeText(search).split(" ").filter(Boolean)) {
+    where.push(
+      `(forum_threads.search LIKE ? OR EXISTS (
+         SELECT 1 FROM forum_posts
+         WHERE forum_posts.thread_id = forum_threads.id
+           AND forum_posts.hidden_at IS NULL AND forum_posts.search LIKE ?))`,
+    );
+    params.push(`%${word}%`, `%${word}%`);
+  }
+  const db = getDatabase();
+  const { total } = db
+    .prepare<(string | number)[], { total: number }>(
+      `SELECT COUNT(*) AS total FROM forum_threads WHERE ${where.join(" AND ")}`,
+    )
+    .get(...params) as { total: number };
+  const pageCount = pageCountOf(total, pageSize);
+  const current = Math.min(Math.max(1, Math.floor(page)), pageCount);
+  const threads = db
+    .prepare<(string | number)[], ThreadRow>(
+      `${threadSelect} WHERE ${where.join(" AND ")}
+       ORDER BY forum_threads.pinned DESC, forum_threads.last_post_at DESC
+       LIMIT ? OFFSET ?`,
+    )
+    .all(...params, pageSize, (current - 1) * pageSize)
+    .map(toThread);
+  return { threads, page: current, pageCount };
+}
+
+/** The thread, unless it is hidden and the viewer does not moderate. */
+export function findThread(
+  viewer: ForumViewer,
+  threadId: string,
+): ForumThread | null {
+  const row = getDatabase()
+    .prepare<[string], ThreadRow>(`${threadSelect} WHERE forum_threads.id = ?`)
+    .get(threadId);
+  if (!row || (row.hidden_at !== null && !viewer.moderator)) return null;
+  return toThread(row);
+}
+
+type PostRow = {
+  id: string;
+  thread_id: string;
+  author_id: string;
+  author_name: string;
+  body: string;
+  route: string | null;
+  hidden_at: number | null;
+  created_at: number;
+};
+
+const postSelect = `SELECT forum_posts.*, users.display_name AS author_name
+  FROM forum_posts JOIN users ON users.id = forum_posts.author_id`;
+
+function toPost(viewer: ForumViewer, row: PostRow): ForumPost {
+  const db = getDatabase();
+  const reactions = Object.fromEntries(
+    Object.keys(reactionMeta).map((reaction) => [reaction, 0]),
+  ) as ForumPost["reactions"];
+  for (const { reaction, count } of db
+    .prepare<[string], { reaction: Reaction; count: number }>(
+      "SELECT reaction, COUNT(*) AS count FROM forum_reactions WHERE post_id = ? GROUP BY reaction",
+    )
+    .all(row.id)) {
+    reactions[reaction] = count;
+  }
+  const reacted = db
+    .prepare<[string, string], { reaction: Reaction }>(
+      "SELECT reaction FROM forum_reactions WHERE post_id = ? AND user_id = ?",
+    )
+    .all(row.id, viewer.id)
+    .map((r) => r.reaction);
+  const reports = viewer.moderator
+    ? (
+        db
+          .prepare<[string], { count: number }>(
+            "SELECT COUNT(*) AS count FROM forum_reports WHERE post_id = ? AND resolved_at IS NULL",
+          )
+          .get(row.id) as { count: number }
+      ).count
+    : 0;
+  const shown = row.hidden_at === null || viewer.moderator;
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    author: { id: row.author_id, displayName: row.author_name },
+    body: shown ? row.body : "",
+    route: shown && row.route ? JSON.parse(row.route) : null,
+    reactions,
+    reacted,
+    hidden: row.hidden_at !== null,
+    reports,
+    createdAt: row.created_at,
+  };
+}
+
+/** A page of a thread's posts, oldest first. Hidden ones keep their place. */
+export function listPosts(
+  viewer: ForumViewer,
+  threadId: string,
+  page: number,
+  pageSize: number,
+): { posts: ForumPost[]; page: number; pageCount: number } {
+  const db = getDatabase();
+  const { total } = db
+    .prepare<[string], { total: number }>(
+      "SELECT COUNT(*) AS total FROM forum_posts WHERE thread_id = ?",
+    )
+    .get(threadId) as { total: number };
+  const pageCount = pageCountOf(total, pageSize);
+  const current = Math.min(Math.max(1, Math.floor(page)), pageCount);
+  const posts = db
+    .prepare<[string, number, number], PostRow>(
+      `${postSelect} WHERE forum_posts.thread_id = ?
+       ORDER BY forum_posts.created_at LIMIT ? OFFSET ?`,
+    )
+    .all(threadId, pageSize, (current - 1) * pageSize)
+    .map((row) => toPost(viewer, row));
+  return { posts, page: current, pageCount };
+}
+
+/** The post, unless it or its thread is hidden from the viewer. */
+export function findPost(
+  viewer: ForumViewer,
+  postId: string,
+): ForumPost | null {
+  const row = getDatabase()
+    .prepare<[string], PostRow>(`${postSelect} WHERE forum_posts.id = ?`)
+    .get(postId);
+  if (!row || !findThread(viewer, row.thread_id)) return null;
+  if (row.hidden_at !== null && !viewer.moderator) return null;
+  return toPost(viewer, row);
+}
+
+function insertPost(
+  userId: string,
+  threadId: string,
+  { body, route }: PostInput,
+  createdAt: number,
+): string {
+  const id = randomUUID();
+  getDatabase()
+    .prepare(
+      "INSERT INTO forum_posts (id, thread_id, author_id, body, route, search, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    )
+    .run(
+      id,
+      threadId,
+      userId,
+      body,
+      route ? JSON.stringify(route) : null,
+      normalizeText(`${body} ${route?.title ?? ""}`),
+      createdAt,
+    );
+  return id;
+}
+
+/** Opens a thread with its first post. */
+export function createThread(
+  userId: string,
+  { city, level, title, ...post }: ThreadInput,
+): ForumThread {
+  const id = randomUUID();
+  const now = Date.now();
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      "INSERT INTO forum_threads (id, city, level, title, author_id, search, created_at, last_post_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    ).run(id, city, level, title, userId, normalizeText(title), now, now);
+    insertPost(userId, id, post, now);
+  })();
+  return findThread({ id: userId, moderator: false }, id) as ForumThread;
+}
+
+export function addPost(
+  viewer: ForumViewer,
+  threadId: string,
+  input: PostInput,
+): ForumPost {
+  const now = Date.now();
+  const db = getDatabase();
+  const id = db.transaction(() => {
+    const postId = insertPost(viewer.id, threadId, input, now);
+    db.prepare("UPDATE forum_threads SET last_post_at = ? WHERE id = ?").run(
+      now,
+      threadId,
+    );
+    return postId;
+  })();
+  return findPost(viewer, id) as ForumPost;
+}
+
+/** Adds the reaction, or takes it back when the user had already given it. */
+export function toggleReaction(
+  userId: string,
+  postId: string,
+  reaction: Reaction,
+) {
+  const db = getDatabase();
+  const removed = db
+    .prepare(
+      "DELETE FROM forum_reactions WHERE post_id = ? AND user_id = ? AND reaction = ?",
+    )
+    .run(postId, userId, reaction).changes;
+  if (!removed) {
+    db.prepare(
+      "INSERT INTO forum_reactions (post_id, user_id, reaction) VALUES (?, ?, ?)",
+    ).run(postId, userId, reaction);
+  }
+}
+
+/** One open report per user and post; reporting again updates the reason. */
+export function reportPost(userId: string, postId: string, reason: string) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO forum_reports (post_id, user_id, reason, created_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (post_id, user_id) DO UPDATE SET
+         reason = excluded.reason, created_at = excluded.created_at, resolved_at = NULL`,
+    )
+    .run(postId, userId, reason, Date.now());
+}
+
+export function updateThread(threadId: string, patch: ThreadPatch): boolean {
+  const db = getDatabase();
+  const sets: string[] = [];
+  const params: (number | null)[] = [];
+  if (patch.pinned !== undefined) {
+    sets.push("pinned = ?");
+    params.push(patch.pinned ? 1 : 0);
+  }
+  if (patch.locked !== undefined) {
+    sets.push("locked = ?");
+    params.push(patch.locked ? 1 : 0);
+  }
+  if (patch.hidden !== undefined) {
+    sets.push("hidden_at = ?");
+    params.push(patch.hidden ? Date.now() : null);
+  }
+  if (!sets.length) {
+    return Boolean(
+      db.prepare("SELECT 1 FROM forum_threads WHERE id = ?").get(threadId),
+    );
+  }
+  return (
+    db
+      .prepare(`UPDATE forum_threads SET ${sets.join(", ")} WHERE id = ?`)
+      .run(...params, threadId).changes > 0
+  );
+}
+
+/** Resolves the post's open reports, as hiding it does. */
+export function dismissReports(postId: string) {
+  getDatabase()
+    .prepare(
+      "UPDATE forum_reports SET resolved_at = ? WHERE post_id = ? AND resolved_at IS NULL",
+    )
+    .run(Date.now(), postId);
+}
+
+export function setPostHidden(postId: string, hidden: boolean): boolean {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const changed =
+      db
+        .prepare("UPDATE forum_posts SET hidden_at = ? WHERE id = ?")
+        .run(hidden ? Date.now() : null, postId).changes > 0;
+    if (changed && hidden) dismissReports(postId);
+    return changed;
+  })();
+}
+
+/** Posts with open reports, most recently reported first. */
+export function listReports(viewer: ForumViewer): ForumReport[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare<
+      [],
+      PostRow & {
+        thread_title: string;
+        thread_city: string;
+        thread_level: string;
+        reasons: string;
+        last_reported_at: number;
+      }
+    >(
+      `SELECT forum_posts.*, users.display_name AS author_name,
+        forum_threads.title AS thread_title, forum_threads.city AS thread_city,
+        forum_threads.level AS thread_level,
+        json_group_array(forum_reports.reason) AS reasons,
+        MAX(forum_reports.created_at) AS last_reported_at
+       FROM forum_reports
+       JOIN forum_posts ON forum_posts.id = forum_reports.post_id
+       JOIN forum_threads ON forum_threads.id = forum_posts.thread_id
+       JOIN users ON users.id = forum_posts.author_id
+       WHERE forum_reports.resolved_at IS NULL
+       GROUP BY forum_posts.id
+       ORDER BY last_reported_at DESC`,
+    )
+    .all();
+  return rows.map((row) => ({
+    post: toPost(viewer, row),
+    thread: {
+      id: row.thread_id,
+      title: row.thread_title,
+      city: row.thread_city as ForumThread["city"],
+      level: row.thread_level as ForumThread["level"],
+    },
+    reasons: JSON.parse(row.reasons),
+    lastReportedAt: row.last_reported_at,
+  }));
+}
+
+type GroupRunRow = {
+  id: string;
+  organizer_id: string;
+  organizer_name: string;
+  title: string;
+  route: string;
+  meeting_label: string;
+  meeting_lng: number;
+  meeting_lat: number;
+  starts_at: number;
+  time_zone: string;
+  pace: number;
+  capacity: number;
+  invite_code: string;
+  cancelled_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+const groupRunSelect = `SELECT group_runs.*, users.display_name AS organizer_name
+  FROM group_runs JOIN users ON users.id = group_runs.organizer_id`;
+
+function toGroupRun(row: GroupRunRow): GroupRun {
+  const attendees = getDatabase()
+    .prepare<[string, string], Participant>(
+      `SELECT users.id, users.display_name AS displayName
+       FROM group_run_rsvps JOIN users ON users.id = group_run_rsvps.user_id
+       WHERE group_run_rsvps.run_id = ?
+       ORDER BY group_run_rsvps.user_id = ? DESC, group_run_rsvps.created_at`,
+    )
+    .all(row.id, row.organizer_id);
+  return {
+    id: row.id,
+    organizer: { id: row.organizer_id, displayName: row.organizer_name },
+    title: row.title,
+    route: JSON.parse(row.route),
+    meetingPoint: {
+      lng: row.meeting_lng,
+      lat: row.meeting_lat,
+      label: row.meeting_label,
+    },
+    startsAt: row.starts_at,
+    timeZone: row.time_zone,
+    paceMinPerKm: row.pace,
+    capacity: row.capacity,
+    attendees,
+    inviteCode: row.invite_code,
+    cancelledAt: row.cancelled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function findGroupRun(runId: string): GroupRun | null {
+  const row = getDatabase()
+    .prepare<[string], GroupRunRow>(`${groupRunSelect} WHERE group_runs.id = ?`)
+    .get(runId);
+  return row ? toGroupRun(row) : null;
+}
+
+export function findGroupRunByInvite(inviteCode: string): GroupRun | null {
+  const row = getDatabase()
+    .prepare<[string], GroupRunRow>(
+      `${groupRunSelect} WHERE group_runs.invite_code = ?`,
+    )
+    .get(inviteCode);
+  return row ? toGroupRun(row) : null;
+}
+
+/** Runs the user RSVP'd to, organised ones included, that started after `since`. */
+export function listGroupRuns(userId: string, since: number): GroupRun[] {
+  return getDatabase()
+    .prepare<[string, number], GroupRunRow>(
+      `${groupRunSelect}
+       JOIN group_run_rsvps ON group_run_rsvps.run_id = group_runs.id
+       WHERE group_run_rsvps.user_id = ? AND group_runs.starts_at >= ?
+       ORDER BY group_runs.starts_at`,
+    )
+    .all(userId, since)
+    .map(toGroupRun);
+}
+
+/** Creates the run with the organiser as its first attendee. */
+export function createGroupRun(userId: string, input: GroupRunInput): GroupRun {
+  const id = randomUUID();
+  const now = Date.now();
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO group_runs (id, organizer_id, title, route, meeting_label, meeting_lng,
+         meeting_lat, starts_at, time_zone, pace, capacity, invite_code, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      id,
+      userId,
+      input.title,
+      JSON.stringify(input.route),
+      input.meetingPoint.label,
+      input.meetingPoint.lng,
+      input.meetingPoint.lat,
+      input.startsAt,
+      input.timeZone,
+      input.paceMinPerKm,
+      input.capacity,
+      newInviteCode(),
+      now,
+      now,
+    );
+    db.prepare(
+      "INSERT INTO group_run_rsvps (run_id, user_id, created_at) VALUES (?, ?, ?)",
+    ).run(id, userId, now);
+  })();
+  return findGroupRun(id) as GroupRun;
+}
+
+/**
+ * RSVPs the user. False when the run is already full; the count and the
+ * insert share a transaction so two last-minute RSVPs cannot both get in.
+ */
+export function joinGroupRun(runId: string, userId: string): boolean {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const { taken, capacity } = db
+      .prepare<[string], { taken: number; capacity: number }>(
+        `SELECT COUNT(group_run_rsvps.user_id) AS taken, group_runs.capacity
+         FROM group_runs LEFT JOIN group_run_rsvps ON group_run_rsvps.run_id = group_runs.id
+         WHERE group_runs.id = ?`,
+      )
+      .get(runId) as { taken: number; capacity: number };
+    if (taken >= capacity) return false;
+    db.prepare(
+      "INSERT OR IGNORE INTO group_run_rsvps (run_id, user_id, created_at) VALUES (?, ?, ?)",
+    ).run(runId, userId, Date.now());
+    return true;
+  })();
+}
+
+/** Takes back the RSVP, and any position the user was sharing. */
+export function leaveGroupRun(runId: string, userId: string) {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      "DELETE FROM group_run_rsvps WHERE run_id = ? AND user_id = ?",
+    ).run(runId, userId);
+    clearCrewPosition(runId, userId);
+  })();
+}
+
+export function moveGroupRun(runId: string, change: GroupRunChange) {
+  const sets = ["updated_at = ?"];
+  const params: (string | number)[] = [Date.now()];
+  if (change.startsAt !== undefined) {
+    sets.push("starts_at = ?");
+    params.push(change.startsAt);
+  }
+  if (change.meetingPoint) {
+    sets.push("meeting_label = ?", "meeting_lng = ?", "meeting_lat = ?");
+    params.push(
+      change.meetingPoint.label,
+      change.meetingPoint.lng,
+      change.meetingPoint.lat,
+    );
+  }
+  getDatabase()
+    .prepare(`UPDATE group_runs SET ${sets.join(", ")} WHERE id = ?`)
+    .run(...params, runId);
+}
+
+/** Cancels the run; shared positions go with it. */
+export function cancelGroupRun(runId: string) {
+  const now = Date.now();
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      "UPDATE group_runs SET cancelled_at = ?, updated_at = ? WHERE id = ?",
+    ).run(now, now, runId);
+    db.prepare("DELETE FROM group_run_positions WHERE run_id = ?").run(runId);
+  })();
+}
+
+/** Attendees with an email address, to tell about changes. */
+export function groupRunRecipients(
+  runId: string,
+): (Participant & { email: string })[] {
+  return getDatabase()
+    .prepare<[string], Participant & { email: string }>(
+      `SELECT users.id, users.display_name AS displayName, users.email
+       FROM group_run_rsvps JOIN users ON users.id = group_run_rsvps.user_id
+       WHERE group_run_rsvps.run_id = ? AND users.email IS NOT NULL`,
+    )
+    .all(runId);
+}
+
+type PositionRow = {
+  user_id: string;
+  display_name: string;
+  lng: number;
+  lat: number;
+  accuracy_m: number;
+  updated_at: number;
+};
+
+const toCrewPosition = (row: PositionRow): CrewPosition => ({
+  userId: row.user_id,
+  displayName: row.display_name,
+  lng: row.lng,
+  lat: row.lat,
+  accuracyM: row.accuracy_m,
+  at: row.updated_at,
+});
+
+const positionSelect = `SELECT group_run_positions.*, users.display_name
+  FROM group_run_positions JOIN users ON users.id = group_run_positions.user_id`;
+
+/** Keeps only the latest position: the group sees where people are, not where they went. */
+export function saveCrewPosition(
+  runId: string,
+  userId: string,
+  { lng, lat, accuracyM }: PositionInput,
+): CrewPosition {
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO group_run_positions (run_id, user_id, lng, lat, accuracy_m, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (run_id, user_id) DO UPDATE SET
+       lng = excluded.lng, lat = excluded.lat,
+       accuracy_m = excluded.accuracy_m, updated_at = excluded.updated_at`,
+  ).run(runId, userId, lng, lat, accuracyM, Date.now());
+  return toCrewPosition(
+    db
+      .prepare<[string, string], PositionRow>(
+        `${positionSelect} WHERE group_run_positions.run_id = ? AND group_run_positions.user_id = ?`,
+      )
+      .get(runId, userId) as PositionRow,
+  );
+}
+
+export function clearCrewPosition(runId: string, userId: string) {
+  getDatabase()
+    .prepare("DELETE FROM group_run_positions WHERE run_id = ? AND user_id = ?")
+    .run(runId, userId);
+}
+
+/** Positions sent recently enough to still mean something. */
+export function listCrewPositions(runId: string): CrewPosition[] {
+  return getDatabase()
+    .prepare<[string, number], PositionRow>(
+      `${positionSelect} WHERE group_run_positions.run_id = ?
+         AND group_run_positions.updated_at > ?`,
+    )
+    .all(runId, Date.now() - POSITION_STALE_MS)
+    .map(toCrewPosition);
+}
@@ -0,0 +1,10 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/** A random token for a cookie or link; only its hash is ever stored. */
+export const newToken = () => randomBytes(32).toString("base64url");
+
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("base64url");
+
+/** A short code for a link that is meant to be shared, stored as it is. */
+export const newInviteCode = () => randomBytes(9).toString("base64url");
@@ -0,0 +1,7 @@
+/** Raised when saved data cannot be read or written. The message is user-facing. */
+export class StorageError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "StorageError";
+  }
+}
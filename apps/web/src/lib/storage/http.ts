@@ -0,0 +1,96 @@
+import type { Activity } from "@/lib/activity/recorder";
+import { ApiRequestError, apiRequest } from "@/lib/api/client";
+import { createRoute } from "@/lib/route/model";
+import type { TrainingPlan } from "@/lib/training/types";
+import { StorageError } from "./errors";
+import { toSavedRoute } from "./repository";
+import type {
+  PlanRepository,
+  RoutineItem,
+  SavedRoute,
+  UserProfile,
+} from "./types";
+
+const toStorageError = (error: unknown) =>
+  error instanceof ApiRequestError
+    ? new StorageError(
+        error.code === "offline"
+          ? "No hay conexión con el servidor; tus cambios no se guardaron."
+          : error.message,
+        { cause: error },
+      )
+    : error;
+
+/** Repository on the app's own `/api` route handlers (SQLite on the server). */
+export function createHttpRepository({
+  baseUrl = "/api",
+  fetchImpl,
+}: {
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+} = {}): PlanRepository {
+  // A missing item reads as null; any other failure is a storage error.
+  const call = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await apiRequest<T>(path, { baseUrl, fetchImpl });
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status === 404) return null;
+      throw toStorageError(error);
+    }
+  };
+  const send = async (path: string, method: string, body?: unknown) => {
+    try {
+      await apiRequest(path, { method, body, baseUrl, fetchImpl });
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  };
+  const at = (collection: string, id: string) =>
+    `/${collection}/${encodeURIComponent(id)}`;
+
+  return {
+    routes: {
+      list: async () => {
+        const data = await call<{ routes: SavedRoute[] }>("/routes");
+        return (data?.routes ?? []).map(({ savedAt: _, ...input }) =>
+          createRoute(input),
+        );
+      },
+      save: (route) => send(at("routes", route.id), "PUT", toSavedRoute(route)),
+      remove: (id) => send(at("routes", id), "DELETE"),
+    },
+    favorites: {
+      list: async () =>
+        (await call<{ routeIds: string[] }>("/favorites"))?.routeIds ?? [],
+      set: (routeId, favorite) =>
+        send(at("favorites", routeId), favorite ? "PUT" : "DELETE"),
+    },
+    preferences: {
+      get: async () => {
+        const data = await call<{ profile: UserProfile }>("/profile");
+        if (!data) throw new StorageError("No se encontró tu perfil.");
+        return data.profile.preferences;
+      },
+      update: (patch) => send("/profile", "PATCH", { preferences: patch }),
+    },
+    routines: {
+      get: async (id) =>
+        (await call<{ routine: { items: RoutineItem[] } }>(at("routines", id)))
+          ?.routine.items ?? null,
+      save: (id, items) => send(at("routines", id), "PUT", { items }),
+    },
+    activities: {
+      list: async () =>
+        (await call<{ activities: Activity[] }>("/activities"))?.activities ??
+        [],
+      save: (activity) => send(at("activities", activity.id), "PUT", activity),
+      remove: (id) => send(at("activities", id), "DELETE"),
+    },
+    training: {
+      get: async () =>
+        (await call<{ plan: TrainingPlan }>("/training-plan"))?.plan ?? null,
+      save: (plan) => send("/training-plan", "PUT", plan),
+      clear: () => send("/training-plan", "DELETE"),
+    },
+  };
+}
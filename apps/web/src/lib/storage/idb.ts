@@ -0,0 +1,56 @@
+import { StorageError } from "./errors";
+import type { Migration } from "./schema";
+
+const FAILED = "No se pudieron leer o guardar tus datos en este navegador.";
+
+/** Resolves with the request's result once it succeeds. */
+export function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(new StorageError(FAILED, { cause: request.error }));
+  });
+}
+
+/** Resolves when the transaction commits, so writes are durable. */
+export function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new StorageError(FAILED, { cause: tx.error }));
+    tx.onabort = () => reject(new StorageError(FAILED, { cause: tx.error }));
+  });
+}
+
+/**
+ * Opens `name`, running every migration between the stored version and the
+ * latest one in order.
+ */
+export function openDatabase(
+  factory: IDBFactory,
+  name: string,
+  migrations: Migration[],
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(name, migrations.length);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction as IDBTransaction;
+      for (let v = event.oldVersion; v < migrations.length; v += 1) {
+        migrations[v](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it, and reopen on next use.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () =>
+      reject(new StorageError(FAILED, { cause: request.error }));
+    request.onblocked = () =>
+      reject(
+        new StorageError(
+          "Cierra las otras pestañas de HikeUp para actualizar tus datos guardados.",
+        ),
+      );
+  });
+}
@@ -0,0 +1,230 @@
+import type { Activity } from "@/lib/activity/recorder";
+import { createRoute, type RouteOption } from "@/lib/route/model";
+import type { TrainingPlan } from "@/lib/training/types";
+import { StorageError } from "./errors";
+import { committed, openDatabase, settle } from "./idb";
+import { DB_NAME, migrations } from "./schema";
+import type {
+  PlanRepository,
+  Preferences,
+  RoutineItem,
+  SavedRoute,
+  SavedRoutine,
+} from "./types";
+
+/** Routine shown on `/plan`; the coach and the training plan write to it. */
+export const ACTIVE_ROUTINE_ID = "active";
+
+export const defaultPreferences: Preferences = {
+  mode: "run",
+  mapType: "map",
+  activeRouteId: null,
+};
+
+export const toSavedRoute = (route: RouteOption): SavedRoute => ({
+  id: route.id,
+  title: route.title,
+  mode: route.mode,
+  safety: route.safety,
+  surface: route.surface,
+  path: route.path,
+  waypoints: route.waypoints,
+  savedAt: Date.now(),
+});
+
+const fromSaved = ({ savedAt: _, ...input }: SavedRoute): RouteOption =>
+  createRoute(input);
+
+const newestFirst = (a: Activity, b: Activity) => b.startedAt - a.startedAt;
+
+type StoreName =
+  | "routes"
+  | "favorites"
+  | "preferences"
+  | "routines"
+  | "activities"
+  | "trainingPlans";
+
+/**
+ * Repository on the browser's IndexedDB. The database opens on first use,
+ * so creating one during server rendering is harmless.
+ */
+export function createIndexedDbRepository(
+  factory: () => IDBFactory | undefined = () =>
+    typeof indexedDB === "undefined" ? undefined : indexedDB,
+): PlanRepository {
+  let opening: Promise<IDBDatabase> | null = null;
+  const database = () => {
+    const idb = factory();
+    if (!idb) {
+      return Promise.reject(
+        new StorageError("Este navegador no permite guardar datos."),
+      );
+    }
+    opening ??= openDatabase(idb, DB_NAME, migrations).then((db) => {
+      db.addEventListener("close", () => {
+        opening = null;
+      });
+      return db;
+    });
+    return opening;
+  };
+
+  const getAll = async <T>(store: StoreName): Promise<T[]> => {
+    const db = await database();
+    return settle(db.transaction(store).objectStore(store).getAll());
+  };
+  const get = async <T>(
+    store: StoreName,
+    key: string,
+  ): Promise<T | undefined> => {
+    const db = await database();
+    return settle(db.transaction(store).objectStore(store).get(key));
+  };
+  const write = async (
+    store: StoreName,
+    change: (objects: IDBObjectStore) => void,
+  ) => {
+    const db = await database();
+    const tx = db.transaction(store, "readwrite");
+    change(tx.objectStore(store));
+    await committed(tx);
+  };
+
+  return {
+    routes: {
+      list: async () =>
+        (await getAll<SavedRoute>("routes"))
+          .sort((a, b) => a.savedAt - b.savedAt)
+          .map(fromSaved),
+      save: (route) =>
+        write("routes", (store) => store.put(toSavedRoute(route))),
+      remove: (id) => write("routes", (store) => store.delete(id)),
+    },
+    favorites: {
+      list: async () =>
+        (await getAll<{ routeId: string }>("favorites")).map(
+          (entry) => entry.routeId,
+        ),
+      set: (routeId, favorite) =>
+        write("favorites", (store) =>
+          favorite ? store.put({ routeId }) : store.delete(routeId),
+        ),
+    },
+    preferences: {
+      get: async () => {
+        const entries = await getAll<{ key: string; value: unknown }>(
+          "preferences",
+        );
+        const stored = Object.fromEntries(
+          entries.map(({ key, value }) => [key, value]),
+        );
+        return { ...defaultPreferences, ...stored };
+      },
+      update: (patch) =>
+        write("preferences", (store) => {
+          for (const [key, value] of Object.entries(patch)) {
+            store.put({ key, value });
+          }
+        }),
+    },
+    routines: {
+      get: async (id) =>
+        (await get<SavedRoutine>("routines", id))?.items ?? null,
+      save: (id, items) =>
+        write("routines", (store) =>
+          store.put({
+            id,
+            items,
+            updatedAt: Date.now(),
+          } satisfies SavedRoutine),
+        ),
+    },
+    activities: {
+      list: async () =>
+        (await getAll<Activity>("activities")).sort(newestFirst),
+      save: (activity) => write("activities", (store) => store.put(activity)),
+      remove: (id) => write("activities", (store) => store.delete(id)),
+    },
+    training: {
+      get: async () => (await getAll<TrainingPlan>("trainingPlans"))[0] ?? null,
+      save: (plan) =>
+        write("trainingPlans", (store) => {
+          store.clear();
+          store.put(plan);
+        }),
+      clear: () => write("trainingPlans", (store) => store.clear()),
+    },
+  };
+}
+
+/** Keeps everything in memory; for tests, previews and browsers without IndexedDB. */
+export function createMemoryRepository(): PlanRepository {
+  const routes = new Map<string, SavedRoute>();
+  const favorites = new Set<string>();
+  let preferences = { ...defaultPreferences };
+  const routines = new Map<string, RoutineItem[]>();
+  const activities = new Map<string, Activity>();
+  let trainingPlan: TrainingPlan | null = null;
+
+  return {
+    routes: {
+      list: async () => [...routes.values()].map(fromSaved),
+      save: async (route) => {
+        routes.set(route.id, toSavedRoute(route));
+      },
+      remove: async (id) => {
+        routes.delete(id);
+      },
+    },
+    favorites: {
+      list: async () => [...favorites],
+      set: async (routeId, favorite) => {
+        if (favorite) favorites.add(routeId);
+        else favorites.delete(routeId);
+      },
+    },
+    preferences: {
+      get: async () => ({ ...preferences }),
+      update: async (patch) => {
+        preferences = { ...preferences, ...patch };
+      },
+    },
+    routines: {
+      get: async (id) => routines.get(id) ?? null,
+      save: async (id, items) => {
+        routines.set(id, items);
+      },
+    },
+    activities: {
+      list: async () => [...activities.values()].sort(newestFirst),
+      save: async (activity) => {
+        activities.set(activity.id, activity);
+      },
+      remove: async (id) => {
+        activities.delete(id);
+      },
+    },
+    training: {
+      get: async () => trainingPlan,
+      save: async (plan) => {
+        trainingPlan = plan;
+      },
+      clear: async () => {
+        trainingPlan = null;
+      },
+    },
+  };
+}
+
+/**
+ * This browser's storage only: IndexedDB where the browser has it, memory
+ * in one that does not. During server rendering it is the IndexedDB one,
+ * which never opens there. Nothing is sent to the server; signed-in users
+ * get `createHttpRepository` instead, picked by the page.
+ */
+export function createBrowserRepository(): PlanRepository {
+  return typeof indexedDB === "undefined" && typeof window !== "undefined"
+    ? createMemoryRepository()
+    : createIndexedDbRepository();
+}
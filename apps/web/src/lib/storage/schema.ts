@@ -0,0 +1,46 @@
+import type { Activity } from "@/lib/activity/recorder";
+
+export const DB_NAME = "hikeup";
+
+/**
+ * Upgrades one version of the database to the next. `migrations[n]` takes
+ * version n to n + 1 and runs inside the upgrade transaction.
+ */
+export type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Where the activity history lived before it moved into IndexedDB.
+const LEGACY_ACTIVITIES_KEY = "hikeup:activities";
+
+export const migrations: Migration[] = [
+  // 1: routes, favourites, preferences and routines.
+  (db) => {
+    db.createObjectStore("routes", { keyPath: "id" });
+    db.createObjectStore("favorites", { keyPath: "routeId" });
+    db.createObjectStore("preferences", { keyPath: "key" });
+    db.createObjectStore("routines", { keyPath: "id" });
+  },
+  // 2: activity history, imported from localStorage.
+  (db, tx) => {
+    const store = db.createObjectStore("activities", { keyPath: "id" });
+    store.createIndex("startedAt", "startedAt");
+    if (typeof localStorage === "undefined") return;
+    const raw = localStorage.getItem(LEGACY_ACTIVITIES_KEY);
+    if (!raw) return;
+    try {
+      for (const activity of JSON.parse(raw) as Activity[]) {
+        tx.objectStore("activities").put(activity);
+      }
+    } catch {
+      // Unreadable history is dropped rather than blocking the upgrade.
+    }
+    tx.addEventListener("complete", () =>
+      localStorage.removeItem(LEGACY_ACTIVITIES_KEY),
+    );
+  },
+  // 3: the training plan.
+  (db) => {
+    db.createObjectStore("trainingPlans", { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = migrations.length;
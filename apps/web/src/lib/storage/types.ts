@@ -0,0 +1,111 @@
+import type { Activity } from "@/lib/activity/recorder";
+import type { CityId } from "@/lib/geocoding/cities";
+import type { Mode } from "@/lib/modes";
+import type { RouteInput, RouteOption } from "@/lib/route/model";
+import type { RaceResult, TrainingPlan } from "@/lib/training/types";
+import type { WorkoutBlock } from "@/lib/workout/types";
+
+export type MapType = "map" | "sat";
+
+export type RoutineItem = {
+  step: string;
+  detail: string;
+  /** The item as a structured step or repeat, when the app built it. */
+  block?: WorkoutBlock;
+};
+
+export type Preferences = {
+  mode: Mode;
+  mapType: MapType;
+  activeRouteId: string | null;
+};
+
+/** What is kept of a route: its input. Derived stats are rebuilt on load. */
+export type SavedRoute = RouteInput & { savedAt: number };
+
+export type Units = "metric" | "imperial";
+
+export type Language = "es" | "en";
+
+export type UserRole = "member" | "moderator";
+
+export type UserProfile = {
+  id: string;
+  email: string | null;
+  displayName: string;
+  city: CityId | null;
+  /** Moderators can pin, lock and hide in the forums. */
+  role: UserRole;
+  units: Units;
+  language: Language;
+  /** Mode `/plan` opens in until the user picks another. */
+  defaultMode: Mode;
+  targetPaceMinPerKm: number | null;
+  /** Recent race or time trial; training paces are worked out from it. */
+  recentRace: RaceResult | null;
+  maxHr: number | null;
+  /** Lactate threshold heart rate. */
+  lthr: number | null;
+  preferences: Preferences;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** The fields a user can change on their profile. */
+export type ProfilePatch = Partial<
+  Pick<
+    UserProfile,
+    | "displayName"
+    | "city"
+    | "units"
+    | "language"
+    | "defaultMode"
+    | "targetPaceMinPerKm"
+    | "recentRace"
+    | "maxHr"
+    | "lthr"
+  >
+> & { preferences?: Partial<Preferences> };
+
+export type SavedRoutine = {
+  id: string;
+  items: RoutineItem[];
+  updatedAt: number;
+};
+
+/**
+ * Everything `/plan` keeps between visits. Components talk to this type
+ * only, so the browser database can be swapped for a server backend.
+ */
+export type PlanRepository = {
+  routes: {
+    list: () => Promise<RouteOption[]>;
+    save: (route: RouteOption) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+  };
+  favorites: {
+    /** Route ids, presets included. */
+    list: () => Promise<string[]>;
+    set: (routeId: string, favorite: boolean) => Promise<void>;
+  };
+  preferences: {
+    get: () => Promise<Preferences>;
+    update: (patch: Partial<Preferences>) => Promise<void>;
+  };
+  routines: {
+    get: (id: string) => Promise<RoutineItem[] | null>;
+    save: (id: string, items: RoutineItem[]) => Promise<void>;
+  };
+  activities: {
+    /** Newest first. */
+    list: () => Promise<Activity[]>;
+    save: (activity: Activity) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+  };
+  /** The user's one training plan; saving replaces it. */
+  training: {
+    get: () => Promise<TrainingPlan | null>;
+    save: (plan: TrainingPlan) => Promise<void>;
+    clear: () => Promise<void>;
+  };
+};
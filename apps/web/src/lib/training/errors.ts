@@ -0,0 +1,7 @@
+/** Raised when a plan cannot be built from the input. The message is user-facing. */
+export class TrainingPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrainingPlanError";
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { generatePlan } from "./plan";
+import type { PlanInput, RaceGoal, Weekday } from "./types";
+import { zonesFromEasyPace } from "./zones";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const plan = (goal: RaceGoal, weeklyKm: number, days: Weekday[]) =>
+  generatePlan(
+    {
+      goal,
+      raceDate: "2027-01-17",
+      weeklyKm,
+      days,
+      zones: zonesFromEasyPace(6),
+    } satisfies PlanInput,
+    NOW,
+  );
+
+describe("generatePlan volumes", () => {
+  it.each([
+    ["10k", 100, [1, 3]],
+    ["10k", 100, [1, 3, 5, 6]],
+    ["5k", 80, [0, 2, 4]],
+    ["half", 20, [1, 3, 5]],
+    ["half", 100, [1, 3]],
+  ] as const)(
+    "never tapers above the peak: %s from %d km on %j",
+    (goal, km, days) => {
+      const { weeks } = plan(goal, km, [...days]);
+      const training = weeks.filter((week) => week.phase !== "taper");
+      const top = Math.max(...training.map((week) => week.distanceKm));
+      for (const week of weeks.filter((w) => w.phase === "taper")) {
+        expect(week.distanceKm).toBeLessThanOrEqual(top);
+      }
+    },
+  );
+
+  it("caps the first week like the rest", () => {
+    const { weeks } = plan("10k", 100, [0, 1, 2, 3, 4, 5, 6]);
+    expect(weeks[0].distanceKm).toBeLessThanOrEqual(weeks[1].distanceKm);
+  });
+});
@@ -0,0 +1,636 @@
+import type { RoutineItem } from "@/lib/storage/types";
+import {
+  distanceGoal,
+  paceTarget,
+  repeat,
+  step,
+  timeGoal,
+} from "@/lib/workout/workout";
+import { TrainingPlanError } from "./errors";
+import type {
+  PaceZones,
+  PlanInput,
+  PlannedSession,
+  PlanPhase,
+  PlanWeek,
+  RaceGoal,
+  TrainingPlan,
+  Weekday,
+} from "./types";
+import { paceText, racePace } from "./zones";
+
+export const MIN_PLAN_WEEKS = 3;
+export const MAX_PLAN_WEEKS = 24;
+
+export const goalMeta: Record<
+  RaceGoal,
+  {
+    label: string;
+    raceKm: number;
+    /** Weekly volume the plan aims at for a typical runner. */
+    peakKm: number;
+    longRunCapKm: number;
+    taperWeeks: number;
+  }
+> = {
+  "5k": { label: "5K", raceKm: 5, peakKm: 30, longRunCapKm: 12, taperWeeks: 1 },
+  "10k": {
+    label: "10K",
+    raceKm: 10,
+    peakKm: 40,
+    longRunCapKm: 16,
+    taperWeeks: 1,
+  },
+  half: {
+    label: "Media maratón",
+    raceKm: 21.1,
+    peakKm: 50,
+    longRunCapKm: 20,
+    taperWeeks: 2,
+  },
+  trail: {
+    label: "Trail (~25 km)",
+    raceKm: 25,
+    peakKm: 50,
+    longRunCapKm: 24,
+    taperWeeks: 2,
+  },
+};
+
+export const phaseLabel: Record<PlanPhase, string> = {
+  base: "Base",
+  build: "Construcción",
+  peak: "Pico",
+  taper: "Descarga",
+};
+
+// The usual 10 % rule, with every fourth week eased off to absorb the load.
+const WEEKLY_INCREASE = 1.1;
+const CUTBACK_EVERY = 4;
+const CUTBACK_FACTOR = 0.8;
+const TAPER_FACTORS: Record<number, number[]> = { 1: [0.55], 2: [0.75, 0.5] };
+const LONG_RUN_SHARE = 0.3;
+const QUALITY_SHARE = 0.17;
+const MIN_QUALITY_KM = 6;
+const MAX_QUALITY_KM = 14;
+// Easy runs stay clearly shorter than the long run.
+const EASY_TO_LONG = 0.75;
+const MIN_RUN_KM = 3;
+const WARMUP_KM = 2;
+
+const DAY_MS = 86_400_000;
+// Plan dates are calendar days, counted in UTC so no time zone moves them.
+const toDay = (iso: string) => Date.parse(`${iso}T00:00:00Z`) / DAY_MS;
+const fromDay = (day: number) =>
+  new Date(day * DAY_MS).toISOString().slice(0, 10);
+// 1970-01-01, day 0, was a Thursday.
+const weekdayOf = (day: number) => ((day + 3) % 7) as Weekday;
+const roundKm = (km: number) => Math.round(km * 2) / 2;
+
+/** The user's zones and how to write a pace in their units. */
+type Targets = { zones: PaceZones; pace: (minPerKm: number) => string };
+
+/** The local calendar date as YYYY-MM-DD. */
+export function todayIso(now = new Date()): string {
+  const month = (now.getMonth() + 1).toString().padStart(2, "0");
+  const day = now.getDate().toString().padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function weekdayOfIso(iso: string): Weekday {
+  return weekdayOf(toDay(iso));
+}
+
+function periodize(weeks: number, taperWeeks: number): PlanPhase[] {
+  const taper = weeks >= 8 ? taperWeeks : 1;
+  const rest = weeks - taper;
+  const peak = Math.max(1, Math.round(rest * 0.2));
+  const build = Math.max(1, Math.min(rest - peak, Math.round(rest * 0.35)));
+  const base = rest - peak - build;
+  return [
+    ...Array<PlanPhase>(base).fill("base"),
+    ...Array<PlanPhase>(build).fill("build"),
+    ...Array<PlanPhase>(peak).fill("peak"),
+    ...Array<PlanPhase>(taper).fill("taper"),
+  ];
+}
+
+/** Volumes of the weeks before the taper, which `generatePlan` adds. */
+function weeklyVolumes(
+  phases: PlanPhase[],
+  currentKm: number,
+  goal: RaceGoal,
+): number[] {
+  const { peakKm } = goalMeta[goal];
+  // Aim past what the user runs now, but not absurdly far from the goal's norm.
+  const target = Math.min(
+    Math.max(currentKm * 1.5, peakKm * 0.6),
+    peakKm * 1.3,
+  );
+  let load = Math.min(Math.max(currentKm, MIN_RUN_KM * 3), target);
+  return phases
+    .filter((phase) => phase !== "taper")
+    .map((phase, index) => {
+      if (index > 0) load = Math.min(load * WEEKLY_INCREASE, target);
+      const cutback =
+        phase !== "peak" && index % CUTBACK_EVERY === CUTBACK_EVERY - 1;
+      return cutback ? load * CUTBACK_FACTOR : load;
+    });
+}
+
+/** Spreads hard days apart: each pick is as far as possible from the others. */
+function pickQualityDays(
+  available: number[],
+  longDay: number,
+  count: number,
+): number[] {
+  const picked: number[] = [];
+  const hard = [longDay];
+  const gap = (a: number, b: number) => {
+    const d = Math.abs(a - b);
+    return Math.min(d, 7 - d);
+  };
+  for (let i = 0; i < count; i += 1) {
+    const candidates = available.filter(
+      (day) => day !== longDay && !picked.includes(day),
+    );
+    if (!candidates.length) break;
+    const best = candidates.reduce((a, b) =>
+      Math.min(...hard.map((h) => gap(b, h))) >
+      Math.min(...hard.map((h) => gap(a, h)))
+        ? b
+        : a,
+    );
+    picked.push(best);
+    hard.push(best);
+  }
+  return picked;
+}
+
+function qualityCount(phase: PlanPhase, daysAvailable: number): number {
+  if (daysAvailable < 3) return phase === "base" ? 0 : 1;
+  if (phase === "base") return 0;
+  if (phase === "taper") return 1;
+  return daysAvailable >= 4 ? 2 : 1;
+}
+
+const restSession = (date: string): PlannedSession => ({
+  date,
+  kind: "rest",
+  title: "Descanso",
+  distanceKm: 0,
+  items: [
+    {
+      step: "Descanso",
+      detail: "Movilidad suave o caminar 20 min",
+      block: step("Descanso", "rest", timeGoal(20)),
+    },
+  ],
+});
+
+function easySession(
+  date: string,
+  km: number,
+  { zones, pace }: Targets,
+  strides: boolean,
+): PlannedSession {
+  const items: RoutineItem[] = [
+    {
+      step: "Rodaje",
+      detail: `${km} km a ${pace(zones.easy)}`,
+      block: step("Rodaje", "active", distanceGoal(km), paceTarget(zones.easy)),
+    },
+  ];
+  if (strides) {
+    items.push({
+      step: "Strides",
+      detail: `6 x 20 s a ${pace(zones.repetition)}, recuperación completa`,
+      block: repeat(
+        6,
+        step(
+          "Strides",
+          "active",
+          timeGoal(20 / 60),
+          paceTarget(zones.repetition),
+        ),
+        step("Recuperación", "recovery", timeGoal(1)),
+      ),
+    });
+  }
+  return { date, kind: "easy", title: "Rodaje suave", distanceKm: km, items };
+}
+
+function longSession(
+  date: string,
+  km: number,
+  { zones, pace }: Targets,
+  goal: RaceGoal,
+  phase: PlanPhase,
+): PlannedSession {
+  // Late in a half-marathon build the long run finishes at race effort.
+  const finishKm = goal === "half" && phase === "peak" ? roundKm(km / 3) : 0;
+  const items: RoutineItem[] = [
+    {
+      step: "Tirada larga",
+      detail: `${km - finishKm} km a ${pace(zones.easy)}${
+        goal === "trail" ? " por terreno con desnivel" : ""
+      }`,
+      block: step(
+        "Tirada larga",
+        "active",
+        distanceGoal(km - finishKm),
+        paceTarget(zones.easy),
+      ),
+    },
+  ];
+  if (finishKm) {
+    items.push({
+      step: "Final a ritmo",
+      detail: `${finishKm} km a ${pace(zones.marathon)}`,
+      block: step(
+        "Final a ritmo",
+        "active",
+        distanceGoal(finishKm),
+        paceTarget(zones.marathon),
+      ),
+    });
+  }
+  return { date, kind: "long", title: "Tirada larga", distanceKm: km, items };
+}
+
+function qualitySession(
+  date: string,
+  km: number,
+  { zones, pace }: Targets,
+  goal: RaceGoal,
+  phase: PlanPhase,
+  slot: number,
+): PlannedSession {
+  const mainKm = Math.max(2, km - WARMUP_KM * 2);
+  const warmup: RoutineItem = {
+    step: "Calentamiento",
+    detail: `${WARMUP_KM} km a ${pace(zones.easy)}`,
+    block: step(
+      "Calentamiento",
+      "warmup",
+      distanceGoal(WARMUP_KM),
+      paceTarget(zones.easy),
+    ),
+  };
+  const cooldown: RoutineItem = {
+    step: "Enfriar",
+    detail: `${WARMUP_KM} km suave + estiramientos`,
+    block: step(
+      "Enfriar",
+      "cooldown",
+      distanceGoal(WARMUP_KM),
+      paceTarget(zones.easy),
+    ),
+  };
+
+  if (goal === "trail" && slot === 0) {
+    const reps = Math.min(12, Math.max(6, Math.round(mainKm * 2)));
+    return {
+      date,
+      kind: "hills",
+      title: "Cuestas",
+      distanceKm: km,
+      items: [
+        warmup,
+        {
+          step: "Cuestas",
+          detail: `${reps} x 75 s cuesta arriba fuerte, bajada trotando`,
+          block: repeat(
+            reps,
+            step("Cuesta arriba", "active", timeGoal(75 / 60)),
+            step("Bajada trotando", "recovery", timeGoal(1.5)),
+          ),
+        },
+        cooldown,
+      ],
+    };
+  }
+
+  // The first hard day is threshold work; the second sharpens speed.
+  const speed = slot === 1 || (phase === "peak" && goal === "5k");
+  if (!speed) {
+    const cruise = phase === "peak" && mainKm >= 6;
+    const tempo = (km: number) =>
+      step("Tempo", "active", distanceGoal(km), paceTarget(zones.threshold));
+    return {
+      date,
+      kind: "tempo",
+      title: "Tempo",
+      distanceKm: km,
+      items: [
+        warmup,
+        cruise
+          ? {
+              step: "Tempo",
+              detail: `3 x ${roundKm(mainKm / 3)} km a ${pace(zones.threshold)} (rec 1 min)`,
+              block: repeat(
+                3,
+                tempo(roundKm(mainKm / 3)),
+                step("Recuperación", "recovery", timeGoal(1)),
+              ),
+            }
+          : {
+              step: "Tempo",
+              detail: `${mainKm} km continuos a ${pace(zones.threshold)}`,
+              block: tempo(mainKm),
+            },
+        cooldown,
+      ],
+    };
+  }
+
+  const repM = goal === "5k" ? (phase === "peak" ? 1000 : 800) : 1000;
+  const reps = Math.min(8, Math.max(3, Math.round((mainKm * 1000) / repM)));
+  const items: RoutineItem[] = [
+    warmup,
+    {
+      step: "Series",
+      detail: `${reps} x ${repM} m a ${pace(zones.interval)} (rec 2 min trote)`,
+      block: repeat(
+        reps,
+        step(
+          "Series",
+          "active",
+          distanceGoal(repM / 1000),
+          paceTarget(zones.interval),
+        ),
+        step("Recuperación", "recovery", timeGoal(2)),
+      ),
+    },
+  ];
+  if (goal === "5k") {
+    items.push({
+      step: "Velocidad",
+      detail: `4 x 200 m a ${pace(zones.repetition)} (rec 200 m caminando)`,
+      block: repeat(
+        4,
+        step(
+          "Velocidad",
+          "active",
+          distanceGoal(0.2),
+          paceTarget(zones.repetition),
+        ),
+        step("Recuperación", "recovery", distanceGoal(0.2)),
+      ),
+    });
+  }
+  items.push(cooldown);
+  return { date, kind: "intervals", title: "Series", distanceKm: km, items };
+}
+
+function raceSession(
+  date: string,
+  goal: RaceGoal,
+  { zones, pace }: Targets,
+): PlannedSession {
+  const { label, raceKm } = goalMeta[goal];
+  // Trail races go by effort.
+  const target = goal === "trail" ? null : racePace(zones, goal);
+  return {
+    date,
+    kind: "race",
+    title: `Carrera ${label}`,
+    distanceKm: raceKm,
+    items: [
+      {
+        step: "Calentamiento",
+        detail: "15 min suave + 4 strides",
+        block: step(
+          "Calentamiento",
+          "warmup",
+          timeGoal(15),
+          paceTarget(zones.easy),
+        ),
+      },
+      {
+        step: "Carrera",
+        detail: target
+          ? `${raceKm} km a ${pace(target)}`
+          : `${raceKm} km por sensaciones, come y bebe cada 30 min`,
+        block: step(
+          "Carrera",
+          "active",
+          distanceGoal(raceKm),
+          target ? paceTarget(target) : undefined,
+        ),
+      },
+      {
+        step: "Enfriar",
+        detail: "10 min caminando + estiramientos",
+        block: step("Enfriar", "cooldown", timeGoal(10)),
+      },
+    ],
+  };
+}
+
+function buildWeek(
+  index: number,
+  phase: PlanPhase,
+  volume: number,
+  monday: number,
+  {
+    start,
+    race,
+    days,
+    longRunDay,
+    targets,
+    goal,
+  }: {
+    start: number;
+    race: number;
+    days: Weekday[];
+    longRunDay: Weekday;
+    targets: Targets;
+    goal: RaceGoal;
+  },
+): PlanWeek {
+  const inPlan = (weekday: number) =>
+    monday + weekday >= start && monday + weekday <= race;
+  const available: number[] = days.filter(inPlan);
+  const dateOf = (weekday: number) => fromDay(monday + weekday);
+  const sessions: PlannedSession[] = [];
+
+  if (race < monday + 7) {
+    // Race week: short easy runs, a rest day before the race.
+    const raceWeekday = race - monday;
+    const runs = available.filter((day) => day < raceWeekday - 1);
+    for (let day = 0; day < 7; day += 1) {
+      if (!inPlan(day)) continue;
+      if (day === raceWeekday)
+        sessions.push(raceSession(dateOf(day), goal, targets));
+      else if (runs.includes(day)) {
+        const km = roundKm(
+          Math.max(MIN_RUN_KM, volume / Math.max(runs.length, 1) / 2),
+        );
+        sessions.push(easySession(dateOf(day), km, targets, day === runs[0]));
+      } else sessions.push(restSession(dateOf(day)));
+    }
+  } else {
+    const longDay = available.includes(longRunDay)
+      ? longRunDay
+      : available[available.length - 1];
+    const quality = pickQualityDays(
+      available,
+      longDay,
+      qualityCount(phase, available.length),
+    );
+    const easyDays = available.filter(
+      (day) => day !== longDay && !quality.includes(day),
+    );
+    const qualityKm = roundKm(
+      Math.min(
+        MAX_QUALITY_KM,
+        Math.max(MIN_QUALITY_KM, volume * QUALITY_SHARE),
+      ),
+    );
+    const easyBudget = volume - qualityKm * quality.length;
+    // The long run takes its share, and more when easy days would outgrow it.
+    const longKm = roundKm(
+      Math.min(
+        goalMeta[goal].longRunCapKm,
+        Math.max(
+          MIN_QUALITY_KM,
+          volume * LONG_RUN_SHARE,
+          easyBudget / (1 + EASY_TO_LONG * easyDays.length),
+        ),
+      ),
+    );
+    const easyKm = roundKm(
+      Math.max(
+        MIN_RUN_KM,
+        Math.min(
+          longKm * EASY_TO_LONG,
+          (easyBudget - longKm) / Math.max(easyDays.length, 1),
+        ),
+      ),
+    );
+    const stridesDay = phase === "base" ? easyDays[0] : undefined;
+    const sortedQuality = [...quality].sort((a, b) => a - b);
+
+    for (let day = 0; day < 7; day += 1) {
+      if (!inPlan(day)) continue;
+      const date = dateOf(day);
+      if (day === longDay) {
+        sessions.push(longSession(date, longKm, targets, goal, phase));
+      } else if (quality.includes(day)) {
+        sessions.push(
+          qualitySession(
+            date,
+            qualityKm,
+            targets,
+            goal,
+            phase,
+            sortedQuality.indexOf(day),
+          ),
+        );
+      } else if (easyDays.includes(day)) {
+        sessions.push(easySession(date, easyKm, targets, day === stridesDay));
+      } else {
+        sessions.push(restSession(date));
+      }
+    }
+  }
+
+  return {
+    index,
+    phase,
+    startDate: fromDay(monday),
+    distanceKm: roundKm(
+      sessions.reduce((acc, session) => acc + session.distanceKm, 0),
+    ),
+    sessions,
+  };
+}
+
+/**
+ * Builds a periodized plan up to race day: base, build, peak and taper
+ * weeks, volume growing about 10 % a week with a lighter week every fourth,
+ * a long run and up to two quality sessions a week paced from `zones`,
+ * written in the user's units.
+ */
+export function generatePlan(input: PlanInput, now = new Date()): TrainingPlan {
+  const startDate = input.startDate ?? todayIso(now);
+  const start = toDay(startDate);
+  const race = toDay(input.raceDate);
+  if (!Number.isFinite(race) || !Number.isFinite(start)) {
+    throw new TrainingPlanError("La fecha de la carrera no es válida.");
+  }
+  if (race <= start) {
+    throw new TrainingPlanError("La carrera tiene que ser después de hoy.");
+  }
+  const days = [...new Set(input.days)].sort((a, b) => a - b);
+  if (days.length < 2) {
+    throw new TrainingPlanError("Elige al menos dos días para entrenar.");
+  }
+  if (!(input.weeklyKm >= 0)) {
+    throw new TrainingPlanError("Los kilómetros por semana no son válidos.");
+  }
+
+  const firstMonday = start - weekdayOf(start);
+  const weekCount = (race - weekdayOf(race) - firstMonday) / 7 + 1;
+  if (weekCount < MIN_PLAN_WEEKS) {
+    throw new TrainingPlanError(
+      `Faltan muy pocas semanas; el plan necesita al menos ${MIN_PLAN_WEEKS}.`,
+    );
+  }
+  if (weekCount > MAX_PLAN_WEEKS) {
+    throw new TrainingPlanError(
+      `El plan cubre hasta ${MAX_PLAN_WEEKS} semanas; elige una carrera más cercana.`,
+    );
+  }
+
+  const phases = periodize(weekCount, goalMeta[input.goal].taperWeeks);
+  const volumes = weeklyVolumes(phases, input.weeklyKm, input.goal);
+  const longRunDay = input.longRunDay ?? days[days.length - 1];
+  const week = (index: number, phase: PlanPhase, volume: number) =>
+    buildWeek(index + 1, phase, volume, firstMonday + index * 7, {
+      start,
+      race,
+      days,
+      longRunDay,
+      targets: {
+        zones: input.zones,
+        pace: (minPerKm) => paceText(minPerKm, input.units),
+      },
+      goal: input.goal,
+    });
+  const training = volumes.map((volume, i) => week(i, phases[i], volume));
+  // The taper eases off the biggest week as planned, after the long-run and
+  // session caps, so it never asks for more than the peak did.
+  const top = Math.max(...training.map((w) => w.distanceKm));
+  const taper = TAPER_FACTORS[phases.length - training.length].map(
+    (factor, i) => week(training.length + i, "taper", top * factor),
+  );
+  const weeks = [...training, ...taper];
+
+  return {
+    id: `plan-${now.getTime()}`,
+    goal: input.goal,
+    raceDate: input.raceDate,
+    startDate,
+    weeklyKm: input.weeklyKm,
+    days,
+    longRunDay,
+    zones: input.zones,
+    units: input.units ?? "metric",
+    weeks,
+    createdAt: now.getTime(),
+  };
+}
+
+/** The session planned for `date`, if the plan covers it. */
+export function sessionOn(
+  plan: TrainingPlan,
+  date: string,
+): PlannedSession | null {
+  for (const week of plan.weeks) {
+    const session = week.sessions.find((s) => s.date === date);
+    if (session) return session;
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import type { RoutineItem, Units } from "@/lib/storage/types";
+
+export type RaceGoal = "5k" | "10k" | "half" | "trail";
+
+/** 0 = Monday … 6 = Sunday. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** Target paces in min/km, slowest first. */
+export type PaceZones = {
+  easy: number;
+  marathon: number;
+  threshold: number;
+  interval: number;
+  repetition: number;
+};
+
+/** Zones plus the units the user reads paces in. */
+export type PaceTargets = { zones: PaceZones; units: Units };
+
+export type PlanInput = {
+  goal: RaceGoal;
+  /** ISO date, YYYY-MM-DD. */
+  raceDate: string;
+  /** First day of the plan; today when omitted. */
+  startDate?: string;
+  /** What the user runs in a week now. */
+  weeklyKm: number;
+  /** Days the user can train. */
+  days: Weekday[];
+  /** Defaults to the last available day of the week. */
+  longRunDay?: Weekday;
+  zones: PaceZones;
+  /** Units the session paces are written in; metric by default. */
+  units?: Units;
+};
+
+export type PlanPhase = "base" | "build" | "peak" | "taper";
+
+export type SessionKind =
+  | "rest"
+  | "easy"
+  | "long"
+  | "tempo"
+  | "intervals"
+  | "hills"
+  | "race";
+
+export type PlannedSession = {
+  /** ISO date, YYYY-MM-DD. */
+  date: string;
+  kind: SessionKind;
+  title: string;
+  distanceKm: number;
+  /** Ready to become the active routine on the map. */
+  items: RoutineItem[];
+};
+
+export type PlanWeek = {
+  /** 1-based. */
+  index: number;
+  phase: PlanPhase;
+  /** Monday of the week, even when the plan starts later in it. */
+  startDate: string;
+  distanceKm: number;
+  sessions: PlannedSession[];
+};
+
+export type TrainingPlan = Omit<PlanInput, "startDate" | "units"> & {
+  id: string;
+  startDate: string;
+  units: Units;
+  weeks: PlanWeek[];
+  createdAt: number;
+};
+
+/** A recent race or time trial the zones are worked out from. */
+export type RaceResult = { distanceKm: number; minutes: number };
+
+export type RaceTime = RaceResult & { label: string };
+
+export type HeartRateZone = {
+  /** 1–5. */
+  zone: number;
+  label: string;
+  minBpm: number;
+  maxBpm: number;
+};
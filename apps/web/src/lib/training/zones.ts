@@ -0,0 +1,193 @@
+import { formatPace } from "@/lib/eta";
+import type { Units } from "@/lib/storage/types";
+import type {
+  HeartRateZone,
+  PaceZones,
+  RaceGoal,
+  RaceResult,
+  RaceTime,
+} from "./types";
+
+const KM_PER_MILE = 1.609344;
+export const MARATHON_KM = 42.195;
+export const HALF_MARATHON_KM = 21.0975;
+
+// Each zone as a fraction of easy pace, close to Daniels' tables for
+// recreational runners (VDOT 35–55).
+const ZONE_RATIO: Record<keyof PaceZones, number> = {
+  easy: 1,
+  marathon: 0.845,
+  threshold: 0.8,
+  interval: 0.735,
+  repetition: 0.68,
+};
+
+/** Zones from the pace the user runs comfortably, e.g. their profile's target pace. */
+export function zonesFromEasyPace(easyMinPerKm: number): PaceZones {
+  return {
+    easy: easyMinPerKm * ZONE_RATIO.easy,
+    marathon: easyMinPerKm * ZONE_RATIO.marathon,
+    threshold: easyMinPerKm * ZONE_RATIO.threshold,
+    interval: easyMinPerKm * ZONE_RATIO.interval,
+    repetition: easyMinPerKm * ZONE_RATIO.repetition,
+  };
+}
+
+// Daniels & Gilbert: oxygen cost of running at v metres per minute, and the
+// fraction of VO2max a runner can hold for t minutes.
+const oxygenCost = (v: number) => -4.6 + 0.182258 * v + 0.000104 * v * v;
+const sustainable = (minutes: number) =>
+  0.8 +
+  0.1894393 * Math.exp(-0.012778 * minutes) +
+  0.2989558 * Math.exp(-0.1932605 * minutes);
+// Inverse of `oxygenCost`: the speed in m/min that costs `vo2`.
+const speedFor = (vo2: number) =>
+  (-0.182258 + Math.sqrt(0.182258 ** 2 + 4 * 0.000104 * (4.6 + vo2))) /
+  (2 * 0.000104);
+
+/** Efforts as a fraction of VDOT; marathon pace comes from the race prediction. */
+const VDOT_EFFORT = {
+  easy: 0.7,
+  threshold: 0.88,
+  interval: 0.975,
+  repetition: 1.05,
+};
+
+/** Daniels' VDOT for a race or time trial; null when it is not a plausible effort. */
+export function vdotFromRace({
+  distanceKm,
+  minutes,
+}: RaceResult): number | null {
+  if (!(distanceKm > 0) || !(minutes > 0)) return null;
+  const vdot = oxygenCost((distanceKm * 1000) / minutes) / sustainable(minutes);
+  return Number.isFinite(vdot) && vdot >= 15 && vdot <= 90 ? vdot : null;
+}
+
+/** Minutes a runner with `vdot` should take for `distanceKm`. */
+export function predictRaceMinutes(vdot: number, distanceKm: number): number {
+  // VDOT falls as the time grows, so a bisection on time finds it.
+  let fast = distanceKm * 1.5;
+  let slow = distanceKm * 20;
+  for (let i = 0; i < 50; i += 1) {
+    const mid = (fast + slow) / 2;
+    if ((vdotFromRace({ distanceKm, minutes: mid }) ?? 0) > vdot) fast = mid;
+    else slow = mid;
+  }
+  return (fast + slow) / 2;
+}
+
+export const EQUIVALENT_DISTANCES: { label: string; distanceKm: number }[] = [
+  { label: "1500 m", distanceKm: 1.5 },
+  { label: "5K", distanceKm: 5 },
+  { label: "10K", distanceKm: 10 },
+  { label: "Media maratón", distanceKm: HALF_MARATHON_KM },
+  { label: "Maratón", distanceKm: MARATHON_KM },
+];
+
+/** Times the same fitness predicts over the usual race distances. */
+export function equivalentRaces(vdot: number): RaceTime[] {
+  return EQUIVALENT_DISTANCES.map(({ label, distanceKm }) => ({
+    label,
+    distanceKm,
+    minutes: predictRaceMinutes(vdot, distanceKm),
+  }));
+}
+
+export function zonesFromVdot(vdot: number): PaceZones {
+  const paceAt = (effort: number) => 1000 / speedFor(vdot * effort);
+  return {
+    easy: paceAt(VDOT_EFFORT.easy),
+    marathon: predictRaceMinutes(vdot, MARATHON_KM) / MARATHON_KM,
+    threshold: paceAt(VDOT_EFFORT.threshold),
+    interval: paceAt(VDOT_EFFORT.interval),
+    repetition: paceAt(VDOT_EFFORT.repetition),
+  };
+}
+
+// Race paces sit between the zones: 5K just slower than interval pace, 10K
+// just under threshold, the half just over it.
+const RACE_PACE: Record<
+  Exclude<RaceGoal, "trail">,
+  [keyof PaceZones, number]
+> = {
+  "5k": ["interval", 1.02],
+  "10k": ["threshold", 0.98],
+  half: ["threshold", 1.03],
+};
+
+/** Goal pace for a road race in min/km. */
+export function racePace(
+  zones: PaceZones,
+  goal: Exclude<RaceGoal, "trail">,
+): number {
+  const [zone, factor] = RACE_PACE[goal];
+  return zones[zone] * factor;
+}
+
+/** Zones from a race result, or null when the result is not usable. */
+export function zonesFromRace(result: RaceResult): PaceZones | null {
+  const vdot = vdotFromRace(result);
+  return vdot === null ? null : zonesFromVdot(vdot);
+}
+
+const zoneNames = [
+  "Recuperación",
+  "Aeróbico",
+  "Tempo",
+  "Umbral",
+  "VO2 máx",
+] as const;
+
+// Zone edges as fractions of the reference HR, from the bottom of zone 1 to
+// the top of zone 5. Lactate threshold follows Friel's running zones; max HR
+// the usual 60/70/80/90 % split.
+const LTHR_BOUNDS = [0.7, 0.85, 0.9, 0.95, 1, 1.06];
+const MAX_HR_BOUNDS = [0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+/**
+ * Five heart-rate zones. Lactate threshold HR is preferred when both are
+ * given, since it says more about the runner than max HR does.
+ */
+export function heartRateZones({
+  maxHr,
+  lthr,
+}: {
+  maxHr?: number | null;
+  lthr?: number | null;
+}): HeartRateZone[] | null {
+  const reference = lthr ?? maxHr;
+  if (!reference) return null;
+  const bounds = lthr ? LTHR_BOUNDS : MAX_HR_BOUNDS;
+  return zoneNames.map((label, i) => ({
+    zone: i + 1,
+    label,
+    minBpm: Math.round(reference * bounds[i]),
+    maxBpm: Math.round(reference * bounds[i + 1]) - (i < 4 ? 1 : 0),
+  }));
+}
+
+/** "5:10/km", or per mile for imperial units. */
+export function paceText(minPerKm: number, units: Units = "metric"): string {
+  return units === "imperial"
+    ? `${formatPace(minPerKm * KM_PER_MILE)}/mi`
+    : `${formatPace(minPerKm)}/km`;
+}
+
+/** "41:20" or "1:31:35". */
+export function formatRaceTime(minutes: number): string {
+  const total = Math.round(minutes * 60);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, "0");
+  return h ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/** Reads "41:20" or "1:31:35" as minutes; null when it is not a time. */
+export function parseRaceTime(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d{1,2}):)?(\d{1,3}):([0-5]\d)$/);
+  if (!match) return null;
+  const [, h, m, s] = match;
+  if (h && Number(m) > 59) return null;
+  const minutes = Number(h ?? 0) * 60 + Number(m) + Number(s) / 60;
+  return minutes > 0 ? minutes : null;
+}
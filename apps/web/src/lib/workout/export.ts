@@ -0,0 +1,192 @@
+import { escapeXml } from "@/lib/route/xml";
+import type { StepTarget, Workout, WorkoutStep } from "./types";
+import { flattenWorkout } from "./workout";
+
+export type WorkoutExportFormat = "fit" | "zwo";
+
+export type WorkoutExportOptions = {
+  /**
+   * Threshold pace in min/km. Zwift scales run efforts against it, and
+   * distance steps are timed at easy pace derived from it.
+   */
+  thresholdMinPerKm: number;
+  now?: Date;
+};
+
+// A pace target becomes a speed window this wide on the watch.
+const PACE_TOLERANCE_MIN = 5 / 60;
+// Easy pace relative to threshold, close to the training zones.
+const EASY_TO_THRESHOLD = 1.25;
+
+const speedMps = (minPerKm: number) => 1000 / (minPerKm * 60);
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+function fitTarget(target: StepTarget) {
+  if (target.kind === "pace") {
+    return {
+      target_type: "speed",
+      target_value: 0,
+      custom_target_speed_low: round3(
+        speedMps(target.minPerKm + PACE_TOLERANCE_MIN),
+      ),
+      custom_target_speed_high: round3(
+        speedMps(target.minPerKm - PACE_TOLERANCE_MIN),
+      ),
+    };
+  }
+  if (target.kind === "heart-rate") {
+    // FIT stores custom heart rates offset by 100; lower values mean % of max.
+    return {
+      target_type: "heart_rate",
+      target_value: 0,
+      custom_target_heart_rate_low: target.minBpm + 100,
+      custom_target_heart_rate_high: target.maxBpm + 100,
+    };
+  }
+  return { target_type: "open" };
+}
+
+function fitStep(step: WorkoutStep, messageIndex: number) {
+  const duration =
+    step.goal.kind === "time"
+      ? { duration_type: "time", duration_time: step.goal.seconds }
+      : step.goal.kind === "distance"
+        ? { duration_type: "distance", duration_distance: step.goal.meters }
+        : { duration_type: "open" };
+  return {
+    message_index: messageIndex,
+    wkt_step_name: step.name.slice(0, 16),
+    intensity: step.intensity,
+    ...duration,
+    ...fitTarget(step.target),
+  };
+}
+
+/**
+ * The FIT SDK's workout messages as JSON (file_id, workout, workout_step),
+ * ready for the SDK's encoder. Repeats follow the steps they loop over.
+ */
+export function workoutToFitJson(
+  workout: Workout,
+  { now = new Date() }: Partial<WorkoutExportOptions> = {},
+): string {
+  const steps: Record<string, unknown>[] = [];
+  for (const block of workout.blocks) {
+    if (block.type === "step") {
+      steps.push(fitStep(block, steps.length));
+      continue;
+    }
+    const first = steps.length;
+    for (const inner of block.steps) steps.push(fitStep(inner, steps.length));
+    steps.push({
+      message_index: steps.length,
+      duration_type: "repeat_until_steps_cmplt",
+      duration_step: first,
+      repeat_steps: block.times,
+    });
+  }
+  return `${JSON.stringify(
+    {
+      file_id: {
+        type: "workout",
+        manufacturer: "development",
+        time_created: now.toISOString(),
+      },
+      workout: {
+        wkt_name: workout.name,
+        sport: "running",
+        num_valid_steps: steps.length,
+      },
+      workout_step: steps,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+/** Seconds a step should take, timing distance steps at its target or easy pace. */
+function stepSeconds(step: WorkoutStep, easyMinPerKm: number): number {
+  if (step.goal.kind === "time") return step.goal.seconds;
+  if (step.goal.kind === "distance") {
+    const pace =
+      step.target.kind === "pace" ? step.target.minPerKm : easyMinPerKm;
+    return Math.round((step.goal.meters / 1000) * pace * 60);
+  }
+  // Zwift has no open steps; five minutes of free running stands in.
+  return 300;
+}
+
+/**
+ * Zwift workout XML. Runs express effort as a fraction of threshold speed,
+ * so pace targets are scaled against `thresholdMinPerKm`; steps without a
+ * pace target are free runs, with a heart-rate range shown as text.
+ */
+export function workoutToZwo(
+  workout: Workout,
+  { thresholdMinPerKm }: WorkoutExportOptions,
+): string {
+  const easy = thresholdMinPerKm * EASY_TO_THRESHOLD;
+  const effort = (minPerKm: number) =>
+    round3(thresholdMinPerKm / minPerKm).toString();
+  const lines = flattenWorkout(workout).map((step) => {
+    const duration = stepSeconds(step, easy);
+    const name = escapeXml(
+      step.round
+        ? `${step.name} ${step.round.index}/${step.round.of}`
+        : step.name,
+    );
+    const hint =
+      step.target.kind === "heart-rate"
+        ? ` · ${step.target.minBpm}-${step.target.maxBpm} ppm`
+        : "";
+    const text = `<textevent timeoffset="0" message="${name}${hint}"/>`;
+    if (step.target.kind !== "pace") {
+      return `    <FreeRide Duration="${duration}">${text}</FreeRide>`;
+    }
+    const power = effort(step.target.minPerKm);
+    const tag =
+      step.intensity === "warmup"
+        ? "Warmup"
+        : step.intensity === "cooldown"
+          ? "Cooldown"
+          : null;
+    return tag
+      ? `    <${tag} Duration="${duration}" PowerLow="${power}" PowerHigh="${power}">${text}</${tag}>`
+      : `    <SteadyState Duration="${duration}" Power="${power}">${text}</SteadyState>`;
+  });
+  return [
+    "<workout_file>",
+    "  <author>HikeUp</author>",
+    `  <name>${escapeXml(workout.name)}</name>`,
+    "  <description>Exportado desde HikeUp</description>",
+    "  <sportType>run</sportType>",
+    "  <workout>",
+    ...lines,
+    "  </workout>",
+    "</workout_file>",
+    "",
+  ].join("\n");
+}
+
+export const workoutExporters: Record<
+  WorkoutExportFormat,
+  {
+    label: string;
+    extension: string;
+    mime: string;
+    serialize: (workout: Workout, options: WorkoutExportOptions) => string;
+  }
+> = {
+  fit: {
+    label: "FIT (JSON)",
+    extension: "fit.json",
+    mime: "application/json",
+    serialize: workoutToFitJson,
+  },
+  zwo: {
+    label: "ZWO",
+    extension: "zwo",
+    mime: "application/xml",
+    serialize: workoutToZwo,
+  },
+};
@@ -0,0 +1,107 @@
+import { parsePace } from "@/lib/eta";
+import type { RoutineItem } from "@/lib/storage/types";
+import type {
+  StepGoal,
+  StepIntensity,
+  StepTarget,
+  WorkoutBlock,
+} from "./types";
+
+const KM_PER_MILE = 1.609344;
+
+const fold = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const intensityTerms: [RegExp, StepIntensity][] = [
+  [/calentamiento|warm/, "warmup"],
+  [/enfri|calma|cool/, "cooldown"],
+  [/descanso|rest\b/, "rest"],
+  [/recupera|recovery/, "recovery"],
+];
+
+const number = (text: string) => Number(text.replace(",", "."));
+
+// `min` before `m` so minutes are not read as metres.
+const AMOUNT = String.raw`(\d+(?:[.,]\d+)?)\s*(min|km|m|s)(?![a-z])`;
+
+function amountGoal(value: number, unit: string): StepGoal {
+  if (unit === "min") return { kind: "time", seconds: Math.round(value * 60) };
+  if (unit === "s") return { kind: "time", seconds: Math.round(value) };
+  if (unit === "km")
+    return { kind: "distance", meters: Math.round(value * 1000) };
+  return { kind: "distance", meters: Math.round(value) };
+}
+
+function readTarget(text: string): StepTarget {
+  const hr = text.match(/(\d{2,3})\s*[-–]\s*(\d{2,3})\s*ppm/);
+  if (hr) {
+    return { kind: "heart-rate", minBpm: number(hr[1]), maxBpm: number(hr[2]) };
+  }
+  const clock = text.match(/(\d{1,2}:[0-5]\d)\s*\/\s*(km|mi)\b/);
+  const pace = clock ? parsePace(clock[1]) : null;
+  if (clock && pace !== null) {
+    return {
+      kind: "pace",
+      minPerKm: clock[2] === "mi" ? pace / KM_PER_MILE : pace,
+    };
+  }
+  return { kind: "open" };
+}
+
+function readGoal(text: string): StepGoal {
+  // "12 min movilidad + 8 min trote" is 20 minutes; a range takes its low end.
+  const times = [...text.matchAll(/(\d+)(?:\s*-\s*\d+)?\s*min(?![a-z])/g)];
+  if (times.length) {
+    const total = times.reduce((sum, match) => sum + number(match[1]), 0);
+    return { kind: "time", seconds: total * 60 };
+  }
+  const amount = text.match(new RegExp(AMOUNT));
+  return amount ? amountGoal(number(amount[1]), amount[2]) : { kind: "open" };
+}
+
+/**
+ * Reads a free-text routine item ("4 x 1 km a 5:10/km (rec 2 min)",
+ * "20 min a ritmo controlado") as a workout block.
+ */
+export function parseBlock({ step, detail }: RoutineItem): WorkoutBlock {
+  const text = fold(detail);
+  const intensity =
+    intensityTerms.find(([pattern]) => pattern.test(fold(step)))?.[1] ??
+    "active";
+  const target = readTarget(text);
+
+  const reps = text.match(new RegExp(String.raw`(\d+)\s*x\s*${AMOUNT}`));
+  if (reps) {
+    const work = {
+      type: "step" as const,
+      name: step,
+      intensity,
+      goal: amountGoal(number(reps[2]), reps[3]),
+      target,
+    };
+    const rest =
+      text.match(new RegExp(String.raw`rec\w*\.?\s*${AMOUNT}`)) ??
+      text.match(new RegExp(String.raw`\(\s*${AMOUNT}[^)]*\)`));
+    return {
+      type: "repeat",
+      times: number(reps[1]),
+      steps: rest
+        ? [
+            work,
+            {
+              type: "step",
+              name: "Recuperación",
+              intensity: "recovery",
+              goal: amountGoal(number(rest[1]), rest[2]),
+              target: { kind: "open" },
+            },
+          ]
+        : [work],
+    };
+  }
+
+  return { type: "step", name: step, intensity, goal: readGoal(text), target };
+}
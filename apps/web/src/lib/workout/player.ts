@@ -0,0 +1,212 @@
+import type { NavigationLang } from "@/lib/navigation/phrases";
+import type { Units } from "@/lib/storage/types";
+import type { PlayedStep, Workout } from "./types";
+import { flattenWorkout, goalText, targetText } from "./workout";
+
+export type WorkoutEvent =
+  | { type: "step"; text: string }
+  | { type: "heads-up"; text: string }
+  | { type: "finished"; text: string };
+
+/** How far the session has gone: moving time and recorded distance. */
+export type WorkoutProgress = { seconds: number; distanceKm: number };
+
+export type WorkoutSnapshot = {
+  index: number;
+  total: number;
+  step: PlayedStep | null;
+  next: PlayedStep | null;
+  /** Left in the current step, for time goals. */
+  remainingSeconds: number | null;
+  /** Left in the current step, for distance goals. */
+  remainingMeters: number | null;
+  finished: boolean;
+};
+
+export type WorkoutPlayer = {
+  steps: PlayedStep[];
+  snapshot: () => WorkoutSnapshot;
+  /** Begins the first step at `progress`. */
+  start: (progress: WorkoutProgress) => WorkoutEvent[];
+  /** Feeds progress; returns what should be said or signalled. */
+  update: (progress: WorkoutProgress) => WorkoutEvent[];
+  /** Moves on by hand, e.g. for open steps. */
+  skip: (progress: WorkoutProgress) => WorkoutEvent[];
+  back: (progress: WorkoutProgress) => WorkoutEvent[];
+  /** Language of the events from now on; step names stay as written. */
+  setLang: (lang: NavigationLang) => void;
+};
+
+/** Haptics for each event, in the navigator's pattern style. */
+export const workoutVibration: Record<WorkoutEvent["type"], number[]> = {
+  step: [200, 100, 200],
+  "heads-up": [80],
+  finished: [120, 60, 120, 60, 300],
+};
+
+// Time steps at least this long get a spoken warning before they end.
+const HEADS_UP_S = 10;
+const HEADS_UP_MIN_STEP_S = 45;
+
+type WorkoutPhrases = {
+  round: (index: number, of: number) => string;
+  at: string;
+  perKm: string;
+  perMile: string;
+  bpm: string;
+  headsUp: (seconds: number, next: string) => string;
+  headsUpLast: (seconds: number) => string;
+  finished: string;
+};
+
+const workoutPhrases: Record<NavigationLang, WorkoutPhrases> = {
+  es: {
+    round: (index, of) => `${index} de ${of}`,
+    at: "a",
+    perKm: " por kilómetro",
+    perMile: " por milla",
+    bpm: "pulsaciones",
+    headsUp: (seconds, next) => `${seconds} segundos. Después, ${next}.`,
+    headsUpLast: (seconds) => `${seconds} segundos para terminar.`,
+    finished: "Entrenamiento completado.",
+  },
+  en: {
+    round: (index, of) => `${index} of ${of}`,
+    at: "at",
+    perKm: " per kilometre",
+    perMile: " per mile",
+    bpm: "beats per minute",
+    headsUp: (seconds, next) => `${seconds} seconds. Then, ${next}.`,
+    headsUpLast: (seconds) => `${seconds} seconds to go.`,
+    finished: "Workout complete.",
+  },
+};
+
+function spokenStep(
+  step: PlayedStep,
+  units: Units,
+  phrases: WorkoutPhrases,
+): string {
+  const round = step.round
+    ? `, ${phrases.round(step.round.index, step.round.of)}`
+    : "";
+  const target = targetText(step.target, units)
+    ?.replace("/km", phrases.perKm)
+    .replace("/mi", phrases.perMile)
+    .replace("ppm", phrases.bpm);
+  const goal = step.goal.kind === "open" ? "" : `, ${goalText(step.goal)}`;
+  return `${step.name}${round}${goal}${target ? ` ${phrases.at} ${target}` : ""}.`;
+}
+
+/**
+ * Steps through a workout on time or distance. Pure: the caller feeds
+ * progress (a timer, or the recording's moving time and distance) and turns
+ * the events into speech and vibration.
+ */
+export function createWorkoutPlayer(
+  workout: Workout,
+  {
+    units = "metric",
+    lang = "es",
+  }: { units?: Units; lang?: NavigationLang } = {},
+): WorkoutPlayer {
+  const steps = flattenWorkout(workout);
+  let phrases = workoutPhrases[lang];
+  let index = 0;
+  let startedAt: WorkoutProgress = { seconds: 0, distanceKm: 0 };
+  let latest = startedAt;
+  let warned = false;
+
+  const current = () => steps[index] ?? null;
+  const finished = () => index >= steps.length;
+
+  const remaining = () => {
+    const step = current();
+    if (!step) return { seconds: null, meters: null };
+    if (step.goal.kind === "time") {
+      return {
+        seconds: Math.max(
+          0,
+          step.goal.seconds - (latest.seconds - startedAt.seconds),
+        ),
+        meters: null,
+      };
+    }
+    if (step.goal.kind === "distance") {
+      return {
+        seconds: null,
+        meters: Math.max(
+          0,
+          step.goal.meters - (latest.distanceKm - startedAt.distanceKm) * 1000,
+        ),
+      };
+    }
+    return { seconds: null, meters: null };
+  };
+
+  const enter = (next: number, progress: WorkoutProgress): WorkoutEvent[] => {
+    index = Math.max(0, Math.min(next, steps.length));
+    startedAt = progress;
+    latest = progress;
+    warned = false;
+    const step = current();
+    if (!step) return [{ type: "finished", text: phrases.finished }];
+    return [{ type: "step", text: spokenStep(step, units, phrases) }];
+  };
+
+  return {
+    steps,
+    snapshot() {
+      const left = remaining();
+      return {
+        index,
+        total: steps.length,
+        step: current(),
+        next: steps[index + 1] ?? null,
+        remainingSeconds: left.seconds,
+        remainingMeters: left.meters,
+        finished: finished(),
+      };
+    },
+    start(progress) {
+      return enter(0, progress);
+    },
+    update(progress) {
+      if (finished()) return [];
+      latest = progress;
+      const left = remaining();
+      if (left.seconds === 0 || left.meters === 0) {
+        return enter(index + 1, progress);
+      }
+      const step = current();
+      if (
+        !warned &&
+        step?.goal.kind === "time" &&
+        step.goal.seconds >= HEADS_UP_MIN_STEP_S &&
+        left.seconds !== null &&
+        left.seconds <= HEADS_UP_S
+      ) {
+        warned = true;
+        const next = steps[index + 1];
+        return [
+          {
+            type: "heads-up",
+            text: next
+              ? phrases.headsUp(HEADS_UP_S, next.name.toLowerCase())
+              : phrases.headsUpLast(HEADS_UP_S),
+          },
+        ];
+      }
+      return [];
+    },
+    skip(progress) {
+      return finished() ? [] : enter(index + 1, progress);
+    },
+    back(progress) {
+      return enter(Math.max(0, index - 1), progress);
+    },
+    setLang(next) {
+      phrases = workoutPhrases[next];
+    },
+  };
+}
@@ -0,0 +1,48 @@
+export type StepIntensity =
+  | "warmup"
+  | "active"
+  | "recovery"
+  | "cooldown"
+  | "rest";
+
+/** When a step is over. */
+export type StepGoal =
+  | { kind: "time"; seconds: number }
+  | { kind: "distance"; meters: number }
+  /** Until the user moves on. */
+  | { kind: "open" };
+
+/** What to hold during a step. */
+export type StepTarget =
+  | { kind: "pace"; minPerKm: number }
+  | { kind: "heart-rate"; minBpm: number; maxBpm: number }
+  | { kind: "open" };
+
+export type WorkoutStep = {
+  type: "step";
+  name: string;
+  intensity: StepIntensity;
+  goal: StepGoal;
+  target: StepTarget;
+};
+
+export type WorkoutRepeat = {
+  type: "repeat";
+  times: number;
+  steps: WorkoutStep[];
+};
+
+export type WorkoutBlock = WorkoutStep | WorkoutRepeat;
+
+export type Workout = {
+  name: string;
+  blocks: WorkoutBlock[];
+};
+
+/** One step as the player runs it, repeats unrolled. */
+export type PlayedStep = WorkoutStep & {
+  /** Index of the routine item the step comes from. */
+  itemIndex: number;
+  /** 1-based round within its repeat. */
+  round?: { index: number; of: number };
+};
@@ -0,0 +1,99 @@
+import type { RoutineItem, Units } from "@/lib/storage/types";
+import { paceText } from "@/lib/training/zones";
+import { parseBlock } from "./parse";
+import type {
+  PlayedStep,
+  StepGoal,
+  StepIntensity,
+  StepTarget,
+  Workout,
+  WorkoutBlock,
+  WorkoutStep,
+} from "./types";
+
+export const OPEN_GOAL: StepGoal = { kind: "open" };
+export const OPEN_TARGET: StepTarget = { kind: "open" };
+
+export const timeGoal = (minutes: number): StepGoal => ({
+  kind: "time",
+  seconds: Math.round(minutes * 60),
+});
+
+export const distanceGoal = (km: number): StepGoal => ({
+  kind: "distance",
+  meters: Math.round(km * 1000),
+});
+
+export const paceTarget = (minPerKm: number): StepTarget => ({
+  kind: "pace",
+  minPerKm,
+});
+
+export function step(
+  name: string,
+  intensity: StepIntensity,
+  goal: StepGoal,
+  target: StepTarget = OPEN_TARGET,
+): WorkoutStep {
+  return { type: "step", name, intensity, goal, target };
+}
+
+export function repeat(times: number, ...steps: WorkoutStep[]): WorkoutBlock {
+  return { type: "repeat", times, steps };
+}
+
+/**
+ * The routine as a workout. Items carry their block when they were built
+ * by the app; free text (the coach's model, older saves) is read as well as
+ * it can be, and what cannot be read becomes an open step.
+ */
+export function workoutFromRoutine(
+  name: string,
+  items: RoutineItem[],
+): Workout {
+  return { name, blocks: items.map((item) => item.block ?? parseBlock(item)) };
+}
+
+/** Steps in the order they are run, with repeats unrolled. */
+export function flattenWorkout({ blocks }: Workout): PlayedStep[] {
+  return blocks.flatMap((block, itemIndex) =>
+    block.type === "step"
+      ? [{ ...block, itemIndex }]
+      : Array.from({ length: block.times }, (_, round) =>
+          block.steps.map((inner) => ({
+            ...inner,
+            itemIndex,
+            round: { index: round + 1, of: block.times },
+          })),
+        ).flat(),
+  );
+}
+
+export function goalText(goal: StepGoal): string {
+  if (goal.kind === "time") {
+    const m = Math.floor(goal.seconds / 60);
+    const s = goal.seconds % 60;
+    if (!m) return `${s} s`;
+    return s ? `${m} min ${s} s` : `${m} min`;
+  }
+  if (goal.kind === "distance") {
+    return goal.meters < 1000
+      ? `${goal.meters} m`
+      : `${Number((goal.meters / 1000).toFixed(2))} km`;
+  }
+  return "hasta que pulses siguiente";
+}
+
+export function targetText(target: StepTarget, units: Units): string | null {
+  if (target.kind === "pace") return paceText(target.minPerKm, units);
+  if (target.kind === "heart-rate")
+    return `${target.minBpm}–${target.maxBpm} ppm`;
+  return null;
+}
+
+/** "Serie 2/6 · 600 m a 4:41/km". */
+export function describeStep(step: PlayedStep, units: Units): string {
+  const round = step.round ? ` ${step.round.index}/${step.round.of}` : "";
+  const target = targetText(step.target, units);
+  return `${step.name}${round} · ${goalText(step.goal)}${target ? ` a ${target}` : ""}`;
+}